@@ -0,0 +1,43 @@
+/**
+ * Starts the proxy server from environment variables
+ *
+ * OPENAI_API_KEY is required. See the README for the other settings.
+ */
+
+import { createProxyServer, OPENAI_DEFAULT_BASE_URL } from './proxyServer.js';
+
+const apiKey = process.env.OPENAI_API_KEY;
+if (!apiKey) {
+  console.error('[ProxyServer] OPENAI_API_KEY is required');
+  process.exit(1);
+}
+
+const port = parseInt(process.env.PROXY_PORT ?? '8787', 10);
+// The app's own origins when run with `npm run dev` or `npm run preview`
+const allowedOrigins = (process.env.PROXY_ALLOWED_ORIGINS ?? 'http://localhost:5173,http://localhost:4173')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+const server = createProxyServer({
+  apiKey,
+  upstreamBaseUrl: process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL,
+  rateLimit: {
+    maxRequests: parseInt(process.env.PROXY_RATE_LIMIT_MAX ?? '30', 10),
+    windowMs: parseInt(process.env.PROXY_RATE_LIMIT_WINDOW_MS ?? '60000', 10),
+  },
+  addressRateLimit: {
+    maxRequests: parseInt(process.env.PROXY_ADDRESS_RATE_LIMIT_MAX ?? '120', 10),
+    windowMs: parseInt(process.env.PROXY_RATE_LIMIT_WINDOW_MS ?? '60000', 10),
+  },
+  allowedModels: (process.env.PROXY_ALLOWED_MODELS ?? 'gpt-4o-mini')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean),
+  maxTokens: parseInt(process.env.PROXY_MAX_TOKENS ?? '500', 10),
+  allowedOrigins,
+});
+
+server.listen(port, () => {
+  console.log(`[ProxyServer] Listening on http://localhost:${port}`);
+});
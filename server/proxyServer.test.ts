@@ -0,0 +1,223 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the proxy server, against a fake upstream
+ */
+
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createProxyServer } from './proxyServer';
+import type { ProxyServerOptions } from './proxyServer';
+
+describe('ProxyServer', () => {
+  let server: Server;
+  let baseUrl: string;
+  let upstream: jest.Mock;
+
+  const completion = {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!' }, finish_reason: 'stop' }],
+  };
+
+  const start = async (options: Partial<ProxyServerOptions> = {}) => {
+    server = createProxyServer({
+      apiKey: 'sk-secret',
+      upstreamBaseUrl: 'https://upstream.test/v1',
+      fetchImpl: upstream,
+      allowedOrigins: ['https://app.example'],
+      ...options,
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const chat = (body: object, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/v1/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer ignored', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    upstream = jest.fn().mockImplementation(async () => Response.json(completion));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should forward chat completions with the server-side key', async () => {
+    await start();
+
+    const response = await chat({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual(completion);
+    expect(upstream).toHaveBeenCalledWith('https://upstream.test/v1/chat/completions', expect.objectContaining({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer sk-secret' },
+      body: JSON.stringify({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }], max_tokens: 500, n: 1 }),
+    }));
+  });
+
+  it('should only forward allowed models, fields and reply lengths', async () => {
+    await start({ allowedModels: ['gpt-4o-mini', 'gpt-4o'], maxTokens: 300 });
+
+    const response = await chat({
+      model: 'gpt-4o',
+      messages: [],
+      max_tokens: 100000,
+      n: 8,
+      logprobs: true,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    await response.text();
+
+    expect(JSON.parse(upstream.mock.calls[0][1].body)).toEqual({
+      model: 'gpt-4o',
+      messages: [],
+      max_tokens: 300,
+      n: 1,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    await chat({ messages: [], max_tokens: 50 });
+    expect(JSON.parse(upstream.mock.calls[1][1].body)).toMatchObject({ model: 'gpt-4o-mini', max_tokens: 50 });
+  });
+
+  it('should refuse models that are not allowed', async () => {
+    await start();
+
+    const response = await chat({ model: 'o1-pro', messages: [] });
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({
+      error: { message: 'Model o1-pro is not available through this proxy', type: 'proxy_error' },
+    });
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('should pass streamed replies through as server-sent events', async () => {
+    const events = ['data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n', 'data: {"choices":[{"delta":{"content":"lo"}}]}\n\n', 'data: [DONE]\n\n'];
+    upstream.mockImplementation(async () => new Response(
+      new ReadableStream({
+        start(controller) {
+          events.forEach(event => controller.enqueue(new TextEncoder().encode(event)));
+          controller.close();
+        },
+      }),
+      { headers: { 'Content-Type': 'text/event-stream' } }
+    ));
+    await start();
+
+    const response = await chat({ model: 'gpt-4o-mini', messages: [], stream: true });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    await expect(response.text()).resolves.toBe(events.join(''));
+  });
+
+  it('should pass upstream errors through with their status', async () => {
+    upstream.mockImplementation(async () => Response.json({ error: { message: 'Invalid messages' } }, { status: 400 }));
+    await start();
+
+    const response = await chat({ model: 'gpt-4o-mini', messages: 'nope' });
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ error: { message: 'Invalid messages' } });
+  });
+
+  it('should report an unreachable upstream as a bad gateway', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    upstream.mockRejectedValue(new Error('ECONNREFUSED'));
+    await start();
+
+    const response = await chat({ model: 'gpt-4o-mini', messages: [] });
+
+    expect(response.status).toBe(502);
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should limit requests per device', async () => {
+    let time = 0;
+    await start({ rateLimit: { maxRequests: 2, windowMs: 60_000 }, now: () => time });
+
+    expect((await chat({ messages: [] }, { 'X-Device-Id': 'tablet' })).status).toBe(200);
+    expect((await chat({ messages: [] }, { 'X-Device-Id': 'tablet' })).status).toBe(200);
+
+    const limited = await chat({ messages: [] }, { 'X-Device-Id': 'tablet' });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+
+    // Other devices have their own allowance
+    expect((await chat({ messages: [] }, { 'X-Device-Id': 'phone' })).status).toBe(200);
+
+    time = 60_001;
+    expect((await chat({ messages: [] }, { 'X-Device-Id': 'tablet' })).status).toBe(200);
+    expect(upstream).toHaveBeenCalledTimes(4);
+  });
+
+  it('should limit requests per address whatever device id is sent', async () => {
+    await start({ addressRateLimit: { maxRequests: 3, windowMs: 60_000 } });
+
+    const statuses = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await chat({ messages: [] }, { 'X-Device-Id': `device-${i}` })).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 200, 429]);
+    expect(upstream).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject bodies that are not JSON objects', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/v1/chat/completions`, { method: 'POST', body: 'hello' });
+
+    expect(response.status).toBe(400);
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('should answer CORS preflights for allowed origins only', async () => {
+    await start({ allowedOrigins: ['https://app.example'] });
+
+    const preflight = (origin: string) => fetch(`${baseUrl}/v1/chat/completions`, {
+      method: 'OPTIONS',
+      headers: { Origin: origin, 'Access-Control-Request-Headers': 'authorization,content-type' },
+    });
+
+    const allowed = await preflight('https://app.example');
+    expect(allowed.status).toBe(204);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example');
+    expect(allowed.headers.get('access-control-allow-headers')).toBe('authorization,content-type');
+
+    const other = await preflight('https://elsewhere.example');
+    expect(other.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('should refuse requests from other origins', async () => {
+    await start();
+
+    const allowed = await chat({ messages: [] }, { Origin: 'https://app.example' });
+    const refused = await chat({ messages: [] }, { Origin: 'https://elsewhere.example' });
+
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example');
+    expect(refused.status).toBe(403);
+    expect(refused.headers.get('access-control-allow-origin')).toBeNull();
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not expose other upstream endpoints', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/v1/models`);
+
+    expect(response.status).toBe(404);
+    expect(upstream).not.toHaveBeenCalled();
+  });
+});
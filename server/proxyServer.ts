@@ -0,0 +1,279 @@
+/**
+ * Proxy server - Keeps the OpenAI API key out of the browser
+ *
+ * Exposes the OpenAI chat completions endpoint, so the browser's OpenAI SDK
+ * only needs its base URL pointed here. The server adds the API key, limits
+ * how often each device and each network address may call it, and passes streamed replies through
+ * as they arrive. Requests are rewritten before they are forwarded so the
+ * key can only pay for the allowed models and reply lengths: unknown fields
+ * are dropped, `max_tokens` is capped and a single choice is asked for.
+ *
+ * Endpoints:
+ * - POST /v1/chat/completions - chat completion; streams when the body has `stream: true`
+ * - GET /health - liveness check
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createRateLimiter } from './rateLimiter.js';
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Header the browser sends to identify the device for rate limiting
+ */
+export const DEVICE_ID_HEADER = 'x-device-id';
+
+const MAX_DEVICE_ID_LENGTH = 128;
+
+/**
+ * Request fields passed upstream; anything else the browser sends is dropped
+ */
+const FORWARDED_FIELDS = ['model', 'messages', 'tools', 'tool_choice', 'temperature', 'max_tokens', 'stream', 'stream_options'];
+
+export interface ProxyServerOptions {
+  /** OpenAI API key, never sent to the browser */
+  apiKey: string;
+  /** Upstream API base URL, defaults to OpenAI */
+  upstreamBaseUrl?: string;
+  /** HTTP implementation for upstream calls, defaults to the global fetch */
+  fetchImpl?: typeof fetch;
+  /** Requests each device may make per window, defaults to 30 per minute */
+  rateLimit?: { maxRequests: number; windowMs: number };
+  /**
+   * Requests all devices behind one address may make per window, defaults
+   * to 120 per minute; stops a client that invents a new device id for
+   * every request
+   */
+  addressRateLimit?: { maxRequests: number; windowMs: number };
+  /** Models the browser may ask for, defaults to gpt-4o-mini; the first is used when none is named */
+  allowedModels?: string[];
+  /** Longest reply the browser may ask for, in tokens, defaults to 500 */
+  maxTokens?: number;
+  /**
+   * Origins allowed to call the proxy from a browser, e.g. the app's own
+   * `https://pictures.example`. There is no wildcard: browser requests from
+   * any other origin are refused.
+   */
+  allowedOrigins: string[];
+  /** Largest request body accepted, defaults to 16 MB so uploaded pictures fit */
+  maxBodyBytes?: number;
+  /** Clock, replaceable in tests */
+  now?: () => number;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Create the proxy server; call `listen` to start it
+ *
+ * @example
+ * ```typescript
+ * createProxyServer({ apiKey: process.env.OPENAI_API_KEY!, allowedOrigins: ['http://localhost:5173'] }).listen(8787);
+ * ```
+ */
+export function createProxyServer(options: ProxyServerOptions): Server {
+  const {
+    apiKey,
+    upstreamBaseUrl = OPENAI_DEFAULT_BASE_URL,
+    fetchImpl = (input, init) => fetch(input, init),
+    rateLimit = { maxRequests: 30, windowMs: 60_000 },
+    addressRateLimit = { maxRequests: 120, windowMs: 60_000 },
+    allowedModels = ['gpt-4o-mini'],
+    maxTokens = 500,
+    allowedOrigins,
+    maxBodyBytes = 16 * 1024 * 1024,
+    now,
+  } = options;
+  const deviceLimiter = createRateLimiter({ ...rateLimit, now });
+  const addressLimiter = createRateLimiter({ ...addressRateLimit, now });
+  const upstreamUrl = `${upstreamBaseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const handleChatCompletion = async (req: IncomingMessage, res: ServerResponse) => {
+    const address = req.socket.remoteAddress ?? 'unknown';
+    const addressDecision = addressLimiter.check(address);
+    const decision = addressDecision.allowed ? deviceLimiter.check(getDeviceId(req, address)) : addressDecision;
+    res.setHeader('X-RateLimit-Remaining', String(Math.min(decision.remaining, addressDecision.remaining)));
+    if (!decision.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)));
+      throw new HttpError(429, 'Too many requests from this device. Please wait a moment.');
+    }
+
+    const body = toUpstreamBody(await readJsonBody(req, maxBodyBytes), allowedModels, maxTokens);
+
+    // Cancel the upstream call when the browser goes away, e.g. the child interrupted
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+
+    let upstream: Response;
+    try {
+      upstream = await fetchImpl(upstreamUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify(body),
+        signal: abort.signal,
+      });
+    } catch (error) {
+      console.error('[ProxyServer] Upstream request failed:', error);
+      throw new HttpError(502, 'The AI service could not be reached');
+    }
+
+    res.statusCode = upstream.status;
+    res.setHeader('Content-Type', upstream.headers.get('content-type') ?? 'application/json');
+
+    if (body.stream === true && upstream.ok && upstream.body) {
+      res.setHeader('Cache-Control', 'no-cache');
+      res.flushHeaders();
+      const reader = upstream.body.getReader();
+      try {
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          res.write(chunk.value);
+        }
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error('[ProxyServer] Stream interrupted:', error);
+        }
+      }
+      res.end();
+      return;
+    }
+
+    res.end(await upstream.text());
+  };
+
+  return createServer((req, res) => {
+    setCorsHeaders(req, res, allowedOrigins);
+
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    // Other websites must not spend the key from their visitors' browsers
+    const origin = req.headers.origin;
+    if (origin && !allowedOrigins.includes(origin)) {
+      sendJson(res, 403, { error: { message: `Origin ${origin} is not allowed`, type: 'proxy_error' } });
+      return;
+    }
+
+    const route = `${req.method} ${new URL(req.url ?? '/', 'http://localhost').pathname}`;
+    if (route === 'GET /health') {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    const handled = route === 'POST /v1/chat/completions'
+      ? handleChatCompletion(req, res)
+      : Promise.reject(new HttpError(404, `No route for ${route}`));
+
+    handled.catch(error => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) {
+        console.error('[ProxyServer] Request failed:', error);
+      }
+      sendJson(res, status, {
+        error: { message: error instanceof HttpError ? error.message : 'Internal proxy error', type: 'proxy_error' },
+      });
+    });
+  });
+}
+
+/**
+ * Device the request came from: the device id header at the client
+ * address, or the address alone
+ */
+function getDeviceId(req: IncomingMessage, address: string): string {
+  const header = req.headers[DEVICE_ID_HEADER];
+  const deviceId = Array.isArray(header) ? header[0] : header;
+  if (deviceId && deviceId.length <= MAX_DEVICE_ID_LENGTH) {
+    return `${address}/device:${deviceId}`;
+  }
+  return `${address}/address`;
+}
+
+/**
+ * Rewrite a chat completion request into what the proxy is willing to pay
+ * for: allowlisted fields only, an allowed model, at most `maxTokens` of
+ * reply and a single choice
+ *
+ * @throws HttpError 400 if the request names a model that is not allowed
+ */
+function toUpstreamBody(
+  body: Record<string, unknown>,
+  allowedModels: string[],
+  maxTokens: number
+): Record<string, unknown> {
+  const upstreamBody: Record<string, unknown> = {};
+  for (const field of FORWARDED_FIELDS) {
+    if (body[field] !== undefined) {
+      upstreamBody[field] = body[field];
+    }
+  }
+
+  const model = body.model ?? allowedModels[0];
+  if (typeof model !== 'string' || !allowedModels.includes(model)) {
+    throw new HttpError(400, `Model ${String(model)} is not available through this proxy`);
+  }
+  upstreamBody.model = model;
+
+  const requested = body.max_tokens;
+  upstreamBody.max_tokens = typeof requested === 'number' && requested > 0 ? Math.min(requested, maxTokens) : maxTokens;
+  upstreamBody.n = 1;
+  return upstreamBody;
+}
+
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]): void {
+  const origin = req.headers.origin;
+  if (origin && allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  // Allow whatever headers the OpenAI SDK sends; the key it sends is replaced
+  res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] ?? 'Content-Type');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-RateLimit-Remaining');
+}
+
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, 'Request body is too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      return body;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, 'Request body must be a JSON object');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
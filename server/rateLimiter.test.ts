@@ -0,0 +1,43 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the per-device rate limiter
+ */
+
+import { createRateLimiter } from './rateLimiter';
+
+describe('createRateLimiter', () => {
+  it('should allow requests up to the limit within the window', () => {
+    let time = 1000;
+    const limiter = createRateLimiter({ maxRequests: 2, windowMs: 10_000, now: () => time });
+
+    expect(limiter.check('tablet')).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    time = 4000;
+    expect(limiter.check('tablet')).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    time = 5000;
+    expect(limiter.check('tablet')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 6000 });
+  });
+
+  it('should slide the window as old requests expire', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ maxRequests: 2, windowMs: 10_000, now: () => time });
+
+    limiter.check('tablet');
+    time = 5000;
+    limiter.check('tablet');
+    time = 10_001;
+
+    expect(limiter.check('tablet').allowed).toBe(true);
+    expect(limiter.check('tablet').allowed).toBe(false);
+  });
+
+  it('should count each device separately', () => {
+    const limiter = createRateLimiter({ maxRequests: 1, windowMs: 10_000, now: () => 0 });
+
+    expect(limiter.check('tablet').allowed).toBe(true);
+    expect(limiter.check('phone').allowed).toBe(true);
+    expect(limiter.check('tablet').allowed).toBe(false);
+  });
+});
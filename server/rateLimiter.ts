@@ -0,0 +1,70 @@
+/**
+ * RateLimiter - Sliding-window request limits per device
+ *
+ * Each device may make `maxRequests` requests in any `windowMs` period.
+ * Devices that have been quiet for a whole window are forgotten.
+ */
+
+export interface RateLimitOptions {
+  maxRequests: number;
+  windowMs: number;
+  /** Clock, replaceable in tests */
+  now?: () => number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Requests left in the current window */
+  remaining: number;
+  /** How long to wait before the next request is allowed; 0 when allowed */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  /** Record a request from the device and decide whether it may go ahead */
+  check(deviceId: string): RateLimitDecision;
+}
+
+/**
+ * Create a sliding-window rate limiter
+ *
+ * @example
+ * ```typescript
+ * const limiter = createRateLimiter({ maxRequests: 30, windowMs: 60_000 });
+ * if (!limiter.check(deviceId).allowed) {
+ *   // respond with 429
+ * }
+ * ```
+ */
+export function createRateLimiter({ maxRequests, windowMs, now = Date.now }: RateLimitOptions): RateLimiter {
+  const requests = new Map<string, number[]>();
+  let lastSweep = now();
+
+  // Forget devices with no requests in the last window
+  const sweep = (time: number) => {
+    if (time - lastSweep < windowMs) return;
+    lastSweep = time;
+    for (const [deviceId, times] of requests) {
+      if (times[times.length - 1] <= time - windowMs) {
+        requests.delete(deviceId);
+      }
+    }
+  };
+
+  return {
+    check(deviceId: string): RateLimitDecision {
+      const time = now();
+      sweep(time);
+
+      const recent = (requests.get(deviceId) ?? []).filter(t => t > time - windowMs);
+      if (recent.length >= maxRequests) {
+        requests.set(deviceId, recent);
+        return { allowed: false, remaining: 0, retryAfterMs: recent[0] + windowMs - time };
+      }
+
+      recent.push(time);
+      requests.set(deviceId, recent);
+      return { allowed: true, remaining: maxRequests - recent.length, retryAfterMs: 0 };
+    },
+  };
+}
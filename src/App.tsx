@@ -1,16 +1,74 @@
+import { useState } from 'react';
 import { UIProvider } from './contexts/UIContext';
 import { UIController } from './components/UIController';
+import { ImagePicker } from './components/ImagePicker';
+import { ImageUpload } from './components/ImageUpload';
 import { conversationConfig } from './config/appConfig';
+import { createImageDescriber } from './services/ImageDescriber';
+import { createParentAlertChannel } from './services/ParentAlertChannel';
+import { resolveLLMConfig } from './services/LLMProviderRegistry';
+import type { ImageContext } from './types/image';
+import type { ImageMetadata } from './types/imageMetadata';
 import './App.css';
 
+/**
+ * Describe an uploaded picture with the configured LLM provider, which must accept images
+ */
+const describeUploadedImage = (imageDataUrl: string) =>
+  createImageDescriber(resolveLLMConfig(conversationConfig.llmProvider, { temperature: 0.2 }))
+    .describe(imageDataUrl);
+
+/**
+ * Safeguarding alerts from every conversation. They are never shown to the
+ * child; subscribe here to deliver them to a parent, e.g. as a notification.
+ */
+const parentAlerts = createParentAlertChannel();
+
 function App() {
-  const imageUrl = '/images/friendly-elephant.svg';
+  const [selectedImage, setSelectedImage] = useState<ImageMetadata | null>(null);
+  const [uploadedImage, setUploadedImage] = useState<ImageContext | null>(null);
+
+  // Back to the picker to choose the next picture
+  const handleTalkAboutAnotherPicture = () => {
+    setSelectedImage(null);
+    setUploadedImage(null);
+  };
+
+  if (uploadedImage) {
+    return (
+      <UIProvider>
+        <UIController
+          imageUrl={uploadedImage.url}
+          imageContext={uploadedImage}
+          conversationConfig={conversationConfig}
+          onTalkAboutAnotherPicture={handleTalkAboutAnotherPicture}
+          parentAlerts={parentAlerts}
+        />
+      </UIProvider>
+    );
+  }
+
+  if (!selectedImage) {
+    return (
+      <div className="w-full min-h-screen bg-gray-100 overflow-y-auto">
+        <ImagePicker
+          childAge={conversationConfig.childAge}
+          onSelect={setSelectedImage}
+        />
+        <div className="pb-6">
+          <ImageUpload describeImage={describeUploadedImage} onUpload={setUploadedImage} />
+        </div>
+      </div>
+    );
+  }
 
   return (
     <UIProvider>
-      <UIController 
-        imageUrl={imageUrl}
+      <UIController
+        imageUrl={selectedImage.path}
         conversationConfig={conversationConfig}
+        onTalkAboutAnotherPicture={handleTalkAboutAnotherPicture}
+        parentAlerts={parentAlerts}
       />
     </UIProvider>
   );
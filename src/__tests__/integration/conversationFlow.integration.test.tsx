@@ -20,6 +20,9 @@ process.env.VITE_OPENAI_API_KEY = 'test-api-key';
 // Mock the env utility
 jest.mock('../../utils/env', () => ({
   getApiKey: jest.fn().mockReturnValue('test-api-key'),
+  getEnv: jest.fn((key: string, defaultValue: string = '') =>
+    key === 'VITE_OPENAI_API_KEY' ? 'test-api-key' : process.env[key] || defaultValue
+  ),
 }));
 
 // Mock child components
@@ -97,6 +100,7 @@ const mockTTSHandler = {
   onSpeechEnd: jest.fn((callback) => {
     ttsSpeechEndCallback = callback;
   }),
+  onWordBoundary: jest.fn(),
   onError: jest.fn(),
   onFallback: jest.fn(),
   isCurrentlySpeaking: jest.fn().mockReturnValue(false),
@@ -105,6 +109,10 @@ const mockTTSHandler = {
 const mockLLMClient = {
   initialize: jest.fn(),
   sendMessage: jest.fn(),
+  // Replay each complete sendMessage response as a single streamed chunk
+  streamMessage: jest.fn(async function* (...args: unknown[]): AsyncGenerator<unknown> {
+    yield await mockLLMClient.sendMessage(...args);
+  }),
   setImageContext: jest.fn(),
 };
 
@@ -125,7 +133,7 @@ const mockToolRegistry = {
       },
     },
   ]),
-  executeTool: jest.fn().mockResolvedValue(undefined),
+  executeTool: jest.fn().mockResolvedValue({ status: 'success' }),
   unregisterTool: jest.fn(),
 };
 
@@ -253,7 +261,8 @@ describe('Integration Test: Complete Conversation Flow', () => {
             arguments: { area: 'center', color: 'yellow' },
           },
         ],
-        finishReason: 'tool_calls',
+        // Finished turn: the model is not waiting for the highlight result
+        finishReason: 'stop',
       },
       // Response to user input
       {
@@ -303,9 +312,9 @@ describe('Integration Test: Complete Conversation Flow', () => {
     });
 
     await waitFor(() => {
-      expect(mockTTSHandler.speak).toHaveBeenCalledWith(
-        'Hello! I see a beautiful image here. What do you notice first?'
-      );
+      // Replies are spoken sentence by sentence
+      expect(mockTTSHandler.speak).toHaveBeenCalledWith('Hello!');
+      expect(mockTTSHandler.speak).toHaveBeenCalledWith('What do you notice first?');
       expect(screen.getByTestId('speaking')).toHaveTextContent('true');
     });
 
@@ -373,9 +382,8 @@ describe('Integration Test: Complete Conversation Flow', () => {
     });
 
     await waitFor(() => {
-      expect(mockTTSHandler.speak).toHaveBeenCalledWith(
-        'That\'s interesting! Tell me more about what you see.'
-      );
+      expect(mockTTSHandler.speak).toHaveBeenCalledWith('That\'s interesting!');
+      expect(mockTTSHandler.speak).toHaveBeenCalledWith('Tell me more about what you see.');
     });
 
     // Step 10: Simulate conversation ending
@@ -0,0 +1,78 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { ImagePicker } from './ImagePicker';
+import type { ImageMetadata, ImageMetadataCollection } from '../types/imageMetadata';
+
+describe('ImagePicker', () => {
+  const image = (id: string, category: ImageMetadata['category'], ageAppropriate = '3-8 years'): ImageMetadata => ({
+    id,
+    filename: `${id}.svg`,
+    path: `/images/${id}.svg`,
+    title: id.replace('-', ' '),
+    description: `A picture of ${id}`,
+    category,
+    ageAppropriate,
+    conversationTopics: ['What do you see?'],
+    detectedObjects: [id],
+    colors: ['blue'],
+    mood: 'happy',
+  });
+
+  const metadata: ImageMetadataCollection = {
+    images: [
+      image('friendly-elephant', 'animals'),
+      image('sunny-garden', 'nature'),
+      image('toy-train', 'toys'),
+      image('city-map', 'scenes', '7-10 years'),
+    ],
+  };
+
+  const loadMetadata = () => Promise.resolve(metadata);
+
+  it('should show previews of every picture', async () => {
+    render(<ImagePicker onSelect={jest.fn()} loadMetadata={loadMetadata} />);
+
+    expect(screen.getByTestId('image-picker-loading')).toBeInTheDocument();
+    expect(await screen.findByAltText('A picture of friendly-elephant')).toHaveAttribute(
+      'src',
+      '/images/friendly-elephant.svg'
+    );
+    expect(screen.getAllByRole('img')).toHaveLength(4);
+  });
+
+  it('should browse by category', async () => {
+    render(<ImagePicker onSelect={jest.fn()} loadMetadata={loadMetadata} />);
+
+    fireEvent.click(await screen.findByRole('tab', { name: 'Nature' }));
+
+    expect(screen.getByRole('tab', { name: 'Nature' })).toHaveAttribute('aria-selected', 'true');
+    expect(screen.getAllByRole('img')).toHaveLength(1);
+    expect(screen.getByTestId('image-option-sunny-garden')).toBeInTheDocument();
+  });
+
+  it('should hide pictures that are not suitable for the child', async () => {
+    render(<ImagePicker onSelect={jest.fn()} childAge={4} loadMetadata={loadMetadata} />);
+
+    await screen.findByTestId('image-picker');
+    expect(screen.queryByTestId('image-option-city-map')).not.toBeInTheDocument();
+    expect(screen.queryByRole('tab', { name: 'Scenes' })).not.toBeInTheDocument();
+    expect(screen.getAllByRole('img')).toHaveLength(3);
+  });
+
+  it('should start with the chosen picture', async () => {
+    const onSelect = jest.fn();
+    render(<ImagePicker onSelect={onSelect} loadMetadata={loadMetadata} />);
+
+    fireEvent.click(await screen.findByTestId('image-option-toy-train'));
+
+    expect(onSelect).toHaveBeenCalledWith(metadata.images[2]);
+  });
+
+  it('should explain when the pictures cannot be loaded', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    render(<ImagePicker onSelect={jest.fn()} loadMetadata={() => Promise.reject(new Error('404'))} />);
+
+    expect(await screen.findByTestId('image-picker-error')).toBeInTheDocument();
+    consoleErrorSpy.mockRestore();
+  });
+});
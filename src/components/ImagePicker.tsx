@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import type { ImageCategory, ImageMetadata, ImageMetadataCollection } from '../types/imageMetadata';
+import {
+  IMAGE_CATEGORIES,
+  getImagesByCategory,
+  isAgeAppropriate,
+  loadImageMetadata,
+} from '../types/imageMetadata';
+
+interface ImagePickerProps {
+  onSelect: (image: ImageMetadata) => void;
+  /** Only pictures suitable for this age are shown */
+  childAge?: number;
+  /** Loads the picture library, defaults to /images/metadata.json */
+  loadMetadata?: () => Promise<ImageMetadataCollection>;
+}
+
+type CategoryFilter = ImageCategory | 'all';
+
+const CATEGORY_LABELS: Record<CategoryFilter, string> = {
+  all: 'All',
+  animals: 'Animals',
+  nature: 'Nature',
+  toys: 'Toys',
+  scenes: 'Scenes',
+};
+
+/**
+ * ImagePicker component lets the child choose a picture to talk about.
+ * Loads the picture library, shows previews by category and hides pictures
+ * that aren't suitable for the child's age.
+ */
+export const ImagePicker: React.FC<ImagePickerProps> = ({
+  onSelect,
+  childAge,
+  loadMetadata = loadImageMetadata,
+}) => {
+  const [metadata, setMetadata] = useState<ImageMetadataCollection | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [category, setCategory] = useState<CategoryFilter>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadMetadata()
+      .then((collection) => {
+        if (!cancelled) setMetadata(collection);
+      })
+      .catch((error) => {
+        console.error('[ImagePicker] Failed to load pictures:', error);
+        if (!cancelled) setLoadFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadMetadata]);
+
+  if (loadFailed) {
+    return (
+      <p className="m-0 p-6 text-center text-gray-600" role="alert" data-testid="image-picker-error">
+        We couldn't load the pictures. Please refresh the page to try again.
+      </p>
+    );
+  }
+
+  if (!metadata) {
+    return (
+      <p className="m-0 p-6 text-center text-gray-500" data-testid="image-picker-loading">
+        Loading pictures...
+      </p>
+    );
+  }
+
+  const suitable: ImageMetadataCollection = {
+    images: childAge === undefined
+      ? metadata.images
+      : metadata.images.filter((image) => isAgeAppropriate(image, childAge)),
+  };
+  // Only offer categories that have pictures
+  const categories = IMAGE_CATEGORIES.filter((name) => getImagesByCategory(suitable, name).length > 0);
+  const images = category === 'all' ? suitable.images : getImagesByCategory(suitable, category);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto flex flex-col gap-4 sm:gap-5 p-3 sm:p-5" data-testid="image-picker">
+      <h2 className="m-0 text-xl sm:text-2xl md:text-3xl font-bold text-gray-800 text-center">
+        Pick a picture to talk about
+      </h2>
+
+      <div className="flex flex-wrap justify-center gap-2" role="tablist" aria-label="Picture categories">
+        {(['all', ...categories] as CategoryFilter[]).map((name) => (
+          <button
+            key={name}
+            type="button"
+            role="tab"
+            aria-selected={category === name}
+            onClick={() => setCategory(name)}
+            className={`px-4 py-2 rounded-full text-sm sm:text-base font-semibold transition-colors duration-300 ${
+              category === name ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {CATEGORY_LABELS[name]}
+          </button>
+        ))}
+      </div>
+
+      {images.length === 0 ? (
+        <p className="m-0 p-6 text-center text-gray-600" data-testid="image-picker-empty">
+          There are no pictures here yet.
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 md:grid-cols-3 gap-3 sm:gap-4 m-0 p-0 list-none">
+          {images.map((image) => (
+            <li key={image.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(image)}
+                className="w-full flex flex-col rounded-lg sm:rounded-xl overflow-hidden bg-white shadow-md hover:shadow-xl hover:-translate-y-0.5 transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-blue-300"
+                data-testid={`image-option-${image.id}`}
+              >
+                <img
+                  src={image.path}
+                  alt={image.description}
+                  className="w-full aspect-[4/3] object-contain bg-gray-50"
+                  loading="lazy"
+                />
+                <span className="px-3 py-2 text-sm sm:text-base font-semibold text-gray-800">
+                  {image.title}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { ImageUpload } from './ImageUpload';
+import type { ImageContext } from '../types/image';
+
+describe('ImageUpload', () => {
+  const imageContext: ImageContext = {
+    url: 'data:image/png;base64,aGk=',
+    description: 'A crayon drawing of a red house',
+    detectedObjects: ['house'],
+  };
+
+  const upload = (file: File) => {
+    fireEvent.change(screen.getByTestId('image-upload-input'), { target: { files: [file] } });
+  };
+
+  const drawing = () => new File(['hi'], 'drawing.png', { type: 'image/png' });
+
+  it('should describe the picture and pass on the approved image context', async () => {
+    const describeImage = jest.fn().mockResolvedValue({ status: 'approved', imageContext });
+    const onUpload = jest.fn();
+    render(<ImageUpload describeImage={describeImage} onUpload={onUpload} />);
+
+    upload(drawing());
+
+    await waitFor(() => expect(onUpload).toHaveBeenCalledWith(imageContext));
+    expect(describeImage).toHaveBeenCalledWith('data:image/png;base64,aGk=');
+  });
+
+  it('should show that the picture is being checked', async () => {
+    const describeImage = jest.fn(() => new Promise<never>(() => {}));
+    render(<ImageUpload describeImage={describeImage} onUpload={jest.fn()} />);
+
+    upload(drawing());
+
+    expect(await screen.findByRole('button', { name: 'Looking at your picture...' })).toBeDisabled();
+  });
+
+  it('should explain when a picture is not suitable', async () => {
+    const describeImage = jest.fn().mockResolvedValue({ status: 'rejected', reason: 'The picture shows a weapon.' });
+    const onUpload = jest.fn();
+    render(<ImageUpload describeImage={describeImage} onUpload={onUpload} />);
+
+    upload(drawing());
+
+    expect(await screen.findByTestId('image-upload-error')).toHaveTextContent(
+      "Let's choose a different picture. The picture shows a weapon."
+    );
+    expect(onUpload).not.toHaveBeenCalled();
+  });
+
+  it('should refuse unsupported files without describing them', () => {
+    const describeImage = jest.fn();
+    render(<ImageUpload describeImage={describeImage} onUpload={jest.fn()} />);
+
+    upload(new File(['GIF89a'], 'funny.gif', { type: 'image/gif' }));
+
+    expect(screen.getByTestId('image-upload-error')).toHaveTextContent('Please choose a PNG, JPG or WebP picture');
+    expect(describeImage).not.toHaveBeenCalled();
+  });
+
+  it('should ask to try again when the picture cannot be described', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    render(<ImageUpload describeImage={jest.fn().mockRejectedValue(new Error('timeout'))} onUpload={jest.fn()} />);
+
+    upload(drawing());
+
+    expect(await screen.findByTestId('image-upload-error')).toHaveTextContent("We couldn't look at that picture");
+    consoleErrorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import type { ImageContext } from '../types/image';
+import type { ImageDescriptionResult } from '../services/ImageDescriber';
+import { SUPPORTED_UPLOAD_TYPES, readFileAsDataURL, validateImageUpload } from '../services/ImageDescriber';
+
+interface ImageUploadProps {
+  /** Describes the picture and checks it is suitable, e.g. ImageDescriber.describe */
+  describeImage: (imageDataUrl: string) => Promise<ImageDescriptionResult>;
+  /** Called with the description once the picture is approved */
+  onUpload: (imageContext: ImageContext) => void;
+}
+
+type UploadState =
+  | { status: 'idle' }
+  | { status: 'checking' }
+  | { status: 'error'; message: string };
+
+/**
+ * ImageUpload component lets families talk about their own drawings and photos.
+ * Accepts PNG, JPG and WebP pictures, has them described by a vision model
+ * and only passes them on when they are suitable for children.
+ */
+export const ImageUpload: React.FC<ImageUploadProps> = ({ describeImage, onUpload }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [state, setState] = useState<UploadState>({ status: 'idle' });
+
+  const handleFile = async (file: File) => {
+    const invalid = validateImageUpload(file);
+    if (invalid) {
+      setState({ status: 'error', message: invalid });
+      return;
+    }
+
+    setState({ status: 'checking' });
+    try {
+      const result = await describeImage(await readFileAsDataURL(file));
+      if (result.status === 'approved') {
+        setState({ status: 'idle' });
+        onUpload(result.imageContext);
+      } else {
+        setState({ status: 'error', message: `Let's choose a different picture. ${result.reason.replace(/[.!\s]+$/, '')}.` });
+      }
+    } catch (error) {
+      console.error('[ImageUpload] Failed to describe picture:', error);
+      setState({ status: 'error', message: "We couldn't look at that picture. Please try again." });
+    }
+  };
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so choosing the same file again still triggers a change
+    event.target.value = '';
+    if (file) {
+      void handleFile(file);
+    }
+  };
+
+  const checking = state.status === 'checking';
+
+  return (
+    <div className="flex flex-col items-center gap-2" data-testid="image-upload">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={SUPPORTED_UPLOAD_TYPES.join(',')}
+        onChange={handleChange}
+        className="hidden"
+        data-testid="image-upload-input"
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={checking}
+        className="px-5 py-3 rounded-lg sm:rounded-xl bg-green-500 hover:bg-green-600 disabled:bg-gray-400 text-white font-semibold text-base sm:text-lg shadow-md transition-colors duration-300"
+      >
+        {checking ? 'Looking at your picture...' : 'Upload your own picture'}
+      </button>
+      {state.status === 'error' && (
+        <p className="m-0 text-sm sm:text-base text-red-600 text-center" role="alert" data-testid="image-upload-error">
+          {state.message}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { LiveCaption } from './LiveCaption';
+
+describe('LiveCaption', () => {
+  const text = 'Look at the big elephant!';
+
+  it('should show the whole sentence', () => {
+    render(<LiveCaption text={text} charIndex={0} charLength={4} />);
+
+    expect(screen.getByTestId('live-caption')).toHaveTextContent(text);
+    expect(screen.getByLabelText(text)).toBeInTheDocument();
+  });
+
+  it('should highlight the word being spoken', () => {
+    render(<LiveCaption text={text} charIndex={12} charLength={3} />);
+
+    const current = screen.getByTestId('live-caption').querySelectorAll('[data-current]');
+    expect(current).toHaveLength(1);
+    expect(current[0]).toHaveTextContent('big');
+  });
+
+  it('should set spoken words apart from words still to come', () => {
+    render(<LiveCaption text={text} charIndex={8} charLength={3} />);
+
+    expect(screen.getByText('Look')).toHaveClass('text-gray-800');
+    expect(screen.getByText('the')).toHaveClass('bg-yellow-300');
+    expect(screen.getByText('elephant!')).toHaveClass('text-gray-400');
+  });
+
+  it('should highlight the word when the boundary has no length', () => {
+    render(<LiveCaption text={text} charIndex={16} charLength={0} />);
+
+    expect(screen.getByText('elephant!')).toHaveAttribute('data-current', 'true');
+  });
+});
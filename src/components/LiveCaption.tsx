@@ -0,0 +1,56 @@
+import React from 'react';
+import { splitWords } from '../utils/wordTimings';
+
+interface LiveCaptionProps {
+  /** Text being spoken */
+  text: string;
+  /** Position of the word being spoken */
+  charIndex: number;
+  charLength: number;
+}
+
+/**
+ * LiveCaption shows what the AI is saying, karaoke style: the word being
+ * spoken is highlighted, words already spoken stay dark and the rest are
+ * faded, so early readers can follow along.
+ * 
+ * Requirements: 4.1
+ */
+export const LiveCaption: React.FC<LiveCaptionProps> = ({ text, charIndex, charLength }) => {
+  const words = splitWords(text);
+  const currentEnd = charIndex + Math.max(charLength, 1);
+
+  return (
+    <p
+      className="m-0 text-base sm:text-lg md:text-xl leading-relaxed"
+      data-testid="live-caption"
+      aria-label={text}
+    >
+      {words.map((word, index) => {
+        const wordEnd = word.charIndex + word.charLength;
+        const isCurrent = word.charIndex < currentEnd && wordEnd > charIndex;
+        const isSpoken = !isCurrent && wordEnd <= charIndex;
+        const nextStart = words[index + 1]?.charIndex ?? text.length;
+
+        return (
+          <React.Fragment key={word.charIndex}>
+            <span
+              aria-hidden="true"
+              data-current={isCurrent || undefined}
+              className={`rounded px-0.5 transition-colors duration-150 ${
+                isCurrent
+                  ? 'bg-yellow-300 text-gray-900 font-bold'
+                  : isSpoken
+                    ? 'text-gray-800'
+                    : 'text-gray-400'
+              }`}
+            >
+              {text.slice(word.charIndex, wordEnd)}
+            </span>
+            {text.slice(wordEnd, nextStart)}
+          </React.Fragment>
+        );
+      })}
+    </p>
+  );
+};
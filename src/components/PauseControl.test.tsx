@@ -0,0 +1,33 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { PauseControl } from './PauseControl';
+
+describe('PauseControl', () => {
+  it('should offer to pause a running conversation', () => {
+    const onToggle = jest.fn();
+    render(<PauseControl isPaused={false} onToggle={onToggle} />);
+
+    const button = screen.getByRole('button', { name: 'Pause conversation' });
+    expect(button).toHaveTextContent('Pause');
+    expect(button).toHaveAttribute('aria-pressed', 'false');
+
+    fireEvent.click(button);
+    expect(onToggle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should offer to resume a paused conversation', () => {
+    render(<PauseControl isPaused={true} onToggle={jest.fn()} />);
+
+    const button = screen.getByRole('button', { name: 'Resume conversation' });
+    expect(button).toHaveTextContent('Resume');
+    expect(button).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('should not toggle when disabled', () => {
+    const onToggle = jest.fn();
+    render(<PauseControl isPaused={false} onToggle={onToggle} disabled />);
+
+    fireEvent.click(screen.getByTestId('pause-control'));
+    expect(onToggle).not.toHaveBeenCalled();
+  });
+});
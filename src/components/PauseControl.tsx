@@ -0,0 +1,59 @@
+import React from 'react';
+
+interface PauseControlProps {
+  isPaused: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * PauseControl component pauses and resumes the conversation.
+ * Shows a pause button while the conversation runs and a resume button while paused.
+ * The space bar does the same (handled by UIController).
+ */
+export const PauseControl: React.FC<PauseControlProps> = ({
+  isPaused,
+  onToggle,
+  disabled = false,
+}) => {
+  const label = isPaused ? 'Resume conversation' : 'Pause conversation';
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      disabled={disabled}
+      aria-label={label}
+      aria-pressed={isPaused}
+      aria-keyshortcuts="Space"
+      title={`${label} (Space)`}
+      className={`inline-flex items-center gap-1.5 sm:gap-2 px-3 py-2 sm:px-4 rounded-lg sm:rounded-xl shadow-lg font-semibold text-sm sm:text-base transition-colors duration-300 disabled:opacity-40 disabled:cursor-not-allowed ${
+        isPaused ? 'bg-green-500 text-white hover:bg-green-600' : 'bg-white/95 text-gray-800 hover:bg-gray-100'
+      }`}
+      data-testid="pause-control"
+      data-paused={isPaused}
+    >
+      {isPaused ? <PlayIcon /> : <PauseIcon />}
+      <span>{isPaused ? 'Resume' : 'Pause'}</span>
+    </button>
+  );
+};
+
+/**
+ * PauseIcon - SVG icon for pausing
+ */
+const PauseIcon: React.FC = () => (
+  <svg className="w-4 h-4 sm:w-5 sm:h-5" viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+    <rect x="6" y="5" width="4" height="14" rx="1" />
+    <rect x="14" y="5" width="4" height="14" rx="1" />
+  </svg>
+);
+
+/**
+ * PlayIcon - SVG icon for resuming
+ */
+const PlayIcon: React.FC = () => (
+  <svg className="w-4 h-4 sm:w-5 sm:h-5" viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+    <path d="M8 5.5V18.5C8 19.3 8.9 19.8 9.6 19.3L19 12.8C19.6 12.4 19.6 11.6 19 11.2L9.6 4.7C8.9 4.2 8 4.7 8 5.5Z" />
+  </svg>
+);
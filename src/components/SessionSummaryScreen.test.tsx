@@ -0,0 +1,45 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { SessionSummaryScreen } from './SessionSummaryScreen';
+import type { SessionSummary } from '../services/sessionSummary';
+
+describe('SessionSummaryScreen', () => {
+  const summary: SessionSummary = {
+    durationMs: 61400,
+    childTurns: 4,
+    newWords: ['enormous', 'herbivores'],
+    objectsDiscussed: ['elephant', 'trunk'],
+    sticker: { emoji: '⭐', title: 'Great Talker' },
+  };
+
+  it('should show the sticker and the conversation highlights', () => {
+    render(<SessionSummaryScreen summary={summary} onTalkAboutAnotherPicture={jest.fn()} />);
+
+    expect(screen.getByRole('img', { name: 'Great Talker' })).toHaveTextContent('⭐');
+    expect(screen.getByTestId('summary-duration')).toHaveTextContent('1 min 1 sec');
+    expect(screen.getByTestId('summary-child-turns')).toHaveTextContent('4');
+    expect(screen.getByTestId('summary-objects')).toHaveTextContent('elephanttrunk');
+    expect(screen.getByTestId('summary-new-words')).toHaveTextContent('enormousherbivores');
+  });
+
+  it('should leave out empty lists', () => {
+    render(
+      <SessionSummaryScreen
+        summary={{ ...summary, durationMs: 30000, newWords: [], objectsDiscussed: [] }}
+        onTalkAboutAnotherPicture={jest.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('summary-duration')).toHaveTextContent('30 sec');
+    expect(screen.queryByTestId('summary-objects')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('summary-new-words')).not.toBeInTheDocument();
+  });
+
+  it('should start a new conversation from the button', () => {
+    const onTalkAboutAnotherPicture = jest.fn();
+    render(<SessionSummaryScreen summary={summary} onTalkAboutAnotherPicture={onTalkAboutAnotherPicture} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Talk about another picture' }));
+    expect(onTalkAboutAnotherPicture).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,88 @@
+import React from 'react';
+import type { SessionSummary } from '../services/sessionSummary';
+
+interface SessionSummaryScreenProps {
+  summary: SessionSummary;
+  onTalkAboutAnotherPicture: () => void;
+}
+
+/**
+ * SessionSummaryScreen component shows the highlights of a finished conversation.
+ * Shows the reward sticker, how long the conversation lasted, how often the child
+ * spoke, new words and the objects in the picture that came up.
+ *
+ * Requirements: 5.3
+ */
+export const SessionSummaryScreen: React.FC<SessionSummaryScreenProps> = ({
+  summary,
+  onTalkAboutAnotherPicture,
+}) => {
+  const totalSeconds = Math.round(summary.durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const duration = minutes > 0 ? `${minutes} min ${seconds} sec` : `${seconds} sec`;
+
+  return (
+    <div
+      className="flex flex-col items-center gap-4 sm:gap-5 p-5 sm:p-6 md:p-8 bg-white/95 rounded-lg sm:rounded-xl shadow-lg w-full max-w-[95%] sm:max-w-md md:max-w-lg text-center"
+      data-testid="session-summary"
+    >
+      <div className="flex flex-col items-center gap-1" data-testid="summary-sticker">
+        <span className="text-6xl sm:text-7xl animate-pulse-scale" role="img" aria-label={summary.sticker.title}>
+          {summary.sticker.emoji}
+        </span>
+        <span className="text-lg sm:text-xl font-bold text-gray-800">{summary.sticker.title}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 w-full">
+        <SummaryStat label="Talking time" value={duration} testId="summary-duration" />
+        <SummaryStat label="Times you talked" value={String(summary.childTurns)} testId="summary-child-turns" />
+      </div>
+
+      {summary.objectsDiscussed.length > 0 && (
+        <SummaryList title="Things we found" items={summary.objectsDiscussed} testId="summary-objects" />
+      )}
+
+      {summary.newWords.length > 0 && (
+        <SummaryList title="New words" items={summary.newWords} testId="summary-new-words" />
+      )}
+
+      <button
+        type="button"
+        onClick={onTalkAboutAnotherPicture}
+        className="mt-1 px-5 py-3 rounded-lg sm:rounded-xl bg-blue-500 hover:bg-blue-600 text-white font-semibold text-base sm:text-lg shadow-md transition-colors duration-300"
+        data-testid="another-picture-button"
+      >
+        Talk about another picture
+      </button>
+    </div>
+  );
+};
+
+/**
+ * SummaryStat - One number from the conversation
+ */
+const SummaryStat: React.FC<{ label: string; value: string; testId: string }> = ({ label, value, testId }) => (
+  <div className="flex flex-col items-center p-3 rounded-lg bg-gray-100">
+    <span className="text-xl sm:text-2xl font-bold text-gray-800" data-testid={testId}>
+      {value}
+    </span>
+    <span className="text-xs sm:text-sm text-gray-500">{label}</span>
+  </div>
+);
+
+/**
+ * SummaryList - Words shown as chips
+ */
+const SummaryList: React.FC<{ title: string; items: string[]; testId: string }> = ({ title, items, testId }) => (
+  <div className="w-full" data-testid={testId}>
+    <h2 className="m-0 mb-2 text-sm sm:text-base font-semibold text-gray-600">{title}</h2>
+    <ul className="flex flex-wrap justify-center gap-2 m-0 p-0 list-none">
+      {items.map(item => (
+        <li key={item} className="px-3 py-1 rounded-full bg-yellow-100 text-gray-800 text-sm sm:text-base">
+          {item}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
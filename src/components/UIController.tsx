@@ -11,30 +11,53 @@
  * Requirements: 2.1, 3.1, 4.1, 6.1, 8.2
  */
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { UIProvider, useUI } from '../contexts/UIContext';
 import { ImageDisplay } from './ImageDisplay';
 import { VisualEffects } from './VisualEffects';
 import { ConversationStateIndicator } from './ConversationStateIndicator';
 import { TimerDisplay } from './TimerDisplay';
+import { LiveCaption } from './LiveCaption';
 import { ErrorNotification } from './ErrorNotification';
 import { ConnectionStatusIndicator } from './ConnectionStatusIndicator';
+import { PauseControl } from './PauseControl';
+import { SessionSummaryScreen } from './SessionSummaryScreen';
+import { UsagePanel } from './UsagePanel';
 import type { ConversationConfig } from '../types/config';
 import { ConversationOrchestrator } from '../services/ConversationOrchestrator';
-import { SpeechToTextHandler } from '../services/SpeechToTextHandler';
+import { createSpeechToTextHandler } from '../services/speechToTextProviders';
 import { TextToSpeechHandler } from '../services/TextToSpeechHandler';
+import { createSpeechAudioProvider } from '../services/voiceProviders';
 import { LLMClient } from '../services/LLMClient';
+import { defaultLLMProviderRegistry, resolveLLMConfig } from '../services/LLMProviderRegistry';
 import { ToolRegistry } from '../services/ToolRegistry';
 import { SessionStateManager } from '../services/SessionStateManager';
+import { createSessionStore } from '../services/IndexedDBSessionStore';
 import { NetworkMonitor } from '../services/NetworkMonitor';
+import { OutputModerator } from '../services/OutputModerator';
+import { InputScreener } from '../services/InputScreener';
+import type { ParentAlertChannel } from '../services/ParentAlertChannel';
+import type { SessionUsage } from '../types/session';
 import { registerVisualEffectTools } from '../services/registerVisualEffectTools';
+import { summarizeSession } from '../services/sessionSummary';
+import type { SessionSummary } from '../services/sessionSummary';
+import { findImageRegion, getImageByPath, getRegionCenter, loadImageMetadata, toImageContext } from '../types/imageMetadata';
+import type { ImageContext } from '../types/image';
 import type { VisualEffect } from '../types/ui';
-import { getApiKey, getEnv } from '../utils/env';
 import { MicrophonePermissionHandler } from '../services/MicrophonePermissionHandler';
 
 export interface UIControllerProps {
   imageUrl: string;
   conversationConfig: ConversationConfig;
+  /** Description of the picture, e.g. of an uploaded one; looked up in the picture library when not given */
+  imageContext?: ImageContext;
+  /** Called from the summary screen to move on to a new picture; without it the same picture starts again */
+  onTalkAboutAnotherPicture?: () => void;
+  /**
+   * Where safeguarding concerns in what the child says are reported. They
+   * reach a parent only through the channel's subscribers, never on screen.
+   */
+  parentAlerts?: ParentAlertChannel;
 }
 
 /**
@@ -44,7 +67,10 @@ export interface UIControllerProps {
  */
 const UIControllerContent: React.FC<UIControllerProps> = ({ 
   imageUrl, 
-  conversationConfig 
+  conversationConfig,
+  imageContext: providedImageContext,
+  onTalkAboutAnotherPicture,
+  parentAlerts,
 }) => {
   const { 
     state,
@@ -53,18 +79,29 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
     setAISpeaking,
     setUserSpeaking,
     setCurrentTranscript,
+    setSpokenCaption,
     addVisualEffect,
     removeVisualEffect,
     setErrorMessage,
     setConnectionStatus,
+    resetState,
   } = useUI();
 
+  const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(null);
+  // Token usage for the developer panel
+  const [sessionUsage, setSessionUsage] = useState<SessionUsage | null>(null);
+  // Bumped to start a new session with the same picture
+  const [sessionKey, setSessionKey] = useState(0);
+  // Set by zoom_image; the picture and its effects are zoomed together
+  const [imageZoom, setImageZoom] = useState<ImageZoom | null>(null);
+
   // Service instances (persisted across renders)
   const orchestratorRef = useRef<ConversationOrchestrator | null>(null);
   const toolRegistryRef = useRef<ToolRegistry | null>(null);
   const sessionManagerRef = useRef<SessionStateManager | null>(null);
   const networkMonitorRef = useRef<NetworkMonitor | null>(null);
   const retryCountRef = useRef<number>(0);
+  const imageContextRef = useRef<ImageContext | undefined>(undefined);
 
   /**
    * Handle retry for AI service errors
@@ -82,6 +119,34 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
     }
   };
 
+  /**
+   * Pause or resume the conversation
+   */
+  const handleTogglePause = () => {
+    const orchestrator = orchestratorRef.current;
+    if (!orchestrator) return;
+
+    if (orchestrator.getSessionState().status === 'paused') {
+      orchestrator.resume();
+    } else {
+      orchestrator.pause();
+    }
+  };
+
+  /**
+   * Leave the summary screen for a new conversation
+   */
+  const handleTalkAboutAnotherPicture = () => {
+    setSessionSummary(null);
+    resetState();
+
+    if (onTalkAboutAnotherPicture) {
+      onTalkAboutAnotherPicture();
+    } else {
+      setSessionKey(key => key + 1);
+    }
+  };
+
   /**
    * Handle dismissing error notification
    */
@@ -126,6 +191,19 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
     return `Error: ${error}`;
   };
 
+  /**
+   * Look up the picture in the image metadata to describe it to the LLM
+   */
+  const resolveImageContext = async (url: string): Promise<ImageContext | undefined> => {
+    try {
+      const image = getImageByPath(await loadImageMetadata(), url);
+      return image ? toImageContext(image) : undefined;
+    } catch (error) {
+      console.warn('[UIController] Could not load image metadata:', error);
+      return undefined;
+    }
+  };
+
   /**
    * Initialize all services and start conversation
    * Requirements: 2.1 (initiate within 2 seconds), 3.1 (STT), 4.1 (TTS), 6.1 (tools), 10.1 (microphone permission)
@@ -152,15 +230,18 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
         }
 
         // Initialize STT Handler
-        const sttHandler = new SpeechToTextHandler();
+        const sttHandler = createSpeechToTextHandler(conversationConfig.sttProvider, conversationConfig.llmProvider);
         await sttHandler.initialize({
           language: 'en-US',
           continuous: true,
           interimResults: true,
+          // Wait for the child to finish their thought, longer for younger children
+          endpointing: { childAge: conversationConfig.childAge },
         });
 
         // Initialize TTS Handler
-        const ttsHandler = new TextToSpeechHandler();
+        // Hosted voices fall back to browser speech synthesis if they fail
+        const ttsHandler = new TextToSpeechHandler(createSpeechAudioProvider(conversationConfig.voiceProvider, conversationConfig.llmProvider));
         await ttsHandler.initialize({
           voice: 'Google US English', // Child-friendly voice
           rate: 0.9, // Slightly slower for clarity
@@ -170,19 +251,19 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
 
         // Initialize LLM Client
         const llmClient = new LLMClient();
-        const apiKey = getApiKey();
-        
-        if (!apiKey) {
-          throw new Error('OpenAI API key not configured. Please set VITE_OPENAI_API_KEY environment variable.');
-        }
-
-        llmClient.initialize({
-          provider: conversationConfig.llmProvider,
-          model: getEnv('VITE_OPENAI_MODEL', 'gpt-4o-mini'),
-          apiKey,
+        const llmConfig = resolveLLMConfig(conversationConfig.llmProvider, {
           temperature: 0.8,
           maxTokens: 150,
         });
+        const providerDefinition = defaultLLMProviderRegistry.getProvider(llmConfig.provider);
+        
+        if (providerDefinition?.requiresApiKey && !llmConfig.apiKey) {
+          throw new Error(
+            `${providerDefinition.label} API key not configured. Please set ${providerDefinition.env.apiKey} environment variable.`
+          );
+        }
+
+        llmClient.initialize(llmConfig);
 
         // Initialize Tool Registry and register visual effect tools
         const toolRegistry = new ToolRegistry();
@@ -203,6 +284,10 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
           if (sessionManager) {
             const sessionState = sessionManager.getState();
             setElapsedTime(sessionState.elapsedMs);
+            if (conversationConfig.devPanel) {
+              // Usage is replaced, not changed, when it grows, so this only re-renders then
+              setSessionUsage(sessionState.usage);
+            }
           }
         }, 100);
 
@@ -254,6 +339,27 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
               if (!mounted) return;
               console.log('[UIController] Tool called:', toolName, args);
             },
+            onInterrupt: () => {
+              if (!mounted) return;
+              setAISpeaking(false);
+              setSpokenCaption(null);
+            },
+          },
+          {
+            bargeIn: conversationConfig.bargeIn,
+            // Save every turn so conversations survive a reload
+            sessionStore: createSessionStore(),
+            childProfileId: conversationConfig.childProfileId,
+            promptOptions: {
+              childAge: conversationConfig.childAge,
+              conversationStyle: conversationConfig.conversationStyle,
+            },
+            // Check every reply before the child hears it
+            moderator: new OutputModerator({ blocklist: conversationConfig.moderationBlocklist }),
+            // Keep personal details out of the LLM and saved sessions
+            inputScreener: new InputScreener({ knownNames: conversationConfig.redactNames }),
+            parentAlerts,
+            priceTable: conversationConfig.modelPrices,
           }
         );
 
@@ -270,13 +376,29 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
           if (mounted) {
             setAISpeaking(false);
             setCurrentTranscript('');
+            setSpokenCaption(null);
           }
         });
 
-        // Start the conversation
+        // Karaoke captions: highlight each word as it is spoken
+        ttsHandler.onWordBoundary((boundary) => {
+          if (mounted) {
+            setSpokenCaption(boundary);
+          }
+        });
+
+        // Pick up where the child left off if the page reloaded mid-conversation,
+        // otherwise start the conversation
         // Requirement 2.1: Initiate within 2 seconds
-        const durationMs = conversationConfig.durationSeconds * 1000;
-        await orchestrator.startConversation(imageUrl, undefined, durationMs);
+        const imageContext = providedImageContext ?? await resolveImageContext(imageUrl);
+        imageContextRef.current = imageContext;
+        const resumable = await orchestrator.findResumableSession(imageContext?.id ?? imageUrl);
+        if (resumable) {
+          await orchestrator.resumeConversation(resumable.sessionId, imageContext);
+        } else {
+          const durationMs = conversationConfig.durationSeconds * 1000;
+          await orchestrator.startConversation(imageUrl, imageContext, durationMs);
+        }
 
         // Cleanup function
         return () => {
@@ -297,8 +419,7 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
         console.error('[UIController] Initialization error:', error);
         console.error('[UIController] Error details:', {
           message: errorMessage,
-          apiKeyPresent: !!getApiKey(),
-          model: getEnv('VITE_OPENAI_MODEL', 'gpt-4o-mini')
+          provider: conversationConfig.llmProvider,
         });
         
         // Requirements: 10.2 (display user-friendly error notifications)
@@ -321,7 +442,39 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [imageUrl, conversationConfig]);
+  }, [imageUrl, conversationConfig, providedImageContext, sessionKey, parentAlerts]);
+
+  /**
+   * Summarize the conversation once it has ended
+   * Requirement 5.3: conclude the conversation
+   */
+  useEffect(() => {
+    const orchestrator = orchestratorRef.current;
+    if (state.conversationStatus !== 'completed' || !orchestrator) return;
+
+    // Objects in the picture come from the image metadata, when the picture has any
+    const detectedObjects = imageContextRef.current?.detectedObjects ?? [];
+    setSessionSummary(summarizeSession(orchestrator.getTranscript(), detectedObjects));
+  }, [state.conversationStatus]);
+
+  /**
+   * Space bar pauses and resumes the conversation
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || event.repeat) return;
+
+      // Leave the space bar to focused controls and text fields
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('button, input, textarea, select, [contenteditable="true"]')) return;
+
+      event.preventDefault();
+      handleTogglePause();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   /**
    * Initialize NetworkMonitor for connection status tracking
@@ -371,19 +524,52 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
       
       // Wrap handler to add visual effects to UI state
       const wrappedHandler = async (args: any) => {
+        // Point at a named region of the picture, e.g. { object: 'trunk' }
+        let parameters = args;
+        if (typeof args.object === 'string') {
+          const imageContext = imageContextRef.current;
+          const match = findImageRegion(imageContext, args.object);
+          if (!match) {
+            const names = Object.keys(imageContext?.regions ?? {});
+            return {
+              status: 'error' as const,
+              error: `Unknown object "${args.object}". Named regions: ${names.length > 0 ? names.join(', ') : 'none'}`,
+            };
+          }
+          parameters = {
+            ...args,
+            object: match.name,
+            region: match.region,
+            imageUrl: imageContext?.url,
+            imageSize: imageContext?.size,
+          };
+        }
+
         // Execute original handler
-        await originalHandler(args);
+        const result = await originalHandler(args);
+        if (result?.status === 'error') {
+          return result;
+        }
+
+        // Zooming moves the picture itself rather than drawing on top of it
+        if (tool.name === 'zoom_image') {
+          setImageZoom(getImageZoom(parameters));
+          return result;
+        }
         
         // Add visual effect to UI state
         const effect: VisualEffect = {
           id: `effect_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
           type: getEffectType(tool.name),
-          parameters: args,
+          parameters,
           startTime: Date.now(),
           endTime: args.duration ? Date.now() + args.duration : undefined,
         };
         
         addVisualEffect(effect);
+
+        // Pass the result on so the AI learns what was shown
+        return result;
       };
 
       // Re-register tool with wrapped handler
@@ -435,34 +621,73 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
           )}
         </div>
         
-        <div className="hidden sm:block flex-1" />
+        <div className="flex-1 flex justify-center sm:justify-end">
+          {['active', 'wrapping_up', 'paused'].includes(state.conversationStatus) && (
+            <PauseControl
+              isPaused={state.conversationStatus === 'paused'}
+              onToggle={handleTogglePause}
+            />
+          )}
+        </div>
       </div>
 
       {/* Main Content Area */}
       <div 
         className="flex-1 flex flex-col items-center justify-center px-3 py-3 sm:px-4 sm:py-4 md:px-6 md:py-5 relative overflow-hidden"
       >
-        {/* Image Display with Visual Effects Overlay */}
-        <div 
-          className="relative w-full max-w-[95%] sm:max-w-[90%] md:max-w-2xl lg:max-w-3xl xl:max-w-4xl h-full max-h-[300px] sm:max-h-[400px] md:max-h-[500px] lg:max-h-[600px] rounded-lg sm:rounded-xl overflow-hidden shadow-lg sm:shadow-xl bg-white"
-        >
-          <ImageDisplay imageUrl={imageUrl} />
-          <VisualEffects 
-            effects={state.visualEffects} 
-            onEffectComplete={handleEffectComplete}
+        {sessionSummary ? (
+          <SessionSummaryScreen
+            summary={sessionSummary}
+            onTalkAboutAnotherPicture={handleTalkAboutAnotherPicture}
           />
-        </div>
-
-        {/* Current Transcript Display */}
-        {state.currentTranscript && (
-          <div 
-            className="mt-3 sm:mt-4 md:mt-5 px-4 py-3 sm:px-5 sm:py-3 md:px-6 md:py-4 bg-white/95 rounded-lg sm:rounded-xl shadow-md max-w-[95%] sm:max-w-[90%] md:max-w-2xl lg:max-w-3xl xl:max-w-4xl w-full"
-            data-testid="transcript-display"
-          >
-            <p className="m-0 text-sm sm:text-base md:text-lg text-gray-800 italic">
-              "{state.currentTranscript}"
-            </p>
-          </div>
+        ) : (
+          <>
+            {/* Image Display with Visual Effects Overlay */}
+            <div 
+              className="relative w-full max-w-[95%] sm:max-w-[90%] md:max-w-2xl lg:max-w-3xl xl:max-w-4xl h-full max-h-[300px] sm:max-h-[400px] md:max-h-[500px] lg:max-h-[600px] rounded-lg sm:rounded-xl overflow-hidden shadow-lg sm:shadow-xl bg-white"
+            >
+              <div
+                className="relative w-full h-full transition-transform ease-in-out"
+                style={imageZoom ? {
+                  transform: `scale(${imageZoom.scale}) translate(${50 - imageZoom.focus.x}%, ${50 - imageZoom.focus.y}%)`,
+                  transitionDuration: `${imageZoom.durationMs}ms`,
+                } : undefined}
+                data-testid="image-zoom"
+              >
+                <ImageDisplay imageUrl={imageUrl} />
+                <VisualEffects 
+                  effects={state.visualEffects} 
+                  onEffectComplete={handleEffectComplete}
+                />
+              </div>
+            </div>
+
+            {/* Live caption of the AI's speech, word by word */}
+            {state.spokenCaption && (
+              <div 
+                className="mt-3 sm:mt-4 md:mt-5 px-4 py-3 sm:px-5 sm:py-3 md:px-6 md:py-4 bg-white/95 rounded-lg sm:rounded-xl shadow-md max-w-[95%] sm:max-w-[90%] md:max-w-2xl lg:max-w-3xl xl:max-w-4xl w-full"
+                data-testid="caption-display"
+              >
+                <LiveCaption
+                  text={state.spokenCaption.text}
+                  charIndex={state.spokenCaption.charIndex}
+                  charLength={state.spokenCaption.charLength}
+                />
+              </div>
+            )}
+
+            {/* Current Transcript Display */}
+            {!state.spokenCaption && state.currentTranscript && (
+              <div 
+                className="mt-3 sm:mt-4 md:mt-5 px-4 py-3 sm:px-5 sm:py-3 md:px-6 md:py-4 bg-white/95 rounded-lg sm:rounded-xl shadow-md max-w-[95%] sm:max-w-[90%] md:max-w-2xl lg:max-w-3xl xl:max-w-4xl w-full"
+                data-testid="transcript-display"
+              >
+                <p className="m-0 text-sm sm:text-base md:text-lg text-gray-800 italic">
+                  "{state.currentTranscript}"
+                </p>
+              </div>
+            )}
+          </>
         )}
 
         {/* Error Message Display */}
@@ -473,6 +698,11 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
             onDismiss={handleDismissError}
           />
         )}
+
+        {/* Developer panel with token usage and cost */}
+        {conversationConfig.devPanel && sessionUsage && (
+          <UsagePanel usage={sessionUsage} className="absolute bottom-2 left-2 z-[90]" />
+        )}
       </div>
 
       {/* Footer with Conversation State Indicators */}
@@ -490,6 +720,46 @@ const UIControllerContent: React.FC<UIControllerProps> = ({
   );
 };
 
+interface ImageZoom {
+  scale: number;
+  /** Point brought to the middle, as percentages of the picture */
+  focus: { x: number; y: number };
+  durationMs: number;
+}
+
+/**
+ * Where each coarse zoom_image area is centred, as percentages of the picture
+ */
+const ZOOM_AREA_FOCUS: Record<string, { x: number; y: number }> = {
+  top: { x: 50, y: 25 },
+  bottom: { x: 50, y: 75 },
+  left: { x: 25, y: 50 },
+  right: { x: 75, y: 50 },
+  center: { x: 50, y: 50 },
+  'top-left': { x: 25, y: 25 },
+  'top-right': { x: 75, y: 25 },
+  'bottom-left': { x: 25, y: 75 },
+  'bottom-right': { x: 75, y: 75 },
+};
+
+/**
+ * Zoom for a zoom_image call, centred on the named region when there is one
+ *
+ * @param parameters - Tool arguments, with the region resolved from "object"
+ * @returns The zoom, or null to show the whole picture again
+ */
+function getImageZoom(parameters: VisualEffect['parameters']): ImageZoom | null {
+  if (parameters.level !== 'in') {
+    return null;
+  }
+  const regionCenter = parameters.region ? getRegionCenter(parameters.region, parameters.imageSize) : undefined;
+  return {
+    scale: 2,
+    focus: regionCenter ?? ZOOM_AREA_FOCUS[parameters.area] ?? ZOOM_AREA_FOCUS.center,
+    durationMs: typeof parameters.duration === 'number' ? parameters.duration : 500,
+  };
+}
+
 /**
  * UIController - Main component wrapped with UIProvider
  */
@@ -0,0 +1,32 @@
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { UsagePanel } from './UsagePanel';
+import type { SessionUsage } from '../types/session';
+
+describe('UsagePanel', () => {
+  const usage: SessionUsage = {
+    requests: 4,
+    promptTokens: 12500,
+    completionTokens: 310,
+    cachedTokens: 8192,
+    costUsd: 0.00181,
+    unpricedModels: [],
+  };
+
+  it('should show the token totals and cost', () => {
+    render(<UsagePanel usage={usage} />);
+
+    expect(screen.getByTestId('usage-requests')).toHaveTextContent('4');
+    expect(screen.getByTestId('usage-prompt-tokens')).toHaveTextContent('12,500');
+    expect(screen.getByTestId('usage-cached-tokens')).toHaveTextContent('8,192');
+    expect(screen.getByTestId('usage-completion-tokens')).toHaveTextContent('310');
+    expect(screen.getByTestId('usage-cost')).toHaveTextContent('$0.0018');
+    expect(screen.queryByTestId('usage-unpriced')).not.toBeInTheDocument();
+  });
+
+  it('should point out models whose cost is missing', () => {
+    render(<UsagePanel usage={{ ...usage, unpricedModels: ['llama3.2:latest'] }} />);
+
+    expect(screen.getByTestId('usage-unpriced')).toHaveTextContent('No price for llama3.2:latest');
+  });
+});
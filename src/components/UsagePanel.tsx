@@ -0,0 +1,51 @@
+/**
+ * UsagePanel - Developer panel with the session's token usage and cost
+ * 
+ * Shown only when the developer panel is turned on (VITE_DEV_PANEL), to
+ * keep an eye on what conversations cost while tuning prompts and models.
+ */
+
+import React from 'react';
+import type { SessionUsage } from '../types/session';
+import { formatCost } from '../services/usageCost';
+
+export interface UsagePanelProps {
+  usage: SessionUsage;
+  className?: string;
+}
+
+/**
+ * UsagePanel component
+ * Lists requests, prompt (and cached) tokens, completion tokens and cost so far
+ */
+export const UsagePanel: React.FC<UsagePanelProps> = ({ usage, className = '' }) => {
+  const rows: Array<[label: string, value: string, testId: string]> = [
+    ['Requests', usage.requests.toLocaleString('en-US'), 'usage-requests'],
+    ['Prompt tokens', usage.promptTokens.toLocaleString('en-US'), 'usage-prompt-tokens'],
+    ['Cached tokens', usage.cachedTokens.toLocaleString('en-US'), 'usage-cached-tokens'],
+    ['Completion tokens', usage.completionTokens.toLocaleString('en-US'), 'usage-completion-tokens'],
+    ['Cost', formatCost(usage.costUsd), 'usage-cost'],
+  ];
+
+  return (
+    <aside
+      className={`px-3 py-2 bg-gray-900/85 text-gray-100 text-xs font-mono rounded-md shadow-md ${className}`}
+      data-testid="usage-panel"
+      aria-label="Token usage"
+    >
+      <dl className="grid grid-cols-[auto_auto] gap-x-3 gap-y-0.5 m-0">
+        {rows.map(([label, value, testId]) => (
+          <React.Fragment key={testId}>
+            <dt className="text-gray-400">{label}</dt>
+            <dd className="m-0 text-right" data-testid={testId}>{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      {usage.unpricedModels.length > 0 && (
+        <p className="mt-1 mb-0 text-yellow-300" data-testid="usage-unpriced">
+          No price for {usage.unpricedModels.join(', ')}
+        </p>
+      )}
+    </aside>
+  );
+};
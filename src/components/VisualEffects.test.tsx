@@ -61,6 +61,49 @@ describe('VisualEffects', () => {
         expect(highlight).toBeInTheDocument();
       });
     });
+    it('should outline a named region at its exact box', () => {
+      const effect: VisualEffect = {
+        id: 'highlight-region',
+        type: 'highlight',
+        parameters: {
+          object: 'cargo car',
+          region: { box: { x: 100, y: 85, width: 50, height: 35 } },
+          imageUrl: '/images/toy-train.svg',
+          imageSize: { width: 200, height: 200 },
+          color: 'red',
+        },
+        startTime: Date.now(),
+      };
+
+      const { getByTestId } = render(<VisualEffects effects={[effect]} />);
+
+      expect(getByTestId('highlight-cargo car')).toHaveAttribute('viewBox', '0 0 200 200');
+      const box = getByTestId('highlight-cargo car-box');
+      expect(box).toHaveAttribute('x', '100');
+      expect(box).toHaveAttribute('y', '85');
+      expect(box).toHaveAttribute('width', '50');
+      expect(box).toHaveAttribute('height', '35');
+      expect(box).toHaveAttribute('stroke', 'red');
+    });
+
+    it('should trace the SVG element of a named region', () => {
+      const effect: VisualEffect = {
+        id: 'highlight-trunk',
+        type: 'highlight',
+        parameters: {
+          object: 'trunk',
+          region: { box: { x: 84, y: 126, width: 20, height: 48 }, svgElementId: 'trunk' },
+          imageUrl: '/images/friendly-elephant.svg',
+          imageSize: { width: 200, height: 200 },
+        },
+        startTime: Date.now(),
+      };
+
+      const { getByTestId, queryByTestId } = render(<VisualEffects effects={[effect]} />);
+
+      expect(getByTestId('highlight-trunk-element')).toHaveAttribute('href', '/images/friendly-elephant.svg#trunk');
+      expect(queryByTestId('highlight-trunk-box')).not.toBeInTheDocument();
+    });
   });
 
   describe('Emoji Effects', () => {
@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import type { ImageRegion } from '../types/image';
 import type { VisualEffect } from '../types/ui';
 
 interface VisualEffectsProps {
@@ -74,6 +75,10 @@ export const VisualEffects: React.FC<VisualEffectsProps> = ({ effects, onEffectC
 const HighlightEffect: React.FC<{ effect: VisualEffect }> = ({ effect }) => {
   const { area, color = 'yellow', opacity = 0.3 } = effect.parameters;
 
+  if (effect.parameters.region) {
+    return <RegionHighlight effect={effect} />;
+  }
+
   const getAreaClasses = (area: string): string => {
     const baseClasses = 'absolute rounded-lg border-3 animate-highlight-pulse';
     
@@ -115,6 +120,51 @@ const HighlightEffect: React.FC<{ effect: VisualEffect }> = ({ effect }) => {
   );
 };
 
+/**
+ * RegionHighlight - Outlines a named region of the image, e.g. the elephant's trunk
+ *
+ * The SVG shares the image's coordinate space and is letterboxed the same way
+ * as the object-contain image, so the outline lands on the region exactly.
+ * Regions with an SVG element id trace the element's own shape.
+ */
+const RegionHighlight: React.FC<{ effect: VisualEffect }> = ({ effect }) => {
+  const { object, region, imageUrl, imageSize, color = 'yellow' } = effect.parameters;
+  const { box, svgElementId } = region as ImageRegion;
+  const { width, height } = imageSize ?? { width: 100, height: 100 };
+  const traceElement = svgElementId && typeof imageUrl === 'string' && imageUrl.endsWith('.svg');
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full animate-highlight-pulse"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      data-testid={`highlight-${object}`}
+    >
+      {traceElement ? (
+        <use
+          href={`${imageUrl}#${svgElementId}`}
+          style={{ filter: `drop-shadow(0 0 2px ${color}) drop-shadow(0 0 4px ${color})` }}
+          data-testid={`highlight-${object}-element`}
+        />
+      ) : box && (
+        <rect
+          x={box.x}
+          y={box.y}
+          width={box.width}
+          height={box.height}
+          rx={Math.min(box.width, box.height) * 0.1}
+          fill={color}
+          fillOpacity={0.2}
+          stroke={color}
+          strokeWidth={3}
+          vectorEffect="non-scaling-stroke"
+          data-testid={`highlight-${object}-box`}
+        />
+      )}
+    </svg>
+  );
+};
+
 /**
  * EmojiEffect - Renders an emoji reaction at a specified position
  */
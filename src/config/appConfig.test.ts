@@ -10,6 +10,7 @@ import {
   validateConfig,
   appConfig,
 } from './appConfig';
+import { DEFAULT_PRICE_TABLE } from '../services/usageCost';
 
 describe('appConfig', () => {
   describe('LLM Configuration', () => {
@@ -73,6 +74,23 @@ describe('appConfig', () => {
       expect(['browser', 'elevenlabs', 'openai']).toContain(
         conversationConfig.voiceProvider
       );
+      expect(['browser', 'whisper']).toContain(conversationConfig.sttProvider);
+      expect(['educational', 'playful', 'exploratory']).toContain(conversationConfig.conversationStyle);
+    });
+
+    it('should have moderation and redaction lists without blank entries', () => {
+      for (const list of [conversationConfig.moderationBlocklist, conversationConfig.redactNames]) {
+        expect(Array.isArray(list)).toBe(true);
+        list?.forEach(item => {
+          expect(item).toBe(item.trim());
+          expect(item.length).toBeGreaterThan(0);
+        });
+      }
+    });
+
+    it('should include the default model prices', () => {
+      expect(conversationConfig.modelPrices).toMatchObject(DEFAULT_PRICE_TABLE);
+      expect(typeof conversationConfig.devPanel).toBe('boolean');
     });
   });
 
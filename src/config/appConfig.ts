@@ -1,13 +1,23 @@
 import type { LLMConfig, TTSConfig, ConversationConfig } from '../types/config';
-import { getApiKey, getEnv } from '../utils/env';
-export const llmConfig: LLMConfig = {
-  provider: 'openai',
-  model: getEnv('VITE_OPENAI_MODEL', 'gpt-4'),
-  apiKey: getApiKey(),
-  temperature: parseFloat(getEnv('VITE_LLM_TEMPERATURE', '0.7')),
-  maxTokens: parseInt(getEnv('VITE_LLM_MAX_TOKENS', '500'), 10),
-  baseUrl: getEnv('VITE_OPENAI_BASE_URL'),
-};
+import { getEnv } from '../utils/env';
+import { defaultLLMProviderRegistry, resolveLLMConfig } from '../services/LLMProviderRegistry';
+import { DEFAULT_PRICE_TABLE, parsePriceTable } from '../services/usageCost';
+import { hasOwnWhisperServer } from '../services/speechToTextProviders';
+/**
+ * Comma-separated list from an environment variable, without blank entries
+ */
+const getList = (key: string): string[] =>
+  getEnv(key)
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+/** Prices added to or overriding the defaults; null when the setting is malformed */
+const customModelPrices = parsePriceTable(getEnv('VITE_MODEL_PRICES'));
+
+const llmProvider = getEnv('VITE_LLM_PROVIDER', 'openai') as LLMConfig['provider'];
+
+export const llmConfig: LLMConfig = resolveLLMConfig(llmProvider);
 
 export const ttsConfig: TTSConfig = {
   voice: getEnv('VITE_TTS_VOICE', 'en-US'),
@@ -21,11 +31,19 @@ export const conversationConfig: ConversationConfig = {
     getEnv('VITE_CONVERSATION_DURATION_SECONDS', '60'),
     10
   ),
-  llmProvider: getEnv('VITE_LLM_PROVIDER', 'openai') as ConversationConfig['llmProvider'],
+  llmProvider,
   voiceProvider: getEnv('VITE_VOICE_PROVIDER', 'browser') as ConversationConfig['voiceProvider'],
+  sttProvider: getEnv('VITE_STT_PROVIDER', 'browser') as ConversationConfig['sttProvider'],
   childAge: getEnv('VITE_CHILD_AGE')
     ? parseInt(getEnv('VITE_CHILD_AGE'), 10)
     : undefined,
+  conversationStyle: getEnv('VITE_CONVERSATION_STYLE', 'educational') as ConversationConfig['conversationStyle'],
+  childProfileId: getEnv('VITE_CHILD_PROFILE_ID') || undefined,
+  bargeIn: getEnv('VITE_BARGE_IN', 'false') === 'true',
+  moderationBlocklist: getList('VITE_MODERATION_BLOCKLIST'),
+  redactNames: getList('VITE_REDACT_NAMES'),
+  modelPrices: { ...DEFAULT_PRICE_TABLE, ...customModelPrices },
+  devPanel: getEnv('VITE_DEV_PANEL', 'false') === 'true',
 };
 
 export const timingConfig = {
@@ -46,8 +64,13 @@ export const timingConfig = {
 export function validateConfig(): void {
   const errors: string[] = [];
 
-  if (!llmConfig.apiKey) {
-    errors.push('VITE_OPENAI_API_KEY is required');
+  const providerDefinition = defaultLLMProviderRegistry.getProvider(llmConfig.provider);
+  if (!providerDefinition) {
+    errors.push(
+      `VITE_LLM_PROVIDER must be one of: ${defaultLLMProviderRegistry.getProviderIds().join(', ')}`
+    );
+  } else if (providerDefinition.requiresApiKey && !llmConfig.apiKey) {
+    errors.push(`${providerDefinition.env.apiKey} is required`);
   }
 
   if (llmConfig.temperature < 0 || llmConfig.temperature > 2) {
@@ -58,6 +81,15 @@ export function validateConfig(): void {
     errors.push('VITE_LLM_MAX_TOKENS must be greater than 0');
   }
 
+  // Room for the system prompt, the tools and at least a few turns
+  if (Number.isNaN(llmConfig.contextTokenBudget) || (llmConfig.contextTokenBudget ?? Infinity) < 1000) {
+    errors.push('VITE_LLM_CONTEXT_TOKEN_BUDGET must be at least 1000');
+  }
+
+  if (customModelPrices === null) {
+    errors.push('VITE_MODEL_PRICES must be a JSON object of model ids to { input, cachedInput?, output } prices per million tokens');
+  }
+
   if (ttsConfig.rate < 0.1 || ttsConfig.rate > 10) {
     errors.push('VITE_TTS_RATE must be between 0.1 and 10');
   }
@@ -74,6 +106,24 @@ export function validateConfig(): void {
     errors.push('VITE_CONVERSATION_DURATION_SECONDS must be at least 10');
   }
 
+  if (!['browser', 'elevenlabs', 'openai'].includes(conversationConfig.voiceProvider)) {
+    errors.push('VITE_VOICE_PROVIDER must be one of: browser, elevenlabs, openai');
+  } else if (conversationConfig.voiceProvider === 'elevenlabs' && !getEnv('VITE_ELEVENLABS_API_KEY')) {
+    errors.push('VITE_ELEVENLABS_API_KEY is required when VITE_VOICE_PROVIDER=elevenlabs');
+  } else if (conversationConfig.voiceProvider === 'openai' && llmConfig.provider === 'proxy') {
+    errors.push('VITE_VOICE_PROVIDER=openai is not available with VITE_LLM_PROVIDER=proxy, which keeps the OpenAI key on the server');
+  }
+
+  if (!['browser', 'whisper'].includes(conversationConfig.sttProvider ?? 'browser')) {
+    errors.push('VITE_STT_PROVIDER must be one of: browser, whisper');
+  } else if (conversationConfig.sttProvider === 'whisper' && llmConfig.provider === 'proxy' && !hasOwnWhisperServer()) {
+    errors.push('VITE_WHISPER_API_KEY or VITE_WHISPER_BASE_URL is required when VITE_STT_PROVIDER=whisper with VITE_LLM_PROVIDER=proxy');
+  }
+
+  if (!['educational', 'playful', 'exploratory'].includes(conversationConfig.conversationStyle ?? 'educational')) {
+    errors.push('VITE_CONVERSATION_STYLE must be one of: educational, playful, exploratory');
+  }
+
   if (timingConfig.wrapUpThresholdSeconds >= timingConfig.maxDurationSeconds) {
     errors.push('VITE_WRAP_UP_THRESHOLD_SECONDS must be less than VITE_CONVERSATION_DURATION_SECONDS');
   }
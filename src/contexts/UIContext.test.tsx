@@ -30,6 +30,7 @@ describe('UIContext', () => {
         isAISpeaking: false,
         isUserSpeaking: false,
         currentTranscript: '',
+        spokenCaption: null,
         visualEffects: [],
         errorMessage: undefined,
         connectionStatus: 'online',
@@ -98,6 +99,23 @@ describe('UIContext', () => {
       expect(result.current.state.currentTranscript).toBe('Hello world');
     });
 
+    it('should update and clear the spoken caption', () => {
+      const { result } = renderHook(() => useUI(), {
+        wrapper: UIProvider,
+      });
+      const caption = { text: 'Look at the elephant!', charIndex: 5, charLength: 2 };
+
+      act(() => {
+        result.current.setSpokenCaption(caption);
+      });
+      expect(result.current.state.spokenCaption).toEqual(caption);
+
+      act(() => {
+        result.current.setSpokenCaption(null);
+      });
+      expect(result.current.state.spokenCaption).toBeNull();
+    });
+
     it('should update error message', () => {
       const { result } = renderHook(() => useUI(), {
         wrapper: UIProvider,
@@ -321,6 +339,7 @@ describe('UIContext', () => {
         isAISpeaking: false,
         isUserSpeaking: false,
         currentTranscript: '',
+        spokenCaption: null,
         visualEffects: [],
         errorMessage: undefined,
         connectionStatus: 'online',
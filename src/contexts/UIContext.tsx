@@ -9,7 +9,7 @@
 
 import React, { createContext, useContext, useReducer } from 'react';
 import type { ReactNode } from 'react';
-import type { UIState, VisualEffect, ConversationStatus, ConnectionStatus } from '../types/ui';
+import type { UIState, VisualEffect, ConversationStatus, ConnectionStatus, SpokenCaption } from '../types/ui';
 
 // Initial state
 const initialState: UIState = {
@@ -18,6 +18,7 @@ const initialState: UIState = {
   isAISpeaking: false,
   isUserSpeaking: false,
   currentTranscript: '',
+  spokenCaption: null,
   visualEffects: [],
   errorMessage: undefined,
   connectionStatus: 'online',
@@ -30,6 +31,7 @@ type UIAction =
   | { type: 'SET_AI_SPEAKING'; payload: boolean }
   | { type: 'SET_USER_SPEAKING'; payload: boolean }
   | { type: 'SET_CURRENT_TRANSCRIPT'; payload: string }
+  | { type: 'SET_SPOKEN_CAPTION'; payload: SpokenCaption | null }
   | { type: 'ADD_VISUAL_EFFECT'; payload: VisualEffect }
   | { type: 'REMOVE_VISUAL_EFFECT'; payload: string }
   | { type: 'CLEAR_VISUAL_EFFECTS' }
@@ -56,6 +58,9 @@ function uiReducer(state: UIState, action: UIAction): UIState {
     case 'SET_CURRENT_TRANSCRIPT':
       return { ...state, currentTranscript: action.payload };
     
+    case 'SET_SPOKEN_CAPTION':
+      return { ...state, spokenCaption: action.payload };
+    
     case 'ADD_VISUAL_EFFECT':
       return {
         ...state,
@@ -98,6 +103,7 @@ interface UIContextType {
   setAISpeaking: (speaking: boolean) => void;
   setUserSpeaking: (speaking: boolean) => void;
   setCurrentTranscript: (transcript: string) => void;
+  setSpokenCaption: (caption: SpokenCaption | null) => void;
   addVisualEffect: (effect: VisualEffect) => void;
   removeVisualEffect: (effectId: string) => void;
   clearVisualEffects: () => void;
@@ -142,6 +148,10 @@ export const UIProvider: React.FC<UIProviderProps> = ({ children }) => {
     dispatch({ type: 'SET_CURRENT_TRANSCRIPT', payload: transcript });
   };
 
+  const setSpokenCaption = (caption: SpokenCaption | null) => {
+    dispatch({ type: 'SET_SPOKEN_CAPTION', payload: caption });
+  };
+
   const addVisualEffect = (effect: VisualEffect) => {
     dispatch({ type: 'ADD_VISUAL_EFFECT', payload: effect });
   };
@@ -178,6 +188,7 @@ export const UIProvider: React.FC<UIProviderProps> = ({ children }) => {
     setAISpeaking,
     setUserSpeaking,
     setCurrentTranscript,
+    setSpokenCaption,
     addVisualEffect,
     removeVisualEffect,
     clearVisualEffects,
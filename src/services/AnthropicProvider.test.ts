@@ -0,0 +1,375 @@
+/**
+ * Unit tests for AnthropicProvider
+ *
+ * Requests are served by a recorded-fixture HTTP stand-in: each fixture in
+ * __fixtures__/anthropic holds a captured Messages API response (JSON body or
+ * server-sent event stream) that is replayed instead of hitting the network.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { TextDecoder, TextEncoder } from 'util';
+import {
+  AnthropicProvider,
+  ANTHROPIC_API_VERSION,
+  ANTHROPIC_CONVERSATION_START,
+  ANTHROPIC_DEFAULT_TOOL_RESULT,
+  convertToAnthropicMessages,
+  convertToAnthropicTools,
+  parseAnthropicResponse,
+} from './AnthropicProvider';
+import type { AnthropicFetch } from './AnthropicProvider';
+import type { LLMConfig } from '../types/config';
+import type { Message } from '../types/message';
+import type { Tool } from '../types/services';
+
+Object.assign(globalThis, { TextDecoder, TextEncoder });
+
+interface RecordedFixture {
+  status: number;
+  body?: unknown;
+  events?: Array<{ event: string; data: unknown }>;
+}
+
+interface RecordedRequest {
+  url: string;
+  init: RequestInit;
+  body: Record<string, unknown>;
+}
+
+function loadFixture(name: string): RecordedFixture {
+  return JSON.parse(readFileSync(join(__dirname, '__fixtures__', 'anthropic', `${name}.json`), 'utf-8'));
+}
+
+/**
+ * Build a fetch stand-in that replays the given fixtures in order and
+ * records every request it receives.
+ */
+function createFixtureFetch(...fixtureNames: string[]) {
+  const requests: RecordedRequest[] = [];
+  const queue = fixtureNames.map(loadFixture);
+
+  const fetchImpl: AnthropicFetch = async (url, init) => {
+    requests.push({ url, init, body: JSON.parse(String(init.body)) });
+    const fixture = queue.shift();
+    if (!fixture) {
+      throw new Error(`Unexpected request to ${url}`);
+    }
+
+    const encoder = new TextEncoder();
+    const chunks = (fixture.events ?? []).map(({ event, data }) =>
+      encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    );
+
+    return {
+      ok: fixture.status >= 200 && fixture.status < 300,
+      status: fixture.status,
+      statusText: '',
+      json: async () => fixture.body,
+      body: {
+        getReader: () => ({
+          read: async () =>
+            chunks.length > 0 ? { done: false, value: chunks.shift() } : { done: true, value: undefined },
+        }),
+      },
+    } as unknown as Response;
+  };
+
+  return { fetchImpl, requests };
+}
+
+describe('AnthropicProvider', () => {
+  const config: LLMConfig = {
+    provider: 'anthropic',
+    model: 'claude-3-5-haiku-latest',
+    apiKey: 'test-anthropic-key',
+    temperature: 0.7,
+    maxTokens: 300,
+  };
+
+  const tools: Tool[] = [{
+    name: 'show_emoji',
+    description: 'Show an emoji',
+    parameters: {
+      type: 'object',
+      properties: { emoji: { type: 'string' } },
+      required: ['emoji'],
+    },
+  }];
+
+  describe('sendMessage', () => {
+    it('should post to the Messages API with the expected headers and body', async () => {
+      const { fetchImpl, requests } = createFixtureFetch('messages-text');
+      const client = new AnthropicProvider(config, fetchImpl);
+
+      await client.sendMessage('You are friendly.', [
+        { role: 'user', content: 'Hello', timestamp: Date.now() },
+      ], tools);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].url).toBe('https://api.anthropic.com/v1/messages');
+      expect(requests[0].init.method).toBe('POST');
+      expect(requests[0].init.headers).toMatchObject({
+        'x-api-key': 'test-anthropic-key',
+        'anthropic-version': ANTHROPIC_API_VERSION,
+        'content-type': 'application/json',
+      });
+      expect(requests[0].body).toEqual({
+        model: 'claude-3-5-haiku-latest',
+        max_tokens: 300,
+        temperature: 0.7,
+        system: 'You are friendly.',
+        messages: [{ role: 'user', content: 'Hello' }],
+        tools: [{
+          name: 'show_emoji',
+          description: 'Show an emoji',
+          input_schema: tools[0].parameters,
+        }],
+      });
+    });
+
+    it('should use a custom base URL when configured', async () => {
+      const { fetchImpl, requests } = createFixtureFetch('messages-text');
+      const client = new AnthropicProvider({ ...config, baseUrl: 'https://proxy.example.com/' }, fetchImpl);
+
+      await client.sendMessage('', [], []);
+
+      expect(requests[0].url).toBe('https://proxy.example.com/v1/messages');
+      expect(requests[0].body.tools).toBeUndefined();
+      expect(requests[0].body.system).toBeUndefined();
+    });
+
+    it('should parse a text response', async () => {
+      const { fetchImpl } = createFixtureFetch('messages-text');
+      const client = new AnthropicProvider(config, fetchImpl);
+
+      const response = await client.sendMessage('', [], []);
+
+      expect(response).toEqual({
+        content: 'Hi there! I see a friendly gray elephant. What do you think it likes to eat?',
+        toolCalls: [],
+        finishReason: 'stop',
+        usage: { model: 'claude-3-5-haiku-20241022', promptTokens: 412, completionTokens: 21, cachedTokens: 0 },
+      });
+    });
+
+    it('should parse tool_use blocks into tool calls', async () => {
+      const { fetchImpl } = createFixtureFetch('messages-tool-use');
+      const client = new AnthropicProvider(config, fetchImpl);
+
+      const response = await client.sendMessage('', [], tools);
+
+      expect(response.content).toBe('Look at that long trunk!');
+      expect(response.toolCalls).toEqual([{
+        id: 'toolu_01A09q90qw90lq917835lq9',
+        name: 'highlight_image_area',
+        arguments: { area: 'center', color: 'yellow' },
+      }]);
+      expect(response.finishReason).toBe('tool_calls');
+    });
+
+    it('should surface API errors with status and message', async () => {
+      const { fetchImpl } = createFixtureFetch('messages-error-auth');
+      const client = new AnthropicProvider(config, fetchImpl);
+
+      await expect(client.sendMessage('', [], [])).rejects.toThrow('HTTP 401 invalid x-api-key');
+    });
+  });
+
+  describe('streamMessage', () => {
+    it('should accumulate text and tool_use deltas', async () => {
+      const { fetchImpl, requests } = createFixtureFetch('messages-stream-tool-use');
+      const client = new AnthropicProvider(config, fetchImpl);
+
+      const contents: string[] = [];
+      let finalResponse;
+      for await (const response of client.streamMessage('', [], tools)) {
+        contents.push(response.content);
+        finalResponse = response;
+      }
+
+      expect(requests[0].body.stream).toBe(true);
+      expect(contents).toContain('Wow, a');
+      expect(finalResponse).toEqual({
+        content: 'Wow, a happy elephant!',
+        toolCalls: [{
+          id: 'toolu_01T1x1fJ34qAmk2tNTrN7Up6',
+          name: 'show_emoji',
+          arguments: { emoji: '🐘', size: 'large' },
+        }],
+        finishReason: 'tool_calls',
+        usage: { model: 'claude-3-5-haiku-20241022', promptTokens: 472, completionTokens: 89, cachedTokens: 0 },
+      });
+    });
+
+    it('should throw when the stream reports an error event', async () => {
+      const { fetchImpl } = createFixtureFetch('messages-stream-error');
+      const client = new AnthropicProvider(config, fetchImpl);
+
+      const iterator = client.streamMessage('', [], []);
+      await expect(iterator.next()).rejects.toThrow('Overloaded');
+    });
+  });
+
+  describe('convertToAnthropicMessages', () => {
+    it('should open with a user turn when there is no history', () => {
+      expect(convertToAnthropicMessages([])).toEqual([
+        { role: 'user', content: ANTHROPIC_CONVERSATION_START },
+      ]);
+    });
+
+    it('should drop system messages and keep user/assistant turns', () => {
+      const messages: Message[] = [
+        { role: 'system', content: 'ignored', timestamp: 1 },
+        { role: 'user', content: 'Hi', timestamp: 2 },
+        { role: 'assistant', content: 'Hello!', timestamp: 3 },
+      ];
+
+      expect(convertToAnthropicMessages(messages)).toEqual([
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello!' },
+      ]);
+    });
+
+    it('should send attached pictures as base64 image blocks before the text', () => {
+      const messages: Message[] = [
+        { role: 'user', content: 'Describe this picture', timestamp: 1, images: ['data:image/png;base64,iVBORw0KGgo='] },
+      ];
+
+      expect(convertToAnthropicMessages(messages)).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+            { type: 'text', text: 'Describe this picture' },
+          ],
+        },
+      ]);
+    });
+
+    it('should translate tool calls to tool_use blocks answered by tool_result blocks', () => {
+      const messages: Message[] = [
+        {
+          role: 'assistant',
+          content: 'Here you go!',
+          timestamp: 1,
+          toolCalls: [{ id: 'toolu_1', name: 'show_emoji', arguments: { emoji: '😊' } }],
+        },
+        { role: 'user', content: 'Thanks', timestamp: 2 },
+      ];
+
+      expect(convertToAnthropicMessages(messages)).toEqual([
+        { role: 'user', content: ANTHROPIC_CONVERSATION_START },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Here you go!' },
+            { type: 'tool_use', id: 'toolu_1', name: 'show_emoji', input: { emoji: '😊' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: ANTHROPIC_DEFAULT_TOOL_RESULT },
+            { type: 'text', text: 'Thanks' },
+          ],
+        },
+      ]);
+    });
+
+    it('should send recorded tool messages as tool_result content', () => {
+      const messages: Message[] = [
+        { role: 'user', content: 'Zoom in', timestamp: 1 },
+        {
+          role: 'assistant',
+          content: '',
+          timestamp: 2,
+          toolCalls: [
+            { id: 'toolu_1', name: 'zoom_image', arguments: { level: 'in' } },
+            { id: 'toolu_2', name: 'show_emoji', arguments: { emoji: '🔍' } },
+          ],
+        },
+        { role: 'tool', content: '{"status":"success"}', timestamp: 3, toolCallId: 'toolu_1' },
+      ];
+
+      expect(convertToAnthropicMessages(messages)[2]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: '{"status":"success"}' },
+          { type: 'tool_result', tool_use_id: 'toolu_2', content: ANTHROPIC_DEFAULT_TOOL_RESULT },
+        ],
+      });
+    });
+
+    it('should answer trailing tool calls and merge consecutive same-role turns', () => {
+      const messages: Message[] = [
+        { role: 'user', content: 'One', timestamp: 1 },
+        { role: 'user', content: 'Two', timestamp: 2 },
+        {
+          role: 'assistant',
+          content: '',
+          timestamp: 3,
+          toolCalls: [{ id: 'toolu_2', name: 'zoom_image', arguments: { level: 'in' } }],
+        },
+      ];
+
+      const converted = convertToAnthropicMessages(messages);
+
+      expect(converted[0]).toEqual({
+        role: 'user',
+        content: [{ type: 'text', text: 'One' }, { type: 'text', text: 'Two' }],
+      });
+      expect(converted[1]).toEqual({
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'toolu_2', name: 'zoom_image', input: { level: 'in' } }],
+      });
+      expect(converted[2]).toEqual({
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'toolu_2', content: ANTHROPIC_DEFAULT_TOOL_RESULT }],
+      });
+    });
+  });
+
+  describe('convertToAnthropicTools', () => {
+    it('should map parameters to input_schema', () => {
+      expect(convertToAnthropicTools(tools)).toEqual([{
+        name: 'show_emoji',
+        description: 'Show an emoji',
+        input_schema: tools[0].parameters,
+      }]);
+    });
+  });
+
+  describe('parseAnthropicResponse', () => {
+    it('should map max_tokens to a length finish reason', () => {
+      const response = parseAnthropicResponse({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'This is a very long...' }],
+        stop_reason: 'max_tokens',
+      });
+
+      expect(response.finishReason).toBe('length');
+    });
+
+    it('should count prompt cache reads and writes as prompt tokens', () => {
+      const response = parseAnthropicResponse({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Hello!' }],
+        stop_reason: 'end_turn',
+        model: 'claude-3-5-haiku-20241022',
+        usage: { input_tokens: 50, output_tokens: 10, cache_read_input_tokens: 400, cache_creation_input_tokens: 30 },
+      });
+
+      expect(response.usage).toEqual({
+        model: 'claude-3-5-haiku-20241022',
+        promptTokens: 480,
+        completionTokens: 10,
+        cachedTokens: 400,
+      });
+    });
+  });
+});
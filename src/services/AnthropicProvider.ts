@@ -0,0 +1,494 @@
+/**
+ * AnthropicProvider - LLM provider adapter for the Anthropic Messages API
+ *
+ * Talks to the Anthropic Messages API over plain HTTP (fetch) and translates
+ * between the application's Message/Tool/ToolCall types and Anthropic's
+ * content blocks (text, tool_use, tool_result). The HTTP layer is injectable
+ * so the client can be exercised against recorded fixtures in tests.
+ */
+
+import type { LLMConfig } from '../types/config';
+import type { Message, ToolCall } from '../types/message';
+import type { AIResponse, LLMProviderAdapter, TokenUsage, Tool } from '../types/services';
+
+export const ANTHROPIC_DEFAULT_BASE_URL = 'https://api.anthropic.com';
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+
+/**
+ * Opening user turn sent when the conversation has no user message yet.
+ * The Messages API requires the first message to come from the user, while
+ * the orchestrator asks the AI to open the conversation with no history.
+ */
+export const ANTHROPIC_CONVERSATION_START = 'Please start our conversation about the picture.';
+
+/**
+ * Tool result sent back for tool calls that have no recorded result.
+ * Anthropic rejects a tool_use block that is not answered by a tool_result.
+ */
+export const ANTHROPIC_DEFAULT_TOOL_RESULT = 'Done.';
+
+export type AnthropicFetch = (input: string, init: RequestInit) => Promise<Response>;
+
+export interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface AnthropicToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: object;
+}
+
+export interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export interface AnthropicImageBlock {
+  type: 'image';
+  source: {
+    type: 'base64';
+    media_type: string;
+    data: string;
+  };
+}
+
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock;
+
+export interface AnthropicMessageParam {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: object;
+}
+
+export interface AnthropicResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  content: Array<AnthropicTextBlock | AnthropicToolUseBlock>;
+  stop_reason: string | null;
+  model?: string;
+  usage?: AnthropicUsage;
+}
+
+/**
+ * Token counts; input_tokens excludes the tokens read from or written to the prompt cache
+ */
+export interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  content_block?: AnthropicTextBlock | AnthropicToolUseBlock;
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+  };
+  /** Sent with message_start, with the input token counts */
+  message?: { model?: string; usage?: AnthropicUsage };
+  /** Sent with message_delta, with the output token count so far */
+  usage?: AnthropicUsage;
+  error?: { type: string; message: string };
+}
+
+export class AnthropicProvider implements LLMProviderAdapter {
+  private config: LLMConfig;
+  private fetchImpl: AnthropicFetch;
+
+  /**
+   * @param config - LLM configuration (model, API key, optional base URL, sampling)
+   * @param fetchImpl - HTTP implementation, defaults to the global fetch
+   */
+  constructor(config: LLMConfig, fetchImpl?: AnthropicFetch) {
+    this.config = config;
+    this.fetchImpl = fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Send messages and return the complete response
+   *
+   * @param systemPrompt - System prompt sent as the top-level `system` field
+   * @param messages - Conversation messages in internal format
+   * @param tools - Available tools for function calling
+   * @returns Parsed AI response in internal format
+   * @throws Error if the HTTP request fails or the API returns an error
+   */
+  async sendMessage(systemPrompt: string, messages: Message[], tools: Tool[]): Promise<AIResponse> {
+    const response = await this.post(this.buildRequestBody(systemPrompt, messages, tools, false));
+    const data = (await response.json()) as AnthropicResponse;
+    return parseAnthropicResponse(data);
+  }
+
+  /**
+   * Stream a response, yielding accumulated content and tool calls
+   *
+   * Mirrors the OpenAI streaming contract: every yielded AIResponse contains
+   * everything received so far, not just the latest delta. Token usage is
+   * set from the closing message_delta event.
+   *
+   * @param systemPrompt - System prompt sent as the top-level `system` field
+   * @param messages - Conversation messages in internal format
+   * @param tools - Available tools for function calling
+   * @param signal - Aborts the request and ends the stream
+   * @yields AIResponse objects with incrementally accumulated content and tool calls
+   * @throws Error if the HTTP request fails or the stream reports an error
+   */
+  async *streamMessage(
+    systemPrompt: string,
+    messages: Message[],
+    tools: Tool[],
+    signal?: AbortSignal
+  ): AsyncGenerator<AIResponse> {
+    const response = await this.post(this.buildRequestBody(systemPrompt, messages, tools, true), signal);
+
+    let accumulatedContent = '';
+    const accumulatedToolCalls: Array<{ id: string; name: string; argumentsStr: string }> = [];
+    const toolCallIndexByBlock = new Map<number, number>();
+    let finishReason: AIResponse['finishReason'] = 'stop';
+    let model = this.config.model;
+    let inputUsage: AnthropicUsage = {};
+    let usage: TokenUsage | undefined;
+
+    for await (const event of readServerSentEvents(response)) {
+      if (event.type === 'error') {
+        throw new Error(event.error?.message || 'Unknown stream error');
+      }
+
+      if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+        toolCallIndexByBlock.set(event.index ?? 0, accumulatedToolCalls.length);
+        accumulatedToolCalls.push({
+          id: event.content_block.id,
+          name: event.content_block.name,
+          argumentsStr: '',
+        });
+      } else if (event.type === 'content_block_delta' && event.delta) {
+        if (event.delta.type === 'text_delta' && event.delta.text) {
+          accumulatedContent += event.delta.text;
+        } else if (event.delta.type === 'input_json_delta' && event.delta.partial_json) {
+          const toolIndex = toolCallIndexByBlock.get(event.index ?? 0);
+          if (toolIndex !== undefined) {
+            accumulatedToolCalls[toolIndex].argumentsStr += event.delta.partial_json;
+          }
+        }
+      } else if (event.type === 'message_delta') {
+        if (event.delta?.stop_reason) {
+          finishReason = mapStopReason(event.delta.stop_reason);
+        }
+        if (event.usage) {
+          usage = parseAnthropicUsage({ ...inputUsage, ...event.usage }, model);
+        }
+      } else {
+        if (event.type === 'message_start') {
+          model = event.message?.model ?? model;
+          inputUsage = event.message?.usage ?? {};
+        }
+        // message_start, content_block_stop, message_stop and ping have nothing to yield
+        continue;
+      }
+
+      const parsedToolCalls: ToolCall[] = accumulatedToolCalls.map(tc => {
+        let args = {};
+        if (tc.argumentsStr) {
+          try {
+            args = JSON.parse(tc.argumentsStr);
+          } catch {
+            // Still accumulating, not valid JSON yet
+          }
+        }
+        return { id: tc.id, name: tc.name, arguments: args };
+      });
+
+      yield {
+        content: accumulatedContent,
+        toolCalls: parsedToolCalls,
+        finishReason,
+        usage,
+      };
+    }
+  }
+
+  private buildRequestBody(systemPrompt: string, messages: Message[], tools: Tool[], stream: boolean): object {
+    const anthropicTools = convertToAnthropicTools(tools);
+    return {
+      model: this.config.model,
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      system: systemPrompt || undefined,
+      messages: convertToAnthropicMessages(messages),
+      tools: anthropicTools.length > 0 ? anthropicTools : undefined,
+      stream: stream || undefined,
+    };
+  }
+
+  private async post(body: object, signal?: AbortSignal): Promise<Response> {
+    const baseUrl = (this.config.baseUrl || ANTHROPIC_DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const response = await this.fetchImpl(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.config.apiKey ?? '',
+        'anthropic-version': ANTHROPIC_API_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      let detail = response.statusText;
+      try {
+        const errorBody = await response.json();
+        detail = errorBody?.error?.message || detail;
+      } catch {
+        // Body is not JSON, keep the status text
+      }
+      throw new Error(`HTTP ${response.status} ${detail}`.trim());
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Convert internal Message format to Anthropic message params
+ *
+ * System messages are dropped (the system prompt travels separately),
+ * assistant tool calls become tool_use blocks, and every tool_use is answered
+ * with a tool_result block in the following user turn, carrying the recorded
+ * tool message content (or a default when no result was recorded). Consecutive messages
+ * with the same role are merged because the API requires alternating roles.
+ *
+ * @param messages - Array of internal messages
+ * @returns Array of Anthropic message params, always starting with a user turn
+ */
+export function convertToAnthropicMessages(messages: Message[]): AnthropicMessageParam[] {
+  const result: AnthropicMessageParam[] = [];
+  // Tool uses awaiting a tool_result, in call order, with any recorded result
+  let pendingToolResults = new Map<string, string | undefined>();
+
+  const flushToolResults = (): AnthropicToolResultBlock[] => {
+    const blocks = Array.from(pendingToolResults, ([id, content]) => ({
+      type: 'tool_result' as const,
+      tool_use_id: id,
+      content: content ?? ANTHROPIC_DEFAULT_TOOL_RESULT,
+    }));
+    pendingToolResults = new Map();
+    return blocks;
+  };
+
+  const append = (role: AnthropicMessageParam['role'], blocks: AnthropicContentBlock[]) => {
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content = [...toBlocks(last.content), ...blocks];
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      const blocks: AnthropicContentBlock[] = flushToolResults();
+      for (const image of message.images ?? []) {
+        blocks.push(toImageBlock(image));
+      }
+      if (message.content) {
+        blocks.push({ type: 'text', text: message.content });
+      }
+      if (blocks.length > 0) {
+        append('user', blocks);
+      }
+    } else if (message.role === 'assistant') {
+      const toolResults = flushToolResults();
+      if (toolResults.length > 0) {
+        append('user', toolResults);
+      }
+
+      const blocks: AnthropicContentBlock[] = [];
+      if (message.content) {
+        blocks.push({ type: 'text', text: message.content });
+      }
+      for (const toolCall of message.toolCalls ?? []) {
+        blocks.push({
+          type: 'tool_use',
+          id: toolCall.id,
+          name: toolCall.name,
+          input: toolCall.arguments,
+        });
+        pendingToolResults.set(toolCall.id, undefined);
+      }
+      if (blocks.length > 0) {
+        append('assistant', blocks);
+      }
+    } else if (message.role === 'tool' && message.toolCallId && pendingToolResults.has(message.toolCallId)) {
+      pendingToolResults.set(message.toolCallId, message.content);
+    }
+  }
+
+  const trailingResults = flushToolResults();
+  if (trailingResults.length > 0) {
+    append('user', trailingResults);
+  }
+
+  if (result.length === 0 || result[0].role !== 'user') {
+    result.unshift({ role: 'user', content: [{ type: 'text', text: ANTHROPIC_CONVERSATION_START }] });
+  }
+
+  // Collapse single text blocks back to plain strings for readability
+  return result.map(message => {
+    const blocks = toBlocks(message.content);
+    if (blocks.length === 1 && blocks[0].type === 'text') {
+      return { role: message.role, content: blocks[0].text };
+    }
+    return message;
+  });
+}
+
+/**
+ * Convert internal Tool format to Anthropic tool definitions
+ *
+ * @param tools - Array of internal tool definitions
+ * @returns Array of Anthropic tool definitions
+ */
+export function convertToAnthropicTools(tools: Tool[]): AnthropicTool[] {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters,
+  }));
+}
+
+/**
+ * Parse an Anthropic Messages API response into the internal AIResponse
+ *
+ * @param response - Anthropic message response
+ * @returns Parsed AI response with text content, tool calls, finish reason and token usage
+ */
+export function parseAnthropicResponse(response: AnthropicResponse): AIResponse {
+  const textParts: string[] = [];
+  const toolCalls: ToolCall[] = [];
+
+  for (const block of response.content ?? []) {
+    if (block.type === 'text') {
+      textParts.push(block.text);
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        name: block.name,
+        arguments: block.input ?? {},
+      });
+    }
+  }
+
+  return {
+    content: textParts.join(''),
+    toolCalls,
+    finishReason: mapStopReason(response.stop_reason),
+    usage: response.usage ? parseAnthropicUsage(response.usage, response.model ?? '') : undefined,
+  };
+}
+
+/**
+ * Convert Anthropic token counts to internal usage, where prompt tokens
+ * include the cached ones
+ */
+function parseAnthropicUsage(usage: AnthropicUsage, model: string): TokenUsage {
+  const cachedTokens = usage.cache_read_input_tokens ?? 0;
+  return {
+    model,
+    promptTokens: (usage.input_tokens ?? 0) + cachedTokens + (usage.cache_creation_input_tokens ?? 0),
+    completionTokens: usage.output_tokens ?? 0,
+    cachedTokens,
+  };
+}
+
+function mapStopReason(stopReason: string | null | undefined): AIResponse['finishReason'] {
+  if (stopReason === 'max_tokens') {
+    return 'length';
+  }
+  if (stopReason === 'tool_use') {
+    return 'tool_calls';
+  }
+  return 'stop';
+}
+
+/**
+ * Convert a base64 data URL, e.g. from FileReader.readAsDataURL, to an image block
+ */
+function toImageBlock(dataUrl: string): AnthropicImageBlock {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error('Images must be base64 data URLs');
+  }
+  return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } };
+}
+
+function toBlocks(content: AnthropicMessageParam['content']): AnthropicContentBlock[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * Read server-sent events from a streaming response body
+ *
+ * Splits the byte stream on blank lines and JSON-parses each `data:` payload.
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<AnthropicStreamEvent> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseEvent = (rawEvent: string): AnthropicStreamEvent | null => {
+    const data = rawEvent
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('');
+    return data ? (JSON.parse(data) as AnthropicStreamEvent) : null;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let separatorIndex = buffer.indexOf('\n\n');
+    while (separatorIndex !== -1) {
+      const event = parseEvent(buffer.slice(0, separatorIndex));
+      buffer = buffer.slice(separatorIndex + 2);
+      if (event) {
+        yield event;
+      }
+      separatorIndex = buffer.indexOf('\n\n');
+    }
+  }
+
+  const lastEvent = parseEvent(buffer + decoder.decode());
+  if (lastEvent) {
+    yield lastEvent;
+  }
+}
@@ -56,7 +56,7 @@ describe('ConversationOrchestrator - Property 25: Processing Start Latency', ()
             registerTool: jest.fn(),
             getTool: jest.fn(),
             getAllTools: jest.fn().mockReturnValue([]),
-            executeTool: jest.fn().mockResolvedValue(undefined),
+            executeTool: jest.fn().mockResolvedValue({ status: 'success' }),
           } as any;
 
           const testSessionManager = {
@@ -84,12 +84,14 @@ describe('ConversationOrchestrator - Property 25: Processing Start Latency', ()
           const testLLM = {
             initialize: jest.fn(),
             setImageContext: jest.fn(),
-            sendMessage: jest.fn().mockResolvedValue({
-              content: 'That sounds interesting! Tell me more.',
-              toolCalls: [],
-              finishReason: 'stop',
+            sendMessage: jest.fn(),
+            streamMessage: jest.fn().mockImplementation(async function* () {
+              yield {
+                content: 'That sounds interesting! Tell me more.',
+                toolCalls: [],
+                finishReason: 'stop',
+              };
             }),
-            streamMessage: jest.fn(),
           } as any;
 
           const callbacks = {
@@ -124,7 +126,7 @@ describe('ConversationOrchestrator - Property 25: Processing Start Latency', ()
             expect(processingStartLatency).toBeLessThanOrEqual(500);
 
             // Verify that processing actually occurred
-            expect(testLLM.sendMessage).toHaveBeenCalled();
+            expect(testLLM.streamMessage).toHaveBeenCalled();
             expect(testSessionManager.incrementMessageCount).toHaveBeenCalled();
 
           } finally {
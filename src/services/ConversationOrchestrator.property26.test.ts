@@ -56,7 +56,7 @@ describe('ConversationOrchestrator - Property 26: AI Response Generation Latency
             registerTool: jest.fn(),
             getTool: jest.fn(),
             getAllTools: jest.fn().mockReturnValue([]),
-            executeTool: jest.fn().mockResolvedValue(undefined),
+            executeTool: jest.fn().mockResolvedValue({ status: 'success' }),
           } as any;
 
           const testSessionManager = {
@@ -84,16 +84,16 @@ describe('ConversationOrchestrator - Property 26: AI Response Generation Latency
           const testLLM = {
             initialize: jest.fn(),
             setImageContext: jest.fn(),
-            sendMessage: jest.fn().mockImplementation(async () => {
-              // Simulate LLM processing time
+            sendMessage: jest.fn(),
+            streamMessage: jest.fn().mockImplementation(async function* () {
+              // Simulate LLM processing time before the first chunk
               await new Promise(resolve => setTimeout(resolve, llmDelayMs));
-              return {
+              yield {
                 content: 'That sounds interesting! Tell me more about that.',
                 toolCalls: [],
                 finishReason: 'stop',
               };
             }),
-            streamMessage: jest.fn(),
           } as any;
 
           const testOrchestrator = new ConversationOrchestrator(
@@ -114,8 +114,9 @@ describe('ConversationOrchestrator - Property 26: AI Response Generation Latency
             expect(responseLatency).toBeLessThanOrEqual(2000);
 
             // Verify that the AI response was actually generated
-            expect(testLLM.sendMessage).toHaveBeenCalled();
-            expect(testTTS.speak).toHaveBeenCalledWith('That sounds interesting! Tell me more about that.');
+            expect(testLLM.streamMessage).toHaveBeenCalled();
+            expect(testTTS.speak).toHaveBeenCalledWith('That sounds interesting!');
+            expect(testTTS.speak).toHaveBeenCalledWith('Tell me more about that.');
             
             // Verify message was added to conversation history
             expect(testSessionManager.incrementMessageCount).toHaveBeenCalled();
@@ -47,7 +47,7 @@ describe('ConversationOrchestrator - Property 3: Conversation Initiation Timing'
             registerTool: jest.fn(),
             getTool: jest.fn(),
             getAllTools: jest.fn().mockReturnValue([]),
-            executeTool: jest.fn().mockResolvedValue(undefined),
+            executeTool: jest.fn().mockResolvedValue({ status: 'success' }),
           } as any;
 
           const testSessionManager = {
@@ -84,16 +84,16 @@ describe('ConversationOrchestrator - Property 3: Conversation Initiation Timing'
           const testLLM = {
             initialize: jest.fn(),
             setImageContext: jest.fn(),
-            sendMessage: jest.fn().mockImplementation(async () => {
-              // Simulate LLM processing time
+            sendMessage: jest.fn(),
+            streamMessage: jest.fn().mockImplementation(async function* () {
+              // Simulate LLM processing time before the first chunk
               await new Promise(resolve => setTimeout(resolve, llmDelayMs));
-              return {
+              yield {
                 content: 'Hello! What do you see in this image?',
                 toolCalls: [],
                 finishReason: 'stop',
               };
             }),
-            streamMessage: jest.fn(),
           } as any;
 
           const testOrchestrator = new ConversationOrchestrator(
@@ -114,8 +114,9 @@ describe('ConversationOrchestrator - Property 3: Conversation Initiation Timing'
             expect(initiationTime).toBeLessThanOrEqual(2000);
 
             // Verify that the AI's first message was generated and delivered
-            expect(testLLM.sendMessage).toHaveBeenCalled();
-            expect(testTTS.speak).toHaveBeenCalledWith('Hello! What do you see in this image?');
+            expect(testLLM.streamMessage).toHaveBeenCalled();
+            expect(testTTS.speak).toHaveBeenCalledWith('Hello!');
+            expect(testTTS.speak).toHaveBeenCalledWith('What do you see in this image?');
             
             // Verify session was created and activated
             expect(testSessionManager.createSession).toHaveBeenCalledWith(imageUrl, durationMs);
@@ -14,9 +14,26 @@ import type { SpeechToTextHandler } from './SpeechToTextHandler';
 import type { LLMClient } from './LLMClient';
 import type { TextToSpeechHandler } from './TextToSpeechHandler';
 import type { ToolRegistry } from './ToolRegistry';
-import type { SessionStateManager } from './SessionStateManager';
+import { SessionStateManager } from './SessionStateManager';
 import type { AIResponse } from '../types/services';
 import type { ImageContext } from '../types/image';
+import type { Message } from '../types/message';
+import { InMemorySessionStore } from './InMemorySessionStore';
+import { OutputModerator } from './OutputModerator';
+import { InputScreener } from './InputScreener';
+import { createParentAlertChannel } from './ParentAlertChannel';
+import { getErrorLogger } from '../utils/errorLogger';
+
+/**
+ * Create a streamMessage implementation that yields the given chunks in order
+ */
+function streamChunks(...chunks: AIResponse[]) {
+  return async function* (): AsyncGenerator<AIResponse> {
+    for (const chunk of chunks) {
+      yield chunk;
+    }
+  };
+}
 
 describe('ConversationOrchestrator', () => {
   let orchestrator: ConversationOrchestrator;
@@ -50,6 +67,8 @@ describe('ConversationOrchestrator', () => {
       initialize: jest.fn(),
       speak: jest.fn().mockResolvedValue(undefined),
       stop: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn(),
       onSpeechStart: jest.fn(),
       onSpeechEnd: jest.fn(),
       onError: jest.fn(),
@@ -62,7 +81,7 @@ describe('ConversationOrchestrator', () => {
       registerTool: jest.fn(),
       getTool: jest.fn(),
       getAllTools: jest.fn().mockReturnValue([]),
-      executeTool: jest.fn().mockResolvedValue(undefined),
+      executeTool: jest.fn().mockResolvedValue({ status: 'success' }),
     } as any;
 
     // Create mock session manager
@@ -87,9 +106,11 @@ describe('ConversationOrchestrator', () => {
         toolCallCount: 0,
         imageContext: 'test-image.jpg',
       }),
+      restoreSession: jest.fn(),
       setStatus: jest.fn(),
       incrementMessageCount: jest.fn(),
       incrementToolCallCount: jest.fn(),
+      recordUsage: jest.fn(),
       shouldWrapUp: jest.fn().mockReturnValue(false),
       getTimeRemaining: jest.fn().mockReturnValue(60000),
       completeSession: jest.fn(),
@@ -112,15 +133,16 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       await orchestrator.startConversation('test-image.jpg');
 
       expect(mockSessionManager.createSession).toHaveBeenCalledWith('test-image.jpg', 60000);
       expect(mockSessionManager.setStatus).toHaveBeenCalledWith('active');
       expect(mockSTT.startListening).toHaveBeenCalled();
-      expect(mockLLM.sendMessage).toHaveBeenCalled();
-      expect(mockTTS.speak).toHaveBeenCalledWith('Hello! What do you see in this image?');
+      expect(mockLLM.streamMessage).toHaveBeenCalled();
+      expect(mockTTS.speak).toHaveBeenCalledWith('Hello!');
+      expect(mockTTS.speak).toHaveBeenCalledWith('What do you see in this image?');
     });
 
     it('should set image context in LLM when provided', async () => {
@@ -136,11 +158,31 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       await orchestrator.startConversation('test-image.jpg', imageContext);
 
-      expect(mockLLM.setImageContext).toHaveBeenCalledWith(imageContext);
+      expect(mockLLM.setImageContext).toHaveBeenCalledWith(imageContext, {});
+    });
+
+    it('should pass the child age and conversation style with the image context', async () => {
+      const imageContext: ImageContext = { url: 'test-image.jpg', description: 'A colorful sunset' };
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks({ content: 'Hello!', toolCalls: [], finishReason: 'stop' })
+      );
+      orchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        {},
+        { promptOptions: { childAge: 5, conversationStyle: 'playful' } }
+      );
+
+      await orchestrator.startConversation('test-image.jpg', imageContext);
+
+      expect(mockLLM.setImageContext).toHaveBeenCalledWith(imageContext, { childAge: 5, conversationStyle: 'playful' });
     });
 
     it('should handle custom duration', async () => {
@@ -149,7 +191,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       await orchestrator.startConversation('test-image.jpg', undefined, 30000);
 
@@ -164,7 +206,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
       await orchestrator.startConversation('test-image.jpg');
       jest.clearAllMocks();
     });
@@ -175,12 +217,12 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       await orchestrator.processUserSpeech('I see a cat');
 
       expect(mockSessionManager.incrementMessageCount).toHaveBeenCalledTimes(2); // user + assistant
-      expect(mockLLM.sendMessage).toHaveBeenCalled();
+      expect(mockLLM.streamMessage).toHaveBeenCalled();
       expect(mockTTS.speak).toHaveBeenCalledWith('That sounds interesting!');
     });
 
@@ -190,7 +232,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       // Start first processing
       const promise1 = orchestrator.processUserSpeech('First message');
@@ -201,7 +243,7 @@ describe('ConversationOrchestrator', () => {
       await promise1;
 
       // Should only process once
-      expect(mockLLM.sendMessage).toHaveBeenCalledTimes(1);
+      expect(mockLLM.streamMessage).toHaveBeenCalledTimes(1);
     });
 
     it('should transition to wrapping_up when shouldWrapUp returns true', async () => {
@@ -212,7 +254,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       await orchestrator.processUserSpeech('Tell me more');
 
@@ -230,6 +272,100 @@ describe('ConversationOrchestrator', () => {
     });
   });
 
+  describe('input screening', () => {
+    it('should record and send only the redacted speech and alert a parent to concerns', async () => {
+      const parentAlerts = createParentAlertChannel(undefined);
+      const screeningOrchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        {},
+        { inputScreener: new InputScreener(), parentAlerts, childProfileId: 'maya' }
+      );
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks({ content: 'Hello!', toolCalls: [], finishReason: 'stop' }));
+      await screeningOrchestrator.startConversation('test-image.jpg');
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(async function* (messages: Message[]) {
+        yield { content: `You said: ${messages[messages.length - 1].content}`, toolCalls: [], finishReason: 'stop' };
+      });
+
+      await screeningOrchestrator.processUserSpeech('My name is Maya Patel and my brother hits me');
+
+      const redacted = 'My name is [name] and my brother hits me';
+      expect(screeningOrchestrator.getMessages()[1]).toMatchObject({ role: 'user', content: redacted });
+      expect(mockTTS.speak).toHaveBeenCalledWith(`You said: ${redacted}`);
+      expect(parentAlerts.getAlerts()).toEqual([
+        expect.objectContaining({
+          sessionId: 'test-session',
+          childProfileId: 'maya',
+          category: 'harm',
+          matched: 'hits me',
+          text: redacted,
+        }),
+      ]);
+    });
+
+    it('should carry on when the alert cannot be sent', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const parentAlerts = createParentAlertChannel(undefined);
+      parentAlerts.subscribe(() => {
+        throw new Error('Listener failed');
+      });
+      const screeningOrchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        {},
+        { inputScreener: new InputScreener(), parentAlerts }
+      );
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks({ content: 'Oh no.', toolCalls: [], finishReason: 'stop' }));
+      await screeningOrchestrator.startConversation('test-image.jpg');
+
+      await screeningOrchestrator.processUserSpeech('I am being bullied');
+
+      expect(screeningOrchestrator.getMessages()).toHaveLength(3);
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('usage accounting', () => {
+    const usage = { model: 'test-model-2025-01-01', promptTokens: 1200, completionTokens: 40, cachedTokens: 1000 };
+    const priceTable = { 'test-model': { input: 1, cachedInput: 0.5, output: 10 } };
+
+    it('should add the usage reported at the end of a stream to the session with its cost', async () => {
+      const pricedOrchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        {},
+        { priceTable }
+      );
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks(
+          { content: 'Hello!', toolCalls: [], finishReason: 'stop' },
+          { content: 'Hello!', toolCalls: [], finishReason: 'stop', usage }
+        )
+      );
+
+      await pricedOrchestrator.startConversation('test-image.jpg');
+
+      // 200 × 1 + 1000 × 0.5 + 40 × 10 per million
+      expect(mockSessionManager.recordUsage).toHaveBeenCalledTimes(1);
+      expect(mockSessionManager.recordUsage).toHaveBeenCalledWith(usage, expect.closeTo(0.0011, 9));
+    });
+
+    it('should record usage of a complete response and leave unknown models unpriced', async () => {
+      await orchestrator.handleAIResponse({ content: 'Hi!', toolCalls: [], finishReason: 'stop', usage });
+
+      expect(mockSessionManager.recordUsage).toHaveBeenCalledWith(usage, null);
+    });
+  });
+
   describe('handleAIResponse', () => {
     it('should handle response with content only', async () => {
       const response: AIResponse = {
@@ -357,6 +493,775 @@ describe('ConversationOrchestrator', () => {
     });
   });
 
+  describe('streaming responses', () => {
+    const chunk = (content: string, toolCalls: AIResponse['toolCalls'] = []): AIResponse => ({
+      content,
+      toolCalls,
+      finishReason: 'stop',
+    });
+
+    const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('should speak each sentence as soon as it is complete', async () => {
+      const events: string[] = [];
+      (mockTTS.speak as jest.Mock).mockImplementation(async (text: string) => {
+        events.push(`speak:${text}`);
+      });
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(async function* () {
+        yield chunk('Look at the');
+        yield chunk('Look at the elephant! It has');
+        await flushPromises();
+        events.push('last chunk');
+        yield chunk('Look at the elephant! It has a long trunk.');
+      });
+
+      await orchestrator.startConversation('test-image.jpg');
+
+      expect(events).toEqual([
+        'speak:Look at the elephant!',
+        'last chunk',
+        'speak:It has a long trunk.',
+      ]);
+    });
+
+    it('should fire tool calls at their point in the stream', async () => {
+      const events: string[] = [];
+      (mockTTS.speak as jest.Mock).mockImplementation(async (text: string) => {
+        events.push(`speak:${text}`);
+      });
+      (mockToolRegistry.executeTool as jest.Mock).mockImplementation(async (name: string) => {
+        events.push(`tool:${name}`);
+        return { status: 'success' };
+      });
+      const partialCall = { id: 'call_1', name: 'highlight_image_area', arguments: {} };
+      const fullCall = { id: 'call_1', name: 'highlight_image_area', arguments: { area: 'center' } };
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(async function* () {
+        yield chunk('Look at the trunk! ');
+        yield chunk('Look at the trunk! ', [partialCall]);
+        yield chunk('Look at the trunk! ', [fullCall]);
+        yield chunk('Look at the trunk! Can you', [fullCall]);
+        await flushPromises();
+        events.push('last chunk');
+        yield chunk('Look at the trunk! Can you see it?', [fullCall]);
+      });
+
+      await orchestrator.startConversation('test-image.jpg');
+
+      expect(mockToolRegistry.executeTool).toHaveBeenCalledTimes(1);
+      expect(mockToolRegistry.executeTool).toHaveBeenCalledWith('highlight_image_area', { area: 'center' });
+      expect(events).toEqual([
+        'speak:Look at the trunk!',
+        'tool:highlight_image_area',
+        'last chunk',
+        'speak:Can you see it?',
+      ]);
+    });
+
+    it('should execute tool calls that end the stream', async () => {
+      const toolCall = { id: 'call_1', name: 'show_emoji', arguments: { emoji: '🐘' } };
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks(chunk('Hello!'), chunk('Hello!', [toolCall]))
+      );
+
+      await orchestrator.startConversation('test-image.jpg');
+
+      expect(mockToolRegistry.executeTool).toHaveBeenCalledWith('show_emoji', { emoji: '🐘' });
+      expect(mockSessionManager.incrementToolCallCount).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send interim text to onAIResponse for live captions', async () => {
+      const onAIResponse = jest.fn();
+      const orchestratorWithCallbacks = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        { onAIResponse }
+      );
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks(chunk('Hi'), chunk('Hi'), chunk('Hi there!'))
+      );
+
+      await orchestratorWithCallbacks.startConversation('test-image.jpg');
+
+      expect(onAIResponse.mock.calls).toEqual([['Hi'], ['Hi there!']]);
+    });
+
+    it('should record the complete reply once the stream ends', async () => {
+      const toolCall = { id: 'call_1', name: 'show_emoji', arguments: { emoji: '⭐' } };
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks(chunk('Great'), chunk('Great job! Well done.', [toolCall]))
+      );
+
+      await orchestrator.startConversation('test-image.jpg');
+
+      const messages = orchestrator.getMessages();
+      expect(messages).toHaveLength(2);
+      expect(messages[0]).toMatchObject({
+        role: 'assistant',
+        content: 'Great job! Well done.',
+        toolCalls: [toolCall],
+      });
+      expect(messages[1]).toMatchObject({ role: 'tool', toolCallId: 'call_1' });
+      expect(mockSessionManager.incrementMessageCount).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only resume listening after the last sentence', async () => {
+      const speechEndCallback = (mockTTS.onSpeechEnd as jest.Mock).mock.calls[0][0];
+      (mockTTS.speak as jest.Mock).mockImplementation(async () => {
+        speechEndCallback();
+      });
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks(chunk('One. Two. Three.'))
+      );
+
+      await orchestrator.startConversation('test-image.jpg');
+
+      expect(mockTTS.speak).toHaveBeenCalledTimes(3);
+      // Once when the conversation starts, once after the last sentence
+      expect(mockSTT.startListening).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('tool results', () => {
+    const toolCall = { id: 'call_1', name: 'zoom_image', arguments: { level: 'in' } };
+
+    const toolMessages = () => orchestrator.getMessages().filter(message => message.role === 'tool');
+
+    it('should record tool results as tool messages after the assistant message', async () => {
+      (mockToolRegistry.executeTool as jest.Mock).mockResolvedValue({ status: 'success', data: { level: 'in' } });
+
+      await orchestrator.handleAIResponse({ content: 'Look closer!', toolCalls: [toolCall], finishReason: 'stop' });
+
+      const messages = orchestrator.getMessages();
+      expect(messages.map(message => message.role)).toEqual(['assistant', 'tool']);
+      expect(messages[1]).toMatchObject({
+        toolCallId: 'call_1',
+        content: JSON.stringify({ status: 'success', data: { level: 'in' } }),
+      });
+    });
+
+    it('should record errors as tool results', async () => {
+      (mockToolRegistry.executeTool as jest.Mock).mockRejectedValue(new Error('Tool "zoom_image" execution failed: boom'));
+
+      await orchestrator.handleAIResponse({ content: 'Look closer!', toolCalls: [toolCall], finishReason: 'stop' });
+
+      expect(JSON.parse(toolMessages()[0].content)).toEqual({
+        status: 'error',
+        error: 'Tool "zoom_image" execution failed: boom',
+      });
+    });
+
+    it('should record timeouts as tool results', async () => {
+      (mockToolRegistry.executeTool as jest.Mock).mockImplementation(
+        () => new Promise(resolve => setTimeout(resolve, 600))
+      );
+
+      await orchestrator.handleAIResponse({ content: 'Look closer!', toolCalls: [toolCall], finishReason: 'stop' });
+
+      expect(JSON.parse(toolMessages()[0].content)).toEqual({
+        status: 'timeout',
+        error: 'Tool execution timeout after 500ms',
+      });
+    });
+
+    it('should send tool results back to the model so it can chain tool calls', async () => {
+      const highlightCall = { id: 'call_2', name: 'highlight_image_area', arguments: { area: 'center' } };
+      const replies: AIResponse[] = [
+        { content: '', toolCalls: [toolCall], finishReason: 'tool_calls' },
+        { content: '', toolCalls: [highlightCall], finishReason: 'tool_calls' },
+        { content: 'Can you see the trunk?', toolCalls: [], finishReason: 'stop' },
+      ];
+      const requests: Message[][] = [];
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(async function* (messages: Message[]) {
+        requests.push([...messages]);
+        yield replies[requests.length - 1];
+      });
+
+      await orchestrator.startConversation('test-image.jpg');
+
+      expect(mockLLM.streamMessage).toHaveBeenCalledTimes(3);
+      expect(mockToolRegistry.executeTool).toHaveBeenNthCalledWith(1, 'zoom_image', { level: 'in' });
+      expect(mockToolRegistry.executeTool).toHaveBeenNthCalledWith(2, 'highlight_image_area', { area: 'center' });
+      expect(mockTTS.speak).toHaveBeenCalledWith('Can you see the trunk?');
+
+      expect(requests[1].map(message => message.role)).toEqual(['assistant', 'tool']);
+      expect(requests[1][1].toolCallId).toBe('call_1');
+
+      expect(orchestrator.getMessages().map(message => message.role)).toEqual([
+        'assistant', 'tool', 'assistant', 'tool', 'assistant',
+      ]);
+    });
+
+    it('should stop calling the model back after the follow-up limit', async () => {
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks({ content: '', toolCalls: [toolCall], finishReason: 'tool_calls' })
+      );
+
+      await orchestrator.startConversation('test-image.jpg');
+
+      // The first request plus three follow-ups
+      expect(mockLLM.streamMessage).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('barge-in', () => {
+    const chunk = (content: string): AIResponse => ({ content, toolCalls: [], finishReason: 'stop' });
+    const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    let bargeInOrchestrator: ConversationOrchestrator;
+    let onInterrupt: jest.Mock;
+    let hearChild: (text: string, isFinal?: boolean) => void;
+    let streamSignals: AbortSignal[];
+
+    /**
+     * Stream a long reply; the last chunk only arrives after the first
+     * sentences have been handed to TTS
+     */
+    const streamLongReply = async function* (_messages: Message[], _tools: unknown, signal: AbortSignal) {
+      streamSignals.push(signal);
+      yield chunk('Look at the elephant! It is very big. ');
+      await flushPromises();
+      yield chunk('Look at the elephant! It is very big. It has a long trunk.');
+    };
+
+    beforeEach(() => {
+      onInterrupt = jest.fn();
+      streamSignals = [];
+      bargeInOrchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        { onInterrupt },
+        { bargeIn: true }
+      );
+      const transcriptCallback = (mockSTT.onTranscript as jest.Mock).mock.calls.at(-1)[0];
+      hearChild = (text, isFinal = false) => transcriptCallback({ text, isFinal, confidence: 0.9 });
+    });
+
+    it('should keep listening while the AI speaks', () => {
+      (mockSTT.isCurrentlyListening as jest.Mock).mockReturnValue(true);
+      const speechStartCallback = (mockTTS.onSpeechStart as jest.Mock).mock.calls.at(-1)[0];
+
+      speechStartCallback();
+
+      expect(mockSTT.stopListening).not.toHaveBeenCalled();
+    });
+
+    it('should stop speech and cancel the LLM request when the child talks', async () => {
+      (mockTTS.speak as jest.Mock).mockImplementation(async (text: string) => {
+        if (text === 'Look at the elephant!') {
+          hearChild('I see');
+        }
+      });
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamLongReply);
+
+      await bargeInOrchestrator.startConversation('test-image.jpg');
+
+      expect(mockTTS.stop).toHaveBeenCalled();
+      expect(streamSignals[0].aborted).toBe(true);
+      expect(onInterrupt).toHaveBeenCalledTimes(1);
+      expect(mockTTS.speak).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record the interrupted reply as truncated to what was spoken', async () => {
+      (mockTTS.speak as jest.Mock).mockImplementation(async (text: string) => {
+        if (text === 'It is very big.') {
+          hearChild('I see a bird');
+        }
+      });
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamLongReply);
+
+      await bargeInOrchestrator.startConversation('test-image.jpg');
+
+      expect(bargeInOrchestrator.getMessages()).toEqual([
+        expect.objectContaining({
+          role: 'assistant',
+          content: 'Look at the elephant! It is very big.',
+          truncated: true,
+        }),
+      ]);
+    });
+
+    it('should answer what the child said once the interrupted reply has wound down', async () => {
+      (mockTTS.speak as jest.Mock).mockImplementation(async (text: string) => {
+        if (text === 'Look at the elephant!') {
+          hearChild('I see a bird', true);
+        }
+      });
+      (mockLLM.streamMessage as jest.Mock)
+        .mockImplementationOnce(streamLongReply)
+        .mockImplementation(streamChunks(chunk('A bird? Where?')));
+
+      await bargeInOrchestrator.startConversation('test-image.jpg');
+      await flushPromises();
+
+      expect(mockLLM.streamMessage).toHaveBeenCalledTimes(2);
+      expect(bargeInOrchestrator.getMessages().map(({ role, content }) => [role, content])).toEqual([
+        ['assistant', 'Look at the elephant!'],
+        ['user', 'I see a bird'],
+        ['assistant', 'A bird? Where?'],
+      ]);
+    });
+
+    it('should ignore the microphone picking up the AI itself', async () => {
+      (mockTTS.speak as jest.Mock).mockImplementation(async (text: string) => {
+        if (text === 'It is very big.') {
+          hearChild('look at the elephant');
+        }
+      });
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamLongReply);
+
+      await bargeInOrchestrator.startConversation('test-image.jpg');
+
+      expect(mockTTS.stop).not.toHaveBeenCalled();
+      expect(mockTTS.speak).toHaveBeenCalledTimes(3);
+      expect(bargeInOrchestrator.getMessages()[0].truncated).toBeUndefined();
+    });
+
+    it('should not interrupt without barge-in enabled', async () => {
+      const transcriptCallback = (mockSTT.onTranscript as jest.Mock).mock.calls[0][0];
+      (mockTTS.speak as jest.Mock).mockImplementation(async (text: string) => {
+        if (text === 'Look at the elephant!') {
+          transcriptCallback({ text: 'I see', isFinal: false, confidence: 0.9 });
+        }
+      });
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamLongReply);
+
+      await orchestrator.startConversation('test-image.jpg');
+
+      expect(mockTTS.stop).not.toHaveBeenCalled();
+      expect(mockTTS.speak).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('output moderation', () => {
+    const chunk = (content: string): AIResponse => ({ content, toolCalls: [], finishReason: 'stop' });
+    const imageContext: ImageContext = {
+      url: 'test-image.jpg',
+      description: 'An elephant',
+      detectedObjects: ['elephant'],
+    };
+    const redirect = "Let's look back at the picture! Can you find the elephant? What do you notice about it?";
+
+    let moderatedOrchestrator: ConversationOrchestrator;
+    let onAIResponse: jest.Mock;
+    let consoleErrorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      getErrorLogger().clearLogs();
+      onAIResponse = jest.fn();
+      moderatedOrchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        { onAIResponse },
+        { moderator: new OutputModerator() }
+      );
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should speak a redirect instead of a flagged sentence and drop the rest of the reply', async () => {
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks(chunk('Look at the elephant! It hid a knife. Then it ran away.'))
+      );
+
+      await moderatedOrchestrator.startConversation('test-image.jpg', imageContext);
+
+      expect((mockTTS.speak as jest.Mock).mock.calls).toEqual([['Look at the elephant!'], [redirect]]);
+      expect(moderatedOrchestrator.getMessages()).toEqual([
+        expect.objectContaining({ role: 'assistant', content: `Look at the elephant! ${redirect}`, moderated: true }),
+      ]);
+      expect(moderatedOrchestrator.getMessages()[0].truncated).toBeUndefined();
+    });
+
+    it('should only show text that passed moderation', async () => {
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks(chunk('Look at the'), chunk('Look at the elephant! It hid a knife.'))
+      );
+
+      await moderatedOrchestrator.startConversation('test-image.jpg', imageContext);
+
+      expect(onAIResponse.mock.calls).toEqual([['Look at the elephant!'], [`Look at the elephant! ${redirect}`]]);
+    });
+
+    it('should caption checked sentences ahead of speech', async () => {
+      let finishSpeaking: () => void = () => {};
+      (mockTTS.speak as jest.Mock).mockImplementationOnce(
+        () => new Promise<void>(resolve => { finishSpeaking = resolve; })
+      );
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks(chunk('Look at the'), chunk('Look at the elephant! It is big.'))
+      );
+
+      const starting = moderatedOrchestrator.startConversation('test-image.jpg', imageContext);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockTTS.speak).toHaveBeenCalledTimes(1);
+      expect(onAIResponse).toHaveBeenLastCalledWith('Look at the elephant! It is big.');
+      expect(onAIResponse).not.toHaveBeenCalledWith('Look at the');
+
+      finishSpeaking();
+      await starting;
+      expect(mockTTS.speak).toHaveBeenLastCalledWith('It is big.');
+    });
+
+    it('should log flagged replies', async () => {
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(chunk('It hid a knife.')));
+
+      await moderatedOrchestrator.startConversation('test-image.jpg', imageContext);
+
+      expect(getErrorLogger().getLogsByType('content_flagged')).toEqual([
+        expect.objectContaining({
+          context: expect.objectContaining({
+            component: 'ConversationOrchestrator',
+            sessionId: 'test-session',
+            additionalData: { category: 'violence', matched: 'knife' },
+          }),
+        }),
+      ]);
+      expect(JSON.stringify(getErrorLogger().getLogs())).not.toContain('It hid a knife.');
+    });
+
+    it('should replace a flagged complete response', async () => {
+      await moderatedOrchestrator.handleAIResponse({ content: 'Keep this a secret.', toolCalls: [], finishReason: 'stop' });
+
+      expect(mockTTS.speak).toHaveBeenCalledWith("Let's look at the picture together again. What can you see?");
+      expect(moderatedOrchestrator.getMessages()[0]).toMatchObject({ moderated: true });
+    });
+
+    it('should leave clean replies untouched', async () => {
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(chunk('Look at the elephant! It is big.')));
+
+      await moderatedOrchestrator.startConversation('test-image.jpg', imageContext);
+
+      expect(mockTTS.speak).toHaveBeenCalledTimes(2);
+      expect(moderatedOrchestrator.getMessages()[0]).not.toHaveProperty('moderated');
+      expect(getErrorLogger().getLogsByType('content_flagged')).toHaveLength(0);
+    });
+  });
+
+  describe('session persistence', () => {
+    let store: InMemorySessionStore;
+    let persistingOrchestrator: ConversationOrchestrator;
+
+    beforeEach(() => {
+      store = new InMemorySessionStore();
+      persistingOrchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        {},
+        { sessionStore: store, childProfileId: 'maya' }
+      );
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks({ content: 'What do you see?', toolCalls: [], finishReason: 'stop' })
+      );
+    });
+
+    it('should save the session after every turn', async () => {
+      await persistingOrchestrator.startConversation('test-image.jpg');
+      await persistingOrchestrator.processUserSpeech('An elephant');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const saved = await store.get('test-session');
+      expect(saved).toMatchObject({
+        sessionId: 'test-session',
+        imageId: 'test-image.jpg',
+        childProfileId: 'maya',
+        status: 'active',
+        targetDurationMs: 60000,
+      });
+      expect(saved!.messages.map(message => message.content)).toEqual([
+        'What do you see?',
+        'An elephant',
+        'What do you see?',
+      ]);
+    });
+
+    it('should file an uploaded picture under its id without saving the picture', async () => {
+      const dataUrl = `data:image/png;base64,${'A'.repeat(1000)}`;
+      await persistingOrchestrator.startConversation(dataUrl, { url: dataUrl, id: 'upload:3f2a', description: 'A drawing' });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const saved = await store.get('test-session');
+      expect(saved).toMatchObject({ imageId: 'upload:3f2a', imageContext: 'upload:3f2a' });
+      expect(JSON.stringify(saved)).not.toContain('base64');
+      expect(await persistingOrchestrator.findResumableSession('upload:3f2a')).toMatchObject({ sessionId: 'test-session' });
+    });
+
+    it('should save the final status when the conversation ends', async () => {
+      await persistingOrchestrator.startConversation('test-image.jpg');
+      (mockSessionManager.getState as jest.Mock).mockReturnValue({
+        ...mockSessionManager.getState(),
+        status: 'completed',
+        elapsedMs: 60000,
+      });
+
+      await persistingOrchestrator.endConversation();
+
+      expect(await store.get('test-session')).toMatchObject({ status: 'completed', durationMs: 60000 });
+    });
+
+    it('should keep the conversation going when saving fails', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const onError = jest.fn();
+      jest.spyOn(store, 'save').mockRejectedValue(new Error('QuotaExceededError'));
+      persistingOrchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        { onError },
+        { sessionStore: store }
+      );
+
+      await persistingOrchestrator.startConversation('test-image.jpg');
+      await persistingOrchestrator.endConversation();
+
+      expect(onError).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('resumeConversation', () => {
+    let store: InMemorySessionStore;
+    let resumingOrchestrator: ConversationOrchestrator;
+
+    const savedSession = {
+      sessionId: 'saved-session',
+      imageId: 'test-image.jpg',
+      imageContext: 'test-image.jpg',
+      childProfileId: 'maya',
+      status: 'active' as const,
+      startTime: Date.now() - 120000,
+      durationMs: 20000,
+      targetDurationMs: 60000,
+      messageCount: 2,
+      toolCallCount: 0,
+      updatedAt: Date.now() - 60000,
+      toolCalls: [],
+      messages: [
+        { role: 'assistant' as const, content: 'What do you see?', timestamp: 1 },
+        { role: 'user' as const, content: 'A big elephant', timestamp: 2 },
+      ],
+    };
+
+    beforeEach(async () => {
+      store = new InMemorySessionStore();
+      await store.save(savedSession);
+      resumingOrchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        mockSessionManager,
+        {},
+        { sessionStore: store, childProfileId: 'maya' }
+      );
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks({ content: 'Welcome back! Where were we?', toolCalls: [], finishReason: 'stop' })
+      );
+      (mockSessionManager.getTimeRemaining as jest.Mock).mockReturnValue(40000);
+    });
+
+    it('should restore the history, time and status of the saved session', async () => {
+      await resumingOrchestrator.resumeConversation('saved-session');
+
+      expect(mockSessionManager.restoreSession).toHaveBeenCalledWith({
+        sessionId: 'saved-session',
+        status: 'active',
+        startTime: savedSession.startTime,
+        elapsedMs: 20000,
+        targetDurationMs: 60000,
+        messageCount: 2,
+        toolCallCount: 0,
+        imageContext: 'test-image.jpg',
+      });
+      expect(mockSessionManager.createSession).not.toHaveBeenCalled();
+      expect(mockSTT.startListening).toHaveBeenCalled();
+      expect(resumingOrchestrator.getMessages().map(message => message.content)).toEqual([
+        'What do you see?',
+        'A big elephant',
+        'Welcome back! Where were we?',
+      ]);
+    });
+
+    it('should open with a welcome-back turn without recording the instruction', async () => {
+      await resumingOrchestrator.resumeConversation('saved-session');
+
+      const sentMessages = (mockLLM.streamMessage as jest.Mock).mock.calls[0][0] as Message[];
+      expect(sentMessages).toHaveLength(3);
+      expect(sentMessages[2].role).toBe('user');
+      expect(sentMessages[2].content).toContain('Welcome them back');
+      expect(resumingOrchestrator.getMessages().some(message => message.content.includes('Welcome them back'))).toBe(false);
+      expect(mockTTS.speak).toHaveBeenCalledWith('Welcome back!');
+    });
+
+    it('should end the resumed conversation when the remaining time runs out', async () => {
+      jest.useFakeTimers();
+      try {
+        await resumingOrchestrator.resumeConversation('saved-session');
+
+        jest.advanceTimersByTime(39999);
+        expect(mockSessionManager.completeSession).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1);
+        expect(mockSessionManager.completeSession).toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should refuse to resume unknown or finished sessions', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      await store.save({ ...savedSession, sessionId: 'finished-session', status: 'completed' });
+
+      await expect(resumingOrchestrator.resumeConversation('missing-session')).rejects.toThrow('not found');
+      await expect(resumingOrchestrator.resumeConversation('finished-session')).rejects.toThrow('already ended');
+      expect(mockSessionManager.restoreSession).not.toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should offer only recent unfinished sessions for the image', async () => {
+      expect(await resumingOrchestrator.findResumableSession('test-image.jpg')).toMatchObject({
+        sessionId: 'saved-session',
+      });
+      expect(await resumingOrchestrator.findResumableSession('other-image.jpg')).toBeNull();
+
+      await store.save({ ...savedSession, updatedAt: Date.now() - 2 * 60 * 60 * 1000 });
+      expect(await resumingOrchestrator.findResumableSession('test-image.jpg')).toBeNull();
+    });
+  });
+
+  describe('pause and resume', () => {
+    let sessionManager: SessionStateManager;
+    let pausingOrchestrator: ConversationOrchestrator;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      sessionManager = new SessionStateManager();
+      pausingOrchestrator = new ConversationOrchestrator(
+        mockSTT,
+        mockLLM,
+        mockTTS,
+        mockToolRegistry,
+        sessionManager
+      );
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks({ content: 'Hello there! What do you see?', toolCalls: [], finishReason: 'stop' })
+      );
+    });
+
+    afterEach(() => {
+      pausingOrchestrator.destroy();
+      jest.useRealTimers();
+    });
+
+    it('should stop the clock, listening and speech while paused', async () => {
+      await pausingOrchestrator.startConversation('test-image.jpg', undefined, 60000);
+      (mockSTT.isCurrentlyListening as jest.Mock).mockReturnValue(true);
+      jest.advanceTimersByTime(10000);
+
+      pausingOrchestrator.pause();
+
+      expect(sessionManager.getState().status).toBe('paused');
+      expect(mockSTT.stopListening).toHaveBeenCalled();
+      expect(mockTTS.pause).toHaveBeenCalled();
+
+      // The conversation doesn't time out while paused
+      jest.advanceTimersByTime(120000);
+      expect(sessionManager.getState().status).toBe('paused');
+      expect(sessionManager.getState().elapsedMs).toBe(10000);
+    });
+
+    it('should pick up with the time that was left', async () => {
+      await pausingOrchestrator.startConversation('test-image.jpg', undefined, 60000);
+      jest.advanceTimersByTime(10000);
+      pausingOrchestrator.pause();
+      jest.advanceTimersByTime(120000);
+      (mockSTT.startListening as jest.Mock).mockClear();
+
+      pausingOrchestrator.resume();
+
+      expect(sessionManager.getState().status).toBe('active');
+      expect(mockTTS.resume).toHaveBeenCalled();
+      expect(mockSTT.startListening).toHaveBeenCalled();
+
+      jest.advanceTimersByTime(49999);
+      expect(sessionManager.getState().status).not.toBe('completed');
+      jest.advanceTimersByTime(1);
+      expect(sessionManager.getState().status).toBe('completed');
+    });
+
+    it('should hold the rest of a reply until the conversation resumes', async () => {
+      (mockTTS.speak as jest.Mock).mockImplementationOnce(async () => {
+        pausingOrchestrator.pause();
+      });
+
+      const opening = pausingOrchestrator.startConversation('test-image.jpg');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(mockTTS.speak).toHaveBeenCalledTimes(1);
+      expect(mockTTS.speak).toHaveBeenCalledWith('Hello there!');
+
+      pausingOrchestrator.resume();
+      await opening;
+
+      expect(mockTTS.speak).toHaveBeenCalledTimes(2);
+      expect(mockTTS.speak).toHaveBeenLastCalledWith('What do you see?');
+    });
+
+    it('should hold tool calls until the conversation resumes', async () => {
+      const toolCall = { id: 'call_1', name: 'show_emoji', arguments: { emoji: '🐘' } };
+      let paused: () => void = () => {};
+      const pausing = new Promise<void>(resolve => { paused = resolve; });
+      // The tool call arrives after the child has paused
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(async function* () {
+        yield { content: 'Hello there! Look', toolCalls: [], finishReason: 'stop' };
+        await pausing;
+        yield { content: 'Hello there! Look!', toolCalls: [toolCall], finishReason: 'stop' };
+      });
+      (mockTTS.speak as jest.Mock).mockImplementationOnce(async () => {
+        pausingOrchestrator.pause();
+        paused();
+      });
+
+      const opening = pausingOrchestrator.startConversation('test-image.jpg');
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(sessionManager.getState().status).toBe('paused');
+      expect(mockToolRegistry.executeTool).not.toHaveBeenCalled();
+
+      pausingOrchestrator.resume();
+      await opening;
+
+      expect(mockToolRegistry.executeTool).toHaveBeenCalledWith('show_emoji', { emoji: '🐘' });
+    });
+
+    it('should ignore speech while paused', async () => {
+      await pausingOrchestrator.startConversation('test-image.jpg');
+      (mockLLM.streamMessage as jest.Mock).mockClear();
+      pausingOrchestrator.pause();
+
+      await pausingOrchestrator.processUserSpeech('An elephant');
+
+      expect(mockLLM.streamMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('endConversation', () => {
     it('should stop listening and speaking', async () => {
       (mockSTT.isCurrentlyListening as jest.Mock).mockReturnValue(true);
@@ -398,7 +1303,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       await orchestratorWithCallbacks.startConversation('test-image.jpg');
 
@@ -467,7 +1372,9 @@ describe('ConversationOrchestrator', () => {
       );
 
       const error = new Error('Test error');
-      (mockLLM.sendMessage as jest.Mock).mockRejectedValue(error);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(() => {
+        throw error;
+      });
 
       await expect(orchestratorWithCallbacks.startConversation('test-image.jpg')).rejects.toThrow();
 
@@ -482,7 +1389,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       await orchestrator.startConversation('test-image.jpg');
       await orchestrator.processUserSpeech('Hi there');
@@ -502,6 +1409,24 @@ describe('ConversationOrchestrator', () => {
     it('should return processing status', () => {
       expect(orchestrator.isCurrentlyProcessing()).toBe(false);
     });
+
+    it('should return a transcript of the conversation', async () => {
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(
+        streamChunks({ content: 'Hello!', toolCalls: [], finishReason: 'stop' })
+      );
+
+      await orchestrator.startConversation('test-image.jpg');
+      await orchestrator.processUserSpeech('Hi there');
+
+      const transcript = orchestrator.getTranscript();
+      expect(transcript.sessionId).toBe('test-session');
+      expect(transcript.imageUrl).toBe('test-image.jpg');
+      expect(transcript.turns.map(turn => [turn.speaker, turn.text])).toEqual([
+        ['ai', 'Hello!'],
+        ['child', 'Hi there'],
+        ['ai', 'Hello!'],
+      ]);
+    });
   });
 
   describe('destroy', () => {
@@ -543,7 +1468,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
       (mockSTT.isCurrentlyListening as jest.Mock).mockReturnValue(true);
       (mockTTS.isCurrentlySpeaking as jest.Mock).mockReturnValue(false);
 
@@ -567,7 +1492,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
       (mockSessionManager.getState as jest.Mock).mockReturnValue({
         sessionId: 'test-session',
         status: 'completed',
@@ -595,7 +1520,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       await orchestrator.startConversation('test-image.jpg', undefined, 60000);
 
@@ -616,7 +1541,7 @@ describe('ConversationOrchestrator', () => {
         toolCalls: [],
         finishReason: 'stop',
       };
-      (mockLLM.sendMessage as jest.Mock).mockResolvedValue(mockResponse);
+      (mockLLM.streamMessage as jest.Mock).mockImplementation(streamChunks(mockResponse));
 
       await orchestrator.startConversation('test-image.jpg', undefined, 60000);
 
@@ -683,7 +1608,7 @@ describe('ConversationOrchestrator', () => {
               registerTool: jest.fn(),
               getTool: jest.fn(),
               getAllTools: jest.fn().mockReturnValue([]),
-              executeTool: jest.fn().mockResolvedValue(undefined),
+              executeTool: jest.fn().mockResolvedValue({ status: 'success' }),
             } as any;
 
             const testSessionManager = {
@@ -723,7 +1648,8 @@ describe('ConversationOrchestrator', () => {
             const testLLM = {
               initialize: jest.fn(),
               setImageContext: jest.fn(),
-              sendMessage: jest.fn().mockImplementation((messages) => {
+              sendMessage: jest.fn(),
+              streamMessage: jest.fn().mockImplementation(async function* (messages: Array<{ role: string; content: string }>) {
                 // Store the messages passed to LLM
                 conversationHistory.push(...messages.filter((m: any) => 
                   !conversationHistory.some(h => h.content === m.content && h.role === m.role)
@@ -759,13 +1685,12 @@ describe('ConversationOrchestrator', () => {
                   responseContent += ' What else can you tell me?';
                 }
 
-                return Promise.resolve({
+                yield {
                   content: responseContent,
                   toolCalls: [],
                   finishReason: 'stop',
-                });
+                };
               }),
-              streamMessage: jest.fn(),
             } as any;
 
             const testOrchestrator = new ConversationOrchestrator(
@@ -809,9 +1734,9 @@ describe('ConversationOrchestrator', () => {
                   expect(aiResponse.content.trim().length).toBeGreaterThan(0);
                   
                   // 3. The LLM was called with the full conversation history including the user message
-                  expect(testLLM.sendMessage).toHaveBeenCalled();
-                  const lastLLMCall = (testLLM.sendMessage as jest.Mock).mock.calls[
-                    (testLLM.sendMessage as jest.Mock).mock.calls.length - 1
+                  expect(testLLM.streamMessage).toHaveBeenCalled();
+                  const lastLLMCall = (testLLM.streamMessage as jest.Mock).mock.calls[
+                    (testLLM.streamMessage as jest.Mock).mock.calls.length - 1
                   ];
                   const messagesPassedToLLM = lastLLMCall[0];
                   
@@ -907,7 +1832,7 @@ describe('ConversationOrchestrator', () => {
               registerTool: jest.fn(),
               getTool: jest.fn(),
               getAllTools: jest.fn().mockReturnValue([]),
-              executeTool: jest.fn().mockResolvedValue(undefined),
+              executeTool: jest.fn().mockResolvedValue({ status: 'success' }),
             } as any;
 
             const testSessionManager = {
@@ -944,16 +1869,16 @@ describe('ConversationOrchestrator', () => {
             const testLLM = {
               initialize: jest.fn(),
               setImageContext: jest.fn(),
-              sendMessage: jest.fn().mockImplementation(async () => {
-                // Simulate LLM processing time
+              sendMessage: jest.fn(),
+              streamMessage: jest.fn().mockImplementation(async function* () {
+                // Simulate LLM processing time before the first chunk
                 await new Promise(resolve => setTimeout(resolve, llmDelayMs));
-                return {
+                yield {
                   content: 'Hello! What do you see in this image?',
                   toolCalls: [],
                   finishReason: 'stop',
                 };
               }),
-              streamMessage: jest.fn(),
             } as any;
 
             const testOrchestrator = new ConversationOrchestrator(
@@ -974,8 +1899,9 @@ describe('ConversationOrchestrator', () => {
               expect(initiationTime).toBeLessThanOrEqual(2000);
 
               // Verify that the AI's first message was generated and delivered
-              expect(testLLM.sendMessage).toHaveBeenCalled();
-              expect(testTTS.speak).toHaveBeenCalledWith('Hello! What do you see in this image?');
+              expect(testLLM.streamMessage).toHaveBeenCalled();
+              expect(testTTS.speak).toHaveBeenCalledWith('Hello!');
+              expect(testTTS.speak).toHaveBeenCalledWith('What do you see in this image?');
               
               // Verify session was created and activated
               expect(testSessionManager.createSession).toHaveBeenCalledWith(imageUrl, durationMs);
@@ -1042,7 +1968,7 @@ describe('ConversationOrchestrator', () => {
                     ]
                   : [{ name: 'highlight_image_area', description: 'Highlight area', parameters: {} }]
               ),
-              executeTool: jest.fn().mockResolvedValue(undefined),
+              executeTool: jest.fn().mockResolvedValue({ status: 'success' }),
             } as any;
 
             let toolCallCount = 0;
@@ -1082,12 +2008,13 @@ describe('ConversationOrchestrator', () => {
             const testLLM = {
               initialize: jest.fn(),
               setImageContext: jest.fn(),
-              sendMessage: jest.fn().mockImplementation(() => {
+              sendMessage: jest.fn(),
+              streamMessage: jest.fn().mockImplementation(async function* () {
                 responseCount++;
                 // Ensure at least one response has a tool call
                 const shouldIncludeToolCall = responseCount === 1 || Math.random() > 0.5;
                 
-                return Promise.resolve({
+                yield {
                   content: `Response ${responseCount}`,
                   toolCalls: shouldIncludeToolCall ? [
                     {
@@ -1099,9 +2026,8 @@ describe('ConversationOrchestrator', () => {
                     }
                   ] : [],
                   finishReason: shouldIncludeToolCall ? 'tool_calls' : 'stop',
-                });
+                };
               }),
-              streamMessage: jest.fn(),
             } as any;
 
             const testOrchestrator = new ConversationOrchestrator(
@@ -1,12 +1,23 @@
-import type { SpeechToTextHandler } from './SpeechToTextHandler';
+import type { SpeechToTextHandler } from '../types/services';
 import type { LLMClient } from './LLMClient';
 import type { TextToSpeechHandler } from './TextToSpeechHandler';
 import type { ToolRegistry } from './ToolRegistry';
 import type { SessionStateManager } from './SessionStateManager';
-import type { Message, ToolCall } from '../types/message';
-import type { AIResponse } from '../types/services';
+import type { ConversationSession, Message, ToolCall } from '../types/message';
+import type { AIResponse, SessionStore, Tool } from '../types/services';
 import type { ImageContext } from '../types/image';
+import type { ToolResult } from '../types/tool';
+import type { PromptOptions } from './PromptManager';
+import type { Transcript } from '../types/transcript';
+import type { ModerationResult, OutputModerator } from './OutputModerator';
+import { createSafeRedirect } from './OutputModerator';
+import type { InputScreener } from './InputScreener';
+import type { ParentAlertChannel } from './ParentAlertChannel';
+import { buildTranscript } from './TranscriptExporter';
+import type { PriceTable } from '../types/config';
+import { calculateCost, DEFAULT_PRICE_TABLE } from './usageCost';
 import { logError } from '../utils/errorLogger';
+import { splitCompleteSentences } from '../utils/sentenceSplitter';
 
 export interface ConversationCallbacks {
   onStateChange?: (state: any) => void;
@@ -14,8 +25,79 @@ export interface ConversationCallbacks {
   onTranscript?: (text: string, isFinal: boolean) => void;
   onAIResponse?: (text: string) => void;
   onToolCall?: (toolName: string, args: object) => void;
+  onInterrupt?: () => void;
 }
 
+export interface ConversationOptions {
+  /**
+   * Keep listening while the AI speaks so the child can interrupt it
+   * (barge-in). Off by default, which pauses listening during speech.
+   */
+  bargeIn?: boolean;
+  /** Where sessions are saved after every turn; not saved when omitted */
+  sessionStore?: SessionStore;
+  /** Child profile the saved sessions belong to */
+  childProfileId?: string;
+  /** Child's age and conversation style for the prompts built from the image context */
+  promptOptions?: PromptOptions;
+  /**
+   * Checks each sentence before it is spoken; a flagged sentence and the
+   * rest of its reply are replaced by a safe line about the picture.
+   * Replies are shown as they are spoken rather than as they stream in.
+   */
+  moderator?: OutputModerator;
+  /**
+   * Removes personal details from what the child says before it is sent to
+   * the LLM or saved, and looks for safeguarding concerns
+   */
+  inputScreener?: InputScreener;
+  /** Where safeguarding concerns found by the input screener are reported */
+  parentAlerts?: ParentAlertChannel;
+  /** Prices for the session's usage cost; defaults to DEFAULT_PRICE_TABLE */
+  priceTable?: PriceTable;
+}
+
+/**
+ * Sentences of one LLM completion handed to the speech queue, and those
+ * that actually started playing before any interruption
+ */
+interface RoundSpeech {
+  queued: string[];
+  spoken: string[];
+  /** A flagged sentence was replaced by a safe redirect */
+  moderated: boolean;
+}
+
+/**
+ * One LLM completion within a reply, as recorded in the conversation history
+ */
+interface ResponseRound {
+  response: AIResponse;
+  message: Message;
+  speech: RoundSpeech;
+  /** False if the stream was cut off before the whole completion arrived */
+  complete: boolean;
+}
+
+/**
+ * How many times the model may be called back with tool results before the
+ * reply is considered finished
+ */
+const MAX_TOOL_FOLLOW_UPS = 3;
+
+/**
+ * Saved sessions older than this are not offered for resuming
+ */
+const RESUMABLE_SESSION_MAX_AGE_MS = 30 * 60 * 1000;
+
+/**
+ * Instruction for the turn that opens a resumed conversation. Sent to the
+ * model as a user turn for that reply only, like a stage direction; it is
+ * not recorded in the conversation history.
+ */
+const WELCOME_BACK_INSTRUCTION =
+  '(The child is back after a short break. Welcome them back warmly, remind them in a few words what you were talking about, and ask a question to pick the conversation up again. Do not greet them as if meeting for the first time.)';
+
 export class ConversationOrchestrator {
   private sttHandler: SpeechToTextHandler;
   private llmClient: LLMClient;
@@ -23,10 +105,33 @@ export class ConversationOrchestrator {
   private toolRegistry: ToolRegistry;
   private sessionManager: SessionStateManager;
   private callbacks: ConversationCallbacks;
+  private bargeIn: boolean;
+  private sessionStore: SessionStore | null;
+  private childProfileId: string | undefined;
+  private promptOptions: PromptOptions;
+  private moderator: OutputModerator | null;
+  private inputScreener: InputScreener | null;
+  private parentAlerts: ParentAlertChannel | null;
+  private priceTable: PriceTable;
   
+  private imageContext: ImageContext | null = null;
+  /** Picture the saved sessions are filed under: the context's id, or else the image URL */
+  private imageId: string = '';
   private messages: Message[] = [];
   private isProcessing: boolean = false;
+  private isStreamingResponse: boolean = false;
+  private speechQueue: Promise<void> = Promise.resolve();
+  /** Moderation verdicts in the order the sentences were queued */
+  private moderationQueue: Promise<void> = Promise.resolve();
+  private responseAbortController: AbortController | null = null;
+  private spokenReplyText: string = '';
+  /** Text of the current reply that passed moderation, shown as the live caption */
+  private checkedReplyText: string = '';
+  private pendingTranscript: string | null = null;
   private conversationTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private persistQueue: Promise<void> = Promise.resolve();
+  /** Holds queued sentences and tool calls back while the conversation is paused */
+  private pauseGate: { promise: Promise<void>; open: () => void } | null = null;
 
   constructor(
     sttHandler: SpeechToTextHandler,
@@ -34,7 +139,8 @@ export class ConversationOrchestrator {
     ttsHandler: TextToSpeechHandler,
     toolRegistry: ToolRegistry,
     sessionManager: SessionStateManager,
-    callbacks: ConversationCallbacks = {}
+    callbacks: ConversationCallbacks = {},
+    options: ConversationOptions = {}
   ) {
     this.sttHandler = sttHandler;
     this.llmClient = llmClient;
@@ -42,6 +148,14 @@ export class ConversationOrchestrator {
     this.toolRegistry = toolRegistry;
     this.sessionManager = sessionManager;
     this.callbacks = callbacks;
+    this.bargeIn = options.bargeIn ?? false;
+    this.sessionStore = options.sessionStore ?? null;
+    this.childProfileId = options.childProfileId;
+    this.promptOptions = options.promptOptions ?? {};
+    this.moderator = options.moderator ?? null;
+    this.inputScreener = options.inputScreener ?? null;
+    this.parentAlerts = options.parentAlerts ?? null;
+    this.priceTable = options.priceTable ?? DEFAULT_PRICE_TABLE;
 
     this.setupEventHandlers();
   }
@@ -49,12 +163,28 @@ export class ConversationOrchestrator {
   private setupEventHandlers(): void {
     // Handle speech transcription
     this.sttHandler.onTranscript((result) => {
+      const hasText = result.text.trim().length > 0;
+
+      if (this.bargeIn && this.isStreamingResponse && hasText) {
+        // The microphone also hears the AI; that is not the child talking
+        if (this.isEchoOfReply(result.text)) {
+          return;
+        }
+        this.interruptResponse();
+      }
+
       if (this.callbacks.onTranscript) {
         this.callbacks.onTranscript(result.text, result.isFinal);
       }
 
       // Process final transcripts
-      if (result.isFinal && result.text.trim().length > 0) {
+      if (result.isFinal && hasText) {
+        // Answer the child once the reply they talked over has wound down
+        if (this.bargeIn && this.isProcessing) {
+          this.pendingTranscript = result.text;
+          return;
+        }
+
         this.processUserSpeech(result.text).catch((error) => {
           this.handleError(error);
         });
@@ -68,19 +198,19 @@ export class ConversationOrchestrator {
 
     // Handle TTS speech start
     this.ttsHandler.onSpeechStart(() => {
-      // Stop listening while AI is speaking
-      if (this.sttHandler.isCurrentlyListening()) {
+      // Stop listening while AI is speaking, unless the child may barge in
+      if (!this.bargeIn && this.sttHandler.isCurrentlyListening()) {
         this.sttHandler.stopListening();
       }
     });
 
     // Handle TTS speech end
     this.ttsHandler.onSpeechEnd(() => {
-      // Resume listening after AI finishes speaking
-      const state = this.sessionManager.getState();
-      if (state.status === 'active' || state.status === 'wrapping_up') {
-        this.sttHandler.startListening();
+      // Streamed replies resume listening after their last sentence
+      if (this.isStreamingResponse) {
+        return;
       }
+      this.resumeListening();
     });
 
     // Handle TTS errors with fallback
@@ -118,15 +248,18 @@ export class ConversationOrchestrator {
         // Create new session
         this.sessionManager.createSession(imageUrl, durationMs);
         this.messages = [];
+        this.imageContext = imageContext ?? null;
+        this.imageId = imageContext?.id ?? imageUrl;
 
         // Set image context in LLM if available
         if (imageContext) {
-          this.llmClient.setImageContext(imageContext);
+          this.llmClient.setImageContext(imageContext, this.promptOptions);
         }
 
         // Update state to active
         this.sessionManager.setStatus('active');
         this.notifyStateChange();
+        this.persistSession();
 
         // Set up automatic conversation ending at target duration (Requirement 5.3)
         this.setupConversationTimeout(durationMs);
@@ -153,17 +286,122 @@ export class ConversationOrchestrator {
     }
 
 
-  private async generateAIOpening(): Promise<void> {
+  /**
+   * Resume a saved conversation
+   * 
+   * Restores the message history, elapsed time and status of a session from
+   * the session store, then has the AI open with a "welcome back" turn
+   * instead of a fresh greeting. The conversation ends when the time that
+   * was left at the last save runs out.
+   * 
+   * @param sessionId - Session to resume
+   * @param imageContext - Image context for the LLM, as passed to startConversation
+   * @throws Error if there is no session store, the session is unknown, or it has ended
+   * 
+   * @example
+   * ```typescript
+   * const saved = await orchestrator.findResumableSession(imageContext.id ?? imageUrl);
+   * if (saved) {
+   *   await orchestrator.resumeConversation(saved.sessionId, imageContext);
+   * }
+   * ```
+   */
+  async resumeConversation(sessionId: string, imageContext?: ImageContext): Promise<void> {
+    try {
+      if (!this.sessionStore) {
+        throw new Error('Cannot resume a conversation without a session store');
+      }
+
+      const session = await this.sessionStore.get(sessionId);
+      if (!session) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+      if (!isResumable(session)) {
+        throw new Error(`Session ${sessionId} has already ended`);
+      }
+
+      this.sessionManager.restoreSession({
+        sessionId: session.sessionId,
+        status: session.status === 'wrapping_up' ? 'wrapping_up' : 'active',
+        startTime: session.startTime,
+        elapsedMs: session.durationMs,
+        targetDurationMs: session.targetDurationMs,
+        messageCount: session.messageCount,
+        toolCallCount: session.toolCallCount,
+        usage: session.usage,
+        imageContext: imageContext?.url ?? session.imageContext,
+      });
+      this.imageId = session.imageId;
+      this.messages = [...session.messages];
+      this.childProfileId = session.childProfileId ?? this.childProfileId;
+      this.imageContext = imageContext ?? null;
+
+      if (imageContext) {
+        this.llmClient.setImageContext(imageContext, this.promptOptions);
+      }
+
+      this.notifyStateChange();
+      this.persistSession();
+
+      // Only the time that was left counts down
+      this.setupConversationTimeout(this.sessionManager.getTimeRemaining());
+
+      this.sttHandler.startListening();
+
+      await this.generateAIOpening(WELCOME_BACK_INSTRUCTION);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.handleError(err);
+      throw err;
+    }
+  }
+
+  /**
+   * Find the latest unfinished session for an image that can still be resumed
+   * 
+   * Only sessions saved in the last 30 minutes with time left are offered.
+   * 
+   * @param imageId - Picture the conversation is about: its ImageContext id, or else its URL
+   * @returns The saved session, or null if there is nothing to resume
+   */
+  async findResumableSession(imageId: string): Promise<ConversationSession | null> {
+    if (!this.sessionStore) {
+      return null;
+    }
+
+    try {
+      const [latest] = await this.sessionStore.query({
+        imageId,
+        childProfileId: this.childProfileId,
+        limit: 1,
+      });
+      const isRecent = latest && Date.now() - latest.updatedAt <= RESUMABLE_SESSION_MAX_AGE_MS;
+      return latest && isRecent && isResumable(latest) ? latest : null;
+    } catch (error) {
+      logError(
+        'storage_error',
+        'Failed to look up saved sessions',
+        { component: 'ConversationOrchestrator', action: 'findResumableSession' },
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Deliver the AI's first turn
+   * 
+   * @param instruction - Stage direction for this turn, e.g. to welcome the child back
+   * @private
+   */
+  private async generateAIOpening(instruction?: string): Promise<void> {
     try {
       this.isProcessing = true;
       this.notifyStateChange();
 
-      // Get AI response with tools available
+      // Stream the AI response with tools available
       const tools = this.toolRegistry.getAllTools();
-      const response = await this.llmClient.sendMessage(this.messages, tools);
-
-      // Handle the AI response
-      await this.handleAIResponse(response);
+      await this.streamAIResponse(tools, instruction);
 
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
@@ -172,6 +410,8 @@ export class ConversationOrchestrator {
     } finally {
       this.isProcessing = false;
       this.notifyStateChange();
+      this.persistSession();
+      this.processPendingTranscript();
     }
   }
 
@@ -218,12 +458,101 @@ export class ConversationOrchestrator {
     }
   }
 
+  /**
+   * Pause the conversation
+   * 
+   * Freezes the session clock and the automatic end of the conversation,
+   * stops listening and pauses the AI's speech mid-sentence. The rest of a
+   * reply still being generated, including its tool calls, waits until the
+   * conversation resumes. Does nothing unless the conversation is running.
+   * 
+   * @example
+   * ```typescript
+   * orchestrator.pause();
+   * // ...
+   * orchestrator.resume();
+   * ```
+   */
+  pause(): void {
+    const state = this.sessionManager.getState();
+    if (state.status !== 'active' && state.status !== 'wrapping_up') {
+      return;
+    }
+
+    this.sessionManager.pause();
+    this.clearConversationTimeout();
+
+    let open: () => void = () => {};
+    const promise = new Promise<void>((resolve) => {
+      open = resolve;
+    });
+    this.pauseGate = { promise, open };
+
+    if (this.sttHandler.isCurrentlyListening()) {
+      this.sttHandler.stopListening();
+    }
+    this.ttsHandler.pause();
+
+    this.notifyStateChange();
+    this.persistSession();
+  }
+
+  /**
+   * Resume a paused conversation
+   * 
+   * Restarts the clock with the time that was left, continues the AI's
+   * speech where it stopped and listens for the child again.
+   * Does nothing unless the conversation is paused.
+   */
+  resume(): void {
+    if (this.sessionManager.getState().status !== 'paused') {
+      return;
+    }
+
+    this.sessionManager.resume();
+    this.setupConversationTimeout(this.sessionManager.getTimeRemaining());
+    this.openPauseGate();
+    this.ttsHandler.resume();
+
+    // Without barge-in, listening resumes once the AI has finished speaking
+    if (this.bargeIn || (!this.isStreamingResponse && !this.ttsHandler.isCurrentlySpeaking())) {
+      this.resumeListening();
+    }
+
+    this.notifyStateChange();
+    this.persistSession();
+  }
+
+  /**
+   * Let sentences held back by a pause be spoken
+   * 
+   * @private
+   */
+  private openPauseGate(): void {
+    this.pauseGate?.open();
+    this.pauseGate = null;
+  }
+
+  /**
+   * Cancel a reply held back by a pause so it isn't spoken after the end
+   * 
+   * @private
+   */
+  private dropPausedReply(): void {
+    if (this.pauseGate) {
+      this.responseAbortController?.abort();
+      this.openPauseGate();
+    }
+  }
+
   /**
    * Process user speech input
    * 
    * Handles transcribed user speech by adding it to the conversation history,
    * checking timing constraints, generating an AI response, and managing
-   * the conversation flow. Ensures processing starts within 500ms.
+   * the conversation flow. Ensures processing starts within 500ms. With an
+   * input screener, personal details are removed before the speech is
+   * recorded and safeguarding concerns are reported to the parent alerts.
    * 
    * Requirements: 9.1 (processing within 500ms)
    * 
@@ -259,7 +588,7 @@ export class ConversationOrchestrator {
       // Add user message to conversation history
       const userMessage: Message = {
         role: 'user',
-        content: transcript,
+        content: this.screenTranscript(transcript),
         timestamp: Date.now(),
       };
       this.messages.push(userMessage);
@@ -281,37 +610,490 @@ export class ConversationOrchestrator {
         return;
       }
 
-      // Get AI response
-      // Requirement 9.2: Generate response within 2 seconds
-      const aiResponseStartTime = Date.now();
+      // Stream the AI response
+      // Requirement 9.2: Start responding within 2 seconds
       const tools = this.toolRegistry.getAllTools();
-      const response = await this.llmClient.sendMessage(this.messages, tools);
-      
-      // Measure and log AI response latency
-      const aiResponseLatency = Date.now() - aiResponseStartTime;
-      console.log(`[ConversationOrchestrator] AI response generated in ${aiResponseLatency}ms`);
-      
-      if (aiResponseLatency > 2000) {
-        console.warn(`[ConversationOrchestrator] AI response exceeded 2s target: ${aiResponseLatency}ms`);
-      }
-
-      // Handle the AI response
-      await this.handleAIResponse(response);
+      await this.streamAIResponse(tools);
 
     } catch (error) {
       this.handleError(error instanceof Error ? error : new Error(String(error)));
     } finally {
       this.isProcessing = false;
       this.notifyStateChange();
+      this.persistSession();
+      this.processPendingTranscript();
+    }
+  }
+
+  /**
+   * Remove personal details from what the child said and report concerns
+   * 
+   * @param transcript - What the child said
+   * @returns The transcript to record and send to the LLM
+   * @private
+   */
+  private screenTranscript(transcript: string): string {
+    if (!this.inputScreener) {
+      return transcript;
+    }
+
+    const { text, flags } = this.inputScreener.screen(transcript);
+    const sessionId = this.sessionManager.getState().sessionId;
+    for (const flag of flags) {
+      try {
+        this.parentAlerts?.notify({
+          ...flag,
+          sessionId,
+          childProfileId: this.childProfileId,
+          timestamp: Date.now(),
+          text,
+        });
+      } catch (error) {
+        // A failed alert must not stop the conversation
+        console.error('[ConversationOrchestrator] Failed to send parent alert:', error);
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Process a transcript that arrived while a barge-in was winding down
+   * 
+   * @private
+   */
+  private processPendingTranscript(): void {
+    const transcript = this.pendingTranscript;
+    this.pendingTranscript = null;
+
+    if (transcript) {
+      this.processUserSpeech(transcript).catch((error) => {
+        this.handleError(error instanceof Error ? error : new Error(String(error)));
+      });
+    }
+  }
+
+  /**
+   * Interrupt the AI reply in progress
+   * 
+   * Cancels the in-flight LLM request and stops speech. The reply is
+   * recorded in the conversation history with only the sentences that were
+   * spoken, marked as truncated, so the model knows what the child heard.
+   * Called automatically when the child speaks over the AI in barge-in mode.
+   * Does nothing if no reply is in progress.
+   * 
+   * @example
+   * ```typescript
+   * orchestrator.interruptResponse();
+   * ```
+   */
+  interruptResponse(): void {
+    const abortController = this.responseAbortController;
+    if (!abortController || abortController.signal.aborted) {
+      return;
+    }
+
+    console.log('[ConversationOrchestrator] AI response interrupted');
+    abortController.abort();
+    this.ttsHandler.stop();
+
+    if (this.callbacks.onInterrupt) {
+      this.callbacks.onInterrupt();
+    }
+  }
+
+  /**
+   * Stream an AI response into speech, tool calls and live captions
+   * 
+   * Consumes the LLM stream and hands each sentence to TTS as soon as it is
+   * complete, so speech starts long before the full reply has been generated.
+   * Tool calls are executed as soon as they are fully received, at their
+   * position in the stream, and every content update is passed to
+   * onAIResponse for live captions; with a moderator, each sentence is
+   * captioned once it has passed the check. The complete reply and its tool results
+   * are added to the conversation history once the stream ends. When the
+   * model stops to wait for tool results, it is called again with them so it
+   * can chain steps (zoom, then highlight, then ask), up to
+   * MAX_TOOL_FOLLOW_UPS times. If the reply is interrupted, the rest of it
+   * is dropped and what was recorded is cut down to what was spoken.
+   * 
+   * Requirements: 6.1 (tool calls), 6.2 (execution within 500ms), 9.2 (response latency)
+   * 
+   * @param tools - Tools available to the LLM
+   * @param instruction - Stage direction sent before this reply but not recorded
+   * @throws Error if the LLM stream fails
+   * @private
+   */
+  private async streamAIResponse(tools: Tool[], instruction?: string): Promise<void> {
+    const abortController = new AbortController();
+    this.responseAbortController = abortController;
+    this.isStreamingResponse = true;
+    this.spokenReplyText = '';
+    this.checkedReplyText = '';
+    const rounds: ResponseRound[] = [];
+
+    // Keep the instruction just before this reply in every round's request
+    const replyStart = this.messages.length;
+    const requestMessages = (): Message[] => {
+      if (!instruction) {
+        return this.messages;
+      }
+      const instructionMessage: Message = { role: 'user', content: instruction, timestamp: Date.now() };
+      return [...this.messages.slice(0, replyStart), instructionMessage, ...this.messages.slice(replyStart)];
+    };
+
+    try {
+      rounds.push(await this.streamAIResponseRound(tools, abortController.signal, requestMessages()));
+      for (let followUp = 0; followUp < MAX_TOOL_FOLLOW_UPS; followUp++) {
+        const { response } = rounds[rounds.length - 1];
+        if (
+          abortController.signal.aborted ||
+          response.finishReason !== 'tool_calls' ||
+          response.toolCalls.length === 0
+        ) {
+          break;
+        }
+        rounds.push(await this.streamAIResponseRound(tools, abortController.signal, requestMessages()));
+      }
+
+      await this.speechQueue;
+
+      if (abortController.signal.aborted) {
+        this.truncateInterruptedRounds(rounds);
+      }
+    } finally {
+      this.isStreamingResponse = false;
+      this.responseAbortController = null;
+    }
+
+    // Resume listening once the whole reply has been spoken
+    if (!this.sttHandler.isCurrentlyListening()) {
+      this.resumeListening();
+    }
+  }
+
+  /**
+   * Stream a single LLM completion and record it with its tool results
+   * 
+   * When the signal is aborted the stream is abandoned: tool calls still
+   * being received are dropped and the partial content is recorded.
+   * 
+   * @param tools - Tools available to the LLM
+   * @param signal - Aborted when the child interrupts the reply
+   * @param messages - Conversation to send to the LLM
+   * @returns The recorded completion
+   * @private
+   */
+  private async streamAIResponseRound(tools: Tool[], signal: AbortSignal, messages: Message[]): Promise<ResponseRound> {
+    const aiResponseStartTime = Date.now();
+    let firstChunkLogged = false;
+    let response: AIResponse = { content: '', toolCalls: [], finishReason: 'stop' };
+    let spokenLength = 0;
+    const speech: RoundSpeech = { queued: [], spoken: [], moderated: false };
+    const toolCallContentLength = new Map<string, number>();
+    const executedToolCallIds = new Set<string>();
+    const toolResults = new Map<string, ToolResult>();
+    const toolExecutions: Promise<void>[] = [];
+
+    const executeSettledToolCalls = (streamEnded: boolean) => {
+      response.toolCalls.forEach((toolCall, index) => {
+        if (executedToolCallIds.has(toolCall.id)) {
+          return;
+        }
+
+        // Arguments are complete once more content or another tool call follows
+        const seenAtLength = toolCallContentLength.get(toolCall.id) ?? response.content.length;
+        toolCallContentLength.set(toolCall.id, seenAtLength);
+        const isSettled =
+          streamEnded || index < response.toolCalls.length - 1 || response.content.length > seenAtLength;
+
+        if (isSettled) {
+          executedToolCallIds.add(toolCall.id);
+          // Effects wait while the conversation is paused, and are dropped if it ends
+          const execution: Promise<ToolResult[]> = this.pauseGate
+            ? this.pauseGate.promise.then(() =>
+                signal.aborted ? [{ status: 'error', error: 'Tool was not executed' }] : this.executeToolCalls([toolCall])
+              )
+            : this.executeToolCalls([toolCall]);
+          toolExecutions.push(
+            execution.then(([result]) => {
+              toolResults.set(toolCall.id, result);
+            })
+          );
+        }
+      });
+    };
+
+    try {
+      for await (const chunk of this.llmClient.streamMessage(messages, tools, signal)) {
+        if (signal.aborted) {
+          break;
+        }
+
+        if (!firstChunkLogged) {
+          firstChunkLogged = true;
+          const firstChunkLatency = Date.now() - aiResponseStartTime;
+          console.log(`[ConversationOrchestrator] AI response started in ${firstChunkLatency}ms`);
+
+          if (firstChunkLatency > 2000) {
+            console.warn(`[ConversationOrchestrator] AI response exceeded 2s target: ${firstChunkLatency}ms`);
+          }
+        }
+
+        const contentChanged = chunk.content !== response.content;
+        response = chunk;
+
+        // Speak completed sentences in the order they were generated
+        const { sentences, remainder } = splitCompleteSentences(response.content.slice(spokenLength));
+        spokenLength = response.content.length - remainder.length;
+        sentences.forEach(sentence => this.queueSentence(sentence, speech, signal));
+
+        executeSettledToolCalls(false);
+
+        // With moderation, each sentence is shown once it has been checked (see queueSentence)
+        if (!this.moderator && contentChanged && response.content.trim().length > 0 && this.callbacks.onAIResponse) {
+          this.callbacks.onAIResponse(response.content);
+        }
+      }
+    } catch (error) {
+      // Cancelling the request on interruption is expected to end the stream
+      if (!signal.aborted) {
+        throw error;
+      }
+    }
+
+    const complete = !signal.aborted;
+    if (complete) {
+      // Speak whatever is left after the last sentence break
+      const finalSentence = response.content.slice(spokenLength).trim();
+      if (finalSentence.length > 0) {
+        this.queueSentence(finalSentence, speech, signal);
+      }
+      executeSettledToolCalls(true);
+    } else {
+      // Only tool calls that already ran are part of the interrupted reply
+      response = {
+        ...response,
+        toolCalls: response.toolCalls.filter(toolCall => executedToolCallIds.has(toolCall.id)),
+      };
+    }
+
+    const message = this.recordAssistantMessage(response);
+    console.log(`[ConversationOrchestrator] AI response generated in ${Date.now() - aiResponseStartTime}ms`);
+
+    await Promise.all(toolExecutions);
+    this.recordToolResults(response.toolCalls, toolResults);
+
+    return { response, message, speech, complete };
+  }
+
+  /**
+   * Queue a sentence for speech after any sentences already queued
+   * 
+   * Speech errors are logged and reported without interrupting the rest of
+   * the response; the TTS fallback still displays the text. Sentences still
+   * waiting when the reply is interrupted are skipped.
+   * 
+   * With a moderator, every sentence is checked before it is captioned or
+   * spoken, as soon as it is queued, so checking keeps ahead of speech.
+   * Moderation works sentence by sentence to keep streamed replies fast:
+   * sentences that passed may already have been heard when a later one is
+   * flagged. The flagged sentence is replaced by a safe redirect and the
+   * rest of the reply is cancelled, so nothing unchecked is ever shown or
+   * spoken. Captions show the checked text ahead of speech.
+   * 
+   * @param sentence - Complete sentence to speak
+   * @param speech - Tracks what was queued and spoken for the current completion
+   * @param signal - Aborted when the child interrupts the reply
+   * @private
+   */
+  private queueSentence(sentence: string, speech: RoundSpeech, signal: AbortSignal): void {
+    speech.queued.push(sentence);
+    const moderation = this.moderator?.check(sentence);
+    const checked = this.moderationQueue.then(async () => {
+      const verdict = await moderation;
+      if (signal.aborted) {
+        return null;
+      }
+
+      if (!verdict?.flagged) {
+        this.showCheckedText(sentence);
+        return { text: sentence, flagged: false };
+      }
+
+      this.logFlaggedReply(verdict);
+      // Nothing more of this reply is streamed, shown or spoken
+      this.responseAbortController?.abort();
+      speech.moderated = true;
+      const redirect = createSafeRedirect(this.imageContext);
+      this.showCheckedText(redirect);
+      return { text: redirect, flagged: true };
+    });
+    this.moderationQueue = checked.then(() => undefined);
+
+    this.speechQueue = this.speechQueue.then(async () => {
+      await this.pauseGate?.promise;
+      const result = await checked;
+      // The redirect for a flagged sentence is spoken although it cancelled the reply
+      if (!result || (signal.aborted && !result.flagged)) {
+        return;
+      }
+
+      speech.spoken.push(result.text);
+      this.spokenReplyText += ` ${result.text}`;
+      try {
+        await this.ttsHandler.speak(result.text);
+      } catch (error) {
+        this.handleError(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Add text that passed moderation to the live caption
+   * 
+   * @param text - Sentence to show
+   * @private
+   */
+  private showCheckedText(text: string): void {
+    this.checkedReplyText += ` ${text}`;
+    if (this.moderator) {
+      this.callbacks.onAIResponse?.(this.checkedReplyText.trim());
+    }
+  }
+
+  /**
+   * Log a reply the moderator flagged
+   * 
+   * The flagged text itself is left out so unsafe output isn't kept in the log.
+   * 
+   * @param verdict - Why it was flagged
+   * @private
+   */
+  private logFlaggedReply(verdict: ModerationResult): void {
+    logError(
+      'content_flagged',
+      `AI reply flagged by moderation (${verdict.category ?? 'unknown'})`,
+      {
+        component: 'ConversationOrchestrator',
+        action: 'moderateReply',
+        sessionId: this.sessionManager.getState().sessionId,
+        additionalData: { category: verdict.category, matched: verdict.matched },
+      }
+    );
+  }
+
+  /**
+   * Cut interrupted completions down to the sentences the child heard
+   * 
+   * Completions that were fully spoken are left alone. The others keep the
+   * sentences that started playing and are marked as truncated, or as
+   * moderated when a flagged sentence was replaced; one with nothing spoken
+   * and no tool calls is removed from the history.
+   * 
+   * @param rounds - Completions of the interrupted reply
+   * @private
+   */
+  private truncateInterruptedRounds(rounds: ResponseRound[]): void {
+    for (const { message, speech, complete } of rounds) {
+      if (complete && !speech.moderated && speech.spoken.length === speech.queued.length) {
+        continue;
+      }
+
+      message.content = speech.spoken.join(' ');
+      if (speech.moderated) {
+        message.moderated = true;
+      } else {
+        message.truncated = true;
+      }
+
+      if (message.content.length === 0 && !message.toolCalls) {
+        this.messages.splice(this.messages.indexOf(message), 1);
+      }
+    }
+  }
+
+  /**
+   * Check whether a transcript is the microphone picking up the AI's own voice
+   * 
+   * @param transcript - Transcript heard while the AI was speaking
+   * @returns True if the transcript only repeats words the AI has spoken
+   * @private
+   */
+  private isEchoOfReply(transcript: string): boolean {
+    const normalize = (text: string) =>
+      text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+    const heard = normalize(transcript);
+    return heard.length > 0 && ` ${normalize(this.spokenReplyText)} `.includes(` ${heard} `);
+  }
+
+  /**
+   * Resume listening for the child if the session is still running
+   * 
+   * @private
+   */
+  private resumeListening(): void {
+    const state = this.sessionManager.getState();
+    if (state.status === 'active' || state.status === 'wrapping_up') {
+      this.sttHandler.startListening();
+    }
+  }
+
+  /**
+   * Add an assistant reply to the conversation history
+   * 
+   * Also adds the completion's token usage, when reported, to the session
+   * totals. A stream cut off by an interruption ends before the provider
+   * reports usage, so its tokens are not counted.
+   * 
+   * @param response - The AI response to record
+   * @returns The recorded message
+   * @private
+   */
+  private recordAssistantMessage(response: AIResponse): Message {
+    const assistantMessage: Message = {
+      role: 'assistant',
+      content: response.content,
+      timestamp: Date.now(),
+      toolCalls: response.toolCalls.length > 0 ? response.toolCalls : undefined,
+    };
+    this.messages.push(assistantMessage);
+    this.sessionManager.incrementMessageCount();
+    if (response.usage) {
+      this.sessionManager.recordUsage(response.usage, calculateCost(response.usage, this.priceTable));
+    }
+    return assistantMessage;
+  }
+
+  /**
+   * Add tool results to the conversation history as tool messages
+   * 
+   * Every tool call gets a tool message, in call order, so the LLM sees the
+   * outcome of each call (including errors and timeouts) on its next turn.
+   * 
+   * @param toolCalls - Tool calls from the assistant message
+   * @param results - Results keyed by tool call id
+   * @private
+   */
+  private recordToolResults(toolCalls: ToolCall[], results: Map<string, ToolResult>): void {
+    for (const toolCall of toolCalls) {
+      const result = results.get(toolCall.id) ?? { status: 'error', error: 'Tool was not executed' };
+      this.messages.push({
+        role: 'tool',
+        content: JSON.stringify(result),
+        timestamp: Date.now(),
+        toolCallId: toolCall.id,
+      });
     }
   }
 
   /**
    * Handle AI response including tool calls and speech synthesis
    * 
-   * Processes the AI's response by adding it to conversation history,
-   * executing any tool calls, and speaking the response text via TTS.
-   * Tool calls are executed with a 500ms timeout requirement.
+   * Processes a complete (non-streamed) AI response by adding it to
+   * conversation history, executing any tool calls and recording their
+   * results, and speaking the response text via TTS. Tool calls are executed
+   * with a 500ms timeout requirement.
    * 
    * Requirements: 6.1 (tool calls), 6.2 (execution within 500ms), 9.2 (response latency)
    * 
@@ -320,20 +1102,31 @@ export class ConversationOrchestrator {
    */
   async handleAIResponse(response: AIResponse): Promise<void> {
     try {
+      // Replace a flagged reply before it is recorded or spoken
+      let moderated = false;
+      if (this.moderator && response.content.trim().length > 0) {
+        const verdict = await this.moderator.check(response.content);
+        if (verdict.flagged) {
+          this.logFlaggedReply(verdict);
+          response = { ...response, content: createSafeRedirect(this.imageContext) };
+          moderated = true;
+        }
+      }
+
       // Add assistant message to conversation history
-      const assistantMessage: Message = {
-        role: 'assistant',
-        content: response.content,
-        timestamp: Date.now(),
-        toolCalls: response.toolCalls.length > 0 ? response.toolCalls : undefined,
-      };
-      this.messages.push(assistantMessage);
-      this.sessionManager.incrementMessageCount();
+      const message = this.recordAssistantMessage(response);
+      if (moderated) {
+        message.moderated = true;
+      }
 
       // Execute tool calls if present
       // Requirement 6.2: Execute within 500ms
       if (response.toolCalls && response.toolCalls.length > 0) {
-        await this.executeToolCalls(response.toolCalls);
+        const results = await this.executeToolCalls(response.toolCalls);
+        this.recordToolResults(
+          response.toolCalls,
+          new Map(response.toolCalls.map((toolCall, index) => [toolCall.id, results[index]]))
+        );
       }
 
       // Speak the AI response if there's content
@@ -355,17 +1148,22 @@ export class ConversationOrchestrator {
    * Execute tool calls from AI response
    * 
    * Iterates through tool calls and executes each one with a 500ms timeout.
-   * If a tool execution fails, the error is logged but the conversation continues
-   * to ensure resilience (Requirement 6.4).
+   * If a tool execution fails or times out, the error is logged but the
+   * conversation continues to ensure resilience (Requirement 6.4), and the
+   * failure is returned as a result so the LLM can react to it.
    * 
    * Requirements: 6.2 (execution within 500ms), 6.4 (error resilience)
    * 
    * @param toolCalls - Array of tool calls to execute
+   * @returns One result per tool call, in the same order
    * @private
    */
-  private async executeToolCalls(toolCalls: ToolCall[]): Promise<void> {
+  private async executeToolCalls(toolCalls: ToolCall[]): Promise<ToolResult[]> {
+    const results: ToolResult[] = [];
+
     for (const toolCall of toolCalls) {
       const toolExecutionStartTime = Date.now();
+      let result: ToolResult;
       
       try {
         // Notify callback
@@ -375,10 +1173,18 @@ export class ConversationOrchestrator {
 
         // Execute the tool with timeout
         // Requirement 6.2: Execute within 500ms
-        await this.executeToolWithTimeout(toolCall.name, toolCall.arguments, 500);
-        
-        // Measure and log tool execution time
-        const toolExecutionTime = Date.now() - toolExecutionStartTime;
+        result = await this.executeToolWithTimeout(toolCall.name, toolCall.arguments, 500);
+      } catch (error) {
+        result = {
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      // Measure and log tool execution time
+      const toolExecutionTime = Date.now() - toolExecutionStartTime;
+
+      if (result.status === 'success') {
         console.log(`[ConversationOrchestrator] Tool "${toolCall.name}" executed in ${toolExecutionTime}ms`);
         
         if (toolExecutionTime > 500) {
@@ -387,10 +1193,7 @@ export class ConversationOrchestrator {
         
         // Track tool call
         this.sessionManager.incrementToolCallCount();
-
-      } catch (error) {
-        // Log execution time even on error
-        const toolExecutionTime = Date.now() - toolExecutionStartTime;
+      } else {
         console.log(`[ConversationOrchestrator] Tool "${toolCall.name}" failed after ${toolExecutionTime}ms`);
         
         // Requirement 6.4: Log error and continue conversation
@@ -405,13 +1208,18 @@ export class ConversationOrchestrator {
               toolName: toolCall.name,
               toolArgs: toolCall.arguments,
               executionTime: toolExecutionTime,
+              status: result.status,
             },
           },
-          error
+          new Error(result.error ?? `Tool returned status "${result.status}"`)
         );
         // Continue with next tool call - don't let one failure stop the conversation
       }
+
+      results.push(result);
     }
+
+    return results;
   }
 
   /**
@@ -425,23 +1233,29 @@ export class ConversationOrchestrator {
    * @param toolName - Name of the tool to execute
    * @param args - Arguments for the tool
    * @param timeoutMs - Timeout in milliseconds
-   * @throws Error if tool execution times out or fails
+   * @returns The tool's result, or a timeout result if it took too long
+   * @throws Error if tool execution fails
    * @private
    */
   private async executeToolWithTimeout(
     toolName: string,
     args: object,
     timeoutMs: number
-  ): Promise<void> {
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`Tool execution timeout after ${timeoutMs}ms`));
+  ): Promise<ToolResult> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<ToolResult>((resolve) => {
+      timeoutId = setTimeout(() => {
+        resolve({ status: 'timeout', error: `Tool execution timeout after ${timeoutMs}ms` });
       }, timeoutMs);
     });
 
     const executionPromise = this.toolRegistry.executeTool(toolName, args);
 
-    await Promise.race([executionPromise, timeoutPromise]);
+    try {
+      return await Promise.race([executionPromise, timeoutPromise]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
   }
 
   /**
@@ -484,6 +1298,7 @@ export class ConversationOrchestrator {
     try {
       // Clear the conversation timeout
       this.clearConversationTimeout();
+      this.dropPausedReply();
 
       // Stop listening
       if (this.sttHandler.isCurrentlyListening()) {
@@ -498,6 +1313,7 @@ export class ConversationOrchestrator {
       // Update session state
       this.sessionManager.completeSession();
       this.notifyStateChange();
+      await this.persistSession();
 
     } catch (error) {
       this.handleError(error instanceof Error ? error : new Error(String(error)));
@@ -522,6 +1338,25 @@ export class ConversationOrchestrator {
     return [...this.messages];
   }
 
+  /**
+   * Get a transcript of the conversation so far
+   * 
+   * Render it with the TranscriptExporter functions to export it as JSON,
+   * Markdown or HTML.
+   * 
+   * @returns Transcript of the conversation, with the tools fired at each turn
+   * 
+   * @example
+   * ```typescript
+   * const markdown = transcriptToMarkdown(orchestrator.getTranscript());
+   * ```
+   */
+  getTranscript(): Transcript {
+    return buildTranscript(this.messages, this.sessionManager.getState(), {
+      childProfileId: this.childProfileId,
+    });
+  }
+
   /**
    * Get the current session state
    * 
@@ -578,6 +1413,56 @@ export class ConversationOrchestrator {
     }
   }
 
+  /**
+   * Save the session and its messages to the session store
+   * 
+   * Saves run one after another so an older snapshot never overwrites a
+   * newer one. Failures are logged; the conversation carries on unsaved.
+   * 
+   * @returns Promise that resolves once this snapshot has been saved (or failed)
+   * @private
+   */
+  private persistSession(): Promise<void> {
+    const store = this.sessionStore;
+    const state = this.sessionManager.getState();
+    if (!store || !state.sessionId) {
+      return this.persistQueue;
+    }
+
+    const session: ConversationSession = {
+      sessionId: state.sessionId,
+      startTime: state.startTime,
+      messages: [...this.messages],
+      // The picture's id rather than its URL, which for uploads holds the whole picture
+      imageContext: this.imageId,
+      imageId: this.imageId,
+      childProfileId: this.childProfileId,
+      status: state.status,
+      durationMs: state.elapsedMs,
+      targetDurationMs: state.targetDurationMs,
+      messageCount: state.messageCount,
+      toolCallCount: state.toolCallCount,
+      usage: state.usage,
+      updatedAt: Date.now(),
+    };
+
+    this.persistQueue = this.persistQueue
+      .then(() => store.save(session))
+      .catch((error) => {
+        logError(
+          'storage_error',
+          'Failed to save conversation session',
+          {
+            component: 'ConversationOrchestrator',
+            action: 'persistSession',
+            sessionId: state.sessionId,
+          },
+          error
+        );
+      });
+    return this.persistQueue;
+  }
+
   /**
    * Handle errors with callback notification
    * 
@@ -617,6 +1502,7 @@ export class ConversationOrchestrator {
   destroy(): void {
     // Clear conversation timeout
     this.clearConversationTimeout();
+    this.dropPausedReply();
 
     // Stop listening
     if (this.sttHandler.isCurrentlyListening()) {
@@ -632,3 +1518,10 @@ export class ConversationOrchestrator {
     this.sessionManager.destroy();
   }
 }
+
+/**
+ * Whether a saved session still has conversation time left
+ */
+function isResumable(session: ConversationSession): boolean {
+  return session.status !== 'completed' && session.durationMs < session.targetDurationMs;
+}
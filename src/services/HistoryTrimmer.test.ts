@@ -0,0 +1,149 @@
+/**
+ * Tests for HistoryTrimmer
+ */
+
+import { HistoryTrimmer, summarizeTurns } from './HistoryTrimmer';
+import type { Message } from '../types/message';
+import { estimateMessageTokens } from '../utils/tokenEstimator';
+
+describe('HistoryTrimmer', () => {
+  // Each turn is 4 tokens of framing plus 16 of content
+  const turn = (role: Message['role'], text: string, extra: Partial<Message> = {}): Message => ({
+    role,
+    content: text.padEnd(64, '.'),
+    timestamp: 0,
+    ...extra,
+  });
+  const totalTokens = (messages: Message[]) =>
+    messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+
+  let consoleLogSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+  });
+
+  it('should send a history that fits unchanged', () => {
+    const messages = [turn('assistant', 'Hello'), turn('user', 'Hi')];
+
+    expect(new HistoryTrimmer().fit(messages, 40)).toBe(messages);
+  });
+
+  it('should replace the oldest turns with a summary that fits the budget', () => {
+    const summarize = jest.fn((dropped: Message[], previous: string) => `${previous}${dropped.length} turns.`);
+    const messages = [
+      turn('assistant', 'What do you see?'),
+      turn('user', 'A bird'),
+      turn('assistant', 'Where is it?'),
+      turn('user', 'In the tree'),
+    ];
+
+    const sent = new HistoryTrimmer({ summarize }).fit(messages, 70);
+
+    expect(summarize).toHaveBeenLastCalledWith(messages.slice(0, 2), '');
+    expect(sent).toEqual([
+      expect.objectContaining({ role: 'user', content: expect.stringContaining('2 turns.') }),
+      messages[2],
+      messages[3],
+    ]);
+    expect(totalTokens(sent)).toBeLessThanOrEqual(70);
+  });
+
+  it('should keep tool results with the assistant message that called the tool', () => {
+    const messages = [
+      turn('assistant', 'Look!', { toolCalls: [{ id: 'call_1', name: 'zoom', arguments: {} }] }),
+      turn('tool', 'Zoomed', { toolCallId: 'call_1' }),
+      turn('user', 'Wow'),
+    ];
+
+    const sent = new HistoryTrimmer({ summarize: () => 'Zoomed in.' }).fit(messages, 40);
+
+    expect(sent.map(message => message.role)).toEqual(['user', 'user']);
+    expect(sent[1]).toBe(messages[2]);
+  });
+
+  it('should always keep the latest turn', () => {
+    const messages = [turn('assistant', 'Hello'), turn('user', 'Hi')];
+
+    const sent = new HistoryTrimmer({ summarize: () => 'Said hello.' }).fit(messages, 5);
+
+    expect(sent[sent.length - 1]).toBe(messages[1]);
+  });
+
+  it('should extend the summary rather than summarize turns twice', () => {
+    const summarize = jest.fn((dropped: Message[], previous: string) => `${previous}+${dropped.length}`);
+    const trimmer = new HistoryTrimmer({ summarize });
+    // 54 tokens a turn
+    const longTurn = (role: Message['role'], text: string) => turn(role, text.padEnd(200, '.'));
+    const messages = [longTurn('assistant', 'One'), longTurn('user', 'Two'), longTurn('assistant', 'Three')];
+
+    trimmer.fit(messages, 140);
+    messages.push(longTurn('user', 'Four'));
+    const sent = trimmer.fit(messages, 140);
+
+    expect(summarize.mock.calls.map(([dropped, previous]) => [dropped.length, previous])).toEqual([
+      [1, ''],
+      [1, '+1'],
+    ]);
+    expect(sent[0].content).toContain('+1+1');
+  });
+
+  it('should keep its place when an interrupted reply is removed from the history', () => {
+    const summarize = jest.fn((dropped: Message[], previous: string) => `${previous}+${dropped.length}`);
+    const trimmer = new HistoryTrimmer({ summarize });
+    // 54 tokens a turn
+    const longTurn = (role: Message['role'], text: string) => turn(role, text.padEnd(200, '.'));
+    const interrupted = longTurn('assistant', 'Two');
+    const messages = [longTurn('assistant', 'One'), interrupted, longTurn('user', 'Three'), longTurn('assistant', 'Four')];
+
+    trimmer.fit(messages, 140);
+    // The child barged in before any of the reply was spoken, so the orchestrator drops it
+    messages.splice(messages.indexOf(interrupted), 1);
+    messages.push(longTurn('user', 'Five'));
+    const sent = trimmer.fit(messages, 140);
+
+    expect(summarize).toHaveBeenLastCalledWith([messages[1]], '+2');
+    expect(sent).toEqual([expect.objectContaining({ content: expect.stringContaining('+2+1') }), messages[2], messages[3]]);
+  });
+
+  it('should start over for a different conversation', () => {
+    const summarize = jest.fn(() => 'Earlier.');
+    const trimmer = new HistoryTrimmer({ summarize });
+    trimmer.fit([turn('assistant', 'One'), turn('user', 'Two'), turn('assistant', 'Three')], 50);
+
+    const fresh = [turn('assistant', 'Hello')];
+
+    expect(trimmer.fit(fresh, 50)).toBe(fresh);
+  });
+
+  it('should cut the oldest part of a summary that grows too long', () => {
+    const messages = [turn('assistant', 'One'), turn('user', 'Two')];
+
+    const sent = new HistoryTrimmer({ summarize: () => 'old '.repeat(100) + 'newest', maxSummaryTokens: 10 }).fit(
+      messages,
+      30
+    );
+
+    expect(sent[0].content).toMatch(/…old old .*newest\)$/);
+    expect(sent[0].content.length).toBeLessThan(120);
+  });
+});
+
+describe('summarizeTurns', () => {
+  it('should quote the child and the AI and list the tools used', () => {
+    const dropped: Message[] = [
+      { role: 'assistant', content: 'What can you see?', timestamp: 0, toolCalls: [{ id: '1', name: 'zoom_image', arguments: {} }] },
+      { role: 'tool', content: '{"status":"success"}', timestamp: 0, toolCallId: '1' },
+      { role: 'user', content: `A ${'very '.repeat(40)}big elephant`, timestamp: 0 },
+    ];
+
+    const summary = summarizeTurns(dropped, 'You said "Hello!".');
+
+    expect(summary).toMatch(/^You said "Hello!"\. You said "What can you see\?"\. You used zoom_image\. The child said "A very very .*…"\.$/);
+    expect(summary).not.toContain('status');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * HistoryTrimmer - Keeps the conversation history sent to the LLM inside a token budget
+ *
+ * Every request carries the system prompt (with the image context), the tool
+ * definitions and the conversation so far. In a long session the history
+ * outgrows the model's context window and makes every turn more expensive,
+ * so once it no longer fits, the oldest turns are replaced by a short
+ * rolling summary. The summary is extended as more turns fall out of the
+ * budget, so each message is only summarized once. Summarized messages are
+ * remembered by identity rather than position, because the orchestrator
+ * removes replies that were interrupted before any of them was spoken. The
+ * system prompt is never touched; it is sent separately by the provider
+ * adapters.
+ */
+
+import type { Message } from '../types/message';
+import { estimateMessageTokens, estimateTokens } from '../utils/tokenEstimator';
+
+/**
+ * Fold turns that no longer fit into the summary of the turns before them
+ *
+ * @param dropped - Messages leaving the history, oldest first
+ * @param previousSummary - Summary of the turns dropped earlier, or '' for none
+ * @returns The summary of everything dropped so far
+ */
+export type HistorySummarizer = (dropped: Message[], previousSummary: string) => string;
+
+export interface HistoryTrimmerOptions {
+  /** Summarizes dropped turns; defaults to summarizeTurns */
+  summarize?: HistorySummarizer;
+  /** Longest the summary may grow, defaults to 400 tokens; its oldest part is cut beyond that */
+  maxSummaryTokens?: number;
+}
+
+const DEFAULT_MAX_SUMMARY_TOKENS = 400;
+
+/**
+ * Longest quote of a single turn in the default summary
+ */
+const MAX_QUOTE_LENGTH = 120;
+
+export class HistoryTrimmer {
+  private summarize: HistorySummarizer;
+  private maxSummaryTokens: number;
+
+  private summary = '';
+  /** Messages the summary covers */
+  private summarized = new Set<Message>();
+
+  /**
+   * @param options - Summarizer and summary length limit
+   */
+  constructor(options: HistoryTrimmerOptions = {}) {
+    this.summarize = options.summarize ?? summarizeTurns;
+    this.maxSummaryTokens = options.maxSummaryTokens ?? DEFAULT_MAX_SUMMARY_TOKENS;
+  }
+
+  /**
+   * Fit a conversation history into a token budget
+   *
+   * Returns the history unchanged when it fits. Otherwise the oldest turns
+   * are replaced by a summary message. An assistant message and the tool
+   * results that answer it are kept or dropped together, and the latest
+   * turn is always kept, even if it alone is over budget.
+   *
+   * @param messages - Conversation history, oldest first
+   * @param budgetTokens - Tokens the history may use
+   * @returns Messages to send
+   *
+   * @example
+   * ```typescript
+   * const budget = 8000 - estimateTokens(systemPrompt) - estimateToolTokens(tools);
+   * adapter.sendMessage(systemPrompt, trimmer.fit(messages, budget), tools);
+   * ```
+   */
+  fit(messages: Message[], budgetTokens: number): Message[] {
+    let summarizedCount = 0;
+    while (summarizedCount < messages.length && this.summarized.has(messages[summarizedCount])) {
+      summarizedCount++;
+    }
+    if (summarizedCount === 0 && this.summarized.size > 0) {
+      // A different conversation; start a new summary
+      this.summary = '';
+      this.summarized.clear();
+    }
+
+    const messageTokens = messages.map(estimateMessageTokens);
+    const tokensFrom = (start: number) => messageTokens.slice(start).reduce((total, tokens) => total + tokens, 0);
+
+    if (summarizedCount === 0 && tokensFrom(0) <= budgetTokens) {
+      return messages;
+    }
+
+    const turnStarts = findTurnStarts(messages).filter(start => start >= summarizedCount);
+    const summaryLimit = Math.min(this.maxSummaryTokens, Math.floor(budgetTokens / 4));
+    let summary = this.summary;
+    let dropTo = summarizedCount;
+
+    for (const start of turnStarts) {
+      summary = start > summarizedCount
+        ? limitSummary(this.summarize(messages.slice(summarizedCount, start), this.summary), summaryLimit)
+        : this.summary;
+      dropTo = start;
+      const summaryTokens = summary ? estimateMessageTokens(summaryMessage(summary, 0)) : 0;
+      if (summaryTokens + tokensFrom(start) <= budgetTokens) {
+        break;
+      }
+    }
+
+    if (dropTo > summarizedCount) {
+      console.log(`[HistoryTrimmer] Summarized ${dropTo - summarizedCount} older messages to fit the token budget`);
+    }
+    this.summary = summary;
+    messages.slice(summarizedCount, dropTo).forEach(message => this.summarized.add(message));
+
+    const kept = messages.slice(dropTo);
+    return summary ? [summaryMessage(summary, kept[0]?.timestamp ?? Date.now()), ...kept] : kept;
+  }
+}
+
+/**
+ * Default summarizer: quotes what the child and the AI said, shortened, and
+ * the tools the AI used, without another LLM call
+ *
+ * @example
+ * ```typescript
+ * summarizeTurns([{ role: 'user', content: 'I see a bird', timestamp: 0 }], '');
+ * // 'The child said "I see a bird".'
+ * ```
+ */
+export function summarizeTurns(dropped: Message[], previousSummary: string): string {
+  const lines = dropped.flatMap(message => {
+    if (message.role === 'user') {
+      return [`The child said "${quote(message.content)}".`];
+    }
+    if (message.role !== 'assistant') {
+      return [];
+    }
+    const said = message.content.trim() ? [`You said "${quote(message.content)}".`] : [];
+    const tools = message.toolCalls?.length
+      ? [`You used ${message.toolCalls.map(toolCall => toolCall.name).join(', ')}.`]
+      : [];
+    return [...said, ...tools];
+  });
+  return [previousSummary, ...lines].filter(line => line.length > 0).join(' ');
+}
+
+/**
+ * Indexes where a turn starts: every message except tool results, which
+ * belong with the assistant message that called the tool
+ */
+function findTurnStarts(messages: Message[]): number[] {
+  return messages.flatMap((message, index) => (message.role === 'tool' ? [] : [index]));
+}
+
+function summaryMessage(summary: string, timestamp: number): Message {
+  return {
+    role: 'user',
+    content: `(Summary of the earlier part of this conversation, which is no longer shown: ${summary})`,
+    timestamp,
+  };
+}
+
+/**
+ * Cut the oldest part of a summary that has grown past its limit
+ */
+function limitSummary(summary: string, maxTokens: number): string {
+  if (estimateTokens(summary) <= maxTokens) {
+    return summary;
+  }
+  const tail = summary.slice(summary.length - maxTokens * 4 + 2);
+  return `…${tail.slice(tail.indexOf(' ') + 1)}`;
+}
+
+function quote(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_QUOTE_LENGTH ? `${singleLine.slice(0, MAX_QUOTE_LENGTH - 1).trimEnd()}…` : singleLine;
+}
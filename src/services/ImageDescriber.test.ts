@@ -0,0 +1,168 @@
+/**
+ * Unit tests for ImageDescriber
+ */
+
+import {
+  createUploadId,
+  ImageDescriber,
+  VISION_SYSTEM_PROMPT,
+  parseVisionDescription,
+  readFileAsDataURL,
+  validateImageUpload,
+} from './ImageDescriber';
+import type { LLMProviderAdapter } from '../types/services';
+import { webcrypto } from 'crypto';
+import { TextEncoder as NodeTextEncoder } from 'util';
+
+describe('ImageDescriber', () => {
+  const imageDataUrl = 'data:image/png;base64,iVBORw0KGgo=';
+
+  const visionReply = {
+    safeForChildren: true,
+    safetyConcern: '',
+    description: 'A crayon drawing of a red house with a big yellow sun.',
+    detectedObjects: ['house', 'sun', 'door'],
+    colors: ['red', 'yellow'],
+    mood: 'happy, sunny',
+    suggestedTopics: ['Who lives in the house?', 'What is the weather like?'],
+  };
+
+  const stubAdapter = (content: string): LLMProviderAdapter & { sendMessage: jest.Mock } => ({
+    sendMessage: jest.fn().mockResolvedValue({ content, toolCalls: [], finishReason: 'stop' }),
+    streamMessage: jest.fn(),
+  });
+
+  let consoleErrorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  describe('describe', () => {
+    it('should send the picture to the vision model and build the image context', async () => {
+      const adapter = stubAdapter(JSON.stringify(visionReply));
+
+      const result = await new ImageDescriber(adapter).describe(imageDataUrl);
+
+      expect(adapter.sendMessage).toHaveBeenCalledWith(
+        VISION_SYSTEM_PROMPT,
+        [expect.objectContaining({ role: 'user', images: [imageDataUrl] })],
+        []
+      );
+      expect(result).toEqual({
+        status: 'approved',
+        imageContext: {
+          url: imageDataUrl,
+          id: expect.stringMatching(/^upload:/),
+          description: 'A crayon drawing of a red house with a big yellow sun.',
+          detectedObjects: ['house', 'sun', 'door'],
+          colors: ['red', 'yellow'],
+          mood: 'happy, sunny',
+          suggestedTopics: ['Who lives in the house?', 'What is the weather like?'],
+        },
+      });
+    });
+
+    it('should reject pictures the model flags as unsuitable', async () => {
+      const adapter = stubAdapter(JSON.stringify({
+        ...visionReply,
+        safeForChildren: false,
+        safetyConcern: 'The picture shows a frightening scene',
+      }));
+
+      await expect(new ImageDescriber(adapter).describe(imageDataUrl)).resolves.toEqual({
+        status: 'rejected',
+        reason: 'The picture shows a frightening scene',
+      });
+    });
+
+    it('should reject descriptions that mention unsafe things even when the model allows them', async () => {
+      const adapter = stubAdapter(JSON.stringify({
+        ...visionReply,
+        detectedObjects: ['house', 'knife'],
+      }));
+
+      await expect(new ImageDescriber(adapter).describe(imageDataUrl)).resolves.toEqual({
+        status: 'rejected',
+        reason: 'The picture description mentions "knife"',
+      });
+    });
+
+    it('should fail when the model reply cannot be read', async () => {
+      const adapter = stubAdapter('I see a lovely house!');
+
+      await expect(new ImageDescriber(adapter).describe(imageDataUrl)).rejects.toThrow(
+        'Could not describe the picture: The picture description was not JSON'
+      );
+    });
+  });
+
+  describe('parseVisionDescription', () => {
+    it('should read JSON inside a code fence and treat a missing verdict as unsafe', () => {
+      const parsed = parseVisionDescription('```json\n{"description": "A cat", "colors": ["black", 3]}\n```');
+
+      expect(parsed).toEqual({
+        safeForChildren: false,
+        safetyConcern: '',
+        description: 'A cat',
+        detectedObjects: [],
+        colors: ['black'],
+        mood: '',
+        suggestedTopics: [],
+      });
+    });
+  });
+
+  describe('validateImageUpload', () => {
+    it('should accept PNG, JPG and WebP pictures', () => {
+      for (const type of ['image/png', 'image/jpeg', 'image/webp']) {
+        expect(validateImageUpload(new File(['x'], 'drawing', { type }))).toBeNull();
+      }
+    });
+
+    it('should refuse other files and very large pictures', () => {
+      expect(validateImageUpload(new File(['x'], 'drawing.gif', { type: 'image/gif' }))).toBe(
+        'Please choose a PNG, JPG or WebP picture'
+      );
+
+      const large = new File(['x'], 'photo.jpg', { type: 'image/jpeg' });
+      Object.defineProperty(large, 'size', { value: 11 * 1024 * 1024 });
+      expect(validateImageUpload(large)).toBe('Please choose a picture smaller than 10 MB');
+    });
+  });
+
+  describe('readFileAsDataURL', () => {
+    it('should read the file as a base64 data URL', async () => {
+      const file = new File(['hi'], 'drawing.png', { type: 'image/png' });
+
+      await expect(readFileAsDataURL(file)).resolves.toBe('data:image/png;base64,aGk=');
+    });
+  });
+
+  describe('createUploadId', () => {
+    const jsdomGlobals = { crypto: globalThis.crypto, TextEncoder: globalThis.TextEncoder };
+
+    // jsdom has neither Web Crypto digests nor TextEncoder; use Node's, as a browser would have them
+    beforeAll(() => {
+      Object.assign(globalThis, { TextEncoder: NodeTextEncoder });
+      Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+    });
+
+    afterAll(() => {
+      Object.assign(globalThis, { TextEncoder: jsdomGlobals.TextEncoder });
+      Object.defineProperty(globalThis, 'crypto', { value: jsdomGlobals.crypto, configurable: true });
+    });
+
+    it('should give the same picture the same short id', async () => {
+      const id = await createUploadId(imageDataUrl);
+
+      expect(id).toMatch(/^upload:[0-9a-f]{32}$/);
+      await expect(createUploadId(imageDataUrl)).resolves.toBe(id);
+      await expect(createUploadId('data:image/png;base64,R0lGODlh')).resolves.not.toBe(id);
+    });
+  });
+});
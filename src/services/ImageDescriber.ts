@@ -0,0 +1,259 @@
+/**
+ * ImageDescriber - Describes pictures the family uploads
+ *
+ * Sends the picture to a vision-capable model, which returns the full
+ * ImageContext (description, objects, colors, mood, topics) together with its
+ * own child-safety verdict. The description then passes a keyword check as
+ * well, so a picture is only used when both agree it is suitable.
+ */
+
+import type { LLMConfig } from '../types/config';
+import type { ImageContext } from '../types/image';
+import type { LLMProviderAdapter } from '../types/services';
+import { LLMProviderRegistry, defaultLLMProviderRegistry } from './LLMProviderRegistry';
+import { logError } from '../utils/errorLogger';
+
+/**
+ * Picture formats that can be uploaded
+ */
+export const SUPPORTED_UPLOAD_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Largest picture that can be uploaded, in bytes
+ */
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export const VISION_SYSTEM_PROMPT = `You describe pictures for a children's conversation app. Children aged 3-10 will talk about the picture with a friendly AI.
+
+Reply with only a JSON object, no other text:
+{
+  "safeForChildren": true or false,
+  "safetyConcern": "why the picture is not suitable, or an empty string",
+  "description": "one or two simple sentences describing the picture",
+  "detectedObjects": ["up to 8 things a child can see in the picture"],
+  "colors": ["main colors"],
+  "mood": "a few words about the feeling of the picture",
+  "suggestedTopics": ["3 to 5 questions to ask a child about the picture"]
+}
+
+The picture is not safe for children if it shows violence, weapons, blood or injuries, nudity, drugs, alcohol or smoking, frightening or disturbing content, or personal information such as addresses, phone numbers or documents.`;
+
+const VISION_INSTRUCTION = 'Describe this picture.';
+
+/**
+ * Words that make a description unsuitable, whatever the model said
+ */
+const UNSAFE_WORDS = [
+  'alcohol', 'beer', 'blood', 'bloody', 'cigarette', 'corpse', 'dead body', 'drug', 'drugs', 'gore',
+  'gun', 'guns', 'injury', 'knife', 'naked', 'nude', 'pistol', 'rifle', 'smoking', 'vape', 'violence',
+  'violent', 'weapon', 'weapons', 'wine',
+];
+
+/**
+ * Outcome of describing an uploaded picture
+ */
+export type ImageDescriptionResult =
+  | { status: 'approved'; imageContext: ImageContext }
+  | { status: 'rejected'; reason: string };
+
+/**
+ * What the vision model reports about a picture
+ */
+export interface VisionDescription {
+  safeForChildren: boolean;
+  safetyConcern: string;
+  description: string;
+  detectedObjects: string[];
+  colors: string[];
+  mood: string;
+  suggestedTopics: string[];
+}
+
+export class ImageDescriber {
+  private adapter: LLMProviderAdapter;
+
+  /**
+   * @param adapter - Adapter for a vision-capable model
+   */
+  constructor(adapter: LLMProviderAdapter) {
+    this.adapter = adapter;
+  }
+
+  /**
+   * Describe a picture and check it is suitable for children
+   *
+   * @param imageDataUrl - The picture as a data URL; also becomes the context's url
+   * @returns The image context, with an id from createUploadId(), or the reason the picture was rejected
+   * @throws Error if the model can't be reached or its reply can't be read
+   *
+   * @example
+   * ```typescript
+   * const result = await describer.describe(await readFileAsDataURL(file));
+   * if (result.status === 'approved') {
+   *   startConversation(result.imageContext);
+   * }
+   * ```
+   */
+  async describe(imageDataUrl: string): Promise<ImageDescriptionResult> {
+    let description: VisionDescription;
+
+    try {
+      const response = await this.adapter.sendMessage(
+        VISION_SYSTEM_PROMPT,
+        [{ role: 'user', content: VISION_INSTRUCTION, timestamp: Date.now(), images: [imageDataUrl] }],
+        []
+      );
+      description = parseVisionDescription(response.content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logError(
+        'ai_service_error',
+        `Could not describe the picture: ${message}`,
+        { component: 'ImageDescriber', action: 'describe' },
+        error
+      );
+      throw new Error(`Could not describe the picture: ${message}`);
+    }
+
+    const concern = checkChildSafety(description);
+    if (concern) {
+      return { status: 'rejected', reason: concern };
+    }
+
+    return {
+      status: 'approved',
+      imageContext: {
+        url: imageDataUrl,
+        id: await createUploadId(imageDataUrl),
+        description: description.description,
+        detectedObjects: description.detectedObjects,
+        colors: description.colors,
+        mood: description.mood,
+        suggestedTopics: description.suggestedTopics,
+      },
+    };
+  }
+}
+
+/**
+ * Id for an uploaded picture, so conversations about it are saved and found
+ * again without storing the picture itself
+ *
+ * Hashes the picture where the browser can, so uploading the same picture
+ * again finds its unfinished conversation; otherwise the id is random.
+ *
+ * @example
+ * ```typescript
+ * await createUploadId('data:image/png;base64,iVBORw0...'); // 'upload:3f2a…' (32 hex digits)
+ * ```
+ */
+export async function createUploadId(imageDataUrl: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle || typeof TextEncoder === 'undefined') {
+    return `upload:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(imageDataUrl));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `upload:${hex}`;
+}
+
+/**
+ * Create an image describer for the configured provider
+ *
+ * @param config - LLM configuration; the model must accept images
+ * @param registry - Registry to resolve the provider from
+ * @throws Error if the provider is not registered
+ */
+export function createImageDescriber(
+  config: LLMConfig,
+  registry: LLMProviderRegistry = defaultLLMProviderRegistry
+): ImageDescriber {
+  const definition = registry.getProvider(config.provider);
+  if (!definition) {
+    throw new Error(`Provider ${config.provider} not supported`);
+  }
+  return new ImageDescriber(definition.createAdapter(config));
+}
+
+/**
+ * Read the JSON description from the model's reply
+ *
+ * Tolerates a markdown code fence or text around the object. Missing lists
+ * become empty; a missing safety verdict counts as unsafe.
+ *
+ * @throws Error if the reply has no JSON object or no description
+ */
+export function parseVisionDescription(text: string): VisionDescription {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('The picture description was not JSON');
+  }
+
+  const raw = JSON.parse(text.slice(start, end + 1)) as Record<string, unknown>;
+  if (typeof raw.description !== 'string' || !raw.description.trim()) {
+    throw new Error('The picture description is missing');
+  }
+
+  return {
+    safeForChildren: raw.safeForChildren === true,
+    safetyConcern: typeof raw.safetyConcern === 'string' ? raw.safetyConcern : '',
+    description: raw.description.trim(),
+    detectedObjects: toStringList(raw.detectedObjects),
+    colors: toStringList(raw.colors),
+    mood: typeof raw.mood === 'string' ? raw.mood : '',
+    suggestedTopics: toStringList(raw.suggestedTopics),
+  };
+}
+
+/**
+ * Check a picture description is suitable for children
+ *
+ * @returns Why the picture is unsuitable, or null when it is fine
+ */
+export function checkChildSafety(description: VisionDescription): string | null {
+  if (!description.safeForChildren) {
+    return description.safetyConcern || 'The picture may not be suitable for children';
+  }
+
+  const text = [
+    description.description,
+    description.mood,
+    ...description.detectedObjects,
+    ...description.suggestedTopics,
+  ].join(' ').toLowerCase();
+  const word = UNSAFE_WORDS.find(unsafe => new RegExp(`\\b${unsafe}\\b`).test(text));
+
+  return word ? `The picture description mentions "${word}"` : null;
+}
+
+/**
+ * Check an uploaded file can be described
+ *
+ * @returns Why the file can't be used, or null when it is fine
+ */
+export function validateImageUpload(file: File): string | null {
+  if (!SUPPORTED_UPLOAD_TYPES.includes(file.type)) {
+    return 'Please choose a PNG, JPG or WebP picture';
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `Please choose a picture smaller than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+/**
+ * Read a file as a base64 data URL
+ */
+export function readFileAsDataURL(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the picture'));
+    reader.readAsDataURL(file);
+  });
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
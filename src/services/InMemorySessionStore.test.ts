@@ -0,0 +1,88 @@
+/**
+ * Unit tests for InMemorySessionStore
+ */
+
+import { InMemorySessionStore } from './InMemorySessionStore';
+import type { ConversationSession } from '../types/message';
+
+function makeSession(overrides: Partial<ConversationSession>): ConversationSession {
+  return {
+    sessionId: 'session',
+    startTime: 0,
+    messages: [],
+    imageContext: '/images/friendly-elephant.svg',
+    imageId: '/images/friendly-elephant.svg',
+    status: 'completed',
+    durationMs: 60000,
+    targetDurationMs: 60000,
+    messageCount: 0,
+    toolCallCount: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('InMemorySessionStore', () => {
+  let store: InMemorySessionStore;
+
+  beforeEach(async () => {
+    store = new InMemorySessionStore();
+    await store.save(makeSession({ sessionId: 'monday-elephant', startTime: 1000, childProfileId: 'maya' }));
+    await store.save(makeSession({ sessionId: 'tuesday-garden', startTime: 2000, imageId: 'garden', childProfileId: 'maya' }));
+    await store.save(makeSession({ sessionId: 'wednesday-elephant', startTime: 3000, childProfileId: 'leo' }));
+  });
+
+  const ids = (sessions: ConversationSession[]) => sessions.map(session => session.sessionId);
+
+  it('should save and load a session with its messages and tool calls', async () => {
+    const session = makeSession({
+      sessionId: 'with-messages',
+      messages: [
+        { role: 'user', content: 'An elephant!', timestamp: 10 },
+        {
+          role: 'assistant',
+          content: 'Yes!',
+          timestamp: 20,
+          toolCalls: [{ id: 'call-1', name: 'showEmoji', arguments: { emoji: '🐘' } }],
+        },
+      ],
+      toolCallCount: 1,
+    });
+
+    await store.save(session);
+
+    expect(await store.get('with-messages')).toEqual(session);
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should list sessions newest first', async () => {
+    expect(ids(await store.query())).toEqual(['wednesday-elephant', 'tuesday-garden', 'monday-elephant']);
+    expect(ids(await store.query({ limit: 1 }))).toEqual(['wednesday-elephant']);
+  });
+
+  it('should query by date range, image and child profile together', async () => {
+    expect(ids(await store.query({ from: 1500, to: 3000 }))).toEqual(['wednesday-elephant', 'tuesday-garden']);
+    expect(ids(await store.query({ imageId: '/images/friendly-elephant.svg' }))).toEqual([
+      'wednesday-elephant',
+      'monday-elephant',
+    ]);
+    expect(ids(await store.query({ imageId: '/images/friendly-elephant.svg', childProfileId: 'maya' }))).toEqual([
+      'monday-elephant',
+    ]);
+  });
+
+  it('should replace sessions saved again and delete them', async () => {
+    await store.save(makeSession({ sessionId: 'monday-elephant', startTime: 1000, status: 'active' }));
+    expect((await store.get('monday-elephant'))?.status).toBe('active');
+
+    await store.delete('monday-elephant');
+    expect(await store.get('monday-elephant')).toBeNull();
+  });
+
+  it('should not share stored sessions with callers', async () => {
+    const loaded = await store.get('monday-elephant');
+    loaded!.messages.push({ role: 'user', content: 'changed', timestamp: 0 });
+
+    expect((await store.get('monday-elephant'))!.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * InMemorySessionStore - Session store kept in memory
+ *
+ * Stand-in for IndexedDBSessionStore in tests and in browsers without
+ * IndexedDB (e.g. some private browsing modes). Sessions are copied on the
+ * way in and out, like IndexedDB's structured cloning, so callers can't
+ * change stored sessions by accident.
+ *
+ * Requirements: 5.1 (session management)
+ */
+
+import type { ConversationSession } from '../types/message';
+import type { SessionQuery, SessionStore } from '../types/services';
+
+/**
+ * Apply a session query: filter, sort newest first and limit
+ *
+ * @param sessions - Candidate sessions in any order
+ * @param query - Criteria; all given criteria must match
+ * @returns Matching sessions, newest first
+ */
+export function selectSessions(sessions: ConversationSession[], query: SessionQuery = {}): ConversationSession[] {
+  const matches = sessions
+    .filter(session =>
+      (query.from === undefined || session.startTime >= query.from) &&
+      (query.to === undefined || session.startTime <= query.to) &&
+      (query.imageId === undefined || session.imageId === query.imageId) &&
+      (query.childProfileId === undefined || session.childProfileId === query.childProfileId)
+    )
+    .sort((a, b) => b.startTime - a.startTime);
+
+  return query.limit === undefined ? matches : matches.slice(0, Math.max(0, query.limit));
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, ConversationSession>();
+
+  async save(session: ConversationSession): Promise<void> {
+    this.sessions.set(session.sessionId, copySession(session));
+  }
+
+  async get(sessionId: string): Promise<ConversationSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? copySession(session) : null;
+  }
+
+  async query(query: SessionQuery = {}): Promise<ConversationSession[]> {
+    return selectSessions(Array.from(this.sessions.values()), query).map(copySession);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+function copySession(session: ConversationSession): ConversationSession {
+  return JSON.parse(JSON.stringify(session)) as ConversationSession;
+}
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for IndexedDBSessionStore
+ *
+ * Runs in the node environment, which has the structuredClone that
+ * fake-indexeddb needs.
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBSessionStore } from './IndexedDBSessionStore';
+import { ConversationOrchestrator } from './ConversationOrchestrator';
+import type { SpeechToTextHandler } from './SpeechToTextHandler';
+import type { LLMClient } from './LLMClient';
+import type { TextToSpeechHandler } from './TextToSpeechHandler';
+import type { ToolRegistry } from './ToolRegistry';
+import type { SessionStateManager } from './SessionStateManager';
+import type { ConversationSession } from '../types/message';
+
+function makeSession(overrides: Partial<ConversationSession>): ConversationSession {
+  return {
+    sessionId: 'session',
+    startTime: 0,
+    messages: [],
+    imageContext: '/images/friendly-elephant.svg',
+    imageId: '/images/friendly-elephant.svg',
+    status: 'completed',
+    durationMs: 60000,
+    targetDurationMs: 60000,
+    messageCount: 0,
+    toolCallCount: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('IndexedDBSessionStore', () => {
+  let store: IndexedDBSessionStore;
+
+  beforeEach(async () => {
+    // A fresh database for every test
+    store = new IndexedDBSessionStore('test-sessions', new IDBFactory());
+    await store.save(makeSession({ sessionId: 'monday-elephant', startTime: 1000, childProfileId: 'maya' }));
+    await store.save(makeSession({ sessionId: 'tuesday-garden', startTime: 2000, imageId: 'garden', childProfileId: 'maya' }));
+    await store.save(makeSession({ sessionId: 'wednesday-elephant', startTime: 3000, childProfileId: 'leo' }));
+  });
+
+  const ids = (sessions: ConversationSession[]) => sessions.map(session => session.sessionId);
+
+  it('should save and load a session with its messages and tool calls', async () => {
+    const session = makeSession({
+      sessionId: 'with-messages',
+      messages: [
+        { role: 'user', content: 'An elephant!', timestamp: 10 },
+        {
+          role: 'assistant',
+          content: 'Yes!',
+          timestamp: 20,
+          toolCalls: [{ id: 'call-1', name: 'showEmoji', arguments: { emoji: '🐘' } }],
+        },
+      ],
+      toolCallCount: 1,
+    });
+
+    await store.save(session);
+
+    expect(await store.get('with-messages')).toEqual(session);
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should keep sessions across store instances on the same database', async () => {
+    const factory = new IDBFactory();
+    await new IndexedDBSessionStore('reloaded', factory).save(makeSession({ sessionId: 'before-reload' }));
+
+    expect(await new IndexedDBSessionStore('reloaded', factory).get('before-reload')).toMatchObject({
+      sessionId: 'before-reload',
+    });
+  });
+
+  it('should find the latest session for an image first', async () => {
+    expect(ids(await store.query({ imageId: '/images/friendly-elephant.svg' }))).toEqual([
+      'wednesday-elephant',
+      'monday-elephant',
+    ]);
+    expect(ids(await store.query({ imageId: '/images/friendly-elephant.svg', limit: 1 }))).toEqual([
+      'wednesday-elephant',
+    ]);
+    expect(ids(await store.query({ imageId: '/images/friendly-elephant.svg', childProfileId: 'maya' }))).toEqual([
+      'monday-elephant',
+    ]);
+    expect(await store.query({ imageId: 'upload:unknown' })).toEqual([]);
+  });
+
+  it('should query by child profile and date range', async () => {
+    expect(ids(await store.query({ childProfileId: 'maya' }))).toEqual(['tuesday-garden', 'monday-elephant']);
+    expect(ids(await store.query({ from: 1500, to: 3000 }))).toEqual(['wednesday-elephant', 'tuesday-garden']);
+    expect(ids(await store.query({ from: 2500 }))).toEqual(['wednesday-elephant']);
+    expect(ids(await store.query({ to: 1500 }))).toEqual(['monday-elephant']);
+  });
+
+  it('should replace sessions saved again and delete them', async () => {
+    await store.save(makeSession({ sessionId: 'monday-elephant', startTime: 1000, status: 'active' }));
+    expect((await store.get('monday-elephant'))?.status).toBe('active');
+
+    await store.delete('monday-elephant');
+    expect(await store.get('monday-elephant')).toBeNull();
+  });
+
+  describe('resuming a conversation', () => {
+    let orchestrator: ConversationOrchestrator;
+
+    // Twenty seconds into a one-minute conversation about an uploaded picture
+    const unfinishedSession = (overrides: Partial<ConversationSession>) =>
+      makeSession({
+        imageId: 'upload:3f2a',
+        childProfileId: 'maya',
+        status: 'active',
+        durationMs: 20000,
+        ...overrides,
+      });
+
+    beforeEach(() => {
+      const stt: Partial<SpeechToTextHandler> = { onTranscript: jest.fn(), onError: jest.fn() };
+      const tts: Partial<TextToSpeechHandler> = {
+        onSpeechStart: jest.fn(),
+        onSpeechEnd: jest.fn(),
+        onError: jest.fn(),
+        onFallback: jest.fn(),
+      };
+      orchestrator = new ConversationOrchestrator(
+        stt as SpeechToTextHandler,
+        {} as LLMClient,
+        tts as TextToSpeechHandler,
+        {} as ToolRegistry,
+        {} as SessionStateManager,
+        {},
+        { sessionStore: store, childProfileId: 'maya' }
+      );
+    });
+
+    it('should offer the latest unfinished session for the image from the last 30 minutes', async () => {
+      const now = Date.now();
+      await store.save(unfinishedSession({
+        sessionId: 'earlier-today',
+        startTime: now - 3 * 60 * 60 * 1000,
+        updatedAt: now - 3 * 60 * 60 * 1000,
+      }));
+      await store.save(unfinishedSession({
+        sessionId: 'just-now',
+        status: 'paused',
+        startTime: now - 10 * 60 * 1000,
+        updatedAt: now - 9 * 60 * 1000,
+      }));
+
+      expect(await orchestrator.findResumableSession('upload:3f2a')).toMatchObject({ sessionId: 'just-now' });
+      expect(await orchestrator.findResumableSession('upload:other')).toBeNull();
+    });
+
+    it('should not offer sessions older than 30 minutes or already finished', async () => {
+      const now = Date.now();
+      await store.save(unfinishedSession({
+        sessionId: 'stale',
+        startTime: now - 40 * 60 * 1000,
+        updatedAt: now - 31 * 60 * 1000,
+      }));
+      expect(await orchestrator.findResumableSession('upload:3f2a')).toBeNull();
+
+      await store.save(unfinishedSession({
+        sessionId: 'finished',
+        status: 'completed',
+        startTime: now - 5 * 60 * 1000,
+        updatedAt: now - 4 * 60 * 1000,
+      }));
+      expect(await orchestrator.findResumableSession('upload:3f2a')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * IndexedDBSessionStore - Conversation sessions saved in the browser
+ *
+ * Keeps each ConversationSession (messages, tool calls, image, timings and
+ * counts) in IndexedDB so conversations survive a reload. Sessions are
+ * indexed by start time, image and child profile for querying.
+ *
+ * Requirements: 5.1 (session management)
+ */
+
+import type { ConversationSession } from '../types/message';
+import type { SessionQuery, SessionStore } from '../types/services';
+import { InMemorySessionStore, selectSessions } from './InMemorySessionStore';
+
+export const SESSION_DATABASE_NAME = 'picture-conversations';
+const SESSION_DATABASE_VERSION = 1;
+const SESSION_OBJECT_STORE = 'sessions';
+
+export class IndexedDBSessionStore implements SessionStore {
+  private databaseName: string;
+  private factory: IDBFactory;
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param databaseName - IndexedDB database to use
+   * @param factory - IndexedDB implementation, defaults to the browser's
+   */
+  constructor(databaseName: string = SESSION_DATABASE_NAME, factory: IDBFactory = indexedDB) {
+    this.databaseName = databaseName;
+    this.factory = factory;
+  }
+
+  async save(session: ConversationSession): Promise<void> {
+    await this.request('readwrite', store => store.put(session));
+  }
+
+  async get(sessionId: string): Promise<ConversationSession | null> {
+    const session = await this.request<ConversationSession | undefined>('readonly', store => store.get(sessionId));
+    return session ?? null;
+  }
+
+  /**
+   * Find sessions
+   *
+   * Reads through the most selective index for the query, then applies the
+   * remaining criteria.
+   *
+   * @example
+   * ```typescript
+   * const lastWeek = await store.query({ from: Date.now() - 7 * 24 * 60 * 60 * 1000, childProfileId: 'maya' });
+   * ```
+   */
+  async query(query: SessionQuery = {}): Promise<ConversationSession[]> {
+    const candidates = await this.request<ConversationSession[]>('readonly', (store) => {
+      if (query.imageId !== undefined) {
+        return store.index('imageId').getAll(query.imageId);
+      }
+      if (query.childProfileId !== undefined) {
+        return store.index('childProfileId').getAll(query.childProfileId);
+      }
+      if (query.from !== undefined || query.to !== undefined) {
+        return store.index('startTime').getAll(startTimeRange(query.from, query.to));
+      }
+      return store.getAll();
+    });
+
+    return selectSessions(candidates, query);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(sessionId));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = this.factory.open(this.databaseName, SESSION_DATABASE_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(SESSION_OBJECT_STORE, { keyPath: 'sessionId' });
+          store.createIndex('startTime', 'startTime');
+          store.createIndex('imageId', 'imageId');
+          store.createIndex('childProfileId', 'childProfileId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error(`Could not open ${this.databaseName}`));
+        request.onblocked = () => reject(new Error(`${this.databaseName} is in use by another tab`));
+      });
+
+      // Let a later call try again
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Run one request in its own transaction
+   *
+   * Resolves once the transaction has committed, so saved sessions are
+   * durable when save() resolves.
+   */
+  private async request<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(SESSION_OBJECT_STORE, mode);
+      const request = makeRequest(transaction.objectStore(SESSION_OBJECT_STORE));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Session store transaction aborted'));
+    });
+  }
+}
+
+/**
+ * Create the session store for this browser
+ *
+ * @returns IndexedDB-backed store, or an in-memory one where IndexedDB is unavailable
+ */
+export function createSessionStore(): SessionStore {
+  if (typeof indexedDB === 'undefined') {
+    return new InMemorySessionStore();
+  }
+  return new IndexedDBSessionStore();
+}
+
+function startTimeRange(from?: number, to?: number): IDBKeyRange {
+  if (from !== undefined && to !== undefined) {
+    return IDBKeyRange.bound(from, to);
+  }
+  if (from !== undefined) {
+    return IDBKeyRange.lowerBound(from);
+  }
+  return IDBKeyRange.upperBound(to);
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for InputScreener
+ */
+
+import { InputScreener } from './InputScreener';
+
+describe('InputScreener', () => {
+  const screener = new InputScreener();
+
+  it('should leave ordinary picture talk alone', () => {
+    expect(screener.screen('I see 3 elephants and a big tree. 1 2 3 4 5 6 7!')).toEqual({
+      text: 'I see 3 elephants and a big tree. 1 2 3 4 5 6 7!',
+      redactions: [],
+      flags: [],
+    });
+  });
+
+  it.each([
+    ['My name is Maya Patel and I like elephants', 'My name is [name] and I like elephants', 'name'],
+    ['my name is maya and I am six', 'my name is [name] and I am six', 'name'],
+    ["My mum's number is 07700 900123", "My mum's number is [phone number]", 'phone'],
+    ['Email me at maya.p@example.com', 'Email me at [email]', 'email'],
+    ['I live at 12 Elm Tree Road', 'I live at [address]', 'address'],
+    ['I go to Oakwood Primary School', 'I go to [school]', 'school'],
+    ["we go to st mary's academy", 'we go to [school]', 'school'],
+  ])('should redact %j', (transcript, text, kind) => {
+    expect(screener.screen(transcript)).toMatchObject({ text, redactions: [kind] });
+  });
+
+  it('should not treat going to school as a school name', () => {
+    expect(screener.screen('I go to school on the bus').text).toBe('I go to school on the bus');
+    expect(screener.screen('The School has a bell').text).toBe('The School has a bell');
+  });
+
+  it('should redact known names anywhere', () => {
+    const withNames = new InputScreener({ knownNames: ['Maya', ' Sam '] });
+
+    expect(withNames.screen('maya and Sam saw a bird')).toEqual({
+      text: '[name] and [name] saw a bird',
+      redactions: ['name', 'name'],
+      flags: [],
+    });
+  });
+
+  it('should flag safeguarding phrases without changing the text', () => {
+    expect(screener.screen('My brother hits me when nobody is looking')).toEqual({
+      text: 'My brother hits me when nobody is looking',
+      redactions: [],
+      flags: [{ category: 'harm', matched: 'hits me' }],
+    });
+  });
+
+  it('should find concerns in the words that were redacted away', () => {
+    const withKeywords = new InputScreener({ knownNames: ['Bob'], safeguardingKeywords: ['Uncle Bob'] });
+
+    expect(withKeywords.screen('uncle   bob told me not to tell')).toEqual({
+      text: 'uncle   [name] told me not to tell',
+      redactions: ['name'],
+      flags: [
+        { category: 'secrecy', matched: 'told me not to tell' },
+        { category: 'custom', matched: 'uncle bob' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * InputScreener - Privacy and safeguarding check on what the child says
+ *
+ * Runs on each transcript before it joins the conversation history, so
+ * personal details never reach the LLM or saved sessions: names, phone
+ * numbers, email addresses, street addresses and school names are replaced
+ * by placeholders such as "[name]". Phrases that suggest the child may be
+ * hurt, unsafe or unhappy are reported so a parent can follow up; the
+ * conversation itself carries on as normal.
+ */
+
+export type PersonalInfoKind = 'name' | 'phone' | 'email' | 'address' | 'school';
+
+/**
+ * A phrase that a parent should know the child said
+ */
+export interface SafeguardingFlag {
+  /** Kind of concern, e.g. 'harm' */
+  category: string;
+  /** The keyword or phrase that was found */
+  matched: string;
+}
+
+export interface ScreeningResult {
+  /** Transcript with personal details replaced by placeholders */
+  text: string;
+  /** Kinds of personal detail that were removed, in the order found */
+  redactions: PersonalInfoKind[];
+  flags: SafeguardingFlag[];
+}
+
+export interface InputScreenerOptions {
+  /** Names to always remove, e.g. the child's and their family's */
+  knownNames?: string[];
+  /** Extra safeguarding phrases, in the 'custom' category */
+  safeguardingKeywords?: string[];
+}
+
+/**
+ * Phrases a parent should hear about, by category. Matched as whole words,
+ * ignoring case.
+ */
+export const SAFEGUARDING_KEYWORDS: Record<string, string[]> = {
+  harm: [
+    'hits me', 'hurts me', 'kicks me', 'beats me', 'slapped me', 'punched me',
+    'touched me', 'touches me', 'touching me',
+  ],
+  self_harm: ['kill myself', 'hurt myself', 'want to die', "don't want to be alive", 'cut myself'],
+  secrecy: ['told me not to tell', 'our secret', 'keep a secret', 'not allowed to tell'],
+  neglect: ['no food at home', 'nobody feeds me', 'left me alone', 'locked me in', 'locked in my room'],
+  bullying: ['bullied', 'bully me', 'bullies me', 'nobody likes me', 'everyone hates me'],
+  fear: ['scared to go home', 'afraid to go home', 'scared of my dad', 'scared of my mum', 'scared of my mom'],
+};
+
+const PLACEHOLDERS: Record<PersonalInfoKind, string> = {
+  name: '[name]',
+  phone: '[phone number]',
+  email: '[email]',
+  address: '[address]',
+  school: '[school]',
+};
+
+const STREET_TYPES =
+  'street|st|road|rd|avenue|ave|lane|ln|drive|dr|close|court|way|crescent|place|terrace|boulevard|blvd|grove|gardens';
+const SCHOOL_TYPES = 'school|academy|primary|elementary|kindergarten|nursery|preschool';
+const CAPITALIZED_SCHOOL_TYPES = SCHOOL_TYPES.split('|')
+  .map(type => `[${type[0].toUpperCase()}${type[0]}]${type.slice(1)}`)
+  .join('|');
+/** Capitalized words that start a sentence rather than a school's name */
+const NOT_A_SCHOOL_NAME = '(?!(?:I|A|The|My|Our|Your|His|Her|Their|This|That|At|In|To|And|But)\\s)';
+
+interface PersonalInfoPattern {
+  kind: PersonalInfoKind;
+  pattern: RegExp;
+  /** Text to put in place of a match, or null to leave it; defaults to the placeholder */
+  replace?: (match: string, ...groups: string[]) => string | null;
+}
+
+/**
+ * Patterns for personal details, in the order they are applied. Names come
+ * last so a name inside an address or school is removed with it.
+ */
+const PERSONAL_INFO_PATTERNS: PersonalInfoPattern[] = [
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  {
+    // Groups of two or more digits, so counting "1 2 3 4 5 6 7" is left alone
+    kind: 'phone',
+    pattern: /\+?(?:\(?\d{2,}\)?[\s.-]?){2,}\d{2,}/g,
+    replace: match => (match.replace(/\D/g, '').length >= 7 ? PLACEHOLDERS.phone : null),
+  },
+  {
+    kind: 'address',
+    pattern: new RegExp(`\\b\\d+[a-z]?\\s+(?:[a-z']+\\s+){1,3}(?:${STREET_TYPES})\\b\\.?`, 'gi'),
+  },
+  {
+    // "Oakwood Primary School", "St Mary's Academy"
+    kind: 'school',
+    pattern: new RegExp(
+      `\\b(?:${NOT_A_SCHOOL_NAME}[A-Z][\\w'-]*\\s+){1,3}(?:(?:${CAPITALIZED_SCHOOL_TYPES})\\s+)?(?:${CAPITALIZED_SCHOOL_TYPES})\\b`,
+      'g'
+    ),
+  },
+  {
+    // "i go to oakwood primary", as speech recognition often leaves names lowercase
+    kind: 'school',
+    pattern: new RegExp(
+      `\\b((?:go to|goes to|school is called|school is)\\s+)((?!(?:the|a|my|our|big|new)\\s)(?:[a-z'-]+\\s+){1,3}(?:${SCHOOL_TYPES}))\\b`,
+      'gi'
+    ),
+    replace: (_match, leadIn) => `${leadIn}${PLACEHOLDERS.school}`,
+  },
+  {
+    // "my name is maya" or "my name is Maya Patel"; a lowercase word after the name is kept
+    kind: 'name',
+    pattern: /\b((?:my|his|her|their) (?:full |last |first |real )?name is\s+|i am called\s+|i'm called\s+|call me\s+)([\p{L}'-]+)(\s+[\p{L}'-]+)?/giu,
+    replace: (_match, leadIn, _name, next = '') =>
+      `${leadIn}${PLACEHOLDERS.name}${/^\s+\p{Lu}/u.test(next) ? '' : next}`,
+  },
+];
+
+export class InputScreener {
+  private namePatterns: RegExp[];
+  private keywords: Array<{ category: string; term: string; pattern: RegExp }>;
+
+  /**
+   * @param options - Names to always remove and extra safeguarding phrases
+   */
+  constructor(options: InputScreenerOptions = {}) {
+    this.namePatterns = (options.knownNames ?? [])
+      .map(name => name.trim())
+      .filter(name => name.length > 0)
+      .map(name => new RegExp(wholeWord(name), 'giu'));
+
+    const entries = [
+      ...Object.entries(SAFEGUARDING_KEYWORDS),
+      ['custom', options.safeguardingKeywords ?? []] as [string, string[]],
+    ];
+    this.keywords = entries.flatMap(([category, terms]) =>
+      terms
+        .map(term => term.trim().toLowerCase())
+        .filter(term => term.length > 0)
+        .map(term => ({ category, term, pattern: new RegExp(wholeWord(term), 'u') }))
+    );
+  }
+
+  /**
+   * Remove personal details from a transcript and look for safeguarding concerns
+   *
+   * Concerns are looked for in the original words, so a removed detail
+   * cannot hide one.
+   *
+   * @param transcript - What the child said
+   *
+   * @example
+   * ```typescript
+   * screener.screen('My name is Maya and I go to Oakwood Primary');
+   * // { text: 'My name is [name] and I go to [school]', redactions: ['school', 'name'], flags: [] }
+   * ```
+   */
+  screen(transcript: string): ScreeningResult {
+    const normalized = transcript.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ');
+    const flags = this.keywords
+      .filter(({ pattern }) => pattern.test(normalized))
+      .map(({ category, term }) => ({ category, matched: term }));
+
+    const redactions: PersonalInfoKind[] = [];
+    let text = transcript;
+    for (const { kind, pattern, replace } of PERSONAL_INFO_PATTERNS) {
+      text = text.replace(pattern, (match: string, ...groups: string[]) => {
+        const replacement = replace ? replace(match, ...groups) : PLACEHOLDERS[kind];
+        if (replacement === null) {
+          return match;
+        }
+        redactions.push(kind);
+        return replacement;
+      });
+    }
+    for (const pattern of this.namePatterns) {
+      text = text.replace(pattern, () => {
+        redactions.push('name');
+        return PLACEHOLDERS.name;
+      });
+    }
+
+    return { text, redactions, flags };
+  }
+}
+
+/**
+ * Whole-word pattern source for a term; spaces match any run of whitespace
+ */
+function wholeWord(term: string): string {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`;
+}
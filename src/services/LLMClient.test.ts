@@ -5,7 +5,8 @@
 import { LLMClient } from './LLMClient';
 import type { LLMConfig } from '../types/config';
 import type { Message } from '../types/message';
-import type { Tool } from '../types/services';
+import type { LLMProviderAdapter, Tool } from '../types/services';
+import { LLMProviderRegistry } from './LLMProviderRegistry';
 import OpenAI from 'openai';
 import * as fc from 'fast-check';
 
@@ -49,8 +50,19 @@ describe('LLMClient', () => {
     });
 
     it('should throw error for unsupported provider', () => {
-      const invalidConfig = { ...validConfig, provider: 'anthropic' as any };
-      expect(() => client.initialize(invalidConfig)).toThrow('Provider anthropic not supported');
+      const invalidConfig = { ...validConfig, provider: 'unknown' as unknown as LLMConfig['provider'] };
+      expect(() => client.initialize(invalidConfig)).toThrow('Provider unknown not supported');
+    });
+
+    it('should initialize with valid Anthropic config without creating an OpenAI client', () => {
+      const anthropicConfig: LLMConfig = { ...validConfig, provider: 'anthropic', model: 'claude-3-5-haiku-latest' };
+      expect(() => client.initialize(anthropicConfig)).not.toThrow();
+      expect(OpenAI).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when Anthropic API key is missing', () => {
+      const configWithoutKey: LLMConfig = { ...validConfig, provider: 'anthropic', apiKey: undefined };
+      expect(() => client.initialize(configWithoutKey)).toThrow('Anthropic API key is required');
     });
 
     it('should throw error when API key is missing', () => {
@@ -371,6 +383,39 @@ describe('LLMClient', () => {
       expect(finalResponse?.finishReason).toBe('tool_calls');
     });
 
+    it('should request usage and report it from the final chunk', async () => {
+      const mockStream = [
+        { model: 'gpt-4o-mini-2024-07-18', choices: [{ delta: { content: 'Hi!' }, finish_reason: null }], usage: null },
+        { model: 'gpt-4o-mini-2024-07-18', choices: [{ delta: {}, finish_reason: 'stop' }], usage: null },
+        {
+          model: 'gpt-4o-mini-2024-07-18',
+          choices: [],
+          usage: { prompt_tokens: 900, completion_tokens: 12, prompt_tokens_details: { cached_tokens: 768 } },
+        },
+      ];
+      mockCreate.mockResolvedValue({
+        [Symbol.asyncIterator]: async function* () {
+          for (const chunk of mockStream) {
+            yield chunk;
+          }
+        },
+      });
+
+      const responses = [];
+      for await (const response of client.streamMessage([{ role: 'user', content: 'Hello', timestamp: 0 }], [])) {
+        responses.push(response);
+      }
+
+      expect(mockCreate.mock.calls[0][0].stream_options).toEqual({ include_usage: true });
+      expect(responses[1].usage).toBeUndefined();
+      expect(responses[2]).toEqual({
+        content: 'Hi!',
+        toolCalls: [],
+        finishReason: 'stop',
+        usage: { model: 'gpt-4o-mini-2024-07-18', promptTokens: 900, completionTokens: 12, cachedTokens: 768 },
+      });
+    });
+
     it('should handle streaming errors', async () => {
       const messages: Message[] = [
         { role: 'user', content: 'Hello', timestamp: Date.now() },
@@ -381,6 +426,190 @@ describe('LLMClient', () => {
       const iterator = client.streamMessage(messages, []);
       await expect(iterator.next()).rejects.toThrow('OpenAI streaming error: Network error');
     });
+
+    it('should cancel the request through the abort signal without wrapping the error', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const abortController = new AbortController();
+      abortController.abort();
+      mockCreate.mockRejectedValue(new Error('Request was aborted.'));
+
+      const iterator = client.streamMessage([], [], abortController.signal);
+
+      await expect(iterator.next()).rejects.toThrow(/^Request was aborted\.$/);
+      expect(mockCreate.mock.calls[0][1]).toEqual({ signal: abortController.signal });
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('provider adapters', () => {
+    it('should delegate to an adapter registered in a custom registry', async () => {
+      const adapter: LLMProviderAdapter = {
+        sendMessage: jest.fn().mockResolvedValue({ content: 'From adapter', toolCalls: [], finishReason: 'stop' }),
+        streamMessage: jest.fn(),
+      };
+      const registry = new LLMProviderRegistry();
+      registry.registerProvider({
+        id: 'local',
+        label: 'Custom',
+        requiresApiKey: false,
+        defaultModel: 'custom-model',
+        env: { model: 'VITE_CUSTOM_MODEL', baseUrl: 'VITE_CUSTOM_BASE_URL' },
+        createAdapter: () => adapter,
+      });
+
+      const customClient = new LLMClient(registry);
+      customClient.initialize({ ...validConfig, provider: 'local', apiKey: undefined });
+
+      const messages: Message[] = [{ role: 'user', content: 'Hello', timestamp: Date.now() }];
+      const response = await customClient.sendMessage(messages, []);
+
+      expect(response.content).toBe('From adapter');
+      expect(adapter.sendMessage).toHaveBeenCalledWith(
+        expect.stringContaining('friendly, enthusiastic AI companion'),
+        messages,
+        []
+      );
+      expect(OpenAI).not.toHaveBeenCalled();
+    });
+
+    it('should wrap adapter errors with the provider label', async () => {
+      const registry = new LLMProviderRegistry();
+      registry.registerProvider({
+        id: 'local',
+        label: 'Custom',
+        requiresApiKey: false,
+        defaultModel: 'custom-model',
+        env: { model: 'VITE_CUSTOM_MODEL', baseUrl: 'VITE_CUSTOM_BASE_URL' },
+        createAdapter: () => ({
+          sendMessage: jest.fn().mockRejectedValue(new Error('Invalid request')),
+          streamMessage: jest.fn(),
+        }),
+      });
+
+      const customClient = new LLMClient(registry);
+      customClient.initialize({ ...validConfig, provider: 'local' });
+
+      await expect(customClient.sendMessage([], [])).rejects.toThrow('Custom API error: Invalid request');
+    });
+  });
+
+  describe('context token budget', () => {
+    const createBudgetClient = (contextTokenBudget?: number) => {
+      const adapter: LLMProviderAdapter = {
+        sendMessage: jest.fn().mockResolvedValue({ content: 'OK', toolCalls: [], finishReason: 'stop' }),
+        streamMessage: jest.fn(async function* () {
+          yield { content: 'OK', toolCalls: [], finishReason: 'stop' as const };
+        }),
+      };
+      const registry = new LLMProviderRegistry();
+      registry.registerProvider({
+        id: 'local',
+        label: 'Custom',
+        requiresApiKey: false,
+        defaultModel: 'custom-model',
+        env: { model: 'VITE_CUSTOM_MODEL', baseUrl: 'VITE_CUSTOM_BASE_URL' },
+        createAdapter: () => adapter,
+      });
+      const budgetClient = new LLMClient(registry);
+      budgetClient.initialize({ ...validConfig, provider: 'local', contextTokenBudget });
+      budgetClient.setImageContext({ url: 'elephant.svg', description: 'A friendly elephant' });
+      return { budgetClient, adapter };
+    };
+
+    // 20 turns of about 100 tokens each
+    const longHistory: Message[] = Array.from({ length: 20 }, (_, index) => ({
+      role: index % 2 === 0 ? 'assistant' : 'user',
+      content: `Turn ${index} ${'word '.repeat(78)}`,
+      timestamp: index,
+    }));
+
+    it('should send the whole history without a budget', async () => {
+      const { budgetClient, adapter } = createBudgetClient();
+
+      await budgetClient.sendMessage(longHistory, []);
+
+      expect(adapter.sendMessage).toHaveBeenCalledWith(expect.any(String), longHistory, []);
+    });
+
+    it('should summarize older turns but keep the system prompt with the image context', async () => {
+      const { budgetClient, adapter } = createBudgetClient(1500);
+
+      await budgetClient.sendMessage(longHistory, []);
+      for await (const response of budgetClient.streamMessage(longHistory, [])) {
+        expect(response.content).toBe('OK');
+      }
+
+      const [systemPrompt, sent] = (adapter.sendMessage as jest.Mock).mock.calls[0];
+      expect(systemPrompt).toContain('A friendly elephant');
+      expect(sent.length).toBeLessThan(longHistory.length);
+      expect(sent[0].content).toMatch(/^\(Summary of the earlier part of this conversation/);
+      expect(sent[sent.length - 1]).toBe(longHistory[longHistory.length - 1]);
+      expect((adapter.streamMessage as jest.Mock).mock.calls[0][1]).toEqual(sent);
+    });
+  });
+
+  describe('Anthropic provider', () => {
+    const anthropicConfig: LLMConfig = {
+      ...validConfig,
+      provider: 'anthropic',
+      model: 'claude-3-5-haiku-latest',
+    };
+    let mockFetch: jest.Mock;
+
+    beforeEach(() => {
+      mockFetch = jest.fn();
+      (globalThis as { fetch?: typeof fetch }).fetch = mockFetch;
+      client.initialize(anthropicConfig);
+    });
+
+    afterEach(() => {
+      delete (globalThis as { fetch?: typeof fetch }).fetch;
+    });
+
+    it('should route sendMessage to the Anthropic Messages API with the system prompt', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Hi!' },
+            { type: 'tool_use', id: 'toolu_1', name: 'show_emoji', input: { emoji: '😊' } },
+          ],
+          stop_reason: 'tool_use',
+        }),
+      });
+
+      const response = await client.sendMessage(
+        [{ role: 'user', content: 'Hello', timestamp: Date.now() }],
+        []
+      );
+
+      expect(mockCreate).not.toHaveBeenCalled();
+      expect(mockFetch.mock.calls[0][0]).toBe('https://api.anthropic.com/v1/messages');
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.system).toContain('friendly, enthusiastic AI companion');
+      expect(body.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+      expect(response).toEqual({
+        content: 'Hi!',
+        toolCalls: [{ id: 'toolu_1', name: 'show_emoji', arguments: { emoji: '😊' } }],
+        finishReason: 'tool_calls',
+      });
+    });
+
+    it('should wrap Anthropic errors with the provider name', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        json: async () => ({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }),
+      });
+
+      await expect(client.sendMessage([], [])).rejects.toThrow('Anthropic API error: HTTP 401 invalid x-api-key');
+    });
   });
 
   describe('message conversion', () => {
@@ -448,6 +677,40 @@ describe('LLMClient', () => {
         },
       });
     });
+
+    it('should convert tool messages to tool results', async () => {
+      const messages: Message[] = [
+        { role: 'user', content: 'Zoom in', timestamp: Date.now() },
+        {
+          role: 'assistant',
+          content: '',
+          timestamp: Date.now(),
+          toolCalls: [{ id: 'call_zoom', name: 'zoom_image', arguments: { level: 'in' } }],
+        },
+        {
+          role: 'tool',
+          content: '{"status":"success","data":{"level":"in"}}',
+          timestamp: Date.now(),
+          toolCallId: 'call_zoom',
+        },
+      ];
+
+      mockCreate.mockResolvedValue({
+        choices: [{
+          message: { role: 'assistant', content: 'Now we are closer!' },
+          finish_reason: 'stop',
+        }],
+      });
+
+      await client.sendMessage(messages, []);
+
+      const callArgs = mockCreate.mock.calls[0][0];
+      expect(callArgs.messages[3]).toEqual({
+        role: 'tool',
+        tool_call_id: 'call_zoom',
+        content: '{"status":"success","data":{"level":"in"}}',
+      });
+    });
   });
 
   describe('child-appropriate system prompt', () => {
@@ -1,43 +1,62 @@
-import OpenAI from 'openai';
-import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
 import type { LLMConfig } from '../types/config';
-import type { Message, ToolCall } from '../types/message';
-import type { AIResponse, Tool } from '../types/services';
+import type { Message } from '../types/message';
+import type { AIResponse, LLMProviderAdapter, LLMProviderDefinition, Tool } from '../types/services';
 import type { ImageContext } from '../types/image';
 import { PromptManager } from './PromptManager';
+import type { PromptOptions } from './PromptManager';
+import { LLMProviderRegistry, defaultLLMProviderRegistry } from './LLMProviderRegistry';
 import { retryWithBackoff, isRetryableError } from '../utils/retryWithBackoff';
 import { logError } from '../utils/errorLogger';
+import { estimateTokens, estimateToolTokens } from '../utils/tokenEstimator';
+import { HistoryTrimmer } from './HistoryTrimmer';
 
 export class LLMClient {
-  private client: OpenAI | null = null;
+  private adapter: LLMProviderAdapter | null = null;
+  private providerDefinition: LLMProviderDefinition | null = null;
+  private providerRegistry: LLMProviderRegistry;
   private config: LLMConfig | null = null;
   private systemPrompt: string = '';
   private promptManager: PromptManager | null = null;
+  private historyTrimmer = new HistoryTrimmer();
+
+  /**
+   * @param providerRegistry - Registry used to resolve provider adapters (defaults to the built-in providers)
+   */
+  constructor(providerRegistry: LLMProviderRegistry = defaultLLMProviderRegistry) {
+    this.providerRegistry = providerRegistry;
+  }
 
   /**
    * Initialize the LLM client with configuration
    * 
+   * Looks up the configured provider in the provider registry and creates
+   * its adapter. All provider-specific request/response handling lives in
+   * the adapter. With `contextTokenBudget` set, older turns are summarized
+   * whenever a request would go over it.
+   * 
    * @param config - LLM configuration including provider, model, API key, etc.
+   * @throws Error if the provider is not registered or a required API key is missing
    */
   initialize(config: LLMConfig): void {
-    if (config.provider !== 'openai') {
-      const error = new Error(`Provider ${config.provider} not supported. Only 'openai' is currently supported.`);
+    const definition = this.providerRegistry.getProvider(config.provider);
+
+    if (!definition) {
+      const supported = this.providerRegistry.getProviderIds().map(p => `'${p}'`).join(', ');
+      const error = new Error(`Provider ${config.provider} not supported. Supported providers: ${supported}.`);
       logError('ai_service_error', error.message, { component: 'LLMClient', action: 'initialize' });
       throw error;
     }
 
-    if (!config.apiKey) {
-      const error = new Error('OpenAI API key is required');
+    if (definition.requiresApiKey && !config.apiKey) {
+      const error = new Error(`${definition.label} API key is required`);
       logError('ai_service_error', error.message, { component: 'LLMClient', action: 'initialize' });
       throw error;
     }
 
     this.config = config;
-    this.client = new OpenAI({
-      apiKey: config.apiKey,
-      baseURL: config.baseUrl,
-      dangerouslyAllowBrowser: true,
-    });
+    this.providerDefinition = definition;
+    this.adapter = definition.createAdapter(config);
+    this.historyTrimmer = new HistoryTrimmer();
 
     this.systemPrompt = this.createChildAppropriateSystemPrompt();
   }
@@ -93,7 +112,7 @@ Remember: You're here to make learning fun and help the child explore their curi
    * });
    * ```
    */
-  setImageContext(imageContext: ImageContext, options?: { childAge?: number; conversationStyle?: 'educational' | 'playful' | 'exploratory' }): void {
+  setImageContext(imageContext: ImageContext, options?: PromptOptions): void {
     this.promptManager = new PromptManager(options);
     this.systemPrompt = this.promptManager.generateSystemPrompt(imageContext);
   }
@@ -110,12 +129,34 @@ Remember: You're here to make learning fun and help the child explore their curi
     return this.promptManager;
   }
 
+  /**
+   * Fit the conversation history into the context token budget
+   * 
+   * The system prompt, which carries the image context, and the tool
+   * definitions are always sent, so they come out of the budget first;
+   * older turns are summarized to make the rest fit.
+   * 
+   * @param messages - Conversation history
+   * @param tools - Tools sent with the request
+   * @returns Messages to send
+   * @private
+   */
+  private fitToBudget(messages: Message[], tools: Tool[]): Message[] {
+    const budget = this.config?.contextTokenBudget;
+    if (!budget) {
+      return messages;
+    }
+    const historyBudget = budget - estimateTokens(this.systemPrompt) - estimateToolTokens(tools);
+    return this.historyTrimmer.fit(messages, historyBudget);
+  }
+
   /**
    * Send a message and get a complete response
    * 
    * Sends messages to the LLM and receives a complete response including
    * any tool calls. Implements retry logic with exponential backoff for
-   * transient failures (network errors, timeouts, rate limits).
+   * transient failures (network errors, timeouts, rate limits). Older turns
+   * are summarized first if the request would exceed the context budget.
    * 
    * Requirements: 10.2 (retry logic for AI service failures)
    * 
@@ -134,34 +175,24 @@ Remember: You're here to make learning fun and help the child explore their curi
    * ```
    */
   async sendMessage(messages: Message[], tools: Tool[]): Promise<AIResponse> {
-    if (!this.client || !this.config) {
+    if (!this.adapter || !this.config) {
       const error = new Error('LLMClient not initialized. Call initialize() first.');
       logError('ai_service_error', error.message, { component: 'LLMClient', action: 'sendMessage' });
       throw error;
     }
 
-    // Convert messages to OpenAI format
-    const openAIMessages = this.convertToOpenAIMessages(messages);
-
-    // Convert tools to OpenAI format
-    const openAITools = this.convertToOpenAITools(tools);
+    const adapter = this.adapter;
+    const providerLabel = this.providerDefinition!.label;
+    const requestMessages = this.fitToBudget(messages, tools);
 
     // Wrap the API call with retry logic
     return retryWithBackoff(
       async () => {
         try {
-          const completion = await this.client!.chat.completions.create({
-            model: this.config!.model,
-            messages: openAIMessages,
-            tools: openAITools.length > 0 ? openAITools : undefined,
-            temperature: this.config!.temperature,
-            max_tokens: this.config!.maxTokens,
-          });
-
-          return this.parseOpenAIResponse(completion);
+          return await adapter.sendMessage(this.systemPrompt, requestMessages, tools);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          const wrappedError = new Error(`OpenAI API error: ${errorMessage}`);
+          const wrappedError = new Error(`${providerLabel} API error: ${errorMessage}`);
           
           // Log the error with context
           logError(
@@ -193,10 +224,14 @@ Remember: You're here to make learning fun and help the child explore their curi
    * 
    * Sends messages to the LLM and receives streaming responses as they are generated.
    * Useful for displaying AI responses in real-time as they are being created.
-   * Accumulates content and tool calls across chunks.
+   * Accumulates content and tool calls across chunks. Older turns are
+   * summarized first if the request would exceed the context budget. Aborting the signal
+   * cancels the request; the resulting error is rethrown as-is and not logged,
+   * since the caller asked for it.
    * 
    * @param messages - Array of conversation messages
    * @param tools - Array of available tools for function calling
+   * @param signal - Optional signal to cancel the in-flight request
    * @yields AIResponse objects with incrementally accumulated content and tool calls
    * @throws Error if LLM client is not initialized or streaming fails
    * 
@@ -210,102 +245,24 @@ Remember: You're here to make learning fun and help the child explore their curi
    * }
    * ```
    */
-  async *streamMessage(messages: Message[], tools: Tool[]): AsyncGenerator<AIResponse> {
-    if (!this.client || !this.config) {
+  async *streamMessage(messages: Message[], tools: Tool[], signal?: AbortSignal): AsyncGenerator<AIResponse> {
+    if (!this.adapter || !this.config) {
       const error = new Error('LLMClient not initialized. Call initialize() first.');
       logError('ai_service_error', error.message, { component: 'LLMClient', action: 'streamMessage' });
       throw error;
     }
 
-    // Convert messages to OpenAI format
-    const openAIMessages = this.convertToOpenAIMessages(messages);
-
-    // Convert tools to OpenAI format
-    const openAITools = this.convertToOpenAITools(tools);
+    const providerLabel = this.providerDefinition!.label;
 
     try {
-      const stream = await this.client.chat.completions.create({
-        model: this.config.model,
-        messages: openAIMessages,
-        tools: openAITools.length > 0 ? openAITools : undefined,
-        temperature: this.config.temperature,
-        max_tokens: this.config.maxTokens,
-        stream: true,
-      });
-
-      let accumulatedContent = '';
-      let accumulatedToolCalls: Array<{ id: string; name: string; argumentsStr: string }> = [];
-      let finishReason: 'stop' | 'length' | 'tool_calls' = 'stop';
-
-      for await (const chunk of stream) {
-        const delta = chunk.choices[0]?.delta;
-        
-        if (delta?.content) {
-          accumulatedContent += delta.content;
-        }
-
-        if (delta?.tool_calls) {
-          // Accumulate tool calls
-          for (const toolCall of delta.tool_calls) {
-            const index = toolCall.index;
-            if (!accumulatedToolCalls[index]) {
-              accumulatedToolCalls[index] = {
-                id: toolCall.id || '',
-                name: toolCall.function?.name || '',
-                argumentsStr: '',
-              };
-            }
-            
-            if (toolCall.id) {
-              accumulatedToolCalls[index].id = toolCall.id;
-            }
-            
-            if (toolCall.function?.name) {
-              accumulatedToolCalls[index].name = toolCall.function.name;
-            }
-            
-            if (toolCall.function?.arguments) {
-              accumulatedToolCalls[index].argumentsStr += toolCall.function.arguments;
-            }
-          }
-        }
-
-        if (chunk.choices[0]?.finish_reason) {
-          const reason = chunk.choices[0].finish_reason;
-          if (reason === 'stop' || reason === 'length' || reason === 'tool_calls') {
-            finishReason = reason;
-          }
-        }
-
-        // Parse tool calls for yielding
-        const parsedToolCalls: ToolCall[] = accumulatedToolCalls
-          .filter(tc => tc.id)
-          .map(tc => {
-            let args = {};
-            if (tc.argumentsStr) {
-              try {
-                args = JSON.parse(tc.argumentsStr);
-              } catch {
-                // Still accumulating, not valid JSON yet
-              }
-            }
-            return {
-              id: tc.id,
-              name: tc.name,
-              arguments: args,
-            };
-          });
-
-        // Yield current state
-        yield {
-          content: accumulatedContent,
-          toolCalls: parsedToolCalls,
-          finishReason,
-        };
-      }
+      yield* this.adapter.streamMessage(this.systemPrompt, this.fitToBudget(messages, tools), tools, signal);
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      const wrappedError = new Error(`OpenAI streaming error: ${errorMessage}`);
+      const wrappedError = new Error(`${providerLabel} streaming error: ${errorMessage}`);
       
       // Log the error with context
       logError(
@@ -322,125 +279,4 @@ Remember: You're here to make learning fun and help the child explore their curi
       throw wrappedError;
     }
   }
-
-  /**
-   * Convert internal Message format to OpenAI format
-   * 
-   * Transforms the application's message format into the format expected
-   * by the OpenAI API. Adds the system prompt and handles tool calls.
-   * 
-   * @param messages - Array of internal messages
-   * @returns Array of OpenAI-formatted messages
-   * @private
-   */
-  private convertToOpenAIMessages(messages: Message[]): ChatCompletionMessageParam[] {
-    const openAIMessages: ChatCompletionMessageParam[] = [];
-
-    // Add system prompt first
-    if (this.systemPrompt) {
-      openAIMessages.push({
-        role: 'system',
-        content: this.systemPrompt,
-      });
-    }
-
-    // Convert messages
-    for (const message of messages) {
-      if (message.role === 'system') {
-        // Skip system messages as we already added our system prompt
-        continue;
-      }
-
-      if (message.role === 'user') {
-        openAIMessages.push({
-          role: 'user',
-          content: message.content,
-        });
-      } else if (message.role === 'assistant') {
-        if (message.toolCalls && message.toolCalls.length > 0) {
-          openAIMessages.push({
-            role: 'assistant',
-            content: message.content || null,
-            tool_calls: message.toolCalls.map(tc => ({
-              id: tc.id,
-              type: 'function' as const,
-              function: {
-                name: tc.name,
-                arguments: JSON.stringify(tc.arguments),
-              },
-            })),
-          });
-        } else {
-          openAIMessages.push({
-            role: 'assistant',
-            content: message.content,
-          });
-        }
-      }
-    }
-
-    return openAIMessages;
-  }
-
-  /**
-   * Convert internal Tool format to OpenAI format
-   * 
-   * Transforms the application's tool definitions into the format expected
-   * by the OpenAI function calling API.
-   * 
-   * @param tools - Array of internal tool definitions
-   * @returns Array of OpenAI-formatted tool definitions
-   * @private
-   */
-  private convertToOpenAITools(tools: Tool[]): ChatCompletionTool[] {
-    return tools.map(tool => ({
-      type: 'function' as const,
-      function: {
-        name: tool.name,
-        description: tool.description,
-        parameters: tool.parameters as Record<string, unknown>,
-      },
-    }));
-  }
-
-  /**
-   * Parse OpenAI response to internal format
-   * 
-   * Transforms the OpenAI API response into the application's internal
-   * AIResponse format, extracting content, tool calls, and finish reason.
-   * 
-   * @param completion - OpenAI chat completion response
-   * @returns Parsed AI response in internal format
-   * @private
-   */
-  private parseOpenAIResponse(completion: OpenAI.Chat.Completions.ChatCompletion): AIResponse {
-    const choice = completion.choices[0];
-    const message = choice.message;
-
-    const toolCalls: ToolCall[] = [];
-    if (message.tool_calls) {
-      for (const toolCall of message.tool_calls) {
-        if (toolCall.type === 'function') {
-          toolCalls.push({
-            id: toolCall.id,
-            name: toolCall.function.name,
-            arguments: JSON.parse(toolCall.function.arguments),
-          });
-        }
-      }
-    }
-
-    let finishReason: 'stop' | 'length' | 'tool_calls' = 'stop';
-    if (choice.finish_reason === 'length') {
-      finishReason = 'length';
-    } else if (choice.finish_reason === 'tool_calls') {
-      finishReason = 'tool_calls';
-    }
-
-    return {
-      content: message.content || '',
-      toolCalls,
-      finishReason,
-    };
-  }
 }
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for LLMProviderRegistry
+ */
+
+import {
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+  LLMProviderRegistry,
+  anthropicProviderDefinition,
+  defaultLLMProviderRegistry,
+  localProviderDefinition,
+  openAIProviderDefinition,
+  proxyProviderDefinition,
+  registerDefaultLLMProviders,
+  resolveLLMConfig,
+} from './LLMProviderRegistry';
+import type { LLMProviderDefinition } from '../types/services';
+
+jest.mock('openai');
+
+describe('LLMProviderRegistry', () => {
+  let registry: LLMProviderRegistry;
+
+  const fakeDefinition: LLMProviderDefinition = {
+    id: 'local',
+    label: 'Fake',
+    requiresApiKey: false,
+    defaultModel: 'fake-model',
+    env: {
+      model: 'VITE_FAKE_MODEL',
+      baseUrl: 'VITE_FAKE_BASE_URL',
+    },
+    createAdapter: jest.fn(),
+  };
+
+  beforeEach(() => {
+    registry = new LLMProviderRegistry();
+  });
+
+  describe('registerProvider', () => {
+    it('should register a provider definition', () => {
+      registry.registerProvider(fakeDefinition);
+
+      expect(registry.hasProvider('local')).toBe(true);
+      expect(registry.getProvider('local')).toBe(fakeDefinition);
+      expect(registry.getProviderIds()).toEqual(['local']);
+    });
+
+    it('should throw when registering a duplicate provider id', () => {
+      registry.registerProvider(fakeDefinition);
+
+      expect(() => registry.registerProvider(fakeDefinition)).toThrow(
+        'LLM provider "local" is already registered'
+      );
+    });
+
+    it('should unregister a provider', () => {
+      registry.registerProvider(fakeDefinition);
+
+      expect(registry.unregisterProvider('local')).toBe(true);
+      expect(registry.hasProvider('local')).toBe(false);
+      expect(registry.unregisterProvider('local')).toBe(false);
+    });
+  });
+
+  describe('registerDefaultLLMProviders', () => {
+    it('should register the built-in providers', () => {
+      const count = registerDefaultLLMProviders(registry);
+
+      expect(count).toBe(4);
+      expect(registry.getProvider('openai')).toBe(openAIProviderDefinition);
+      expect(registry.getProvider('anthropic')).toBe(anthropicProviderDefinition);
+      expect(registry.getProvider('local')).toBe(localProviderDefinition);
+      expect(registry.getProvider('proxy')).toBe(proxyProviderDefinition);
+    });
+
+    it('should populate the default registry', () => {
+      expect(defaultLLMProviderRegistry.hasProvider('openai')).toBe(true);
+      expect(defaultLLMProviderRegistry.hasProvider('anthropic')).toBe(true);
+      expect(defaultLLMProviderRegistry.hasProvider('local')).toBe(true);
+      expect(defaultLLMProviderRegistry.hasProvider('proxy')).toBe(true);
+    });
+  });
+
+  describe('resolveLLMConfig', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should read the provider-specific environment variables', () => {
+      process.env.VITE_ANTHROPIC_API_KEY = 'anthropic-key';
+      process.env.VITE_ANTHROPIC_MODEL = 'claude-test';
+      process.env.VITE_ANTHROPIC_BASE_URL = 'https://proxy.example.com';
+
+      const config = resolveLLMConfig('anthropic');
+
+      expect(config).toMatchObject({
+        provider: 'anthropic',
+        apiKey: 'anthropic-key',
+        model: 'claude-test',
+        baseUrl: 'https://proxy.example.com',
+      });
+    });
+
+    it('should fall back to the default model and apply overrides', () => {
+      delete process.env.VITE_OPENAI_MODEL;
+
+      const config = resolveLLMConfig('openai', { temperature: 0.8, maxTokens: 150 });
+
+      expect(config.model).toBe('gpt-4');
+      expect(config.temperature).toBe(0.8);
+      expect(config.maxTokens).toBe(150);
+    });
+
+    it('should read the context token budget', () => {
+      delete process.env.VITE_LLM_CONTEXT_TOKEN_BUDGET;
+      expect(resolveLLMConfig('openai').contextTokenBudget).toBe(DEFAULT_CONTEXT_TOKEN_BUDGET);
+
+      process.env.VITE_LLM_CONTEXT_TOKEN_BUDGET = '3000';
+      expect(resolveLLMConfig('openai').contextTokenBudget).toBe(3000);
+    });
+
+    it('should not require an API key for the local provider', () => {
+      delete process.env.VITE_LOCAL_API_KEY;
+      delete process.env.VITE_LOCAL_MODEL;
+
+      const config = resolveLLMConfig('local');
+
+      expect(localProviderDefinition.requiresApiKey).toBe(false);
+      expect(config.apiKey).toBeUndefined();
+      expect(config.model).toBe('');
+    });
+
+    it('should leave unregistered providers without a model or key', () => {
+      const config = resolveLLMConfig('local', {}, registry);
+
+      expect(config.model).toBe('');
+      expect(config.apiKey).toBeUndefined();
+    });
+  });
+});
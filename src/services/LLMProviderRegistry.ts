@@ -0,0 +1,190 @@
+/**
+ * LLMProviderRegistry - Manages registration of LLM provider adapters
+ *
+ * Each provider (OpenAI, Anthropic, local servers, ...) registers a definition describing
+ * how to build its adapter and which environment variables configure it.
+ * LLMClient looks providers up here, so adding a provider only means
+ * registering a new definition.
+ */
+
+import type { LLMConfig, LLMProvider } from '../types/config';
+import type { LLMProviderDefinition } from '../types/services';
+import { getEnv } from '../utils/env';
+import { OpenAIProvider } from './OpenAIProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+import { LocalProvider } from './LocalProvider';
+import type { ToolCallingMode } from './LocalProvider';
+import { createProxyAdapter } from './ProxyProvider';
+
+export class LLMProviderRegistry {
+  private providers: Map<LLMProvider, LLMProviderDefinition> = new Map();
+
+  /**
+   * Register a new provider definition
+   * @param definition - The provider definition to register
+   * @throws Error if a provider with the same id already exists
+   */
+  registerProvider(definition: LLMProviderDefinition): void {
+    if (this.providers.has(definition.id)) {
+      throw new Error(`LLM provider "${definition.id}" is already registered`);
+    }
+    this.providers.set(definition.id, definition);
+  }
+
+  /**
+   * Retrieve a provider definition by id
+   * @param id - The provider id
+   * @returns The provider definition or undefined if not found
+   */
+  getProvider(id: LLMProvider): LLMProviderDefinition | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Check if a provider is registered
+   * @param id - The provider id
+   * @returns True if the provider exists in the registry
+   */
+  hasProvider(id: LLMProvider): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * Unregister a provider
+   * @param id - The provider id
+   * @returns True if the provider was removed, false if it didn't exist
+   */
+  unregisterProvider(id: LLMProvider): boolean {
+    return this.providers.delete(id);
+  }
+
+  /**
+   * Get the ids of all registered providers
+   */
+  getProviderIds(): LLMProvider[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+export const openAIProviderDefinition: LLMProviderDefinition = {
+  id: 'openai',
+  label: 'OpenAI',
+  requiresApiKey: true,
+  defaultModel: 'gpt-4',
+  env: {
+    apiKey: 'VITE_OPENAI_API_KEY',
+    model: 'VITE_OPENAI_MODEL',
+    baseUrl: 'VITE_OPENAI_BASE_URL',
+  },
+  createAdapter: config => new OpenAIProvider(config),
+};
+
+export const anthropicProviderDefinition: LLMProviderDefinition = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  requiresApiKey: true,
+  defaultModel: 'claude-3-5-haiku-latest',
+  env: {
+    apiKey: 'VITE_ANTHROPIC_API_KEY',
+    model: 'VITE_ANTHROPIC_MODEL',
+    baseUrl: 'VITE_ANTHROPIC_BASE_URL',
+  },
+  createAdapter: config => new AnthropicProvider(config),
+};
+
+export const localProviderDefinition: LLMProviderDefinition = {
+  id: 'local',
+  label: 'Local',
+  requiresApiKey: false,
+  // Empty model: use the first model the server reports
+  defaultModel: '',
+  env: {
+    apiKey: 'VITE_LOCAL_API_KEY',
+    model: 'VITE_LOCAL_MODEL',
+    baseUrl: 'VITE_LOCAL_BASE_URL',
+  },
+  createAdapter: config =>
+    new LocalProvider(config, {
+      toolCallingMode: getEnv('VITE_LOCAL_TOOL_CALLING', 'auto') as ToolCallingMode,
+      streamUsage: getEnv('VITE_LOCAL_STREAM_USAGE', 'false') === 'true',
+    }),
+};
+
+export const proxyProviderDefinition: LLMProviderDefinition = {
+  id: 'proxy',
+  label: 'Proxy',
+  // The proxy server holds the OpenAI key
+  requiresApiKey: false,
+  defaultModel: 'gpt-4o-mini',
+  env: {
+    model: 'VITE_PROXY_MODEL',
+    baseUrl: 'VITE_PROXY_URL',
+  },
+  createAdapter: config => createProxyAdapter(config),
+};
+
+/**
+ * Register the built-in provider adapters with the provided registry
+ *
+ * @param registry - The LLMProviderRegistry instance to register providers with
+ * @returns The number of providers registered
+ */
+export function registerDefaultLLMProviders(registry: LLMProviderRegistry): number {
+  const definitions = [
+    openAIProviderDefinition,
+    anthropicProviderDefinition,
+    localProviderDefinition,
+    proxyProviderDefinition,
+  ];
+  definitions.forEach(definition => registry.registerProvider(definition));
+  return definitions.length;
+}
+
+/**
+ * Shared registry used by LLMClient unless another one is injected
+ */
+export const defaultLLMProviderRegistry = new LLMProviderRegistry();
+registerDefaultLLMProviders(defaultLLMProviderRegistry);
+
+/**
+ * Context token budget when VITE_LLM_CONTEXT_TOKEN_BUDGET is not set; well
+ * inside every supported model's context window
+ */
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 8000;
+
+/**
+ * Build an LLMConfig for a provider from its environment variables
+ *
+ * Reads the API key, model and base URL variables named in the provider
+ * definition, falling back to the definition's default model. Unregistered
+ * providers get an empty model and no key; LLMClient.initialize rejects them.
+ *
+ * @param provider - The provider id
+ * @param overrides - Values that take precedence over environment and defaults
+ * @param registry - Registry to resolve the provider from
+ * @returns Complete LLM configuration
+ *
+ * @example
+ * ```typescript
+ * const config = resolveLLMConfig('anthropic', { temperature: 0.8, maxTokens: 150 });
+ * llmClient.initialize(config);
+ * ```
+ */
+export function resolveLLMConfig(
+  provider: LLMProvider,
+  overrides: Partial<LLMConfig> = {},
+  registry: LLMProviderRegistry = defaultLLMProviderRegistry
+): LLMConfig {
+  const definition = registry.getProvider(provider);
+
+  return {
+    provider,
+    model: definition ? getEnv(definition.env.model, definition.defaultModel) : '',
+    apiKey: definition?.env.apiKey ? getEnv(definition.env.apiKey) || undefined : undefined,
+    baseUrl: definition ? getEnv(definition.env.baseUrl) || undefined : undefined,
+    temperature: parseFloat(getEnv('VITE_LLM_TEMPERATURE', '0.7')),
+    maxTokens: parseInt(getEnv('VITE_LLM_MAX_TOKENS', '500'), 10),
+    contextTokenBudget: parseInt(getEnv('VITE_LLM_CONTEXT_TOKEN_BUDGET', String(DEFAULT_CONTEXT_TOKEN_BUDGET)), 10),
+    ...overrides,
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Unit tests for LocalProvider
+ */
+
+import OpenAI from 'openai';
+import { LocalProvider, LOCAL_DEFAULT_BASE_URL } from './LocalProvider';
+import type { LLMConfig } from '../types/config';
+import type { Message } from '../types/message';
+import type { Tool } from '../types/services';
+
+jest.mock('openai');
+
+describe('LocalProvider', () => {
+  let mockCreate: jest.Mock;
+  let mockListModels: jest.Mock;
+
+  const config: LLMConfig = {
+    provider: 'local',
+    model: '',
+    temperature: 0.7,
+    maxTokens: 200,
+  };
+
+  const tools: Tool[] = [{
+    name: 'show_emoji',
+    description: 'Show an emoji',
+    parameters: {
+      type: 'object',
+      properties: {
+        emoji: { type: 'string', description: 'Emoji character' },
+        size: { type: 'string', enum: ['small', 'medium', 'large'], default: 'medium' },
+      },
+      required: ['emoji'],
+    },
+  }];
+
+  const messages: Message[] = [{ role: 'user', content: 'Hello', timestamp: Date.now() }];
+
+  const completion = (content: string) => ({
+    choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  });
+
+  beforeEach(() => {
+    mockCreate = jest.fn();
+    mockListModels = jest.fn().mockResolvedValue({ data: [{ id: 'llama3.2:latest' }, { id: 'qwen2.5:7b' }] });
+
+    (OpenAI as jest.MockedClass<typeof OpenAI>).mockImplementation(() => ({
+      chat: { completions: { create: mockCreate } },
+      models: { list: mockListModels },
+    }) as unknown as OpenAI);
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('startup', () => {
+    it('should work without an API key against the default local server', async () => {
+      const provider = new LocalProvider(config);
+      await provider.ready();
+
+      expect(OpenAI).toHaveBeenCalledWith({
+        apiKey: 'not-needed',
+        baseURL: LOCAL_DEFAULT_BASE_URL,
+        dangerouslyAllowBrowser: true,
+      });
+    });
+
+    it('should probe the model list and use the first model when none is configured', async () => {
+      const provider = new LocalProvider(config);
+
+      await expect(provider.ready()).resolves.toEqual(['llama3.2:latest', 'qwen2.5:7b']);
+      expect(provider.getModel()).toBe('llama3.2:latest');
+    });
+
+    it('should match a configured model by Ollama tag', async () => {
+      const provider = new LocalProvider({ ...config, model: 'qwen2.5' });
+      await provider.ready();
+
+      expect(provider.getModel()).toBe('qwen2.5:7b');
+    });
+
+    it('should fall back to an available model when the configured one is missing', async () => {
+      const provider = new LocalProvider({ ...config, model: 'mistral' });
+      await provider.ready();
+
+      expect(provider.getModel()).toBe('llama3.2:latest');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Model "mistral" not found'));
+    });
+
+    it('should keep the configured model when the probe fails', async () => {
+      mockListModels.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      const provider = new LocalProvider({ ...config, model: 'llama3.2' });
+
+      await expect(provider.ready()).resolves.toEqual([]);
+      expect(provider.getModel()).toBe('llama3.2');
+    });
+
+    it('should send requests to the probed model', async () => {
+      mockCreate.mockResolvedValue(completion('Hi!'));
+      const provider = new LocalProvider(config);
+
+      await provider.sendMessage('System', messages, []);
+
+      expect(mockCreate.mock.calls[0][0].model).toBe('llama3.2:latest');
+    });
+  });
+
+  describe('tool calling', () => {
+    it('should send native tools when the model supports them', async () => {
+      mockCreate.mockResolvedValue(completion('Hi!'));
+      const provider = new LocalProvider(config);
+
+      await provider.sendMessage('System', messages, tools);
+
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(mockCreate.mock.calls[0][0].tools).toHaveLength(1);
+      expect(provider.isUsingPromptTools()).toBe(false);
+    });
+
+    it('should fall back to prompt tools when the model rejects tool calling', async () => {
+      mockCreate
+        .mockRejectedValueOnce(new Error('400 registry.ollama.ai/library/gemma:2b does not support tools'))
+        .mockResolvedValue(completion('What a big elephant! [[show_emoji {"emoji": "🐘", "size": "large"}]]'));
+      const provider = new LocalProvider(config);
+
+      const response = await provider.sendMessage('System', messages, tools);
+
+      const fallbackRequest = mockCreate.mock.calls[1][0];
+      expect(fallbackRequest.tools).toBeUndefined();
+      expect(fallbackRequest.messages[0].content).toContain('VISUAL EFFECT TOOLS');
+      expect(fallbackRequest.messages[0].content).toContain('- show_emoji: Show an emoji');
+      expect(response.content).toBe('What a big elephant!');
+      expect(response.toolCalls).toEqual([{
+        id: 'local_call_0',
+        name: 'show_emoji',
+        arguments: { emoji: '🐘', size: 'large' },
+      }]);
+      expect(provider.isUsingPromptTools()).toBe(true);
+
+      // Later requests go straight to prompt mode
+      mockCreate.mockClear();
+      await provider.sendMessage('System', messages, tools);
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(mockCreate.mock.calls[0][0].tools).toBeUndefined();
+    });
+
+    it('should not fall back for unrelated errors', async () => {
+      mockCreate.mockRejectedValue(new Error('503 Service Unavailable'));
+      const provider = new LocalProvider(config);
+
+      await expect(provider.sendMessage('System', messages, tools)).rejects.toThrow('503');
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should always describe tools in the prompt in prompt mode', async () => {
+      mockCreate.mockResolvedValue(completion('Hi!'));
+      const provider = new LocalProvider(config, { toolCallingMode: 'prompt' });
+
+      await provider.sendMessage('System', [
+        ...messages,
+        {
+          role: 'assistant',
+          content: 'Look!',
+          timestamp: Date.now(),
+          toolCalls: [{ id: 'local_call_0', name: 'show_emoji', arguments: { emoji: '⭐' } }],
+        },
+      ], tools);
+
+      const request = mockCreate.mock.calls[0][0];
+      expect(request.tools).toBeUndefined();
+      expect(request.messages[2]).toEqual({ role: 'assistant', content: 'Look! [[show_emoji {"emoji":"⭐"}]]' });
+    });
+
+    it('should parse tool intents while streaming in prompt mode', async () => {
+      const chunks = ['Wow! [[show_', 'emoji {"emoji": "🎉"}]]', ' Tell me more.'];
+      mockCreate.mockResolvedValue({
+        [Symbol.asyncIterator]: async function* () {
+          for (const content of chunks) {
+            yield { choices: [{ delta: { content }, finish_reason: null }] };
+          }
+        },
+      });
+      const provider = new LocalProvider(config, { toolCallingMode: 'prompt' });
+
+      const contents: string[] = [];
+      let finalResponse;
+      for await (const response of provider.streamMessage('System', messages, tools)) {
+        contents.push(response.content);
+        finalResponse = response;
+      }
+
+      // The last response repeats the reply with its estimated usage
+      expect(contents).toEqual(['Wow!', 'Wow!', 'Wow! Tell me more.', 'Wow! Tell me more.']);
+      expect(finalResponse?.toolCalls).toEqual([{ id: 'local_call_0', name: 'show_emoji', arguments: { emoji: '🎉' } }]);
+    });
+  });
+
+  describe('usage', () => {
+    const stream = (chunks: object[]) => ({
+      [Symbol.asyncIterator]: async function* () {
+        yield* chunks;
+      },
+    });
+
+    it('should not ask for stream usage and estimate it instead', async () => {
+      mockCreate.mockResolvedValue(stream([
+        { choices: [{ delta: { content: 'What a big elephant!' }, finish_reason: 'stop' }] },
+      ]));
+      const provider = new LocalProvider(config);
+
+      const responses = [];
+      for await (const response of provider.streamMessage('System', messages, tools)) {
+        responses.push(response);
+      }
+
+      expect(mockCreate.mock.calls[0][0].stream_options).toBeUndefined();
+      expect(responses[0].usage).toBeUndefined();
+      expect(responses[responses.length - 1]).toMatchObject({
+        content: 'What a big elephant!',
+        usage: { model: 'llama3.2:latest', cachedTokens: 0 },
+      });
+      expect(responses[responses.length - 1].usage?.promptTokens).toBeGreaterThan(0);
+      expect(responses[responses.length - 1].usage?.completionTokens).toBeGreaterThan(0);
+    });
+
+    it('should use the usage the server reports when stream usage is enabled', async () => {
+      mockCreate.mockResolvedValue(stream([
+        { model: 'llama3.2:latest', choices: [{ delta: { content: 'Hi!' }, finish_reason: 'stop' }] },
+        { model: 'llama3.2:latest', choices: [], usage: { prompt_tokens: 42, completion_tokens: 3, total_tokens: 45 } },
+      ]));
+      const provider = new LocalProvider(config, { streamUsage: true });
+
+      const responses = [];
+      for await (const response of provider.streamMessage('System', messages, [])) {
+        responses.push(response);
+      }
+
+      expect(mockCreate.mock.calls[0][0].stream_options).toEqual({ include_usage: true });
+      expect(responses).toHaveLength(2);
+      expect(responses[1].usage).toMatchObject({ promptTokens: 42, completionTokens: 3 });
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * LocalProvider - LLM provider adapter for self-hosted OpenAI-compatible servers
+ *
+ * Targets llama.cpp, Ollama and similar servers that expose the OpenAI
+ * chat completions API. No API key is required. On creation the adapter
+ * probes the server's model list to pick (or validate) the model, and if the
+ * model rejects native tool calling it falls back to describing the tools in
+ * the system prompt and parsing tool intents out of the text reply.
+ */
+
+import type { LLMConfig } from '../types/config';
+import type { Message } from '../types/message';
+import type { AIResponse, LLMProviderAdapter, Tool } from '../types/services';
+import { OpenAIProvider } from './OpenAIProvider';
+import { extractToolIntents, formatToolsForPrompt, toPromptToolMessages } from './promptToolCalling';
+import { logError } from '../utils/errorLogger';
+
+export const LOCAL_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * How tools are offered to the local model
+ * - native: always send OpenAI `tools` (fails if the model does not support them)
+ * - prompt: always describe tools in the prompt and parse tool intents from text
+ * - auto: try native first and switch to prompt mode if the server rejects tools
+ */
+export type ToolCallingMode = 'auto' | 'native' | 'prompt';
+
+export interface LocalProviderOptions {
+  toolCallingMode?: ToolCallingMode;
+  /**
+   * Whether the server reports token usage on streams (`stream_options`),
+   * defaults to false so usage is estimated; llama.cpp and older Ollama
+   * versions reject or ignore the option
+   */
+  streamUsage?: boolean;
+}
+
+export class LocalProvider implements LLMProviderAdapter {
+  private config: LLMConfig;
+  private openAI: OpenAIProvider;
+  private toolCallingMode: ToolCallingMode;
+  private streamUsage: boolean;
+  private usePromptTools: boolean;
+  private availableModels: string[] = [];
+  private probePromise: Promise<void>;
+
+  /**
+   * @param config - LLM configuration; `apiKey` is optional and `model` may be empty
+   * @param options - Local server options such as the tool calling mode and stream usage
+   */
+  constructor(config: LLMConfig, options: LocalProviderOptions = {}) {
+    this.config = {
+      ...config,
+      // The OpenAI SDK refuses to start without a key; local servers ignore it
+      apiKey: config.apiKey || 'not-needed',
+      baseUrl: config.baseUrl || LOCAL_DEFAULT_BASE_URL,
+    };
+    this.toolCallingMode = options.toolCallingMode ?? 'auto';
+    this.usePromptTools = this.toolCallingMode === 'prompt';
+    this.streamUsage = options.streamUsage ?? false;
+    this.openAI = this.createOpenAIProvider();
+    this.probePromise = this.probeModels();
+  }
+
+  /**
+   * Wait for the startup model probe to finish
+   *
+   * @returns The model ids reported by the server (empty if the probe failed)
+   */
+  async ready(): Promise<string[]> {
+    await this.probePromise;
+    return [...this.availableModels];
+  }
+
+  /**
+   * Get the model requests are sent to
+   */
+  getModel(): string {
+    return this.config.model;
+  }
+
+  /**
+   * Whether tools are currently described in the prompt instead of sent natively
+   */
+  isUsingPromptTools(): boolean {
+    return this.usePromptTools;
+  }
+
+  async sendMessage(systemPrompt: string, messages: Message[], tools: Tool[]): Promise<AIResponse> {
+    await this.probePromise;
+
+    if (!this.usePromptTools || tools.length === 0) {
+      try {
+        return await this.openAI.sendMessage(systemPrompt, messages, tools);
+      } catch (error) {
+        if (!this.shouldFallBackToPromptTools(error, tools)) {
+          throw error;
+        }
+      }
+    }
+
+    const response = await this.openAI.sendMessage(
+      this.withToolDescriptions(systemPrompt, tools),
+      toPromptToolMessages(messages),
+      []
+    );
+    return this.toPromptToolResponse(response, tools);
+  }
+
+  async *streamMessage(
+    systemPrompt: string,
+    messages: Message[],
+    tools: Tool[],
+    signal?: AbortSignal
+  ): AsyncGenerator<AIResponse> {
+    await this.probePromise;
+
+    if (!this.usePromptTools || tools.length === 0) {
+      let yielded = false;
+      try {
+        for await (const response of this.openAI.streamMessage(systemPrompt, messages, tools, signal)) {
+          yielded = true;
+          yield response;
+        }
+        return;
+      } catch (error) {
+        // Only fall back if nothing reached the caller yet
+        if (yielded || signal?.aborted || !this.shouldFallBackToPromptTools(error, tools)) {
+          throw error;
+        }
+      }
+    }
+
+    const stream = this.openAI.streamMessage(
+      this.withToolDescriptions(systemPrompt, tools),
+      toPromptToolMessages(messages),
+      [],
+      signal
+    );
+    for await (const response of stream) {
+      yield this.toPromptToolResponse(response, tools);
+    }
+  }
+
+  /**
+   * Probe the server's model list and settle on the model to use
+   *
+   * An empty configured model selects the first model the server reports.
+   * A configured model matches exactly or by Ollama tag (`llama3.2` matches
+   * `llama3.2:latest`). Probe failures are logged and the configured model
+   * is used as-is.
+   */
+  private async probeModels(): Promise<void> {
+    try {
+      this.availableModels = await this.openAI.listModels();
+    } catch (error) {
+      logError(
+        'ai_service_error',
+        `Could not list models from local LLM server at ${this.config.baseUrl}`,
+        { component: 'LocalProvider', action: 'probeModels' },
+        error
+      );
+      return;
+    }
+
+    if (this.availableModels.length === 0) {
+      logError('ai_service_error', 'Local LLM server reported no models', {
+        component: 'LocalProvider',
+        action: 'probeModels',
+        additionalData: { baseUrl: this.config.baseUrl },
+      });
+      return;
+    }
+
+    const requested = this.config.model;
+    const match = requested
+      ? this.availableModels.find(id => id === requested || id.startsWith(`${requested}:`))
+      : undefined;
+    const model = match ?? this.availableModels[0];
+
+    if (requested && !match) {
+      console.warn(
+        `[LocalProvider] Model "${requested}" not found on server, using "${model}". Available: ${this.availableModels.join(', ')}`
+      );
+    }
+
+    if (model !== this.config.model) {
+      this.config = { ...this.config, model };
+      this.openAI = this.createOpenAIProvider();
+    }
+  }
+
+  private createOpenAIProvider(): OpenAIProvider {
+    return new OpenAIProvider(this.config, { supportsStreamUsage: this.streamUsage });
+  }
+
+  /**
+   * Decide whether a failed native request should be retried with prompt tools
+   */
+  private shouldFallBackToPromptTools(error: unknown, tools: Tool[]): boolean {
+    if (this.toolCallingMode !== 'auto' || tools.length === 0) {
+      return false;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const rejectsTools = /tool/i.test(message) && /(not support|unsupported|requires|jinja|invalid)/i.test(message);
+    if (rejectsTools) {
+      console.warn(`[LocalProvider] Model "${this.config.model}" does not support tool calling, describing tools in the prompt instead`);
+      this.usePromptTools = true;
+    }
+    return rejectsTools;
+  }
+
+  private withToolDescriptions(systemPrompt: string, tools: Tool[]): string {
+    const toolSection = formatToolsForPrompt(tools);
+    return systemPrompt ? `${systemPrompt}\n\n${toolSection}` : toolSection;
+  }
+
+  private toPromptToolResponse(response: AIResponse, tools: Tool[]): AIResponse {
+    const { content, toolCalls } = extractToolIntents(response.content, tools, 'local_call');
+    return { content, toolCalls, finishReason: response.finishReason, usage: response.usage };
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * OpenAIProvider - LLM provider adapter for the OpenAI Chat Completions API
+ *
+ * Wraps the `openai` SDK and translates between the application's
+ * Message/Tool/ToolCall types and the OpenAI chat completion format.
+ */
+
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import type { LLMConfig } from '../types/config';
+import type { Message, ToolCall } from '../types/message';
+import type { AIResponse, LLMProviderAdapter, TokenUsage, Tool } from '../types/services';
+import { estimateMessageTokens, estimateTokens, estimateToolTokens } from '../utils/tokenEstimator';
+
+export interface OpenAIProviderOptions {
+  /** Headers sent with every request, e.g. the device id for the proxy server */
+  defaultHeaders?: Record<string, string>;
+  /** HTTP implementation, defaults to the global fetch */
+  fetch?: typeof fetch;
+  /**
+   * Whether the server accepts `stream_options` to report usage on streams,
+   * defaults to true; without it usage is estimated from the text
+   */
+  supportsStreamUsage?: boolean;
+}
+
+export class OpenAIProvider implements LLMProviderAdapter {
+  private client: OpenAI;
+  private config: LLMConfig;
+  private supportsStreamUsage: boolean;
+
+  /**
+   * @param config - LLM configuration (model, API key, optional base URL, sampling)
+   * @param options - Extra request headers, HTTP implementation and stream usage support
+   */
+  constructor(config: LLMConfig, options: OpenAIProviderOptions = {}) {
+    this.config = config;
+    this.supportsStreamUsage = options.supportsStreamUsage ?? true;
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl,
+      defaultHeaders: options.defaultHeaders,
+      fetch: options.fetch,
+      dangerouslyAllowBrowser: true,
+    });
+  }
+
+  /**
+   * List the ids of the models the server offers
+   *
+   * @returns Model ids from the `/models` endpoint
+   */
+  async listModels(): Promise<string[]> {
+    const page = await this.client.models.list();
+    return page.data.map(model => model.id);
+  }
+
+  /**
+   * Send messages and return the complete response
+   *
+   * @param systemPrompt - System prompt prepended as the first message
+   * @param messages - Conversation messages in internal format
+   * @param tools - Available tools for function calling
+   * @returns Parsed AI response in internal format
+   */
+  async sendMessage(systemPrompt: string, messages: Message[], tools: Tool[]): Promise<AIResponse> {
+    const completion = await this.client.chat.completions.create({
+      model: this.config.model,
+      messages: convertToOpenAIMessages(systemPrompt, messages),
+      tools: getOpenAIToolsParam(tools),
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokens,
+    });
+
+    return parseOpenAIResponse(completion);
+  }
+
+  /**
+   * Stream a response, yielding accumulated content and tool calls
+   *
+   * Usage is requested with the stream and arrives in a final chunk without
+   * choices, after the finish reason; only the last response carries it.
+   * Servers that don't support that get an extra last response with usage
+   * estimated from the request and reply text.
+   *
+   * @param systemPrompt - System prompt prepended as the first message
+   * @param messages - Conversation messages in internal format
+   * @param tools - Available tools for function calling
+   * @param signal - Aborts the request and ends the stream
+   * @yields AIResponse objects with incrementally accumulated content and tool calls
+   */
+  async *streamMessage(
+    systemPrompt: string,
+    messages: Message[],
+    tools: Tool[],
+    signal?: AbortSignal
+  ): AsyncGenerator<AIResponse> {
+    const stream = await this.client.chat.completions.create({
+      model: this.config.model,
+      messages: convertToOpenAIMessages(systemPrompt, messages),
+      tools: getOpenAIToolsParam(tools),
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokens,
+      stream: true,
+      ...(this.supportsStreamUsage ? { stream_options: { include_usage: true } } : {}),
+    }, { signal });
+
+    let accumulatedContent = '';
+    const accumulatedToolCalls: Array<{ id: string; name: string; argumentsStr: string }> = [];
+    let finishReason: 'stop' | 'length' | 'tool_calls' = 'stop';
+    let usage: TokenUsage | undefined;
+    let parsedToolCalls: ToolCall[] = [];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+
+      if (delta?.content) {
+        accumulatedContent += delta.content;
+      }
+
+      if (delta?.tool_calls) {
+        // Accumulate tool calls
+        for (const toolCall of delta.tool_calls) {
+          const index = toolCall.index;
+          if (!accumulatedToolCalls[index]) {
+            accumulatedToolCalls[index] = {
+              id: toolCall.id || '',
+              name: toolCall.function?.name || '',
+              argumentsStr: '',
+            };
+          }
+
+          if (toolCall.id) {
+            accumulatedToolCalls[index].id = toolCall.id;
+          }
+
+          if (toolCall.function?.name) {
+            accumulatedToolCalls[index].name = toolCall.function.name;
+          }
+
+          if (toolCall.function?.arguments) {
+            accumulatedToolCalls[index].argumentsStr += toolCall.function.arguments;
+          }
+        }
+      }
+
+      if (chunk.choices[0]?.finish_reason) {
+        const reason = chunk.choices[0].finish_reason;
+        if (reason === 'stop' || reason === 'length' || reason === 'tool_calls') {
+          finishReason = reason;
+        }
+      }
+
+      if (chunk.usage) {
+        usage = parseOpenAIUsage(chunk.usage, chunk.model);
+      }
+
+      // Parse tool calls for yielding
+      parsedToolCalls = accumulatedToolCalls
+        .filter(tc => tc.id)
+        .map(tc => {
+          let args = {};
+          if (tc.argumentsStr) {
+            try {
+              args = JSON.parse(tc.argumentsStr);
+            } catch {
+              // Still accumulating, not valid JSON yet
+            }
+          }
+          return {
+            id: tc.id,
+            name: tc.name,
+            arguments: args,
+          };
+        });
+
+      // Yield current state
+      yield {
+        content: accumulatedContent,
+        toolCalls: parsedToolCalls,
+        finishReason,
+        usage,
+      };
+    }
+
+    if (!this.supportsStreamUsage && !signal?.aborted) {
+      const reply: Message = {
+        role: 'assistant',
+        content: accumulatedContent,
+        timestamp: Date.now(),
+        toolCalls: parsedToolCalls,
+      };
+      yield {
+        content: accumulatedContent,
+        toolCalls: parsedToolCalls,
+        finishReason,
+        usage: {
+          model: this.config.model,
+          promptTokens:
+            estimateTokens(systemPrompt) +
+            messages.reduce((total, message) => total + estimateMessageTokens(message), 0) +
+            estimateToolTokens(tools),
+          completionTokens: estimateMessageTokens(reply),
+          cachedTokens: 0,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Convert internal Message format to OpenAI format
+ *
+ * Transforms the application's message format into the format expected
+ * by the OpenAI API. Adds the system prompt and handles tool calls and
+ * tool results.
+ *
+ * @param systemPrompt - System prompt to send first (skipped when empty)
+ * @param messages - Array of internal messages
+ * @returns Array of OpenAI-formatted messages
+ */
+export function convertToOpenAIMessages(systemPrompt: string, messages: Message[]): ChatCompletionMessageParam[] {
+  const openAIMessages: ChatCompletionMessageParam[] = [];
+
+  // Add system prompt first
+  if (systemPrompt) {
+    openAIMessages.push({
+      role: 'system',
+      content: systemPrompt,
+    });
+  }
+
+  // Convert messages
+  for (const message of messages) {
+    if (message.role === 'system') {
+      // Skip system messages as we already added our system prompt
+      continue;
+    }
+
+    if (message.role === 'user') {
+      openAIMessages.push({
+        role: 'user',
+        content: message.images?.length
+          ? [
+              { type: 'text' as const, text: message.content },
+              ...message.images.map(url => ({ type: 'image_url' as const, image_url: { url } })),
+            ]
+          : message.content,
+      });
+    } else if (message.role === 'assistant') {
+      if (message.toolCalls && message.toolCalls.length > 0) {
+        openAIMessages.push({
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(tc => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: {
+              name: tc.name,
+              arguments: JSON.stringify(tc.arguments),
+            },
+          })),
+        });
+      } else {
+        openAIMessages.push({
+          role: 'assistant',
+          content: message.content,
+        });
+      }
+    } else if (message.role === 'tool' && message.toolCallId) {
+      openAIMessages.push({
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      });
+    }
+  }
+
+  return openAIMessages;
+}
+
+/**
+ * Convert internal Tool format to OpenAI format
+ *
+ * Transforms the application's tool definitions into the format expected
+ * by the OpenAI function calling API.
+ *
+ * @param tools - Array of internal tool definitions
+ * @returns Array of OpenAI-formatted tool definitions
+ */
+export function convertToOpenAITools(tools: Tool[]): ChatCompletionTool[] {
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as Record<string, unknown>,
+    },
+  }));
+}
+
+/**
+ * Parse OpenAI response to internal format
+ *
+ * Transforms the OpenAI API response into the application's internal
+ * AIResponse format, extracting content, tool calls, finish reason and
+ * token usage.
+ *
+ * @param completion - OpenAI chat completion response
+ * @returns Parsed AI response in internal format
+ */
+export function parseOpenAIResponse(completion: OpenAI.Chat.Completions.ChatCompletion): AIResponse {
+  const choice = completion.choices[0];
+  const message = choice.message;
+
+  const toolCalls: ToolCall[] = [];
+  if (message.tool_calls) {
+    for (const toolCall of message.tool_calls) {
+      if (toolCall.type === 'function') {
+        toolCalls.push({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: JSON.parse(toolCall.function.arguments),
+        });
+      }
+    }
+  }
+
+  let finishReason: 'stop' | 'length' | 'tool_calls' = 'stop';
+  if (choice.finish_reason === 'length') {
+    finishReason = 'length';
+  } else if (choice.finish_reason === 'tool_calls') {
+    finishReason = 'tool_calls';
+  }
+
+  return {
+    content: message.content || '',
+    toolCalls,
+    finishReason,
+    usage: completion.usage ? parseOpenAIUsage(completion.usage, completion.model) : undefined,
+  };
+}
+
+/**
+ * Convert OpenAI token usage to internal format
+ *
+ * @param usage - Usage reported with a completion or the last stream chunk
+ * @param model - Model that answered
+ */
+function parseOpenAIUsage(usage: OpenAI.Completions.CompletionUsage, model: string): TokenUsage {
+  return {
+    model,
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+  };
+}
+
+/**
+ * Get the OpenAI `tools` request parameter, omitted when no tools are available
+ */
+function getOpenAIToolsParam(tools: Tool[]): ChatCompletionTool[] | undefined {
+  const openAITools = convertToOpenAITools(tools);
+  return openAITools.length > 0 ? openAITools : undefined;
+}
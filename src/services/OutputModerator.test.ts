@@ -0,0 +1,116 @@
+/**
+ * Tests for OutputModerator
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { OutputModerator, createSafeRedirect } from './OutputModerator';
+import type { ImageContext } from '../types/image';
+import type { ImageMetadataCollection } from '../types/imageMetadata';
+
+const bundledImages = (
+  JSON.parse(
+    readFileSync(join(__dirname, '..', '..', 'public', 'images', 'metadata.json'), 'utf-8')
+  ) as ImageMetadataCollection
+).images;
+
+describe('OutputModerator', () => {
+  const moderator = new OutputModerator();
+
+  it('should pass ordinary picture talk', async () => {
+    await expect(moderator.check('The elephant is eating bamboo shoots near the seaweed.')).resolves.toEqual({
+      flagged: false,
+    });
+    await expect(moderator.check('A killer whale swims in the sea. Can you count its fins?')).resolves.toEqual({
+      flagged: false,
+    });
+  });
+
+  it.each([
+    'The gardener is pulling a weed out of the flower bed.',
+    'Look at the smoking chimney on the little train!',
+    'The frost killed the leaves, but new ones will grow in spring.',
+    'Which school bus is yellow? What school things can you find?',
+  ])('should not flag everyday words in %j', async text => {
+    await expect(moderator.check(text)).resolves.toEqual({ flagged: false });
+  });
+
+  it.each(bundledImages.map(image => [image.id, image] as const))(
+    'should pass the bundled description of %s',
+    async (_id, image) => {
+      const texts = [image.title, image.description, ...image.conversationTopics, ...image.detectedObjects];
+
+      for (const text of texts) {
+        await expect(moderator.check(text)).resolves.toEqual({ flagged: false });
+      }
+    }
+  );
+
+  it.each([
+    ['The hunter had a gun.', 'violence', 'gun'],
+    ["Don't tell your parents about this.", 'secrecy', "don't tell your parents"],
+    ['What school do you go to?', 'personal_info', 'what school do you go to'],
+    ["Let's smoke weed.", 'drugs', 'smoke weed'],
+    ['That is a STUPID question.', 'insults', 'stupid'],
+  ])('should flag %j', async (text, category, matched) => {
+    await expect(moderator.check(text)).resolves.toEqual({ flagged: true, category, matched });
+  });
+
+  it('should match phrases across curly apostrophes and extra spaces', async () => {
+    const result = await moderator.check('Don’t tell   your parents!');
+
+    expect(result).toMatchObject({ flagged: true, category: 'secrecy' });
+  });
+
+  it('should block extra configured terms', async () => {
+    const custom = new OutputModerator({ blocklist: [' Scary Clown ', ''] });
+
+    await expect(custom.check('Look, a scary clown!')).resolves.toEqual({
+      flagged: true,
+      category: 'custom',
+      matched: 'scary clown',
+    });
+  });
+
+  it('should run classifiers after the blocklist', async () => {
+    const classifier = jest.fn().mockResolvedValue({ flagged: true, category: 'scary', matched: 'monster' });
+    const withClassifier = new OutputModerator({ classifiers: [classifier] });
+
+    await expect(withClassifier.check('A monster lives under the bed.')).resolves.toEqual({
+      flagged: true,
+      category: 'scary',
+      matched: 'monster',
+    });
+    expect(classifier).toHaveBeenCalledWith('A monster lives under the bed.');
+  });
+
+  it('should flag text when a classifier fails', async () => {
+    const withClassifier = new OutputModerator({
+      classifiers: [() => { throw new Error('Moderation API unavailable'); }],
+    });
+
+    await expect(withClassifier.check('Hello!')).resolves.toEqual({
+      flagged: true,
+      category: 'classifier_error',
+      matched: 'Moderation API unavailable',
+    });
+  });
+});
+
+describe('createSafeRedirect', () => {
+  it('should point at something in the picture', () => {
+    const imageContext: ImageContext = {
+      url: 'elephant.svg',
+      description: 'An elephant',
+      detectedObjects: ['trunk'],
+    };
+
+    expect(createSafeRedirect(imageContext)).toBe(
+      "Let's look back at the picture! Can you find the trunk? What do you notice about it?"
+    );
+  });
+
+  it('should fall back to a general line without image context', () => {
+    expect(createSafeRedirect(null)).toBe("Let's look at the picture together again. What can you see?");
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * OutputModerator - Child-safety check on what the AI is about to say
+ *
+ * Every reply is checked against a blocklist of terms and phrases (violence,
+ * adult content, drugs and alcohol, self-harm, swearing, requests for
+ * personal information or secrecy), then against any extra classifiers.
+ * Flagged replies are replaced by a safe line that steers the child back to
+ * the picture.
+ */
+
+import type { ImageContext } from '../types/image';
+
+/**
+ * Verdict on a piece of text
+ */
+export interface ModerationResult {
+  flagged: boolean;
+  /** Kind of content that was found, e.g. 'violence' */
+  category?: string;
+  /** The term or reason that triggered the flag */
+  matched?: string;
+}
+
+/**
+ * Extra check run after the blocklist, e.g. a call to a moderation API
+ */
+export type ModerationClassifier = (text: string) => ModerationResult | Promise<ModerationResult>;
+
+export interface OutputModeratorOptions {
+  /** Extra terms to block, in the 'custom' category */
+  blocklist?: string[];
+  classifiers?: ModerationClassifier[];
+}
+
+/**
+ * Terms that are never spoken to a child, by category. Matched as whole
+ * words, ignoring case. Kept specific enough not to catch picture talk such
+ * as "killer whale", "pulling a weed", "a smoking chimney" or "which school
+ * bus is yellow?", so the bundled picture descriptions always pass.
+ */
+export const DEFAULT_BLOCKLIST: Record<string, string[]> = {
+  violence: ['kill you', 'murder', 'gun', 'guns', 'knife', 'stab', 'blood', 'bloody', 'weapon', 'weapons', 'torture'],
+  adult: ['sex', 'sexy', 'naked', 'nude', 'porn', 'kiss me'],
+  drugs: ['drugs', 'cocaine', 'smoke weed', 'beer', 'wine', 'vodka', 'drunk', 'cigarette', 'cigarettes', 'vape'],
+  self_harm: ['suicide', 'kill yourself', 'hurt yourself', 'self-harm'],
+  profanity: ['fuck', 'shit', 'bitch', 'bastard', 'damn', 'crap'],
+  insults: ['stupid', 'idiot', 'dumb', 'shut up', 'ugly'],
+  personal_info: [
+    'your address', 'where do you live', 'your phone number', 'what school do you go to',
+    'which school do you go to', 'name of your school', 'your last name', 'your full name',
+    'send me a photo', 'send me a picture',
+  ],
+  secrecy: ['keep this a secret', 'our secret', "don't tell your parents", 'do not tell your parents'],
+};
+
+export class OutputModerator {
+  private terms: Array<{ category: string; term: string; pattern: RegExp }>;
+  private classifiers: ModerationClassifier[];
+
+  /**
+   * @param options - Extra blocklist terms and classifiers
+   */
+  constructor(options: OutputModeratorOptions = {}) {
+    const entries = [
+      ...Object.entries(DEFAULT_BLOCKLIST),
+      ['custom', options.blocklist ?? []] as [string, string[]],
+    ];
+    this.terms = entries.flatMap(([category, terms]) =>
+      terms
+        .map(term => term.trim().toLowerCase())
+        .filter(term => term.length > 0)
+        .map(term => ({ category, term, pattern: termPattern(term) }))
+    );
+    this.classifiers = options.classifiers ?? [];
+  }
+
+  /**
+   * Check a reply before it is spoken
+   *
+   * A classifier that fails counts as flagging the text, so nothing unchecked is spoken.
+   *
+   * @param text - Reply or sentence from the AI
+   * @returns Whether the text was flagged, and why
+   *
+   * @example
+   * ```typescript
+   * const result = await moderator.check('Elephants eat grass and leaves.');
+   * // { flagged: false }
+   * ```
+   */
+  async check(text: string): Promise<ModerationResult> {
+    const normalized = text.toLowerCase().replace(/[’‘]/g, "'");
+    const hit = this.terms.find(({ pattern }) => pattern.test(normalized));
+    if (hit) {
+      return { flagged: true, category: hit.category, matched: hit.term };
+    }
+
+    for (const classify of this.classifiers) {
+      try {
+        const result = await classify(text);
+        if (result.flagged) {
+          return result;
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return { flagged: true, category: 'classifier_error', matched: reason };
+      }
+    }
+
+    return { flagged: false };
+  }
+}
+
+/**
+ * Safe line spoken instead of a flagged reply, pointing back at the picture
+ *
+ * @param imageContext - Picture being talked about; its objects give the redirect something to point at
+ */
+export function createSafeRedirect(imageContext?: ImageContext | null): string {
+  const objects = imageContext?.detectedObjects ?? [];
+  if (objects.length === 0) {
+    return "Let's look at the picture together again. What can you see?";
+  }
+  const object = objects[Math.floor(Math.random() * objects.length)];
+  return `Let's look back at the picture! Can you find the ${object}? What do you notice about it?`;
+}
+
+/**
+ * Whole-word pattern for a term; spaces match any run of whitespace
+ */
+function termPattern(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'u');
+}
@@ -0,0 +1,57 @@
+/**
+ * Tests for ParentAlertChannel
+ */
+
+import { createParentAlertChannel } from './ParentAlertChannel';
+import type { ParentAlert } from './ParentAlertChannel';
+
+describe('createParentAlertChannel', () => {
+  const alert = (sessionId: string, timestamp: number): ParentAlert => ({
+    sessionId,
+    timestamp,
+    category: 'harm',
+    matched: 'hits me',
+    text: 'He hits me',
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep alerts across page loads', () => {
+    createParentAlertChannel(localStorage).notify(alert('s1', 1));
+
+    expect(createParentAlertChannel(localStorage).getAlerts()).toEqual([alert('s1', 1)]);
+  });
+
+  it('should list the alerts of one session', () => {
+    const channel = createParentAlertChannel(localStorage);
+    channel.notify(alert('s1', 1));
+    channel.notify(alert('s2', 2));
+
+    expect(channel.getAlerts('s2')).toEqual([alert('s2', 2)]);
+  });
+
+  it('should tell listeners about new alerts until they unsubscribe', () => {
+    const channel = createParentAlertChannel(localStorage);
+    const listener = jest.fn();
+    const unsubscribe = channel.subscribe(listener);
+
+    channel.notify(alert('s1', 1));
+    unsubscribe();
+    channel.notify(alert('s1', 2));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(alert('s1', 1));
+  });
+
+  it('should work without storage and ignore unreadable saved alerts', () => {
+    localStorage.setItem('parentAlerts', 'not json');
+    expect(createParentAlertChannel(localStorage).getAlerts()).toEqual([]);
+
+    const channel = createParentAlertChannel(undefined);
+    channel.notify(alert('s1', 1));
+    channel.clear();
+    expect(channel.getAlerts()).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * ParentAlertChannel - Safeguarding alerts delivered to a parent
+ *
+ * When the child says something worrying, the conversation carries on and
+ * an alert is sent here instead. Alerts quote the child, so they are never
+ * shown in the child's view: they reach a parent through the listeners,
+ * e.g. a notification or a parent-only page. They are kept in memory for
+ * this page load unless a storage the parent controls is given.
+ */
+
+import type { SafeguardingFlag } from './InputScreener';
+
+export interface ParentAlert extends SafeguardingFlag {
+  sessionId: string;
+  childProfileId?: string;
+  timestamp: number;
+  /** What the child said, with personal details removed */
+  text: string;
+}
+
+export interface ParentAlertChannel {
+  /** Record an alert and tell listeners about it */
+  notify(alert: ParentAlert): void;
+  /** Alerts so far, oldest first; only those for the session when one is given */
+  getAlerts(sessionId?: string): ParentAlert[];
+  /** Listen for new alerts; returns a function that stops listening */
+  subscribe(listener: (alert: ParentAlert) => void): () => void;
+  /** Forget all alerts, e.g. once a parent has read them */
+  clear(): void;
+}
+
+const PARENT_ALERTS_STORAGE_KEY = 'parentAlerts';
+
+/**
+ * Alerts kept at most; the oldest are dropped first
+ */
+const MAX_ALERTS = 200;
+
+/**
+ * Create an alert channel
+ *
+ * @param storage - Where alerts are kept across page loads; without it they
+ *   last for this page load
+ *
+ * @example
+ * ```typescript
+ * const alerts = createParentAlertChannel();
+ * alerts.subscribe(alert => console.warn('Check in with your child:', alert.text));
+ * ```
+ */
+export function createParentAlertChannel(storage?: Storage): ParentAlertChannel {
+  const listeners = new Set<(alert: ParentAlert) => void>();
+  let alerts = load(storage);
+
+  return {
+    notify(alert) {
+      alerts = [...alerts, alert].slice(-MAX_ALERTS);
+      save(storage, alerts);
+      listeners.forEach(listener => listener(alert));
+    },
+
+    getAlerts(sessionId) {
+      return alerts.filter(alert => sessionId === undefined || alert.sessionId === sessionId);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    clear() {
+      alerts = [];
+      save(storage, alerts);
+    },
+  };
+}
+
+function load(storage: Storage | undefined): ParentAlert[] {
+  try {
+    const saved = JSON.parse(storage?.getItem(PARENT_ALERTS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(storage: Storage | undefined, alerts: ParentAlert[]): void {
+  try {
+    storage?.setItem(PARENT_ALERTS_STORAGE_KEY, JSON.stringify(alerts));
+  } catch {
+    // Storage may be full or disabled; alerts then last for this page load
+  }
+}
@@ -60,6 +60,20 @@ describe('PromptManager', () => {
       expect(prompt).toContain('insects');
     });
 
+    it('should list named regions the tools can point at', () => {
+      const prompt = promptManager.generateSystemPrompt({
+        ...sampleImageContext,
+        regions: {
+          flowers: { box: { x: 30, y: 130, width: 100, height: 38 } },
+          butterflies: { svgElementId: 'butterflies' },
+        },
+      });
+
+      expect(prompt).toContain('Named regions');
+      expect(prompt).toContain('flowers, butterflies');
+      expect(prompt).toContain('highlight_image_area or zoom_image');
+    });
+
     it('should handle minimal image context', () => {
       const minimalContext: ImageContext = {
         url: 'https://example.com/simple.jpg',
@@ -9,10 +9,11 @@
 
 import type { ImageContext } from '../types/image';
 import type { SessionStatus } from '../types/session';
+import type { ConversationStyle } from '../types/config';
 
 export interface PromptOptions {
   childAge?: number;
-  conversationStyle?: 'educational' | 'playful' | 'exploratory';
+  conversationStyle?: ConversationStyle;
 }
 
 export class PromptManager {
@@ -189,6 +190,11 @@ Remember: Make learning fun and help the child explore their curiosity!`;
       parts.push(`Suggested discussion topics: ${imageContext.suggestedTopics.join(', ')}`);
     }
 
+    const regionNames = Object.keys(imageContext.regions ?? {});
+    if (regionNames.length > 0) {
+      parts.push(`Named regions (pass one as "object" to highlight_image_area or zoom_image to point at it): ${regionNames.join(', ')}`);
+    }
+
     return parts.join('\n');
   }
 
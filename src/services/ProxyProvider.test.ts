@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for ProxyProvider
+ */
+
+import { DEVICE_ID_HEADER, createProxyAdapter, getDeviceId } from './ProxyProvider';
+import type { LLMConfig } from '../types/config';
+
+describe('ProxyProvider', () => {
+  const config: LLMConfig = {
+    provider: 'proxy',
+    model: 'gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 150,
+  };
+
+  const memoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+      getItem: key => items.get(key) ?? null,
+      setItem: (key, value) => void items.set(key, value),
+      removeItem: key => void items.delete(key),
+      clear: () => items.clear(),
+      key: index => Array.from(items.keys())[index] ?? null,
+      get length() {
+        return items.size;
+      },
+    };
+  };
+
+  describe('createProxyAdapter', () => {
+    it('should send chat completions to the proxy with the device id and no API key', async () => {
+      const fetchImpl = jest.fn().mockImplementation(async () => Response.json({
+        id: 'chatcmpl-1',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!' }, finish_reason: 'stop' }],
+      }));
+      const adapter = createProxyAdapter(
+        { ...config, baseUrl: 'https://proxy.example/v1' },
+        { deviceId: 'tablet-1', fetch: fetchImpl }
+      );
+
+      const response = await adapter.sendMessage('Be kind', [{ role: 'user', content: 'Hi', timestamp: 1 }], []);
+
+      expect(response.content).toBe('Hello!');
+      const [url, init] = fetchImpl.mock.calls[0];
+      expect(String(url)).toBe('https://proxy.example/v1/chat/completions');
+      const headers = new Headers(init.headers);
+      expect(headers.get(DEVICE_ID_HEADER)).toBe('tablet-1');
+      expect(headers.get('authorization')).toBe('Bearer proxy');
+    });
+  });
+
+  describe('getDeviceId', () => {
+    it('should create a device id once and then reuse it', () => {
+      const storage = memoryStorage();
+
+      const deviceId = getDeviceId(storage);
+
+      expect(deviceId).toMatch(/^device_/);
+      expect(getDeviceId(storage)).toBe(deviceId);
+    });
+
+    it('should still return an id without storage', () => {
+      expect(getDeviceId(undefined)).toMatch(/^device_/);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * ProxyProvider - LLM provider adapter for the app's proxy server
+ *
+ * The proxy server (see `server/`) holds the OpenAI API key and exposes the
+ * OpenAI chat completions API, so the browser talks to it with the OpenAI SDK
+ * and no key. Each request carries a device id, which the server uses for
+ * rate limiting.
+ */
+
+import type { LLMConfig } from '../types/config';
+import { OpenAIProvider } from './OpenAIProvider';
+import type { OpenAIProviderOptions } from './OpenAIProvider';
+
+export const PROXY_DEFAULT_BASE_URL = 'http://localhost:8787/v1';
+
+/**
+ * Header identifying the device to the proxy server
+ */
+export const DEVICE_ID_HEADER = 'X-Device-Id';
+
+const DEVICE_ID_STORAGE_KEY = 'deviceId';
+
+/**
+ * Create an adapter that sends chat completions through the proxy server
+ *
+ * @param config - LLM configuration; `baseUrl` is the proxy's URL and `apiKey` is not needed
+ * @param options - Device id and HTTP implementation; the device id defaults to this browser's
+ */
+export function createProxyAdapter(
+  config: LLMConfig,
+  options: { deviceId?: string; fetch?: OpenAIProviderOptions['fetch'] } = {}
+): OpenAIProvider {
+  return new OpenAIProvider(
+    {
+      ...config,
+      // The OpenAI SDK refuses to start without a key; the proxy adds the real one
+      apiKey: 'proxy',
+      baseUrl: config.baseUrl || PROXY_DEFAULT_BASE_URL,
+    },
+    {
+      defaultHeaders: { [DEVICE_ID_HEADER]: options.deviceId ?? getDeviceId() },
+      fetch: options.fetch,
+    }
+  );
+}
+
+/**
+ * Get this browser's device id, creating and remembering one on first use
+ *
+ * @param storage - Where the id is kept, defaults to localStorage
+ */
+export function getDeviceId(storage: Storage | undefined = globalThis.localStorage): string {
+  const saved = storage?.getItem(DEVICE_ID_STORAGE_KEY);
+  if (saved) {
+    return saved;
+  }
+
+  const deviceId = `device_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 11)}`;
+  try {
+    storage?.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  } catch {
+    // Storage may be full or disabled; the id then lasts for this page load
+  }
+  return deviceId;
+}
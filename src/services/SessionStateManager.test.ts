@@ -46,6 +46,99 @@ describe('SessionStateManager', () => {
       });
     });
 
+    describe('restoreSession', () => {
+      it('should continue from the saved elapsed time', () => {
+        const saved = {
+          sessionId: 'session_saved',
+          status: 'active' as const,
+          // Saved an hour ago, 20 seconds into the conversation
+          startTime: Date.now() - 3600000,
+          elapsedMs: 20000,
+          targetDurationMs: 60000,
+          messageCount: 4,
+          toolCallCount: 1,
+          imageContext: 'https://example.com/image.jpg',
+        };
+
+        const state = manager.restoreSession(saved);
+        manager.updateElapsedTime();
+
+        expect(state).toEqual({ ...saved, usage: expect.objectContaining({ requests: 0, costUsd: 0 }) });
+        expect(manager.getState().elapsedMs).toBeGreaterThanOrEqual(20000);
+        expect(manager.getState().elapsedMs).toBeLessThan(21000);
+        expect(manager.getTimeRemaining()).toBeGreaterThan(39000);
+      });
+    });
+
+    describe('recordUsage', () => {
+      it('should add up tokens and cost and list models without a price', () => {
+        manager.createSession('https://example.com/image.jpg');
+        const before = manager.getState();
+
+        manager.recordUsage({ model: 'gpt-4o-mini', promptTokens: 1000, completionTokens: 50, cachedTokens: 200 }, 0.0002);
+        manager.recordUsage({ model: 'my-local-model', promptTokens: 500, completionTokens: 20, cachedTokens: 0 }, null);
+        manager.recordUsage({ model: 'my-local-model', promptTokens: 500, completionTokens: 30, cachedTokens: 0 }, null);
+
+        expect(manager.getState().usage).toEqual({
+          requests: 3,
+          promptTokens: 2000,
+          completionTokens: 100,
+          cachedTokens: 200,
+          costUsd: 0.0002,
+          unpricedModels: ['my-local-model'],
+        });
+        expect(before.usage.requests).toBe(0);
+      });
+    });
+
+    describe('pause and resume', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should stop the clock while paused', () => {
+        manager.createSession('https://example.com/image.jpg');
+        manager.setStatus('active');
+        jest.advanceTimersByTime(10000);
+
+        manager.pause();
+        expect(manager.getState().status).toBe('paused');
+        jest.advanceTimersByTime(30000);
+        expect(manager.getState().elapsedMs).toBe(10000);
+
+        manager.resume();
+        jest.advanceTimersByTime(5000);
+        expect(manager.getState().status).toBe('active');
+        expect(manager.getState().elapsedMs).toBe(15000);
+        expect(manager.getTimeRemaining()).toBe(45000);
+      });
+
+      it('should return to wrapping up after a pause', () => {
+        manager.createSession('https://example.com/image.jpg');
+        manager.setStatus('wrapping_up');
+
+        manager.pause();
+        manager.resume();
+
+        expect(manager.getState().status).toBe('wrapping_up');
+      });
+
+      it('should only pause running sessions', () => {
+        manager.createSession('https://example.com/image.jpg');
+        manager.pause();
+        expect(manager.getState().status).toBe('initializing');
+
+        manager.completeSession();
+        manager.pause();
+        manager.resume();
+        expect(manager.getState().status).toBe('completed');
+      });
+    });
+
     describe('updateElapsedTime', () => {
       it('should update elapsed time', async () => {
         manager.createSession('https://example.com/image.jpg');
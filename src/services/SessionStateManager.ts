@@ -2,12 +2,15 @@
  * SessionStateManager
  * 
  * Manages conversation session state including timing, status transitions,
- * and tracking of messages and tool calls.
+ * and tracking of messages, tool calls and token usage.
  * 
  * Validates Requirements: 5.1, 5.2, 5.3, 5.4
  */
 
-export type SessionStatus = 'idle' | 'initializing' | 'active' | 'wrapping_up' | 'completed';
+import type { TokenUsage } from '../types/services';
+import type { SessionUsage } from '../types/session';
+
+export type SessionStatus = 'idle' | 'initializing' | 'active' | 'paused' | 'wrapping_up' | 'completed';
 
 export interface SessionState {
   sessionId: string;
@@ -17,12 +20,18 @@ export interface SessionState {
   targetDurationMs: number;
   messageCount: number;
   toolCallCount: number;
+  usage: SessionUsage;
   imageContext: string;
 }
 
 export class SessionStateManager {
   private state: SessionState;
   private intervalId: ReturnType<typeof setInterval> | null = null;
+  /** Time since startTime that doesn't count towards the conversation (e.g. before a resume) */
+  private excludedMs: number = 0;
+  /** When the session was paused, or null while it is running */
+  private pausedAt: number | null = null;
+  private statusBeforePause: SessionStatus = 'active';
 
   constructor() {
     this.state = {
@@ -33,6 +42,7 @@ export class SessionStateManager {
       targetDurationMs: 60000, // Default 60 seconds
       messageCount: 0,
       toolCallCount: 0,
+      usage: createEmptyUsage(),
       imageContext: '',
     };
   }
@@ -52,8 +62,11 @@ export class SessionStateManager {
       targetDurationMs: durationMs,
       messageCount: 0,
       toolCallCount: 0,
+      usage: createEmptyUsage(),
       imageContext: imageUrl,
     };
+    this.excludedMs = 0;
+    this.pausedAt = null;
 
     // Start automatic time tracking
     this.startTimeTracking();
@@ -61,16 +74,35 @@ export class SessionStateManager {
     return { ...this.state };
   }
 
+  /**
+   * Restores a saved session so it can continue
+   * 
+   * Keeps the saved elapsed time: the time between saving and restoring
+   * does not count towards the conversation. Sessions saved before usage
+   * was tracked start counting from nothing.
+   * @param saved - Session state as it was when saved
+   * @returns The restored session state
+   */
+  restoreSession(saved: Omit<SessionState, 'usage'> & { usage?: SessionUsage }): SessionState {
+    this.state = { ...saved, usage: saved.usage ?? createEmptyUsage() };
+    this.excludedMs = Date.now() - saved.startTime - saved.elapsedMs;
+    this.pausedAt = null;
+
+    this.startTimeTracking();
+
+    return { ...this.state };
+  }
+
   /**
    * Updates the elapsed time since session start
    * Automatically transitions to wrapping_up state at 50 seconds
    */
   updateElapsedTime(): void {
-    if (this.state.status === 'idle' || this.state.status === 'completed') {
+    if (this.state.status === 'idle' || this.state.status === 'paused' || this.state.status === 'completed') {
       return;
     }
 
-    this.state.elapsedMs = Date.now() - this.state.startTime;
+    this.state.elapsedMs = Date.now() - this.state.startTime - this.excludedMs;
 
     // Auto-transition to wrapping_up at 50 seconds (Requirement 5.2)
     if (this.state.elapsedMs >= 50000 && this.state.status === 'active') {
@@ -109,6 +141,24 @@ export class SessionStateManager {
     this.state.toolCallCount++;
   }
 
+  /**
+   * Adds a completion's token usage to the session totals
+   * @param usage - Tokens the completion used
+   * @param costUsd - What the completion cost, or null if its model has no price
+   */
+  recordUsage(usage: TokenUsage, costUsd: number | null): void {
+    const total = this.state.usage;
+    const unpriced = costUsd === null && !total.unpricedModels.includes(usage.model);
+    this.state.usage = {
+      requests: total.requests + 1,
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      cachedTokens: total.cachedTokens + usage.cachedTokens,
+      costUsd: total.costUsd + (costUsd ?? 0),
+      unpricedModels: unpriced ? [...total.unpricedModels, usage.model] : total.unpricedModels,
+    };
+  }
+
   /**
    * Gets the current session state
    * @returns A copy of the current state
@@ -130,6 +180,38 @@ export class SessionStateManager {
     }
   }
 
+  /**
+   * Pauses the session clock
+   * 
+   * Only an active or wrapping-up session can be paused. The time spent
+   * paused does not count towards the conversation.
+   */
+  pause(): void {
+    if (this.state.status !== 'active' && this.state.status !== 'wrapping_up') {
+      return;
+    }
+
+    this.updateElapsedTime();
+    this.statusBeforePause = this.state.status;
+    this.state.status = 'paused';
+    this.pausedAt = Date.now();
+    this.stopTimeTracking();
+  }
+
+  /**
+   * Resumes a paused session with the status it had before pausing
+   */
+  resume(): void {
+    if (this.state.status !== 'paused' || this.pausedAt === null) {
+      return;
+    }
+
+    this.excludedMs += Date.now() - this.pausedAt;
+    this.pausedAt = null;
+    this.state.status = this.statusBeforePause;
+    this.startTimeTracking();
+  }
+
   /**
    * Completes the session and stops time tracking
    */
@@ -175,3 +257,7 @@ export class SessionStateManager {
     this.stopTimeTracking();
   }
 }
+
+function createEmptyUsage(): SessionUsage {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cachedTokens: 0, costUsd: 0, unpricedModels: [] };
+}
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for SpeechEndpointer
+ */
+
+import { SpeechEndpointer, getSilenceTimeoutForAge } from './SpeechEndpointer';
+
+describe('SpeechEndpointer', () => {
+  let emit: jest.Mock;
+  let endpointer: SpeechEndpointer;
+
+  const final = (text: string, confidence = 0.9) => ({ text, isFinal: true, confidence });
+  const interim = (text: string) => ({ text, isFinal: false, confidence: 0.5 });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    emit = jest.fn();
+    endpointer = new SpeechEndpointer(1500, emit);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should merge final fragments into one turn after the silence timeout', () => {
+    endpointer.handleTranscript(final('I see a'));
+    jest.advanceTimersByTime(1000);
+    endpointer.handleTranscript(final(' big elephant', 0.8));
+
+    jest.advanceTimersByTime(1499);
+    expect(emit).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith({ text: 'I see a big elephant', isFinal: true, confidence: 0.8 });
+  });
+
+  it('should pass interim results through with the fragments held so far', () => {
+    endpointer.handleTranscript(final('I see a'));
+    endpointer.handleTranscript(interim('big'));
+
+    expect(emit).toHaveBeenCalledWith({ text: 'I see a big', isFinal: false, confidence: 0.5 });
+  });
+
+  it('should not end the turn while the child is still talking', () => {
+    endpointer.handleTranscript(final('I see a'));
+    endpointer.handleVoiceActivity(true);
+
+    jest.advanceTimersByTime(5000);
+    expect(emit).not.toHaveBeenCalled();
+
+    endpointer.handleVoiceActivity(false);
+    jest.advanceTimersByTime(1500);
+    expect(emit).toHaveBeenCalledWith(final('I see a'));
+  });
+
+  it('should count silence from when the child went quiet', () => {
+    endpointer.handleVoiceActivity(true);
+    endpointer.handleVoiceActivity(false);
+    jest.advanceTimersByTime(1000);
+
+    // The recogniser's final result arrives late
+    endpointer.handleTranscript(final('an elephant'));
+    jest.advanceTimersByTime(500);
+
+    expect(emit).toHaveBeenCalledWith(final('an elephant'));
+  });
+
+  it('should emit held fragments on flush and drop them on reset', () => {
+    endpointer.handleTranscript(final('hello'));
+    endpointer.flush();
+    expect(emit).toHaveBeenCalledWith(final('hello'));
+
+    endpointer.handleTranscript(final('goodbye'));
+    endpointer.reset();
+    jest.advanceTimersByTime(5000);
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getSilenceTimeoutForAge', () => {
+  it('should give younger children longer to finish', () => {
+    expect(getSilenceTimeoutForAge(4)).toBe(2000);
+    expect(getSilenceTimeoutForAge(7)).toBe(1500);
+    expect(getSilenceTimeoutForAge(10)).toBe(1000);
+    expect(getSilenceTimeoutForAge()).toBe(1500);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * SpeechEndpointer - Decides when the child has finished their turn
+ *
+ * The browser marks a transcript final at every short pause, which cuts
+ * children off mid-thought ("I see a... um... a big elephant"). The
+ * endpointer holds final fragments back and merges them into a single turn
+ * that ends only once the child has been quiet for the silence timeout.
+ * Voice activity from the microphone, when available, tells a thinking pause
+ * apart from a finished sentence: the timeout starts counting when the
+ * child goes quiet, not when the recogniser gets round to a final result.
+ *
+ * Interim results pass straight through, prefixed with the fragments held
+ * so far, so live captions show the whole turn.
+ *
+ * Requirements: 3.1 (speech capture), 9.1 (processing latency)
+ */
+
+import type { TranscriptResult } from '../types/services';
+
+/**
+ * Silence that ends a turn, by age group (matching the PromptManager's
+ * age bands). Younger children pause longer while they find their words.
+ */
+export const SILENCE_TIMEOUT_BY_AGE_GROUP = {
+  upTo5: 2000,
+  from6To8: 1500,
+  from9: 1000,
+} as const;
+
+/**
+ * Get the silence timeout for a child's age
+ *
+ * @param childAge - Age in years; defaults to 8 like the PromptManager
+ * @returns Silence timeout in milliseconds
+ */
+export function getSilenceTimeoutForAge(childAge: number = 8): number {
+  if (childAge <= 5) {
+    return SILENCE_TIMEOUT_BY_AGE_GROUP.upTo5;
+  }
+  if (childAge <= 8) {
+    return SILENCE_TIMEOUT_BY_AGE_GROUP.from6To8;
+  }
+  return SILENCE_TIMEOUT_BY_AGE_GROUP.from9;
+}
+
+export class SpeechEndpointer {
+  private silenceTimeoutMs: number;
+  private emit: (result: TranscriptResult) => void;
+  private fragments: TranscriptResult[] = [];
+  private voiceActive: boolean = false;
+  private silentSince: number | null = null;
+  private endOfTurnTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param silenceTimeoutMs - Quiet time that ends the child's turn
+   * @param emit - Receives interim results and one merged final result per turn
+   */
+  constructor(silenceTimeoutMs: number, emit: (result: TranscriptResult) => void) {
+    this.silenceTimeoutMs = silenceTimeoutMs;
+    this.emit = emit;
+  }
+
+  /**
+   * Handle a transcript from the recogniser
+   *
+   * @param result - Interim or final transcript fragment
+   */
+  handleTranscript(result: TranscriptResult): void {
+    if (!result.isFinal) {
+      // Still talking: the turn can't end yet
+      this.clearEndOfTurn();
+      this.emit({ ...result, text: this.joinWithFragments(result.text) });
+      return;
+    }
+
+    if (result.text.trim().length > 0) {
+      this.fragments.push(result);
+    }
+    this.scheduleEndOfTurn();
+  }
+
+  /**
+   * Handle a change in microphone voice activity
+   *
+   * @param active - True when the child starts making sound, false when they go quiet
+   */
+  handleVoiceActivity(active: boolean): void {
+    this.voiceActive = active;
+    this.silentSince = active ? null : Date.now();
+
+    if (active) {
+      this.clearEndOfTurn();
+    } else {
+      this.scheduleEndOfTurn();
+    }
+  }
+
+  /**
+   * End the turn now, emitting any fragments held back
+   */
+  flush(): void {
+    this.clearEndOfTurn();
+    if (this.fragments.length === 0) {
+      return;
+    }
+
+    const fragments = this.fragments;
+    this.fragments = [];
+    this.emit({
+      text: fragments.map(fragment => fragment.text.trim()).join(' '),
+      isFinal: true,
+      confidence: Math.min(...fragments.map(fragment => fragment.confidence)),
+    });
+  }
+
+  /**
+   * Drop held fragments and timers without emitting anything
+   */
+  reset(): void {
+    this.clearEndOfTurn();
+    this.fragments = [];
+    this.voiceActive = false;
+    this.silentSince = null;
+  }
+
+  private scheduleEndOfTurn(): void {
+    this.clearEndOfTurn();
+    if (this.voiceActive || this.fragments.length === 0) {
+      return;
+    }
+
+    // Count from when the child went quiet if the microphone told us
+    const quietFor = this.silentSince === null ? 0 : Date.now() - this.silentSince;
+    const delay = Math.max(0, this.silenceTimeoutMs - quietFor);
+    this.endOfTurnTimeoutId = setTimeout(() => this.flush(), delay);
+  }
+
+  private clearEndOfTurn(): void {
+    if (this.endOfTurnTimeoutId) {
+      clearTimeout(this.endOfTurnTimeoutId);
+      this.endOfTurnTimeoutId = null;
+    }
+  }
+
+  private joinWithFragments(text: string): string {
+    return [...this.fragments.map(fragment => fragment.text.trim()), text.trim()]
+      .filter(part => part.length > 0)
+      .join(' ');
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import { SpeechToTextHandler } from './SpeechToTextHandler';
+import type { VoiceActivityDetector } from './VoiceActivityDetector';
 import type { STTConfig } from '../types/config';
 import * as fc from 'fast-check';
 
@@ -205,6 +206,85 @@ describe('SpeechToTextHandler', () => {
     });
   });
 
+  describe('endpointing', () => {
+    const finalResult = (transcript: string) => ({
+      resultIndex: 0,
+      results: [{ isFinal: true, 0: { transcript, confidence: 0.9 } }],
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      delete (navigator as { mediaDevices?: Partial<MediaDevices> }).mediaDevices;
+    });
+
+    it('should merge final fragments into one turn', async () => {
+      jest.useFakeTimers();
+      await handler.initialize({
+        language: 'en-US',
+        continuous: true,
+        interimResults: true,
+        endpointing: { childAge: 4, voiceActivity: false },
+      });
+      const callback = jest.fn();
+      handler.onTranscript(callback);
+
+      mockRecognition.onresult?.(finalResult('I see'));
+      mockRecognition.onresult?.(finalResult('a giraffe'));
+      expect(callback).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(2000);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ text: 'I see a giraffe', isFinal: true, confidence: 0.9 });
+    });
+
+    it('should end the turn when listening stops', async () => {
+      await handler.initialize({
+        language: 'en-US',
+        continuous: true,
+        interimResults: true,
+        endpointing: { voiceActivity: false },
+      });
+      const callback = jest.fn();
+      handler.onTranscript(callback);
+      handler.startListening();
+
+      mockRecognition.onresult?.(finalResult('a giraffe'));
+      handler.stopListening();
+
+      expect(callback).toHaveBeenCalledWith({ text: 'a giraffe', isFinal: true, confidence: 0.9 });
+    });
+
+    it('should open the microphone for voice activity while listening', async () => {
+      const track = { stop: jest.fn() };
+      const stream = { getTracks: () => [track] };
+      (navigator as { mediaDevices?: Partial<MediaDevices> }).mediaDevices = {
+        getUserMedia: jest.fn().mockResolvedValue(stream),
+      };
+      const detector: Partial<VoiceActivityDetector> = {
+        onSpeechStart: jest.fn(),
+        onSpeechEnd: jest.fn(),
+        start: jest.fn(),
+        stop: jest.fn(),
+      };
+      const handlerWithVAD = new SpeechToTextHandler(() => detector as VoiceActivityDetector);
+      await handlerWithVAD.initialize({
+        language: 'en-US',
+        continuous: true,
+        interimResults: true,
+        endpointing: {},
+      });
+
+      handlerWithVAD.startListening();
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(detector.start).toHaveBeenCalledWith(stream);
+
+      handlerWithVAD.stopListening();
+      expect(detector.stop).toHaveBeenCalled();
+      expect(track.stop).toHaveBeenCalled();
+    });
+  });
+
   describe('onError', () => {
     it('should call error callback on recognition error', async () => {
       const config: STTConfig = {
@@ -2,6 +2,8 @@
  * SpeechToTextHandler - Web Speech API implementation for speech recognition
  * 
  * Handles continuous speech recognition with interim results support.
+ * With endpointing configured, final fragments are merged into one turn by a
+ * SpeechEndpointer, timed by microphone voice activity where available.
  * Validates Requirements 3.1, 3.4
  */
 
@@ -10,6 +12,8 @@
 import type { SpeechToTextHandler as ISpeechToTextHandler, TranscriptResult } from '../types/services';
 import type { STTConfig } from '../types/config';
 import { logError } from '../utils/errorLogger';
+import { SpeechEndpointer, getSilenceTimeoutForAge } from './SpeechEndpointer';
+import { VoiceActivityDetector } from './VoiceActivityDetector';
 
 export class SpeechToTextHandler implements ISpeechToTextHandler {
   private recognition: SpeechRecognition | null = null;
@@ -19,6 +23,18 @@ export class SpeechToTextHandler implements ISpeechToTextHandler {
   private retryRequestCallback: ((message: string) => void) | null = null;
   private isListening: boolean = false;
   private confidenceThreshold: number = 0.5; // Minimum confidence for accepting transcripts
+  private endpointer: SpeechEndpointer | null = null;
+  private voiceActivityDetector: VoiceActivityDetector | null = null;
+  private microphoneStream: MediaStream | null = null;
+  private microphoneRequestId: number = 0;
+  private createVoiceActivityDetector: () => VoiceActivityDetector;
+
+  /**
+   * @param createVoiceActivityDetector - Factory for the detector used by endpointing
+   */
+  constructor(createVoiceActivityDetector: () => VoiceActivityDetector = () => new VoiceActivityDetector()) {
+    this.createVoiceActivityDetector = createVoiceActivityDetector;
+  }
 
   /**
    * Initialize the speech recognition with configuration
@@ -60,10 +76,41 @@ export class SpeechToTextHandler implements ISpeechToTextHandler {
     // Assign to instance property
     this.recognition = recognition;
 
+    // Set up turn endpointing
+    this.setupEndpointing(config);
+
     // Set up event handlers
     this.setupEventHandlers();
   }
 
+  /**
+   * Set up merging of final fragments into turns, if configured
+   * 
+   * @param config - STT configuration
+   * @private
+   */
+  private setupEndpointing(config: STTConfig): void {
+    this.endpointer = null;
+    this.voiceActivityDetector = null;
+
+    if (!config.endpointing) {
+      return;
+    }
+
+    const silenceTimeoutMs =
+      config.endpointing.silenceTimeoutMs ?? getSilenceTimeoutForAge(config.endpointing.childAge);
+    this.endpointer = new SpeechEndpointer(silenceTimeoutMs, (result) => {
+      this.transcriptCallback?.(result);
+    });
+
+    if (config.endpointing.voiceActivity !== false) {
+      const endpointer = this.endpointer;
+      this.voiceActivityDetector = this.createVoiceActivityDetector();
+      this.voiceActivityDetector.onSpeechStart(() => endpointer.handleVoiceActivity(true));
+      this.voiceActivityDetector.onSpeechEnd(() => endpointer.handleVoiceActivity(false));
+    }
+  }
+
   /**
    * Set up Web Speech API event handlers
    * 
@@ -92,11 +139,17 @@ export class SpeechToTextHandler implements ISpeechToTextHandler {
           continue;
         }
 
-        this.transcriptCallback({
+        const transcriptResult: TranscriptResult = {
           text: transcript,
           isFinal,
           confidence
-        });
+        };
+
+        if (this.endpointer) {
+          this.endpointer.handleTranscript(transcriptResult);
+        } else {
+          this.transcriptCallback(transcriptResult);
+        }
       }
     };
 
@@ -136,6 +189,8 @@ export class SpeechToTextHandler implements ISpeechToTextHandler {
         }
       } else {
         this.isListening = false;
+        this.stopVoiceActivity();
+        this.endpointer?.flush();
       }
     };
   }
@@ -167,6 +222,7 @@ export class SpeechToTextHandler implements ISpeechToTextHandler {
     try {
       this.isListening = true;
       this.recognition.start();
+      this.startVoiceActivity();
     } catch (error) {
       this.isListening = false;
       const err = error instanceof Error ? error : new Error('Failed to start listening');
@@ -210,6 +266,59 @@ export class SpeechToTextHandler implements ISpeechToTextHandler {
     } catch (error) {
       // Ignore errors from stopping (e.g., already stopped)
     }
+
+    this.stopVoiceActivity();
+    // Don't lose what the child said before listening stopped
+    this.endpointer?.flush();
+  }
+
+  /**
+   * Open the microphone for voice activity detection
+   * 
+   * Runs alongside recognition, which has its own microphone access. If the
+   * microphone can't be opened, endpointing falls back to timing pauses
+   * from the recogniser's results alone.
+   * 
+   * @private
+   */
+  private startVoiceActivity(): void {
+    const detector = this.voiceActivityDetector;
+    if (!detector || !navigator.mediaDevices?.getUserMedia) {
+      return;
+    }
+
+    const requestId = ++this.microphoneRequestId;
+    navigator.mediaDevices
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then((stream) => {
+        // Listening stopped while the microphone was opening
+        if (requestId !== this.microphoneRequestId || !this.isListening) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        this.microphoneStream = stream;
+        detector.start(stream);
+      })
+      .catch((error) => {
+        logError(
+          'microphone_error',
+          'Could not open microphone for voice activity detection',
+          { component: 'SpeechToTextHandler', action: 'startVoiceActivity' },
+          error
+        );
+      });
+  }
+
+  /**
+   * Stop voice activity detection and release its microphone stream
+   * 
+   * @private
+   */
+  private stopVoiceActivity(): void {
+    this.microphoneRequestId++;
+    this.voiceActivityDetector?.stop();
+    this.microphoneStream?.getTracks().forEach(track => track.stop());
+    this.microphoneStream = null;
   }
 
   /**
@@ -192,6 +192,34 @@ describe('TextToSpeechHandler', () => {
     it('should be safe to call when not speaking', () => {
       expect(() => handler.stop()).not.toThrow();
     });
+
+    it('should resolve the interrupted speak() without reporting an error', async () => {
+      const fallbackCallback = jest.fn();
+      const errorCallback = jest.fn();
+      const endCallback = jest.fn();
+      handler.onFallback(fallbackCallback);
+      handler.onError(errorCallback);
+      handler.onSpeechEnd(endCallback);
+
+      // Browsers report the cancelled utterance as an "interrupted" error
+      mockSynthesis.cancel = jest.fn();
+      mockSynthesis.speak = (utterance: MockSpeechSynthesisUtterance) => {
+        utterance.onstart?.({});
+        (mockSynthesis.cancel as jest.Mock).mockImplementation(() => {
+          utterance.onerror?.({ error: 'interrupted' });
+        });
+      };
+
+      const speaking = handler.speak('A very long story about an elephant');
+      handler.stop();
+
+      await expect(speaking).resolves.toBeUndefined();
+      expect(mockSynthesis.cancel).toHaveBeenCalled();
+      expect(handler.isCurrentlySpeaking()).toBe(false);
+      expect(fallbackCallback).not.toHaveBeenCalled();
+      expect(errorCallback).not.toHaveBeenCalled();
+      expect(endCallback).not.toHaveBeenCalled();
+    });
   });
 
   describe('event handlers', () => {
@@ -358,6 +386,257 @@ describe('TextToSpeechHandler', () => {
     });
   });
 
+  describe('word boundaries', () => {
+    it('should report word boundaries from browser speech synthesis', async () => {
+      const onWordBoundary = jest.fn();
+      mockSynthesis.speak = (utterance: MockSpeechSynthesisUtterance) => {
+        utterance.onboundary?.({ name: 'word', charIndex: 6, charLength: 5 });
+        // Some browsers send sentence boundaries and leave out charLength
+        utterance.onboundary?.({ name: 'sentence', charIndex: 0, charLength: 12 });
+        utterance.onboundary?.({ charIndex: 12 });
+        utterance.onend?.({});
+      };
+      await handler.initialize(defaultConfig);
+      handler.onWordBoundary(onWordBoundary);
+
+      await handler.speak('Hello there elephant');
+
+      expect(onWordBoundary.mock.calls).toEqual([
+        [{ text: 'Hello there elephant', charIndex: 6, charLength: 5 }],
+        [{ text: 'Hello there elephant', charIndex: 12, charLength: 8 }],
+      ]);
+    });
+  });
+
+  describe('audio voice provider', () => {
+    class MockAudio {
+      src = '';
+      volume = 1;
+      currentTime = 0;
+      duration = NaN;
+      paused = true;
+      error: Error | null = null;
+      onplay: (() => void) | null = null;
+      onended: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+
+      play = jest.fn(async () => {
+        this.paused = false;
+        this.onplay?.();
+      });
+
+      pause = jest.fn(() => {
+        this.paused = true;
+      });
+
+      finish() {
+        this.paused = true;
+        this.onended?.();
+      }
+    }
+
+    let audioElements: MockAudio[];
+    let synthesize: jest.Mock;
+
+    const createAudioHandler = () => {
+      audioElements = [];
+      synthesize = jest.fn().mockResolvedValue({ audio: new Blob(['mp3'], { type: 'audio/mpeg' }) });
+      return new TextToSpeechHandler({ id: 'elevenlabs', synthesize }, () => {
+        const audio = new MockAudio();
+        audioElements.push(audio);
+        return audio as unknown as HTMLAudioElement;
+      });
+    };
+
+    // Let the audio request resolve and playback start
+    const flushPromises = async () => {
+      for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+      }
+    };
+
+    beforeEach(() => {
+      URL.createObjectURL = jest.fn(() => 'blob:speech');
+      URL.revokeObjectURL = jest.fn();
+      handler = createAudioHandler();
+    });
+
+    it('should play provider audio with the same speech callbacks', async () => {
+      const onStart = jest.fn();
+      const onEnd = jest.fn();
+      const speakSpy = jest.spyOn(mockSynthesis, 'speak');
+      await handler.initialize(defaultConfig);
+      handler.onSpeechStart(onStart);
+      handler.onSpeechEnd(onEnd);
+
+      const speaking = handler.speak('Hello there!');
+      await flushPromises();
+
+      expect(synthesize).toHaveBeenCalledWith('Hello there!', defaultConfig, expect.any(AbortSignal));
+      expect(audioElements[0].src).toBe('blob:speech');
+      expect(onStart).toHaveBeenCalledTimes(1);
+      expect(handler.isCurrentlySpeaking()).toBe(true);
+
+      audioElements[0].finish();
+      await speaking;
+
+      expect(onEnd).toHaveBeenCalledTimes(1);
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:speech');
+      expect(speakSpy).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to browser speech when the provider fails', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const fallbackCallback = jest.fn();
+      const speakSpy = jest.spyOn(mockSynthesis, 'speak');
+      synthesize.mockRejectedValue(new Error('HTTP 401 Unauthorized'));
+      await handler.initialize(defaultConfig);
+      handler.onFallback(fallbackCallback);
+
+      await handler.speak('Hello there!');
+
+      expect(speakSpy).toHaveBeenCalledTimes(1);
+      expect(fallbackCallback).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should fall back to browser speech when playback is blocked', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const speakSpy = jest.spyOn(mockSynthesis, 'speak');
+      await handler.initialize(defaultConfig);
+
+      const speaking = handler.speak('Hello there!');
+      await flushPromises();
+      // Playback failed before the audio element was used
+      expect(audioElements).toHaveLength(1);
+      audioElements[0].error = new Error('NotAllowedError');
+      audioElements[0].onerror?.();
+      await speaking;
+
+      expect(speakSpy).toHaveBeenCalledTimes(1);
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should show the fallback text when neither provider nor browser can speak', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      delete (window as { speechSynthesis?: SpeechSynthesis }).speechSynthesis;
+      const fallbackCallback = jest.fn();
+      synthesize.mockRejectedValue(new Error('Network error'));
+      await handler.initialize(defaultConfig);
+      handler.onFallback(fallbackCallback);
+
+      await expect(handler.speak('Hello there!')).rejects.toThrow('speech synthesis is unavailable');
+
+      expect(fallbackCallback).toHaveBeenCalledWith('Hello there!');
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should stop playback and resolve the pending speak call', async () => {
+      const onEnd = jest.fn();
+      await handler.initialize(defaultConfig);
+      handler.onSpeechEnd(onEnd);
+
+      const speaking = handler.speak('Hello there!');
+      await flushPromises();
+      handler.stop();
+      await speaking;
+
+      expect(audioElements[0].pause).toHaveBeenCalled();
+      expect(handler.isCurrentlySpeaking()).toBe(false);
+      expect(onEnd).not.toHaveBeenCalled();
+    });
+
+    it('should hold audio that arrives during a pause until resume', async () => {
+      let finishDownload: (speech: { audio: Blob }) => void = () => {};
+      synthesize.mockImplementation(() => new Promise(resolve => { finishDownload = resolve; }));
+      await handler.initialize(defaultConfig);
+
+      const speaking = handler.speak('Hello there!');
+      await flushPromises();
+      handler.pause();
+      finishDownload({ audio: new Blob(['mp3'], { type: 'audio/mpeg' }) });
+      await flushPromises();
+
+      expect(audioElements).toHaveLength(1);
+      expect(audioElements[0].play).not.toHaveBeenCalled();
+      expect(handler.isCurrentlySpeaking()).toBe(false);
+
+      handler.resume();
+      expect(audioElements[0].play).toHaveBeenCalledTimes(1);
+      audioElements[0].finish();
+      await speaking;
+    });
+
+    it('should report words as playback reaches their provider timings', async () => {
+      jest.useFakeTimers();
+      const onWordBoundary = jest.fn();
+      synthesize.mockResolvedValue({
+        audio: new Blob(['mp3'], { type: 'audio/mpeg' }),
+        wordTimings: [
+          { charIndex: 0, charLength: 5, startTime: 0 },
+          { charIndex: 6, charLength: 6, startTime: 0.4 },
+        ],
+      });
+      await handler.initialize(defaultConfig);
+      handler.onWordBoundary(onWordBoundary);
+
+      const speaking = handler.speak('Hello there!');
+      await flushPromises();
+      jest.advanceTimersByTime(50);
+      expect(onWordBoundary).toHaveBeenLastCalledWith({ text: 'Hello there!', charIndex: 0, charLength: 5 });
+
+      audioElements[0].currentTime = 0.5;
+      jest.advanceTimersByTime(50);
+      expect(onWordBoundary).toHaveBeenLastCalledWith({ text: 'Hello there!', charIndex: 6, charLength: 6 });
+      expect(onWordBoundary).toHaveBeenCalledTimes(2);
+
+      audioElements[0].finish();
+      await speaking;
+      jest.useRealTimers();
+    });
+
+    it('should estimate word timings from the audio length', async () => {
+      jest.useFakeTimers();
+      const onWordBoundary = jest.fn();
+      await handler.initialize(defaultConfig);
+      handler.onWordBoundary(onWordBoundary);
+
+      handler.speak('one two');
+      await flushPromises();
+      jest.advanceTimersByTime(50);
+      // Duration not known yet
+      expect(onWordBoundary).not.toHaveBeenCalled();
+
+      audioElements[0].duration = 2;
+      audioElements[0].currentTime = 1.1;
+      jest.advanceTimersByTime(50);
+      expect(onWordBoundary).toHaveBeenLastCalledWith({ text: 'one two', charIndex: 4, charLength: 3 });
+
+      handler.stop();
+      jest.useRealTimers();
+    });
+
+    it('should abort the audio request when stopped before playback', async () => {
+      let signal: AbortSignal | undefined;
+      synthesize.mockImplementation((_text: string, _config: TTSConfig, abortSignal: AbortSignal) => {
+        signal = abortSignal;
+        return new Promise((_resolve, reject) => {
+          abortSignal.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+        });
+      });
+      await handler.initialize(defaultConfig);
+
+      const speaking = handler.speak('Hello there!');
+      await flushPromises();
+      handler.stop();
+      await speaking;
+
+      expect(signal?.aborted).toBe(true);
+      expect(audioElements).toHaveLength(0);
+    });
+  });
+
   describe('Property-Based Tests', () => {
     /**
      * Property 9: Text-to-Speech Conversion
@@ -1,33 +1,68 @@
 /**
- * TextToSpeechHandler - Web Speech API implementation for text-to-speech synthesis
+ * TextToSpeechHandler - Text-to-speech through a voice provider or the Web Speech API
  * 
  * Handles speech synthesis with child-friendly voice settings and event management.
+ * With an audio voice provider (ElevenLabs, OpenAI) speech is fetched as audio
+ * and played through an HTMLAudioElement; browser speech synthesis remains the
+ * automatic fallback when the provider fails.
  * Validates Requirements 4.1, 4.2
  */
 
-import type { TextToSpeechHandler as ITextToSpeechHandler } from '../types/services';
+import type { TextToSpeechHandler as ITextToSpeechHandler, WordBoundary } from '../types/services';
 import type { TTSConfig } from '../types/config';
+import type { SpeechAudioProvider, SynthesizedSpeech } from './voiceProviders';
 import { logError } from '../utils/errorLogger';
+import { estimateWordTimings, wordLengthAt } from '../utils/wordTimings';
+import type { WordTiming } from '../utils/wordTimings';
+
+/** How often audio playback is checked for the next word */
+const WORD_TRACKING_INTERVAL_MS = 50;
 
 export class TextToSpeechHandler implements ITextToSpeechHandler {
   private synthesis: SpeechSynthesis | null = null;
   private config: TTSConfig | null = null;
+  private audioProvider: SpeechAudioProvider | null;
+  private createAudioElement: () => HTMLAudioElement;
+  private currentAudio: HTMLAudioElement | null = null;
+  private currentAudioUrl: string | null = null;
+  private audioAbortController: AbortController | null = null;
+  private wordTrackingId: ReturnType<typeof setInterval> | null = null;
   private currentUtterance: SpeechSynthesisUtterance | null = null;
+  private resolveCurrentSpeech: (() => void) | null = null;
   private speechStartCallback: (() => void) | null = null;
   private speechEndCallback: (() => void) | null = null;
+  private wordBoundaryCallback: ((boundary: WordBoundary) => void) | null = null;
   private errorCallback: ((error: Error) => void) | null = null;
   private fallbackCallback: ((text: string) => void) | null = null;
   private isSpeaking: boolean = false;
+  private isPaused: boolean = false;
+  /** Starts audio that finished downloading while speech was paused */
+  private pendingPlayback: (() => void) | null = null;
   private availableVoices: SpeechSynthesisVoice[] = [];
 
+  /**
+   * @param audioProvider - Hosted voice to speak with; null for browser speech synthesis only
+   * @param createAudioElement - Creates the element audio is played through
+   */
+  constructor(
+    audioProvider: SpeechAudioProvider | null = null,
+    createAudioElement: () => HTMLAudioElement = () => new Audio()
+  ) {
+    this.audioProvider = audioProvider;
+    this.createAudioElement = createAudioElement;
+  }
+
   /**
    * Initialize the speech synthesis with configuration
    * 
    * Sets up the Web Speech API synthesis with the provided configuration,
    * loads available voices, and validates the configuration parameters.
    * 
+   * Speech synthesis is optional when an audio voice provider is set; the
+   * provider then has no fallback.
+   * 
    * @param config - TTS configuration including voice, rate, pitch, and volume
-   * @throws Error if Web Speech API is not supported or configuration is invalid
+   * @throws Error if no way to speak is available or configuration is invalid
    * 
    * @example
    * ```typescript
@@ -45,15 +80,17 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
 
     // Check if Web Speech API synthesis is available
     if (!(window as any).speechSynthesis) {
-      const error = new Error('Web Speech API synthesis is not supported in this browser');
-      logError('speech_synthesis_error', error.message, { component: 'TextToSpeechHandler', action: 'initialize' });
-      throw error;
-    }
-
-    this.synthesis = (window as any).speechSynthesis;
+      if (!this.audioProvider) {
+        const error = new Error('Web Speech API synthesis is not supported in this browser');
+        logError('speech_synthesis_error', error.message, { component: 'TextToSpeechHandler', action: 'initialize' });
+        throw error;
+      }
+    } else {
+      this.synthesis = (window as any).speechSynthesis;
 
-    // Load available voices
-    await this.loadVoices();
+      // Load available voices
+      await this.loadVoices();
+    }
 
     // Validate configuration
     this.validateConfig(config);
@@ -164,13 +201,14 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
    * Speak the provided text
    * 
    * Converts text to speech using the configured voice settings.
-   * Cancels any ongoing speech before starting. Triggers fallback
-   * mechanism if synthesis fails.
+   * Cancels any ongoing speech before starting. Uses the audio voice
+   * provider when set, switching to browser synthesis if it fails.
+   * Triggers fallback mechanism if synthesis fails.
    * 
    * Requirements: 4.1 (text-to-speech conversion)
    * 
    * @param text - Text to speak
-   * @returns Promise that resolves when speech completes
+   * @returns Promise that resolves when speech completes or is stopped
    * @throws Error if TTS is not initialized, text is empty, or synthesis fails
    * 
    * @example
@@ -179,7 +217,7 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
    * ```
    */
   async speak(text: string): Promise<void> {
-    if (!this.synthesis || !this.config) {
+    if (!this.isInitialized()) {
       const error = new Error('Text-to-speech not initialized. Call initialize() first.');
       logError('speech_synthesis_error', error.message, { component: 'TextToSpeechHandler', action: 'speak' });
       throw error;
@@ -196,9 +234,145 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
       this.stop();
     }
 
+    if (this.audioProvider) {
+      const spoken = await this.speakWithAudio(text);
+      if (spoken) return;
+
+      if (!this.synthesis) {
+        const error = new Error(`Voice provider "${this.audioProvider.id}" failed and speech synthesis is unavailable`);
+        this.fallbackCallback?.(text);
+        this.errorCallback?.(error);
+        throw error;
+      }
+    }
+
+    return this.speakWithSynthesis(text);
+  }
+
+  /**
+   * Speak through the audio voice provider
+   * 
+   * @param text - Text to speak
+   * @returns True once the audio finished or was stopped, false if the provider or playback failed
+   * @private
+   */
+  private async speakWithAudio(text: string): Promise<boolean> {
+    const controller = new AbortController();
+    this.audioAbortController = controller;
+
+    let speech: SynthesizedSpeech;
+    try {
+      speech = await this.audioProvider!.synthesize(text, this.config!, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) return true;
+      this.audioAbortController = null;
+      this.logAudioFailure(text, error);
+      return false;
+    }
+
+    // stop() was called while the audio downloaded
+    if (controller.signal.aborted) return true;
+    this.audioAbortController = null;
+
+    return new Promise((resolve) => {
+      const element = this.createAudioElement();
+      this.currentAudio = element;
+      this.currentAudioUrl = URL.createObjectURL(speech.audio);
+      this.resolveCurrentSpeech = () => resolve(true);
+
+      const fail = (error: unknown) => {
+        if (this.currentAudio !== element) return;
+        this.isSpeaking = false;
+        this.releaseAudio();
+        this.logAudioFailure(text, error);
+        resolve(false);
+      };
+
+      element.onplay = () => {
+        if (this.currentAudio !== element) return;
+        this.isSpeaking = true;
+        // Also fires when paused audio resumes
+        if (!this.wordTrackingId) {
+          this.trackWords(element, text, speech.wordTimings);
+        }
+        if (this.speechStartCallback) {
+          this.speechStartCallback();
+        }
+      };
+
+      element.onended = () => {
+        if (this.currentAudio !== element) return;
+        this.isSpeaking = false;
+        this.releaseAudio();
+        if (this.speechEndCallback) {
+          this.speechEndCallback();
+        }
+        resolve(true);
+      };
+
+      element.onerror = () => fail(element.error ?? new Error('Audio playback failed'));
+
+      element.volume = this.config!.volume;
+      element.src = this.currentAudioUrl;
+      // Rejected when autoplay is blocked or the audio can't be decoded
+      const play = () => {
+        element.play().catch(fail);
+      };
+      // Audio that arrives during a pause waits for resume()
+      if (this.isPaused) {
+        this.pendingPlayback = play;
+      } else {
+        play();
+      }
+    });
+  }
+
+  /**
+   * Report words as the audio reaches them
+   * 
+   * Polls the playback position, so pausing the audio pauses the captions.
+   * Without provider timings, words are spread over the audio once its
+   * length is known.
+   * 
+   * @param element - Playing audio element
+   * @param text - Text being spoken
+   * @param wordTimings - Word start times from the provider
+   * @private
+   */
+  private trackWords(element: HTMLAudioElement, text: string, wordTimings?: WordTiming[]): void {
+    let timings = wordTimings;
+    let nextWord = 0;
+
+    this.wordTrackingId = setInterval(() => {
+      if (!timings) {
+        if (!Number.isFinite(element.duration)) return;
+        timings = estimateWordTimings(text, element.duration);
+      }
+
+      // Only the latest word matters if several started since the last check
+      let word: WordTiming | null = null;
+      while (nextWord < timings.length && timings[nextWord].startTime <= element.currentTime) {
+        word = timings[nextWord];
+        nextWord++;
+      }
+      if (word) {
+        this.wordBoundaryCallback?.({ text, charIndex: word.charIndex, charLength: word.charLength });
+      }
+    }, WORD_TRACKING_INTERVAL_MS);
+  }
+
+  /**
+   * Speak through browser speech synthesis
+   * 
+   * @param text - Text to speak
+   * @private
+   */
+  private speakWithSynthesis(text: string): Promise<void> {
     return new Promise((resolve, reject) => {
       // Create utterance
-      this.currentUtterance = new SpeechSynthesisUtterance(text);
+      const utterance = new SpeechSynthesisUtterance(text);
+      this.currentUtterance = utterance;
+      this.resolveCurrentSpeech = resolve;
       
       // Apply configuration
       this.currentUtterance.rate = this.config!.rate;
@@ -214,15 +388,30 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
 
       // Set up event handlers
       this.currentUtterance.onstart = () => {
+        // Ignore events from an utterance that stop() already cancelled
+        if (this.currentUtterance !== utterance) return;
         this.isSpeaking = true;
         if (this.speechStartCallback) {
           this.speechStartCallback();
         }
       };
 
+      this.currentUtterance.onboundary = (event: SpeechSynthesisEvent) => {
+        if (this.currentUtterance !== utterance) return;
+        // Some browsers leave out the name and charLength of word boundaries
+        if (event.name && event.name !== 'word') return;
+        this.wordBoundaryCallback?.({
+          text,
+          charIndex: event.charIndex,
+          charLength: event.charLength || wordLengthAt(text, event.charIndex),
+        });
+      };
+
       this.currentUtterance.onend = () => {
+        if (this.currentUtterance !== utterance) return;
         this.isSpeaking = false;
         this.currentUtterance = null;
+        this.resolveCurrentSpeech = null;
         if (this.speechEndCallback) {
           this.speechEndCallback();
         }
@@ -230,8 +419,10 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
       };
 
       this.currentUtterance.onerror = (event: SpeechSynthesisErrorEvent) => {
+        if (this.currentUtterance !== utterance) return;
         this.isSpeaking = false;
         this.currentUtterance = null;
+        this.resolveCurrentSpeech = null;
         
         const error = new Error(`Speech synthesis error: ${event.error}`);
         
@@ -265,6 +456,7 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
       } catch (error) {
         this.isSpeaking = false;
         this.currentUtterance = null;
+        this.resolveCurrentSpeech = null;
         const err = error instanceof Error ? error : new Error('Failed to start speech synthesis');
         
         // Log the error
@@ -296,7 +488,9 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
   /**
    * Stop any ongoing speech
    * 
-   * Immediately cancels any active speech synthesis.
+   * Immediately cancels any active or queued speech synthesis. The pending
+   * speak() call resolves rather than rejecting, and the cancelled
+   * utterance's events are ignored, so stopping is not reported as an error.
    * Safe to call even if not currently speaking.
    * 
    * @throws Error if TTS is not initialized
@@ -307,17 +501,65 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
    * ```
    */
   stop(): void {
-    if (!this.synthesis) {
+    if (!this.isInitialized()) {
       const error = new Error('Text-to-speech not initialized. Call initialize() first.');
       logError('speech_synthesis_error', error.message, { component: 'TextToSpeechHandler', action: 'stop' });
       throw error;
     }
 
-    if (this.isSpeaking) {
-      this.synthesis.cancel();
+    if (this.audioAbortController) {
+      this.audioAbortController.abort();
+      this.audioAbortController = null;
+    }
+
+    if (this.isSpeaking || this.currentUtterance || this.currentAudio) {
+      const resolveStoppedSpeech = this.resolveCurrentSpeech;
+      const stoppedAudio = this.currentAudio;
       this.isSpeaking = false;
       this.currentUtterance = null;
+      this.resolveCurrentSpeech = null;
+      this.releaseAudio();
+
+      stoppedAudio?.pause();
+      this.synthesis?.cancel();
+      resolveStoppedSpeech?.();
+    }
+  }
+
+  private isInitialized(): boolean {
+    return this.config !== null && (this.synthesis !== null || this.audioProvider !== null);
+  }
+
+  /**
+   * Forget the playing audio element and free its audio
+   * 
+   * @private
+   */
+  private releaseAudio(): void {
+    if (this.wordTrackingId) {
+      clearInterval(this.wordTrackingId);
+      this.wordTrackingId = null;
+    }
+    if (this.currentAudioUrl) {
+      URL.revokeObjectURL(this.currentAudioUrl);
     }
+    this.currentAudio = null;
+    this.currentAudioUrl = null;
+    this.resolveCurrentSpeech = null;
+    this.pendingPlayback = null;
+  }
+
+  private logAudioFailure(text: string, error: unknown): void {
+    logError(
+      'speech_synthesis_error',
+      `Voice provider "${this.audioProvider!.id}" failed, using browser speech synthesis`,
+      {
+        component: 'TextToSpeechHandler',
+        action: 'speak',
+        additionalData: { voiceProvider: this.audioProvider!.id, text: text.substring(0, 50) }
+      },
+      error
+    );
   }
 
   /**
@@ -360,6 +602,26 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
     this.speechEndCallback = callback;
   }
 
+  /**
+   * Register callback for word boundaries
+   * 
+   * Called as each word starts to be spoken, for karaoke-style captions.
+   * Browser voices report boundaries themselves (not every voice does);
+   * audio voices use provider timings or estimate them from the audio.
+   * 
+   * @param callback - Function to call with the word about to be spoken
+   * 
+   * @example
+   * ```typescript
+   * ttsHandler.onWordBoundary(({ text, charIndex, charLength }) => {
+   *   highlight(text.substring(charIndex, charIndex + charLength));
+   * });
+   * ```
+   */
+  onWordBoundary(callback: (boundary: WordBoundary) => void): void {
+    this.wordBoundaryCallback = callback;
+  }
+
   /**
    * Register callback for errors
    * 
@@ -446,7 +708,8 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
    * Pause ongoing speech (if supported)
    * 
    * Pauses the current speech synthesis. Not all browsers support this feature.
-   * Safe to call even if not currently speaking.
+   * Safe to call even if not currently speaking. Provider audio that is
+   * still downloading is held until resume().
    * 
    * @throws Error if TTS is not initialized
    * 
@@ -456,13 +719,16 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
    * ```
    */
   pause(): void {
-    if (!this.synthesis) {
+    if (!this.isInitialized()) {
       const error = new Error('Text-to-speech not initialized. Call initialize() first.');
       logError('speech_synthesis_error', error.message, { component: 'TextToSpeechHandler', action: 'pause' });
       throw error;
     }
 
-    if (this.isSpeaking && !this.synthesis.paused) {
+    this.isPaused = true;
+    if (this.currentAudio) {
+      this.currentAudio.pause();
+    } else if (this.synthesis && this.isSpeaking && !this.synthesis.paused) {
       this.synthesis.pause();
     }
   }
@@ -481,13 +747,24 @@ export class TextToSpeechHandler implements ITextToSpeechHandler {
    * ```
    */
   resume(): void {
-    if (!this.synthesis) {
+    if (!this.isInitialized()) {
       const error = new Error('Text-to-speech not initialized. Call initialize() first.');
       logError('speech_synthesis_error', error.message, { component: 'TextToSpeechHandler', action: 'resume' });
       throw error;
     }
 
-    if (this.synthesis.paused) {
+    this.isPaused = false;
+    const pendingPlayback = this.pendingPlayback;
+    this.pendingPlayback = null;
+    if (pendingPlayback) {
+      pendingPlayback();
+    } else if (this.currentAudio) {
+      if (this.currentAudio.paused) {
+        this.currentAudio.play().catch(() => {
+          // Playback errors are reported through the element's error event
+        });
+      }
+    } else if (this.synthesis?.paused) {
       this.synthesis.resume();
     }
   }
@@ -180,6 +180,32 @@ describe('ToolRegistry', () => {
       expect(handler).toHaveBeenCalledTimes(1);
     });
 
+    it('should return the result from the handler', async () => {
+      const handler = jest.fn().mockResolvedValue({ status: 'success', data: { zoomed: 'in' } });
+      registry.registerTool({
+        name: 'result_test',
+        description: 'Test result',
+        parameters: { type: 'object', properties: {}, required: [] },
+        handler,
+      });
+
+      await expect(registry.executeTool('result_test', {})).resolves.toEqual({
+        status: 'success',
+        data: { zoomed: 'in' },
+      });
+    });
+
+    it('should return a success result when the handler returns nothing', async () => {
+      registry.registerTool({
+        name: 'void_test',
+        description: 'Test void result',
+        parameters: { type: 'object', properties: {}, required: [] },
+        handler: jest.fn().mockResolvedValue(undefined),
+      });
+
+      await expect(registry.executeTool('void_test', {})).resolves.toEqual({ status: 'success' });
+    });
+
     it('should throw error when executing non-existent tool', async () => {
       await expect(
         registry.executeTool('non_existent', {})
@@ -247,6 +273,60 @@ describe('ToolRegistry', () => {
 
       expect(handler).toHaveBeenCalledWith(args);
     });
+
+    it('should pass validated arguments with defaults and coercion to handler', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      registry.registerTool({
+        name: 'show_emoji',
+        description: 'Show an emoji',
+        parameters: {
+          type: 'object',
+          properties: {
+            emoji: { type: 'string' },
+            size: { type: 'string', enum: ['small', 'medium', 'large'], default: 'medium' },
+            duration: { type: 'number', default: 2000 },
+          },
+          required: ['emoji'],
+        },
+        handler,
+      });
+
+      await registry.executeTool('show_emoji', { emoji: '🎉', duration: '500' });
+
+      expect(handler).toHaveBeenCalledWith({ emoji: '🎉', size: 'medium', duration: 500 });
+    });
+
+    it('should reject invalid arguments with a structured error without calling the handler', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const handler = jest.fn();
+      registry.registerTool({
+        name: 'show_emoji',
+        description: 'Show an emoji',
+        parameters: {
+          type: 'object',
+          properties: {
+            emoji: { type: 'string' },
+            size: { type: 'string', enum: ['small', 'medium', 'large'] },
+          },
+          required: ['emoji'],
+        },
+        handler,
+      });
+
+      const result = await registry.executeTool('show_emoji', { size: 'huge' });
+
+      expect(result).toEqual({
+        status: 'error',
+        error: 'Invalid arguments for "show_emoji": "emoji" is required; "size" must be one of: small, medium, large',
+        invalidArguments: [
+          { argument: 'emoji', message: 'is required' },
+          { argument: 'size', message: 'must be one of: small, medium, large' },
+        ],
+      });
+      expect(handler).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
   });
 
   describe('hasTool', () => {
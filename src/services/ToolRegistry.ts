@@ -8,8 +8,9 @@
  * Requirements: 6.1, 6.2, 6.3, 6.4
  */
 
-import type { ToolDefinition } from '../types/tool';
+import type { ToolDefinition, ToolResult } from '../types/tool';
 import { logError } from '../utils/errorLogger';
+import { formatToolArgumentErrors, validateToolArguments } from './toolArgumentValidation';
 
 export interface Tool {
   name: string;
@@ -59,13 +60,21 @@ export class ToolRegistry {
 
   /**
    * Execute a tool by name with the provided arguments
+   *
+   * Arguments are validated against the tool's parameters schema first, with
+   * defaults applied and types coerced, and the handler receives the cleaned
+   * arguments. Invalid calls never reach the handler; they resolve to an
+   * error result listing each problem so the model can correct itself.
+   *
    * @param name - The name of the tool to execute
    * @param args - The arguments to pass to the tool handler
+   * @returns The handler's result, a plain success result if it returned nothing,
+   *   or an error result with `invalidArguments` if validation failed
    * @throws Error if tool is not found or execution fails
    * 
    * Requirements: 6.2 (execution within 500ms), 6.4 (error handling)
    */
-  async executeTool(name: string, args: object): Promise<void> {
+  async executeTool(name: string, args: object): Promise<ToolResult> {
     const tool = this.tools.get(name);
     
     if (!tool) {
@@ -79,8 +88,24 @@ export class ToolRegistry {
       throw error;
     }
 
+    const validation = validateToolArguments(tool.parameters, args);
+    if (!validation.valid) {
+      const details = formatToolArgumentErrors(validation.errors);
+      logError(
+        'tool_execution_error',
+        `Tool "${name}" called with invalid arguments: ${details}`,
+        { component: 'ToolRegistry', action: 'executeTool', additionalData: { toolName: name, args, errors: validation.errors } }
+      );
+      return {
+        status: 'error',
+        error: `Invalid arguments for "${name}": ${details}`,
+        invalidArguments: validation.errors,
+      };
+    }
+
     try {
-      await tool.handler(args);
+      const result = await tool.handler(validation.args);
+      return result ?? { status: 'success' };
     } catch (error) {
       const executionError = new Error(
         `Tool "${name}" execution failed: ${error instanceof Error ? error.message : String(error)}`
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for TranscriptExporter
+ */
+
+import {
+  buildTranscript,
+  embedImage,
+  renderTranscript,
+  transcriptFileName,
+  transcriptToHTML,
+  transcriptToJSON,
+  transcriptToMarkdown,
+} from './TranscriptExporter';
+import type { Message } from '../types/message';
+import type { SessionState } from '../types/session';
+
+describe('TranscriptExporter', () => {
+  const startTime = Date.UTC(2024, 4, 1, 9, 30);
+
+  const session: SessionState = {
+    sessionId: 'session-1',
+    status: 'completed',
+    startTime,
+    elapsedMs: 61000,
+    targetDurationMs: 60000,
+    messageCount: 5,
+    toolCallCount: 2,
+    imageContext: '/images/friendly-elephant.svg',
+  };
+
+  const messages: Message[] = [
+    { role: 'assistant', content: 'Look at this elephant!', timestamp: startTime + 1000 },
+    { role: 'user', content: 'It has a big nose', timestamp: startTime + 5000 },
+    {
+      role: 'assistant',
+      content: 'Yes, that is its trunk.',
+      timestamp: startTime + 7000,
+      toolCalls: [{ id: 'call_1', name: 'highlight_area', arguments: { area: 'trunk' } }],
+    },
+    { role: 'tool', content: JSON.stringify({ status: 'success' }), timestamp: startTime + 7100, toolCallId: 'call_1' },
+    {
+      role: 'assistant',
+      content: 'What do you think it does with it?',
+      timestamp: startTime + 8000,
+      toolCalls: [{ id: 'call_2', name: 'show_emoji', arguments: { emoji: '🐘' } }],
+    },
+    { role: 'tool', content: JSON.stringify({ status: 'timeout' }), timestamp: startTime + 8600, toolCallId: 'call_2' },
+    { role: 'user', content: '<b>Drinks</b> water', timestamp: startTime + 65000 },
+  ];
+
+  const transcript = buildTranscript(messages, session, { childProfileId: 'maya', exportedAt: startTime + 70000 });
+
+  describe('buildTranscript', () => {
+    it('should turn the conversation into timed turns', () => {
+      expect(transcript).toMatchObject({
+        schemaVersion: 1,
+        sessionId: 'session-1',
+        imageUrl: '/images/friendly-elephant.svg',
+        childProfileId: 'maya',
+        status: 'completed',
+        durationMs: 61000,
+        exportedAt: startTime + 70000,
+      });
+      expect(transcript.turns.map(turn => [turn.speaker, turn.offsetMs])).toEqual([
+        ['ai', 1000],
+        ['child', 5000],
+        ['ai', 7000],
+        ['child', 65000],
+      ]);
+    });
+
+    it('should keep a reply and its follow-ups together with the tools they fired', () => {
+      expect(transcript.turns[2]).toEqual({
+        speaker: 'ai',
+        text: 'Yes, that is its trunk. What do you think it does with it?',
+        timestamp: startTime + 7000,
+        offsetMs: 7000,
+        tools: [
+          { name: 'highlight_area', arguments: { area: 'trunk' }, status: 'success' },
+          { name: 'show_emoji', arguments: { emoji: '🐘' }, status: 'timeout' },
+        ],
+      });
+    });
+
+    it('should mark interrupted replies', () => {
+      const interrupted = buildTranscript(
+        [{ role: 'assistant', content: 'Look at', timestamp: startTime, truncated: true }],
+        session
+      );
+
+      expect(interrupted.turns[0].truncated).toBe(true);
+      expect(interrupted.childProfileId).toBeUndefined();
+    });
+  });
+
+  it('should export JSON that reads back as the transcript', () => {
+    expect(JSON.parse(transcriptToJSON(transcript))).toEqual(transcript);
+    expect(renderTranscript(transcript, 'json')).toBe(transcriptToJSON(transcript));
+  });
+
+  it('should export Markdown with a timestamp on each turn and the tools fired', () => {
+    const markdown = transcriptToMarkdown(transcript);
+
+    expect(markdown).toContain('# Conversation transcript');
+    expect(markdown).toContain('- Picture: /images/friendly-elephant.svg');
+    expect(markdown).toContain('- Length: 01:01');
+    expect(markdown).toContain('**[00:01] AI:** Look at this elephant!');
+    expect(markdown).toContain('**[00:05] Child:** It has a big nose');
+    expect(markdown).toContain('- Visual effect: highlight_area (area: "trunk")');
+    expect(markdown).toContain('- Visual effect: show_emoji (emoji: "🐘") [timeout]');
+    expect(markdown).toContain('**[01:05] Child:**');
+  });
+
+  it('should export a printable HTML page with the picture and escaped speech', () => {
+    const html = transcriptToHTML(transcript, 'data:image/svg+xml;base64,PHN2Zz4=');
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<img src="data:image/svg+xml;base64,PHN2Zz4="');
+    expect(html).toContain('@media print');
+    expect(html).toContain('&lt;b&gt;Drinks&lt;/b&gt; water');
+    expect(html).not.toContain('<b>Drinks</b>');
+    expect(html).toContain('Visual effect: highlight_area (area: &quot;trunk&quot;)');
+    expect(renderTranscript(transcript, 'html')).toContain('<img src="/images/friendly-elephant.svg"');
+  });
+
+  it('should list token usage and cost with the details', () => {
+    const withUsage = buildTranscript(messages, {
+      ...session,
+      usage: {
+        requests: 3,
+        promptTokens: 2400,
+        completionTokens: 120,
+        cachedTokens: 1024,
+        costUsd: 0.000328,
+        unpricedModels: ['llama3.2'],
+      },
+    });
+
+    expect(withUsage.usage?.requests).toBe(3);
+    expect(transcript.usage).toBeUndefined();
+    const usageLine = '3 requests, 2,400 prompt tokens (1,024 cached), 120 completion tokens, $0.0003 (no price for llama3.2)';
+    expect(transcriptToMarkdown(withUsage)).toContain(`- Usage: ${usageLine}`);
+    expect(transcriptToHTML(withUsage)).toContain(`Usage ${usageLine}`);
+  });
+
+  it('should name export files after the conversation date', () => {
+    expect(transcriptFileName(transcript, 'markdown')).toBe('transcript-2024-05-01.md');
+    expect(transcriptFileName(transcript, 'html')).toBe('transcript-2024-05-01.html');
+  });
+
+  describe('embedImage', () => {
+    it('should turn the picture into a data URL', async () => {
+      const fetchImpl = jest.fn().mockResolvedValue({
+        ok: true,
+        blob: async () => new Blob(['<svg/>'], { type: 'image/svg+xml' }),
+      });
+
+      await expect(embedImage('/images/elephant.svg', fetchImpl)).resolves.toBe(
+        `data:image/svg+xml;base64,${btoa('<svg/>')}`
+      );
+    });
+
+    it('should fall back to the picture URL when it cannot be fetched', async () => {
+      const fetchImpl = jest.fn().mockRejectedValue(new Error('Network error'));
+
+      await expect(embedImage('/images/elephant.svg', fetchImpl)).resolves.toBe('/images/elephant.svg');
+    });
+  });
+});
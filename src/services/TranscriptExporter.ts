@@ -0,0 +1,336 @@
+/**
+ * TranscriptExporter - A copy of the conversation for parents and teachers
+ *
+ * Builds a Transcript from the orchestrator's message history and session
+ * state, then renders it as:
+ * - JSON following the versioned Transcript schema
+ * - Markdown with a timestamp on each turn
+ * - A printable HTML page with the picture embedded
+ *
+ * Each AI turn lists the visual-effect tools it fired. A turn covers the
+ * whole reply, including follow-up completions after tool calls. The
+ * session's token usage and cost are listed with the other details.
+ *
+ * Requirements: 5.1 (session management)
+ */
+
+import type { Message } from '../types/message';
+import type { SessionState, SessionUsage } from '../types/session';
+import type { ToolResult } from '../types/tool';
+import { TRANSCRIPT_SCHEMA_VERSION } from '../types/transcript';
+import type { Transcript, TranscriptToolUse, TranscriptTurn } from '../types/transcript';
+import { formatCost } from './usageCost';
+
+export type TranscriptFormat = 'json' | 'markdown' | 'html';
+
+export interface TranscriptOptions {
+  childProfileId?: string;
+  /** Defaults to now */
+  exportedAt?: number;
+}
+
+export type ImageFetch = (input: string) => Promise<Response>;
+
+const SPEAKER_LABELS = { child: 'Child', ai: 'AI' } as const;
+
+/**
+ * Build a transcript from a conversation
+ *
+ * System and tool messages are not turns; tool results only supply the
+ * status of the tool calls they answer.
+ *
+ * @param messages - Conversation history, e.g. from ConversationOrchestrator.getMessages()
+ * @param session - Session state, e.g. from ConversationOrchestrator.getSessionState()
+ * @param options - Extra details for the transcript
+ */
+export function buildTranscript(
+  messages: Message[],
+  session: SessionState,
+  options: TranscriptOptions = {}
+): Transcript {
+  const statuses = toolStatuses(messages);
+  const turns: TranscriptTurn[] = [];
+  let previous: TranscriptTurn | null = null;
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      continue;
+    }
+    if (message.role === 'system') {
+      previous = null;
+      continue;
+    }
+
+    const speaker = message.role === 'user' ? 'child' : 'ai';
+    const tools: TranscriptToolUse[] = (message.toolCalls ?? []).map(toolCall => ({
+      name: toolCall.name,
+      arguments: toolCall.arguments,
+      status: statuses.get(toolCall.id),
+    }));
+
+    // Follow-up completions after tool calls continue the same reply
+    if (speaker === 'ai' && previous?.speaker === 'ai') {
+      previous.text = [previous.text, message.content].filter(text => text.length > 0).join(' ');
+      previous.tools.push(...tools);
+      if (message.truncated) {
+        previous.truncated = true;
+      }
+      continue;
+    }
+
+    previous = {
+      speaker,
+      text: message.content,
+      timestamp: message.timestamp,
+      offsetMs: Math.max(0, message.timestamp - session.startTime),
+      tools,
+    };
+    if (message.truncated) {
+      previous.truncated = true;
+    }
+    turns.push(previous);
+  }
+
+  const transcript: Transcript = {
+    schemaVersion: TRANSCRIPT_SCHEMA_VERSION,
+    sessionId: session.sessionId,
+    imageUrl: session.imageContext,
+    status: session.status,
+    startTime: session.startTime,
+    durationMs: session.elapsedMs,
+    targetDurationMs: session.targetDurationMs,
+    exportedAt: options.exportedAt ?? Date.now(),
+    turns,
+  };
+  if (options.childProfileId !== undefined) {
+    transcript.childProfileId = options.childProfileId;
+  }
+  if (session.usage) {
+    transcript.usage = session.usage;
+  }
+  return transcript;
+}
+
+/**
+ * Render a transcript as JSON
+ */
+export function transcriptToJSON(transcript: Transcript): string {
+  return JSON.stringify(transcript, null, 2);
+}
+
+/**
+ * Render a transcript as Markdown
+ *
+ * @example
+ * ```typescript
+ * transcriptToMarkdown(transcript);
+ * // # Conversation transcript
+ * // ...
+ * // **[00:03] AI:** Look at the elephant!
+ * // - Visual effect: highlight_area (area: "trunk")
+ * ```
+ */
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const lines = [
+    '# Conversation transcript',
+    '',
+    `- Picture: ${transcript.imageUrl}`,
+    `- Started: ${formatDateTime(transcript.startTime)}`,
+    `- Length: ${formatOffset(transcript.durationMs)}`,
+  ];
+  if (transcript.childProfileId) {
+    lines.push(`- Child: ${transcript.childProfileId}`);
+  }
+  if (transcript.usage) {
+    lines.push(`- Usage: ${describeUsage(transcript.usage)}`);
+  }
+  lines.push('');
+
+  for (const turn of transcript.turns) {
+    const text = turn.truncated ? `${turn.text} *(interrupted)*` : turn.text;
+    lines.push(`**[${formatOffset(turn.offsetMs)}] ${SPEAKER_LABELS[turn.speaker]}:** ${text}`.trimEnd());
+    for (const tool of turn.tools) {
+      lines.push(`- Visual effect: ${describeTool(tool)}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a transcript as a printable HTML page
+ *
+ * @param transcript - Transcript to render
+ * @param imageSrc - Source for the picture, e.g. a data URL from embedImage(); defaults to the picture's URL
+ */
+export function transcriptToHTML(transcript: Transcript, imageSrc: string = transcript.imageUrl): string {
+  const turns = transcript.turns
+    .map(turn => {
+      const tools = turn.tools.length > 0
+        ? `\n      <ul class="tools">${turn.tools.map(tool => `<li>Visual effect: ${escapeHTML(describeTool(tool))}</li>`).join('')}</ul>`
+        : '';
+      const interrupted = turn.truncated ? ' <em>(interrupted)</em>' : '';
+      return `    <li class="turn ${turn.speaker}">
+      <span class="time">${formatOffset(turn.offsetMs)}</span>
+      <strong>${SPEAKER_LABELS[turn.speaker]}:</strong> ${escapeHTML(turn.text)}${interrupted}${tools}
+    </li>`;
+    })
+    .join('\n');
+
+  const details = [
+    `Started ${escapeHTML(formatDateTime(transcript.startTime))}`,
+    `Length ${formatOffset(transcript.durationMs)}`,
+    ...(transcript.childProfileId ? [`Child ${escapeHTML(transcript.childProfileId)}`] : []),
+    ...(transcript.usage ? [`Usage ${escapeHTML(describeUsage(transcript.usage))}`] : []),
+  ].join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Conversation transcript</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #1f2937; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+    img { display: block; max-width: 100%; max-height: 20rem; margin: 1rem auto; border-radius: 0.75rem; }
+    ol { list-style: none; padding: 0; }
+    .turn { margin: 0.75rem 0; break-inside: avoid; }
+    .time { color: #6b7280; font-family: monospace; margin-right: 0.5rem; }
+    .ai strong { color: #2563eb; }
+    .child strong { color: #16a34a; }
+    .tools { margin: 0.25rem 0 0 3.5rem; color: #6b7280; font-size: 0.875rem; }
+    @media print { body { margin: 0; max-width: none; } }
+  </style>
+</head>
+<body>
+  <h1>Conversation transcript</h1>
+  <p>${details}</p>
+  <img src="${escapeHTML(imageSrc)}" alt="Picture the conversation was about">
+  <ol>
+${turns}
+  </ol>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a transcript in any export format
+ *
+ * @param transcript - Transcript to render
+ * @param format - Export format
+ * @param imageSrc - Picture source for HTML, see transcriptToHTML()
+ */
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat, imageSrc?: string): string {
+  switch (format) {
+    case 'json':
+      return transcriptToJSON(transcript);
+    case 'markdown':
+      return transcriptToMarkdown(transcript);
+    case 'html':
+      return transcriptToHTML(transcript, imageSrc);
+  }
+}
+
+/**
+ * Fetch a picture as a data URL so an exported page works offline
+ *
+ * @param imageUrl - Picture to embed
+ * @param fetchImpl - Fetch implementation, defaults to the browser's
+ * @returns Data URL, or the original URL if the picture can't be fetched
+ */
+export async function embedImage(imageUrl: string, fetchImpl: ImageFetch = (input) => fetch(input)): Promise<string> {
+  try {
+    const response = await fetchImpl(imageUrl);
+    if (!response.ok) {
+      return imageUrl;
+    }
+    return await readAsDataURL(await response.blob());
+  } catch {
+    return imageUrl;
+  }
+}
+
+/**
+ * File name for a transcript export, e.g. "transcript-2024-05-01.md"
+ */
+export function transcriptFileName(transcript: Transcript, format: TranscriptFormat): string {
+  const extension = { json: 'json', markdown: 'md', html: 'html' }[format];
+  return `transcript-${new Date(transcript.startTime).toISOString().slice(0, 10)}.${extension}`;
+}
+
+function readAsDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Status of each tool call, from the tool messages answering them
+ */
+function toolStatuses(messages: Message[]): Map<string, ToolResult['status']> {
+  const statuses = new Map<string, ToolResult['status']>();
+  for (const message of messages) {
+    if (message.role !== 'tool' || !message.toolCallId) {
+      continue;
+    }
+    try {
+      const result = JSON.parse(message.content) as Partial<ToolResult>;
+      if (result.status) {
+        statuses.set(message.toolCallId, result.status);
+      }
+    } catch {
+      // Not a structured result; leave the status out
+    }
+  }
+  return statuses;
+}
+
+function describeTool(tool: TranscriptToolUse): string {
+  const args = Object.entries(tool.arguments)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(', ');
+  const failed = tool.status && tool.status !== 'success' ? ` [${tool.status}]` : '';
+  return `${tool.name}${args ? ` (${args})` : ''}${failed}`;
+}
+
+/**
+ * Describe token usage and cost, e.g. "3 requests, 2,000 prompt tokens
+ * (200 cached), 100 completion tokens, $0.0002"
+ */
+function describeUsage(usage: SessionUsage): string {
+  const cached = usage.cachedTokens > 0 ? ` (${usage.cachedTokens.toLocaleString('en-US')} cached)` : '';
+  const unpriced = usage.unpricedModels.length > 0 ? ` (no price for ${usage.unpricedModels.join(', ')})` : '';
+  return [
+    `${usage.requests} ${usage.requests === 1 ? 'request' : 'requests'}`,
+    `${usage.promptTokens.toLocaleString('en-US')} prompt tokens${cached}`,
+    `${usage.completionTokens.toLocaleString('en-US')} completion tokens`,
+    `${formatCost(usage.costUsd)}${unpriced}`,
+  ].join(', ');
+}
+
+/**
+ * Format a duration as MM:SS, like TimerDisplay
+ */
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for VoiceActivityDetector
+ */
+
+import { VoiceActivityDetector } from './VoiceActivityDetector';
+import type { AudioLevelSource } from './VoiceActivityDetector';
+
+describe('VoiceActivityDetector', () => {
+  const stream = {} as MediaStream;
+  let level: number;
+  let levelSource: AudioLevelSource;
+  let detector: VoiceActivityDetector;
+  let onSpeechStart: jest.Mock;
+  let onSpeechEnd: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    level = 0;
+    levelSource = { getLevel: () => level, close: jest.fn() };
+    detector = new VoiceActivityDetector({ energyThreshold: 0.05, sampleIntervalMs: 50, holdMs: 100 }, () => levelSource);
+    onSpeechStart = jest.fn();
+    onSpeechEnd = jest.fn();
+    detector.onSpeechStart(onSpeechStart);
+    detector.onSpeechEnd(onSpeechEnd);
+  });
+
+  afterEach(() => {
+    detector.stop();
+    jest.useRealTimers();
+  });
+
+  it('should report speech once the level stays above the threshold', () => {
+    detector.start(stream);
+    level = 0.2;
+
+    jest.advanceTimersByTime(100);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    expect(detector.isSpeechActive()).toBe(true);
+  });
+
+  it('should report the end of speech once the level stays below the threshold', () => {
+    detector.start(stream);
+    level = 0.2;
+    jest.advanceTimersByTime(200);
+
+    level = 0.01;
+    jest.advanceTimersByTime(200);
+
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    expect(detector.isSpeechActive()).toBe(false);
+  });
+
+  it('should ignore blips shorter than the hold time', () => {
+    detector.start(stream);
+    level = 0.2;
+    jest.advanceTimersByTime(50);
+    level = 0;
+    jest.advanceTimersByTime(500);
+
+    expect(onSpeechStart).not.toHaveBeenCalled();
+  });
+
+  it('should release the level source and end speech when stopped', () => {
+    detector.start(stream);
+    level = 0.2;
+    jest.advanceTimersByTime(200);
+
+    detector.stop();
+
+    expect(levelSource.close).toHaveBeenCalled();
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log and stay stopped when audio analysis is unavailable', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failingDetector = new VoiceActivityDetector({}, () => {
+      throw new Error('AudioContext is not defined');
+    });
+    failingDetector.onSpeechStart(onSpeechStart);
+
+    failingDetector.start(stream);
+    jest.advanceTimersByTime(1000);
+
+    expect(onSpeechStart).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+  });
+});
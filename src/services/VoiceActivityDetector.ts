@@ -0,0 +1,195 @@
+/**
+ * VoiceActivityDetector - Energy-based voice activity detection
+ *
+ * Samples the microphone level through a Web Audio AnalyserNode and reports
+ * when the child starts and stops making sound. A state change only counts
+ * once it has held for `holdMs`, so a single loud click or the gap between
+ * two syllables doesn't flip it.
+ *
+ * Requirements: 3.1 (speech capture)
+ */
+
+import { logError } from '../utils/errorLogger';
+
+export interface VoiceActivityOptions {
+  /** RMS level (0-1) above which a sample counts as voice */
+  energyThreshold?: number;
+  /** How often the microphone level is sampled */
+  sampleIntervalMs?: number;
+  /** How long a new state must hold before it is reported */
+  holdMs?: number;
+}
+
+/**
+ * Source of microphone levels, abstracted so detection can run without
+ * Web Audio (in tests, or with another capture pipeline)
+ */
+export interface AudioLevelSource {
+  /** Current RMS level between 0 and 1 */
+  getLevel(): number;
+  close(): void;
+}
+
+export type AudioLevelSourceFactory = (stream: MediaStream) => AudioLevelSource;
+
+const DEFAULT_OPTIONS: Required<VoiceActivityOptions> = {
+  energyThreshold: 0.02,
+  sampleIntervalMs: 50,
+  holdMs: 150,
+};
+
+/**
+ * Measure a media stream's level with a Web Audio AnalyserNode
+ *
+ * @param stream - Microphone stream from getUserMedia
+ * @returns Level source; close() releases the AudioContext
+ */
+export function createAnalyserLevelSource(stream: MediaStream): AudioLevelSource {
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    getLevel: () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sumOfSquares = 0;
+      for (const sample of samples) {
+        sumOfSquares += sample * sample;
+      }
+      return Math.sqrt(sumOfSquares / samples.length);
+    },
+    close: () => {
+      audioContext.close().catch(() => {
+        // Already closed
+      });
+    },
+  };
+}
+
+export class VoiceActivityDetector {
+  private options: Required<VoiceActivityOptions>;
+  private createLevelSource: AudioLevelSourceFactory;
+  private levelSource: AudioLevelSource | null = null;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private speechActive: boolean = false;
+  private pendingStateSince: number | null = null;
+  private speechStartCallback: (() => void) | null = null;
+  private speechEndCallback: (() => void) | null = null;
+
+  constructor(
+    options: VoiceActivityOptions = {},
+    createLevelSource: AudioLevelSourceFactory = createAnalyserLevelSource
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.createLevelSource = createLevelSource;
+  }
+
+  /**
+   * Start detecting voice activity on a microphone stream
+   *
+   * Restarts detection if it is already running. Failures to set up audio
+   * analysis are logged and leave the detector stopped.
+   *
+   * @param stream - Microphone stream from getUserMedia
+   *
+   * @example
+   * ```typescript
+   * const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+   * detector.start(stream);
+   * ```
+   */
+  start(stream: MediaStream): void {
+    this.stop();
+
+    try {
+      this.levelSource = this.createLevelSource(stream);
+    } catch (error) {
+      logError(
+        'microphone_error',
+        'Could not analyse microphone audio for voice activity',
+        { component: 'VoiceActivityDetector', action: 'start' },
+        error
+      );
+      return;
+    }
+
+    this.intervalId = setInterval(() => this.sample(), this.options.sampleIntervalMs);
+  }
+
+  /**
+   * Stop detecting and release the audio analysis
+   *
+   * Reports the end of speech if the child was mid-utterance.
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    if (this.levelSource) {
+      this.levelSource.close();
+      this.levelSource = null;
+    }
+
+    this.pendingStateSince = null;
+    if (this.speechActive) {
+      this.speechActive = false;
+      this.speechEndCallback?.();
+    }
+  }
+
+  /**
+   * Register callback for when the child starts making sound
+   */
+  onSpeechStart(callback: () => void): void {
+    this.speechStartCallback = callback;
+  }
+
+  /**
+   * Register callback for when the child goes quiet
+   */
+  onSpeechEnd(callback: () => void): void {
+    this.speechEndCallback = callback;
+  }
+
+  /**
+   * Check whether detection is running (started and audio analysis available)
+   */
+  isRunning(): boolean {
+    return this.intervalId !== null;
+  }
+
+  /**
+   * Check whether the child is currently making sound
+   */
+  isSpeechActive(): boolean {
+    return this.speechActive;
+  }
+
+  private sample(): void {
+    if (!this.levelSource) return;
+
+    const voiced = this.levelSource.getLevel() >= this.options.energyThreshold;
+    if (voiced === this.speechActive) {
+      this.pendingStateSince = null;
+      return;
+    }
+
+    const now = Date.now();
+    this.pendingStateSince ??= now;
+    if (now - this.pendingStateSince < this.options.holdMs) {
+      return;
+    }
+
+    this.pendingStateSince = null;
+    this.speechActive = voiced;
+    if (voiced) {
+      this.speechStartCallback?.();
+    } else {
+      this.speechEndCallback?.();
+    }
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for WhisperSpeechToTextHandler
+ */
+
+import { WhisperSpeechToTextHandler } from './WhisperSpeechToTextHandler';
+import { VoiceActivityDetector } from './VoiceActivityDetector';
+import type { STTConfig } from '../types/config';
+
+class FakeRecorder {
+  state: 'inactive' | 'recording' = 'inactive';
+  mimeType = 'audio/webm;codecs=opus';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['audio'], { type: this.mimeType }) });
+    this.onstop?.();
+  }
+}
+
+describe('WhisperSpeechToTextHandler', () => {
+  const config: STTConfig = { language: 'en-US', continuous: true, interimResults: false };
+  const track = { stop: jest.fn() };
+  const stream = { getTracks: () => [track] } as unknown as MediaStream;
+
+  let level: number;
+  let recorders: FakeRecorder[];
+  let fetchImpl: jest.Mock;
+  let handler: WhisperSpeechToTextHandler;
+  let onTranscript: jest.Mock;
+  let onError: jest.Mock;
+
+  const transcription = (body: object) => ({ ok: true, status: 200, statusText: 'OK', json: async () => body });
+
+  const createHandler = (withVoiceActivity = true) => {
+    handler = new WhisperSpeechToTextHandler({
+      apiKey: 'test-key',
+      baseUrl: 'https://whisper.example/v1/',
+      maxSegmentMs: 10000,
+      fetchImpl,
+      getUserMedia: jest.fn().mockResolvedValue(stream),
+      createRecorder: () => {
+        const recorder = new FakeRecorder();
+        recorders.push(recorder);
+        return recorder as unknown as MediaRecorder;
+      },
+      createVoiceActivityDetector: () =>
+        new VoiceActivityDetector({ energyThreshold: 0.05, sampleIntervalMs: 50, holdMs: 100 }, () => {
+          if (!withVoiceActivity) throw new Error('AudioContext is not defined');
+          return { getLevel: () => level, close: jest.fn() };
+        }),
+    });
+    handler.onTranscript(onTranscript);
+    handler.onError(onError);
+  };
+
+  // Let the microphone promise and queued transcriptions settle
+  const flushPromises = async () => {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  const speak = async () => {
+    level = 0.2;
+    jest.advanceTimersByTime(200);
+    level = 0;
+    jest.advanceTimersByTime(200);
+    await flushPromises();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    level = 0;
+    recorders = [];
+    track.stop.mockClear();
+    fetchImpl = jest.fn().mockResolvedValue(
+      transcription({ text: ' I see an elephant ', segments: [{ avg_logprob: -0.1, no_speech_prob: 0.01 }] })
+    );
+    onTranscript = jest.fn();
+    onError = jest.fn();
+    createHandler();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send each utterance to the transcription endpoint and emit a final transcript', async () => {
+    await handler.initialize(config);
+    handler.startListening();
+    await flushPromises();
+
+    await speak();
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://whisper.example/v1/audio/transcriptions');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toEqual({ Authorization: 'Bearer test-key' });
+    const body = init.body as FormData;
+    expect(body.get('model')).toBe('whisper-1');
+    expect(body.get('language')).toBe('en');
+    expect((body.get('file') as File).name).toBe('speech.webm');
+
+    expect(onTranscript).toHaveBeenCalledTimes(1);
+    const result = onTranscript.mock.calls[0][0];
+    expect(result.text).toBe('I see an elephant');
+    expect(result.isFinal).toBe(true);
+    expect(result.confidence).toBeCloseTo(Math.exp(-0.1));
+
+    // A fresh recorder picks up the next utterance
+    expect(recorders).toHaveLength(2);
+    expect(recorders[1].state).toBe('recording');
+  });
+
+  it('should not send segments without speech', async () => {
+    await handler.initialize(config);
+    handler.startListening();
+    await flushPromises();
+
+    jest.advanceTimersByTime(10000);
+    handler.stopListening();
+    await flushPromises();
+
+    expect(recorders.length).toBeGreaterThan(1);
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it('should send every segment when voice activity detection is unavailable', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    createHandler(false);
+    await handler.initialize(config);
+    handler.startListening();
+    await flushPromises();
+
+    handler.stopListening();
+    await flushPromises();
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(onTranscript).toHaveBeenCalledTimes(1);
+    expect(track.stop).toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should drop transcriptions of silence', async () => {
+    fetchImpl.mockResolvedValue(transcription({ text: 'Thank you.', segments: [{ avg_logprob: -1, no_speech_prob: 0.9 }] }));
+    await handler.initialize(config);
+    handler.startListening();
+    await flushPromises();
+
+    await speak();
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(onTranscript).not.toHaveBeenCalled();
+  });
+
+  it('should merge utterances into one turn when endpointing is configured', async () => {
+    fetchImpl
+      .mockResolvedValueOnce(transcription({ text: 'I see a' }))
+      .mockResolvedValueOnce(transcription({ text: 'big elephant' }));
+    await handler.initialize({ ...config, endpointing: { silenceTimeoutMs: 1500 } });
+    handler.startListening();
+    await flushPromises();
+
+    await speak();
+    await speak();
+    expect(onTranscript).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1500);
+    expect(onTranscript).toHaveBeenCalledWith({ text: 'I see a big elephant', isFinal: true, confidence: 1 });
+  });
+
+  it('should log and report failed transcription requests', async () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    fetchImpl.mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized', json: async () => ({}) });
+    await handler.initialize(config);
+    handler.startListening();
+    await flushPromises();
+
+    await speak();
+
+    expect(onTranscript).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('401') }));
+    expect(consoleErrorSpy).toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('should require initialization before listening', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => handler.startListening()).toThrow('not initialized');
+    consoleErrorSpy.mockRestore();
+  });
+});
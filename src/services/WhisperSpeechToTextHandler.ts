@@ -0,0 +1,380 @@
+/**
+ * WhisperSpeechToTextHandler - Speech recognition through a Whisper-compatible HTTP API
+ *
+ * Records the microphone with MediaRecorder and posts each utterance to an
+ * OpenAI-style `/audio/transcriptions` endpoint (OpenAI, faster-whisper-server,
+ * whisper.cpp server, ...). Works in browsers without the Web Speech API and
+ * copes better with children's voices.
+ *
+ * Voice activity detection cuts the recording into utterances: each segment
+ * ends when the child goes quiet, or after `maxSegmentMs`. Every segment gets
+ * a fresh MediaRecorder so each upload is a complete audio file. Segments
+ * without any detected speech are not sent, which keeps Whisper from
+ * hallucinating text out of silence.
+ *
+ * Only final results are emitted; Whisper has no interim results.
+ *
+ * Validates Requirements 3.1, 3.4
+ */
+
+import type { SpeechToTextHandler, TranscriptResult } from '../types/services';
+import type { STTConfig } from '../types/config';
+import { logError } from '../utils/errorLogger';
+import { SpeechEndpointer, getSilenceTimeoutForAge } from './SpeechEndpointer';
+import { VoiceActivityDetector } from './VoiceActivityDetector';
+
+export const WHISPER_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const WHISPER_DEFAULT_MODEL = 'whisper-1';
+
+/**
+ * Segments where Whisper is at least this sure nothing was said are dropped
+ */
+const NO_SPEECH_PROBABILITY_THRESHOLD = 0.6;
+
+export interface WhisperSTTOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  /** Longest stretch of audio sent in one request */
+  maxSegmentMs?: number;
+  fetchImpl?: typeof fetch;
+  getUserMedia?: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  createRecorder?: (stream: MediaStream) => MediaRecorder;
+  createVoiceActivityDetector?: () => VoiceActivityDetector;
+}
+
+/**
+ * Response of `/audio/transcriptions` with `response_format=verbose_json`;
+ * servers that only support `json` return just `text`
+ */
+interface WhisperTranscription {
+  text?: string;
+  segments?: Array<{ avg_logprob?: number; no_speech_prob?: number }>;
+}
+
+/**
+ * One stretch of recording, uploaded as its own audio file
+ */
+interface RecordingSegment {
+  recorder: MediaRecorder;
+  hadSpeech: boolean;
+}
+
+export class WhisperSpeechToTextHandler implements SpeechToTextHandler {
+  private options: Required<Omit<WhisperSTTOptions, 'apiKey'>> & { apiKey?: string };
+  private recordingSupported: boolean;
+  private config: STTConfig | null = null;
+  private transcriptCallback: ((result: TranscriptResult) => void) | null = null;
+  private errorCallback: ((error: Error) => void) | null = null;
+  private isListening: boolean = false;
+  private endpointer: SpeechEndpointer | null = null;
+  private voiceActivityDetector: VoiceActivityDetector;
+  private microphoneStream: MediaStream | null = null;
+  private microphoneRequestId: number = 0;
+  private segment: RecordingSegment | null = null;
+  private segmentTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private transcriptionQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: WhisperSTTOptions = {}) {
+    this.recordingSupported =
+      (options.createRecorder !== undefined || typeof MediaRecorder !== 'undefined') &&
+      (options.getUserMedia !== undefined || typeof navigator.mediaDevices?.getUserMedia === 'function');
+    this.options = {
+      apiKey: options.apiKey,
+      baseUrl: (options.baseUrl || WHISPER_DEFAULT_BASE_URL).replace(/\/+$/, ''),
+      model: options.model || WHISPER_DEFAULT_MODEL,
+      maxSegmentMs: options.maxSegmentMs ?? 15000,
+      fetchImpl: options.fetchImpl ?? ((input, init) => fetch(input, init)),
+      getUserMedia: options.getUserMedia ?? (constraints => navigator.mediaDevices.getUserMedia(constraints)),
+      createRecorder: options.createRecorder ?? (stream => new MediaRecorder(stream)),
+      createVoiceActivityDetector: options.createVoiceActivityDetector ?? (() => new VoiceActivityDetector()),
+    };
+
+    this.voiceActivityDetector = this.options.createVoiceActivityDetector();
+    this.voiceActivityDetector.onSpeechStart(() => {
+      if (this.segment) {
+        this.segment.hadSpeech = true;
+      }
+      this.endpointer?.handleVoiceActivity(true);
+    });
+    this.voiceActivityDetector.onSpeechEnd(() => {
+      this.endpointer?.handleVoiceActivity(false);
+      this.endSegment();
+    });
+  }
+
+  /**
+   * Initialize recording and transcription
+   *
+   * @param config - STT configuration; `continuous` and `interimResults` do not apply
+   * @throws Error if audio recording is not supported in this browser
+   *
+   * @example
+   * ```typescript
+   * const sttHandler = new WhisperSpeechToTextHandler({ apiKey });
+   * await sttHandler.initialize({ language: 'en-US', continuous: true, interimResults: false });
+   * ```
+   */
+  async initialize(config: STTConfig): Promise<void> {
+    if (!this.recordingSupported) {
+      const error = new Error('Audio recording is not supported in this browser');
+      logError('speech_recognition_error', error.message, { component: 'WhisperSpeechToTextHandler', action: 'initialize' });
+      throw error;
+    }
+
+    this.config = config;
+    this.endpointer = null;
+    if (config.endpointing) {
+      const silenceTimeoutMs =
+        config.endpointing.silenceTimeoutMs ?? getSilenceTimeoutForAge(config.endpointing.childAge);
+      this.endpointer = new SpeechEndpointer(silenceTimeoutMs, (result) => {
+        this.transcriptCallback?.(result);
+      });
+    }
+  }
+
+  /**
+   * Start recording the child
+   *
+   * Opens the microphone asynchronously; failures are logged and reported
+   * through the error callback.
+   *
+   * @throws Error if the handler is not initialized
+   */
+  startListening(): void {
+    if (!this.config) {
+      const error = new Error('Speech recognition not initialized. Call initialize() first.');
+      logError('speech_recognition_error', error.message, { component: 'WhisperSpeechToTextHandler', action: 'startListening' });
+      throw error;
+    }
+
+    if (this.isListening) {
+      return;
+    }
+    this.isListening = true;
+
+    const requestId = ++this.microphoneRequestId;
+    this.options
+      .getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then((stream) => {
+        // Listening stopped while the microphone was opening
+        if (requestId !== this.microphoneRequestId || !this.isListening) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        this.microphoneStream = stream;
+        this.voiceActivityDetector.start(stream);
+        this.startSegment();
+      })
+      .catch((error) => {
+        this.isListening = false;
+        this.reportError('Could not open microphone for speech recognition', 'startListening', error);
+      });
+  }
+
+  /**
+   * Stop recording
+   *
+   * The audio recorded so far is still transcribed, and any turn held back
+   * by endpointing ends once that transcription arrives.
+   *
+   * @throws Error if the handler is not initialized
+   */
+  stopListening(): void {
+    if (!this.config) {
+      const error = new Error('Speech recognition not initialized. Call initialize() first.');
+      logError('speech_recognition_error', error.message, { component: 'WhisperSpeechToTextHandler', action: 'stopListening' });
+      throw error;
+    }
+
+    if (!this.isListening) {
+      return;
+    }
+
+    this.isListening = false;
+    this.microphoneRequestId++;
+    this.endSegment();
+    this.voiceActivityDetector.stop();
+    this.microphoneStream?.getTracks().forEach(track => track.stop());
+    this.microphoneStream = null;
+
+    // Don't lose what the child said before listening stopped
+    this.transcriptionQueue = this.transcriptionQueue.then(() => this.endpointer?.flush());
+  }
+
+  onTranscript(callback: (result: TranscriptResult) => void): void {
+    this.transcriptCallback = callback;
+  }
+
+  onError(callback: (error: Error) => void): void {
+    this.errorCallback = callback;
+  }
+
+  isCurrentlyListening(): boolean {
+    return this.isListening;
+  }
+
+  /**
+   * Start recording a new segment
+   *
+   * @private
+   */
+  private startSegment(): void {
+    if (!this.microphoneStream) return;
+
+    const recorder = this.options.createRecorder(this.microphoneStream);
+    const chunks: Blob[] = [];
+    const segment: RecordingSegment = {
+      recorder,
+      // Speech that is still going on belongs to this segment too, and
+      // without voice activity detection every segment has to be sent
+      hadSpeech: this.voiceActivityDetector.isSpeechActive() || !this.voiceActivityDetector.isRunning(),
+    };
+
+    recorder.ondataavailable = (event: BlobEvent) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    recorder.onstop = () => {
+      if (segment.hadSpeech && chunks.length > 0) {
+        this.queueTranscription(new Blob(chunks, { type: recorder.mimeType }));
+      }
+    };
+
+    this.segment = segment;
+    recorder.start();
+    this.segmentTimeoutId = setTimeout(() => this.endSegment(), this.options.maxSegmentMs);
+  }
+
+  /**
+   * Finish the current segment and, while listening, start the next one
+   *
+   * @private
+   */
+  private endSegment(): void {
+    if (this.segmentTimeoutId) {
+      clearTimeout(this.segmentTimeoutId);
+      this.segmentTimeoutId = null;
+    }
+
+    const segment = this.segment;
+    if (!segment) return;
+
+    this.segment = null;
+    if (segment.recorder.state !== 'inactive') {
+      segment.recorder.stop();
+    }
+
+    if (this.isListening) {
+      this.startSegment();
+    }
+  }
+
+  /**
+   * Transcribe a segment, emitting results in recording order
+   *
+   * Requests run in parallel; results wait for the ones before them.
+   *
+   * @param audio - Recorded segment
+   * @private
+   */
+  private queueTranscription(audio: Blob): void {
+    const transcription = this.transcribe(audio);
+    this.transcriptionQueue = this.transcriptionQueue.then(async () => {
+      const result = await transcription;
+      if (!result) return;
+
+      if (this.endpointer) {
+        this.endpointer.handleTranscript(result);
+      } else {
+        this.transcriptCallback?.(result);
+      }
+    });
+  }
+
+  /**
+   * Post a segment to the transcription endpoint
+   *
+   * @param audio - Recorded segment
+   * @returns The final transcript, or null if nothing was said or the request failed
+   * @private
+   */
+  private async transcribe(audio: Blob): Promise<TranscriptResult | null> {
+    const body = new FormData();
+    body.append('file', audio, `speech.${getFileExtension(audio.type)}`);
+    body.append('model', this.options.model);
+    body.append('response_format', 'verbose_json');
+    const language = this.config?.language.split('-')[0];
+    if (language) {
+      body.append('language', language);
+    }
+
+    try {
+      const response = await this.options.fetchImpl(`${this.options.baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : undefined,
+        body,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+
+      return parseTranscription((await response.json()) as WhisperTranscription);
+    } catch (error) {
+      this.reportError('Speech transcription request failed', 'transcribe', error);
+      return null;
+    }
+  }
+
+  private reportError(message: string, action: string, error: unknown): void {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logError(
+      'speech_recognition_error',
+      message,
+      {
+        component: 'WhisperSpeechToTextHandler',
+        action,
+        additionalData: { baseUrl: this.options.baseUrl, model: this.options.model },
+      },
+      error
+    );
+
+    if (this.errorCallback) {
+      this.errorCallback(new Error(`${message}: ${errorMessage}`));
+    }
+  }
+}
+
+/**
+ * Turn a Whisper response into a final transcript
+ *
+ * Confidence is the mean token probability when the server reports segment
+ * log probabilities, and 1 otherwise.
+ */
+function parseTranscription(data: WhisperTranscription): TranscriptResult | null {
+  const text = data.text?.trim() ?? '';
+  const segments = data.segments ?? [];
+
+  const saidNothing =
+    segments.length > 0 &&
+    segments.every(segment => (segment.no_speech_prob ?? 0) > NO_SPEECH_PROBABILITY_THRESHOLD);
+  if (text.length === 0 || saidNothing) {
+    return null;
+  }
+
+  const logProbabilities = segments
+    .map(segment => segment.avg_logprob)
+    .filter((logProbability): logProbability is number => typeof logProbability === 'number');
+  const confidence = logProbabilities.length > 0
+    ? Math.min(1, Math.exp(logProbabilities.reduce((sum, value) => sum + value, 0) / logProbabilities.length))
+    : 1;
+
+  return { text, isFinal: true, confidence };
+}
+
+function getFileExtension(mimeType: string): string {
+  const subtype = mimeType.split(';')[0].split('/')[1];
+  return subtype || 'webm';
+}
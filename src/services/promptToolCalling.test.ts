@@ -0,0 +1,92 @@
+/**
+ * Unit tests for prompt-based tool calling helpers
+ */
+
+import { extractToolIntents, formatToolIntent, formatToolsForPrompt, toPromptToolMessages } from './promptToolCalling';
+import { getAllVisualEffectTools } from './visualEffectTools';
+import type { Tool } from '../types/services';
+
+describe('promptToolCalling', () => {
+  const tools: Tool[] = getAllVisualEffectTools().map(({ name, description, parameters }) => ({
+    name,
+    description,
+    parameters,
+  }));
+
+  describe('formatToolsForPrompt', () => {
+    it('should describe every visual effect tool with its parameters', () => {
+      const prompt = formatToolsForPrompt(tools);
+
+      for (const tool of tools) {
+        expect(prompt).toContain(`- ${tool.name}: ${tool.description}`);
+      }
+      expect(prompt).toContain('- area (string, one of "top", "bottom"');
+      expect(prompt).toContain('- size (string, one of "small", "medium", "large", default "medium", optional)');
+      expect(prompt).toContain('[[tool_name {"argument": "value"}]]');
+    });
+
+    it('should return an empty string when there are no tools', () => {
+      expect(formatToolsForPrompt([])).toBe('');
+    });
+  });
+
+  describe('extractToolIntents', () => {
+    it('should extract tool intents and strip them from the content', () => {
+      const result = extractToolIntents(
+        'Look at the trunk! [[highlight_image_area {"area": "center"}]] Can you see it? [[show_emoji {"emoji": "🐘"}]]',
+        tools
+      );
+
+      expect(result.content).toBe('Look at the trunk! Can you see it?');
+      expect(result.toolCalls).toEqual([
+        { id: 'prompt_call_0', name: 'highlight_image_area', arguments: { area: 'center' } },
+        { id: 'prompt_call_1', name: 'show_emoji', arguments: { emoji: '🐘' } },
+      ]);
+    });
+
+    it('should accept intents without arguments and tolerate malformed JSON', () => {
+      const result = extractToolIntents('Yay [[show_animation]] and [[show_emoji {emoji: 🎉}]]', tools);
+
+      expect(result.toolCalls.map(tc => tc.arguments)).toEqual([{}, {}]);
+    });
+
+    it('should drop intents for unknown tools', () => {
+      const result = extractToolIntents('Hello [[launch_rocket {"speed": 9}]] there', tools);
+
+      expect(result.content).toBe('Hello there');
+      expect(result.toolCalls).toEqual([]);
+    });
+
+    it('should hide an unfinished intent at the end of the text', () => {
+      const result = extractToolIntents('So pretty! [[show_emoji {"emo', tools);
+
+      expect(result.content).toBe('So pretty!');
+      expect(result.toolCalls).toEqual([]);
+    });
+  });
+
+  describe('toPromptToolMessages', () => {
+    it('should fold assistant tool calls into the message text', () => {
+      const toolCall = { id: 'call_1', name: 'zoom_image', arguments: { level: 'in' } };
+
+      const [user, assistant] = toPromptToolMessages([
+        { role: 'user', content: 'Hi', timestamp: 1 },
+        { role: 'assistant', content: '', timestamp: 2, toolCalls: [toolCall] },
+      ]);
+
+      expect(user).toEqual({ role: 'user', content: 'Hi', timestamp: 1 });
+      expect(assistant.content).toBe(formatToolIntent(toolCall));
+      expect(assistant.toolCalls).toBeUndefined();
+    });
+
+    it('should drop tool result messages', () => {
+      const converted = toPromptToolMessages([
+        { role: 'assistant', content: '', timestamp: 1, toolCalls: [{ id: 'call_1', name: 'zoom_image', arguments: {} }] },
+        { role: 'tool', content: '{"status":"success"}', timestamp: 2, toolCallId: 'call_1' },
+        { role: 'user', content: 'Wow', timestamp: 3 },
+      ]);
+
+      expect(converted.map(message => message.role)).toEqual(['assistant', 'user']);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Prompt-based tool calling
+ *
+ * Fallback for models that cannot use native function calling: tools are
+ * described in the system prompt and the model writes tool intents inline,
+ * e.g. `[[show_emoji {"emoji": "🐘"}]]`. The intents are parsed back into
+ * ToolCalls and stripped from the text that gets spoken.
+ */
+
+import type { Message, ToolCall } from '../types/message';
+import type { Tool } from '../types/services';
+
+const TOOL_INTENT_PATTERN = /\[\[\s*([A-Za-z_][\w-]*)\s*(\{[\s\S]*?\})?\s*\]\]/g;
+
+interface ToolParameterSchema {
+  type?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+}
+
+/**
+ * Describe tools for inclusion in a system prompt
+ *
+ * @param tools - Tools the model may invoke
+ * @returns Prompt section explaining the inline tool intent syntax and each tool
+ */
+export function formatToolsForPrompt(tools: Tool[]): string {
+  if (tools.length === 0) {
+    return '';
+  }
+
+  const toolLines = tools.map(tool => {
+    const schema = tool.parameters as { properties?: Record<string, ToolParameterSchema>; required?: string[] };
+    const required = schema.required ?? [];
+    const params = Object.entries(schema.properties ?? {}).map(([name, param]) => {
+      const details: string[] = [param.type ?? 'string'];
+      if (param.enum) {
+        details.push(`one of ${param.enum.map(value => JSON.stringify(value)).join(', ')}`);
+      }
+      if (param.default !== undefined) {
+        details.push(`default ${JSON.stringify(param.default)}`);
+      }
+      details.push(required.includes(name) ? 'required' : 'optional');
+      return `    - ${name} (${details.join(', ')})${param.description ? `: ${param.description}` : ''}`;
+    });
+
+    return [`- ${tool.name}: ${tool.description}`, ...params].join('\n');
+  });
+
+  return `VISUAL EFFECT TOOLS:
+You can trigger visual effects by writing a tool intent anywhere in your reply, using this exact format:
+[[tool_name {"argument": "value"}]]
+For example: [[show_emoji {"emoji": "🐘"}]]
+Tool intents are not read aloud. Use at most two per reply.
+
+Available tools:
+${toolLines.join('\n')}`;
+}
+
+/**
+ * Format a tool call as an inline tool intent
+ *
+ * @param toolCall - The tool call to format
+ * @returns Tool intent text, e.g. `[[show_emoji {"emoji":"🐘"}]]`
+ */
+export function formatToolIntent(toolCall: ToolCall): string {
+  return `[[${toolCall.name} ${JSON.stringify(toolCall.arguments)}]]`;
+}
+
+/**
+ * Extract tool intents from a model reply
+ *
+ * Intents naming unknown tools are dropped from the text but not returned.
+ * Arguments that are not valid JSON become an empty object. An unfinished
+ * intent at the end of the text (while streaming) is hidden from the content.
+ *
+ * @param text - Raw model reply
+ * @param tools - Tools the model was offered
+ * @param idPrefix - Prefix for generated tool call ids
+ * @returns Reply text without intents and the parsed tool calls
+ */
+export function extractToolIntents(
+  text: string,
+  tools: Tool[],
+  idPrefix: string = 'prompt_call'
+): { content: string; toolCalls: ToolCall[] } {
+  const toolNames = new Set(tools.map(tool => tool.name));
+  const toolCalls: ToolCall[] = [];
+
+  let content = text.replace(TOOL_INTENT_PATTERN, (_match, name: string, argsJson?: string) => {
+    if (toolNames.has(name)) {
+      let args = {};
+      if (argsJson) {
+        try {
+          args = JSON.parse(argsJson);
+        } catch {
+          // Malformed arguments, let the tool apply its defaults
+        }
+      }
+      toolCalls.push({ id: `${idPrefix}_${toolCalls.length}`, name, arguments: args });
+    }
+    return '';
+  });
+
+  const unfinishedIntent = content.lastIndexOf('[[');
+  if (unfinishedIntent !== -1 && !content.includes(']]', unfinishedIntent)) {
+    content = content.slice(0, unfinishedIntent);
+  }
+
+  return {
+    content: content.replace(/[ \t]{2,}/g, ' ').replace(/\s+([.,!?])/g, '$1').trim(),
+    toolCalls,
+  };
+}
+
+/**
+ * Rewrite conversation history for prompt-based tool calling
+ *
+ * Assistant tool calls are folded back into the message text as tool
+ * intents, so the model sees its earlier effects in the same syntax it is
+ * asked to produce. Tool result messages are dropped: servers without tool
+ * support reject the `tool` role, and prompt-based intents never wait for
+ * results.
+ *
+ * @param messages - Conversation messages in internal format
+ * @returns Messages without structured tool calls or tool results
+ */
+export function toPromptToolMessages(messages: Message[]): Message[] {
+  return messages.filter(message => message.role !== 'tool').map(message => {
+    if (message.role !== 'assistant' || !message.toolCalls || message.toolCalls.length === 0) {
+      return message;
+    }
+    const intents = message.toolCalls.map(formatToolIntent).join(' ');
+    return {
+      ...message,
+      content: message.content ? `${message.content} ${intents}` : intents,
+      toolCalls: undefined,
+    };
+  });
+}
@@ -43,7 +43,7 @@ describe('registerVisualEffectTools', () => {
     
     await expect(
       registry.executeTool('show_emoji', { emoji: '😊' })
-    ).resolves.toBeUndefined();
+    ).resolves.toMatchObject({ status: 'success' });
   });
 
   it('should make tools available via getAllTools', () => {
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the session summary
+ */
+
+import { summarizeSession } from './sessionSummary';
+import type { Transcript, TranscriptTurn } from '../types/transcript';
+
+describe('summarizeSession', () => {
+  const turn = (speaker: TranscriptTurn['speaker'], text: string): TranscriptTurn => ({
+    speaker,
+    text,
+    timestamp: 0,
+    offsetMs: 0,
+    tools: [],
+  });
+
+  const transcript = (turns: TranscriptTurn[]): Transcript => ({
+    schemaVersion: 1,
+    sessionId: 'session-1',
+    imageUrl: '/images/friendly-elephant.svg',
+    status: 'completed',
+    startTime: 0,
+    durationMs: 58000,
+    targetDurationMs: 60000,
+    exportedAt: 0,
+    turns,
+  });
+
+  const detectedObjects = ['elephant', 'trunk', 'ears', 'eyes', 'smile'];
+
+  it('should count the child turns and keep the duration', () => {
+    const summary = summarizeSession(
+      transcript([turn('ai', 'Hello!'), turn('child', 'Hi'), turn('ai', 'What do you see?'), turn('child', 'An elephant')]),
+      detectedObjects
+    );
+
+    expect(summary.durationMs).toBe(58000);
+    expect(summary.childTurns).toBe(2);
+  });
+
+  it('should list the objects in the picture that came up', () => {
+    const summary = summarizeSession(
+      transcript([turn('ai', 'Look at its big ear!'), turn('child', 'The elephant has a trunk')]),
+      detectedObjects
+    );
+
+    expect(summary.objectsDiscussed).toEqual(['elephant', 'trunk', 'ears']);
+  });
+
+  it('should match objects with more than one word as a phrase', () => {
+    const summary = summarizeSession(
+      transcript([
+        turn('ai', 'Can you find the passenger cars behind the engine?'),
+        turn('child', 'The cargo car is red. The coal is black.'),
+      ]),
+      ['engine', 'cargo car', 'passenger car', 'coal car', 'smoke stack']
+    );
+
+    expect(summary.objectsDiscussed).toEqual(['engine', 'cargo car', 'passenger car']);
+    expect(summary.newWords).not.toContain('passenger');
+  });
+
+  it('should list less common words the AI introduced', () => {
+    const summary = summarizeSession(
+      transcript([
+        turn('child', 'It is gigantic'),
+        turn('ai', 'Yes, gigantic! Elephants are enormous herbivores with a wonderful trunk.'),
+        turn('ai', 'Enormous herbivores eat plants.'),
+      ]),
+      detectedObjects
+    );
+
+    expect(summary.newWords).toEqual(['enormous', 'herbivores', 'plants']);
+  });
+
+  it('should award a sticker for how the conversation went', () => {
+    const chatty = Array.from({ length: 6 }, () => turn('child', 'Yes'));
+
+    expect(summarizeSession(transcript(chatty)).sticker.title).toBe('Chatterbox Champion');
+    expect(
+      summarizeSession(transcript([turn('child', 'An elephant with a trunk and ears')]), detectedObjects).sticker.title
+    ).toBe('Super Spotter');
+    expect(summarizeSession(transcript([turn('child', 'Hi')])).sticker.title).toBe('Great Talker');
+    expect(summarizeSession(transcript([turn('ai', 'Hello!')])).sticker).toEqual({ emoji: '🎈', title: 'Good Listener' });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Session summary - Highlights shown when a conversation ends
+ *
+ * Works from the conversation transcript: how long it lasted, how often the
+ * child spoke, the new words the AI brought up, and which objects in the
+ * picture were talked about. Every finished conversation earns a sticker.
+ *
+ * Requirements: 5.3 (end conversation)
+ */
+
+import type { Transcript } from '../types/transcript';
+
+export interface Sticker {
+  emoji: string;
+  title: string;
+}
+
+export interface SessionSummary {
+  durationMs: number;
+  /** Times the child spoke */
+  childTurns: number;
+  /** Less common words the AI used, in the order they came up */
+  newWords: string[];
+  /** Objects in the picture that the child or the AI mentioned */
+  objectsDiscussed: string[];
+  sticker: Sticker;
+}
+
+const MAX_NEW_WORDS = 5;
+const MIN_NEW_WORD_LENGTH = 6;
+
+/**
+ * Everyday words that are long enough to look new but aren't worth showing
+ */
+const COMMON_WORDS = new Set([
+  'about', 'across', 'always', 'amazing', 'another', 'around', 'because', 'before', 'behind', 'better',
+  'beautiful', 'believe', 'between', 'called', 'colors', 'colour', 'colours', 'different', 'during',
+  'everything', 'excellent', 'favorite', 'favourite', 'friend', 'friends', 'friendly', 'goodbye', 'great',
+  'happened', 'having', 'little', 'looking', 'lovely', 'maybe', 'myself', 'nothing', 'noticed', 'people',
+  'picture', 'pretty', 'really', 'remember', 'should', 'something', 'sometimes', 'special', 'talking',
+  'thanks', 'there', 'things', 'think', 'thinking', 'through', 'together', 'wonderful', 'without', 'yourself',
+]);
+
+/**
+ * Summarize a finished conversation
+ *
+ * @param transcript - Transcript of the conversation, e.g. from ConversationOrchestrator.getTranscript()
+ * @param detectedObjects - Objects in the picture, from the image metadata
+ *
+ * @example
+ * ```typescript
+ * const summary = summarizeSession(orchestrator.getTranscript(), image.detectedObjects);
+ * // { childTurns: 4, objectsDiscussed: ['elephant', 'trunk'], sticker: { emoji: '🔍', ... }, ... }
+ * ```
+ */
+export function summarizeSession(transcript: Transcript, detectedObjects: string[] = []): SessionSummary {
+  const childTurns = transcript.turns.filter(turn => turn.speaker === 'child').length;
+  const spokenTurns = transcript.turns.map(turn => ` ${phrase(turn.text)} `);
+  const objectsDiscussed = detectedObjects.filter(object => {
+    const name = phrase(object);
+    return name.length > 0 && spokenTurns.some(turn => turn.includes(` ${name} `));
+  });
+
+  return {
+    durationMs: transcript.durationMs,
+    childTurns,
+    newWords: findNewWords(transcript, objectsDiscussed),
+    objectsDiscussed,
+    sticker: chooseSticker(childTurns, objectsDiscussed.length),
+  };
+}
+
+/**
+ * Less common words the AI used that the child hadn't said before
+ *
+ * Objects in the picture are left out; they are listed separately.
+ */
+function findNewWords(transcript: Transcript, objects: string[]): string[] {
+  const known = new Set(objects.flatMap(object => words(object)).map(singular));
+  const newWords: string[] = [];
+
+  for (const turn of transcript.turns) {
+    for (const word of words(turn.text)) {
+      const base = singular(word);
+      if (turn.speaker === 'ai' && !known.has(base) && word.length >= MIN_NEW_WORD_LENGTH && !COMMON_WORDS.has(word)) {
+        newWords.push(word);
+      }
+      known.add(base);
+    }
+  }
+
+  return newWords.slice(0, MAX_NEW_WORDS);
+}
+
+/**
+ * Pick the sticker for how the conversation went
+ */
+function chooseSticker(childTurns: number, objectCount: number): Sticker {
+  if (childTurns >= 6) {
+    return { emoji: '🏆', title: 'Chatterbox Champion' };
+  }
+  if (objectCount >= 3) {
+    return { emoji: '🔍', title: 'Super Spotter' };
+  }
+  if (childTurns > 0) {
+    return { emoji: '⭐', title: 'Great Talker' };
+  }
+  return { emoji: '🎈', title: 'Good Listener' };
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/\p{L}+(?:'\p{L}+)?/gu) ?? [];
+}
+
+/**
+ * Words of the text in singular form, separated by single spaces, so
+ * "The cargo cars!" contains the phrase "cargo car"
+ */
+function phrase(text: string): string {
+  return words(text).map(singular).join(' ');
+}
+
+/**
+ * Rough singular form, so "ears" matches "ear" and "flowers" matches "flower"
+ */
+function singular(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for speech-to-text provider selection
+ */
+
+import { createSpeechToTextHandler, hasOwnWhisperServer } from './speechToTextProviders';
+import { SpeechToTextHandler } from './SpeechToTextHandler';
+import { WhisperSpeechToTextHandler } from './WhisperSpeechToTextHandler';
+
+jest.mock('./WhisperSpeechToTextHandler');
+
+describe('createSpeechToTextHandler', () => {
+  it('should use the Web Speech API by default', () => {
+    expect(createSpeechToTextHandler()).toBeInstanceOf(SpeechToTextHandler);
+    expect(createSpeechToTextHandler('browser')).toBeInstanceOf(SpeechToTextHandler);
+  });
+
+  it('should create a Whisper transcriber for the whisper provider', () => {
+    expect(createSpeechToTextHandler('whisper')).toBeInstanceOf(WhisperSpeechToTextHandler);
+  });
+
+  describe('with the proxy', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+      jest.restoreAllMocks();
+    });
+
+    it('should not send the OpenAI key to Whisper and use the Web Speech API instead', () => {
+      process.env.VITE_OPENAI_API_KEY = 'sk-browser';
+      delete process.env.VITE_WHISPER_API_KEY;
+      delete process.env.VITE_WHISPER_BASE_URL;
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(createSpeechToTextHandler('whisper', 'proxy')).toBeInstanceOf(SpeechToTextHandler);
+      expect(hasOwnWhisperServer()).toBe(false);
+    });
+
+    it('should use a Whisper server of its own', () => {
+      process.env.VITE_OPENAI_API_KEY = 'sk-browser';
+      process.env.VITE_WHISPER_BASE_URL = 'http://localhost:8000/v1';
+
+      expect(createSpeechToTextHandler('whisper', 'proxy')).toBeInstanceOf(WhisperSpeechToTextHandler);
+      expect(WhisperSpeechToTextHandler).toHaveBeenLastCalledWith(
+        expect.objectContaining({ apiKey: undefined, baseUrl: 'http://localhost:8000/v1' })
+      );
+      expect(hasOwnWhisperServer()).toBe(true);
+    });
+  });
+});
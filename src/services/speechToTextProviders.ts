@@ -0,0 +1,56 @@
+/**
+ * Speech-to-text backends
+ *
+ * - `browser`: the Web Speech API (Chrome, Edge, Safari)
+ * - `whisper`: MediaRecorder audio sent to a Whisper-compatible
+ *   `/audio/transcriptions` endpoint; works in any browser that can record
+ *
+ * Requirements: 3.1 (speech capture)
+ */
+
+import type { LLMProvider, STTProvider } from '../types/config';
+import type { SpeechToTextHandler as SpeechToTextHandlerInterface } from '../types/services';
+import { getEnv } from '../utils/env';
+import { SpeechToTextHandler } from './SpeechToTextHandler';
+import { WhisperSpeechToTextHandler } from './WhisperSpeechToTextHandler';
+
+/**
+ * Create the speech-to-text handler for a provider
+ *
+ * The Whisper backend reads VITE_WHISPER_API_KEY (falling back to
+ * VITE_OPENAI_API_KEY), VITE_WHISPER_BASE_URL and VITE_WHISPER_MODEL. With
+ * the proxy LLM provider the OpenAI key stays on the server, so there is no
+ * fallback: Whisper needs its own server or key, and without either the
+ * Web Speech API is used.
+ *
+ * @param provider - Backend to use
+ * @param llmProvider - Configured LLM provider
+ * @returns Uninitialized handler
+ */
+export function createSpeechToTextHandler(
+  provider: STTProvider = 'browser',
+  llmProvider?: LLMProvider
+): SpeechToTextHandlerInterface {
+  if (provider === 'whisper' && llmProvider === 'proxy' && !hasOwnWhisperServer()) {
+    console.warn('[speechToTextProviders] Whisper needs VITE_WHISPER_API_KEY or VITE_WHISPER_BASE_URL with the proxy, using the Web Speech API');
+    return new SpeechToTextHandler();
+  }
+
+  if (provider === 'whisper') {
+    return new WhisperSpeechToTextHandler({
+      apiKey: getEnv('VITE_WHISPER_API_KEY') || (llmProvider === 'proxy' ? '' : getEnv('VITE_OPENAI_API_KEY')) || undefined,
+      baseUrl: getEnv('VITE_WHISPER_BASE_URL') || undefined,
+      model: getEnv('VITE_WHISPER_MODEL') || undefined,
+    });
+  }
+
+  return new SpeechToTextHandler();
+}
+
+/**
+ * Whether Whisper is configured apart from the OpenAI key: a key of its own,
+ * or a server of its own such as a local faster-whisper
+ */
+export function hasOwnWhisperServer(): boolean {
+  return Boolean(getEnv('VITE_WHISPER_API_KEY') || getEnv('VITE_WHISPER_BASE_URL'));
+}
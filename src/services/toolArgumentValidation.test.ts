@@ -0,0 +1,102 @@
+/**
+ * Unit tests for tool argument validation
+ */
+
+import { formatToolArgumentErrors, validateToolArguments } from './toolArgumentValidation';
+import { highlightImageArea, showEmoji } from './visualEffectTools';
+import type { ToolDefinition } from '../types/tool';
+
+describe('validateToolArguments', () => {
+  it('should apply declared defaults for missing arguments', () => {
+    const result = validateToolArguments(showEmoji.parameters, { emoji: '🎉' });
+
+    expect(result).toEqual({
+      valid: true,
+      args: { emoji: '🎉', position: 'center', duration: 2000, size: 'medium' },
+    });
+  });
+
+  it('should treat null arguments as missing', () => {
+    const result = validateToolArguments(showEmoji.parameters, { emoji: '🎉', size: null });
+
+    expect(result).toMatchObject({ valid: true, args: { size: 'medium' } });
+  });
+
+  it('should coerce numeric strings and forgive enum spelling', () => {
+    const result = validateToolArguments(highlightImageArea.parameters, {
+      area: 'Top Left',
+      duration: '1500',
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      args: { area: 'top-left', color: 'yellow', duration: 1500 },
+    });
+  });
+
+  it('should report missing required arguments and unknown enum values', () => {
+    const result = validateToolArguments(showEmoji.parameters, { size: 'gigantic' });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        { argument: 'emoji', message: 'is required' },
+        { argument: 'size', message: 'must be one of: small, medium, large' },
+      ],
+    });
+  });
+
+  it('should reject values that cannot be coerced', () => {
+    const parameters: ToolDefinition['parameters'] = {
+      type: 'object',
+      properties: {
+        count: { type: 'integer', minimum: 1 },
+        enabled: { type: 'boolean' },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: [],
+    };
+
+    expect(validateToolArguments(parameters, { count: 'lots', enabled: 'yes', tags: 'a' })).toEqual({
+      valid: false,
+      errors: [
+        { argument: 'count', message: 'must be an integer' },
+        { argument: 'enabled', message: 'must be a boolean' },
+        { argument: 'tags', message: 'must be an array' },
+      ],
+    });
+    expect(validateToolArguments(parameters, { count: 0 })).toMatchObject({
+      errors: [{ argument: 'count', message: 'must be at least 1' }],
+    });
+    expect(validateToolArguments(parameters, { count: '2', enabled: 'true', tags: '["x"]' })).toEqual({
+      valid: true,
+      args: { count: 2, enabled: true, tags: ['x'] },
+    });
+  });
+
+  it('should keep unknown arguments unless additionalProperties is false', () => {
+    const parameters = { type: 'object' as const, properties: {}, required: [] };
+
+    expect(validateToolArguments(parameters, { extra: 1 })).toEqual({ valid: true, args: { extra: 1 } });
+    expect(validateToolArguments({ ...parameters, additionalProperties: false }, { extra: 1 })).toEqual({
+      valid: false,
+      errors: [{ argument: 'extra', message: 'is not a known argument' }],
+    });
+  });
+
+  it('should reject arguments that are not an object', () => {
+    expect(validateToolArguments(showEmoji.parameters, ['🎉'])).toEqual({
+      valid: false,
+      errors: [{ argument: '(arguments)', message: 'must be an object' }],
+    });
+  });
+});
+
+describe('formatToolArgumentErrors', () => {
+  it('should join errors into one readable line', () => {
+    expect(formatToolArgumentErrors([
+      { argument: 'emoji', message: 'is required' },
+      { argument: 'size', message: 'must be one of: small, medium, large' },
+    ])).toBe('"emoji" is required; "size" must be one of: small, medium, large');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tool argument validation
+ *
+ * Checks model-generated tool call arguments against the JSON schema declared
+ * in each ToolDefinition's `parameters`. Models routinely send "3000" for a
+ * number or "Top Left" for an enum value, so arguments are coerced to the
+ * declared type where the intent is unambiguous, and declared defaults are
+ * filled in. Anything that still doesn't fit is reported as a list of
+ * ToolArgumentErrors the model can act on.
+ *
+ * Supported keywords: type, enum, default, minimum, maximum, items,
+ * required and additionalProperties. That covers every schema the visual
+ * effect tools use; other keywords are ignored.
+ *
+ * Requirements: 6.2, 6.4
+ */
+
+import type { ToolArgumentError, ToolDefinition } from '../types/tool';
+
+export type ToolArgumentValidation =
+  | { valid: true; args: Record<string, unknown> }
+  | { valid: false; errors: ToolArgumentError[] };
+
+interface PropertySchema {
+  type?: string;
+  enum?: unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  items?: PropertySchema;
+}
+
+type ToolParameters = ToolDefinition['parameters'] & { additionalProperties?: boolean };
+
+type Coercion = { ok: true; value: unknown } | { ok: false; message: string };
+
+const ARGUMENTS_NAME = '(arguments)';
+
+/**
+ * Validate tool call arguments, applying defaults and coercing types
+ *
+ * @param parameters - The tool's parameters schema
+ * @param args - Arguments as produced by the model
+ * @returns The cleaned arguments, or every problem found
+ *
+ * @example
+ * ```typescript
+ * validateToolArguments(showEmoji.parameters, { emoji: '🎉', size: 'Large' });
+ * // { valid: true, args: { emoji: '🎉', size: 'large', position: 'center', duration: 2000 } }
+ * ```
+ */
+export function validateToolArguments(
+  parameters: ToolParameters,
+  args: unknown
+): ToolArgumentValidation {
+  const input = args ?? {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ argument: ARGUMENTS_NAME, message: 'must be an object' }] };
+  }
+
+  const properties: Record<string, PropertySchema> = parameters.properties ?? {};
+  const required = new Set(parameters.required ?? []);
+  const errors: ToolArgumentError[] = [];
+  const result: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(input)) {
+    if (Object.hasOwn(properties, name) || value === undefined || value === null) {
+      continue;
+    }
+    if (parameters.additionalProperties === false) {
+      errors.push({ argument: name, message: 'is not a known argument' });
+    } else {
+      result[name] = value;
+    }
+  }
+
+  for (const [name, schema] of Object.entries(properties)) {
+    const value = (input as Record<string, unknown>)[name];
+
+    if (value === undefined || value === null) {
+      if (schema.default !== undefined) {
+        result[name] = schema.default;
+      } else if (required.has(name)) {
+        errors.push({ argument: name, message: 'is required' });
+      }
+      continue;
+    }
+
+    const coercion = coerceValue(value, schema);
+    if (coercion.ok) {
+      result[name] = coercion.value;
+    } else {
+      errors.push({ argument: name, message: coercion.message });
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, args: result };
+}
+
+/**
+ * Format validation errors as one line for logs and tool messages
+ */
+export function formatToolArgumentErrors(errors: ToolArgumentError[]): string {
+  return errors.map(({ argument, message }) => `"${argument}" ${message}`).join('; ');
+}
+
+function coerceValue(value: unknown, schema: PropertySchema): Coercion {
+  const typed = coerceType(value, schema);
+  if (!typed.ok) {
+    return typed;
+  }
+
+  if (schema.enum) {
+    return matchEnum(typed.value, schema.enum);
+  }
+
+  if (typeof typed.value === 'number') {
+    if (schema.minimum !== undefined && typed.value < schema.minimum) {
+      return { ok: false, message: `must be at least ${schema.minimum}` };
+    }
+    if (schema.maximum !== undefined && typed.value > schema.maximum) {
+      return { ok: false, message: `must be at most ${schema.maximum}` };
+    }
+  }
+
+  return typed;
+}
+
+function coerceType(value: unknown, schema: PropertySchema): Coercion {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'string') {
+        return { ok: true, value };
+      }
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        return { ok: true, value: String(value) };
+      }
+      return { ok: false, message: 'must be a string' };
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      const isInteger = schema.type === 'integer';
+      if (typeof number !== 'number' || !Number.isFinite(number) || (isInteger && !Number.isInteger(number))) {
+        return { ok: false, message: isInteger ? 'must be an integer' : 'must be a number' };
+      }
+      return { ok: true, value: number };
+    }
+
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return { ok: true, value };
+      }
+      if (value === 'true' || value === 'false') {
+        return { ok: true, value: value === 'true' };
+      }
+      return { ok: false, message: 'must be a boolean' };
+
+    case 'array': {
+      const array = parseJsonString(value);
+      if (!Array.isArray(array)) {
+        return { ok: false, message: 'must be an array' };
+      }
+      if (!schema.items) {
+        return { ok: true, value: array };
+      }
+      const items: unknown[] = [];
+      for (const [index, item] of array.entries()) {
+        const coercion = coerceValue(item, schema.items);
+        if (!coercion.ok) {
+          return { ok: false, message: `item ${index} ${coercion.message}` };
+        }
+        items.push(coercion.value);
+      }
+      return { ok: true, value: items };
+    }
+
+    case 'object': {
+      const object = parseJsonString(value);
+      if (typeof object !== 'object' || object === null || Array.isArray(object)) {
+        return { ok: false, message: 'must be an object' };
+      }
+      return { ok: true, value: object };
+    }
+
+    default:
+      return { ok: true, value };
+  }
+}
+
+/**
+ * Match an enum value, forgiving case and spaces/underscores in place of
+ * hyphens ("Top Left" -> "top-left")
+ */
+function matchEnum(value: unknown, allowed: unknown[]): Coercion {
+  if (allowed.includes(value)) {
+    return { ok: true, value };
+  }
+
+  if (typeof value === 'string') {
+    const normalized = normalizeEnumValue(value);
+    const match = allowed.find(
+      option => typeof option === 'string' && normalizeEnumValue(option) === normalized
+    );
+    if (match !== undefined) {
+      return { ok: true, value: match };
+    }
+  }
+
+  return { ok: false, message: `must be one of: ${allowed.map(String).join(', ')}` };
+}
+
+function normalizeEnumValue(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+function parseJsonString(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
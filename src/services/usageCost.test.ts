@@ -0,0 +1,69 @@
+/**
+ * Tests for usage cost calculation
+ */
+
+import { calculateCost, DEFAULT_PRICE_TABLE, findModelPrice, formatCost, parsePriceTable } from './usageCost';
+
+describe('usageCost', () => {
+  describe('findModelPrice', () => {
+    it('should price dated snapshots by the longest matching model id', () => {
+      expect(findModelPrice('gpt-4o-mini-2024-07-18', DEFAULT_PRICE_TABLE)).toBe(DEFAULT_PRICE_TABLE['gpt-4o-mini']);
+      expect(findModelPrice('gpt-4o-2024-08-06', DEFAULT_PRICE_TABLE)).toBe(DEFAULT_PRICE_TABLE['gpt-4o']);
+      expect(findModelPrice('gpt-4-0613', DEFAULT_PRICE_TABLE)).toBe(DEFAULT_PRICE_TABLE['gpt-4']);
+      expect(findModelPrice('gpt-4-turbo-2024-04-09', DEFAULT_PRICE_TABLE)).toBe(DEFAULT_PRICE_TABLE['gpt-4-turbo']);
+      expect(findModelPrice('llama3.2:latest', DEFAULT_PRICE_TABLE)).toBeUndefined();
+    });
+  });
+
+  describe('calculateCost', () => {
+    it('should charge cached prompt tokens at the cached rate', () => {
+      const cost = calculateCost(
+        { model: 'gpt-4o-mini', promptTokens: 2000, completionTokens: 100, cachedTokens: 1000 },
+        DEFAULT_PRICE_TABLE
+      );
+
+      // 1000 × 0.15 + 1000 × 0.075 + 100 × 0.6 per million
+      expect(cost).toBeCloseTo(0.000285, 9);
+    });
+
+    it('should charge cached tokens as input when the model has no cached price', () => {
+      const cost = calculateCost(
+        { model: 'local', promptTokens: 1000, completionTokens: 0, cachedTokens: 1000 },
+        { local: { input: 1, output: 2 } }
+      );
+
+      expect(cost).toBeCloseTo(0.001, 9);
+    });
+
+    it('should return null for a model without a price', () => {
+      expect(
+        calculateCost({ model: 'llama3.2', promptTokens: 10, completionTokens: 10, cachedTokens: 0 }, DEFAULT_PRICE_TABLE)
+      ).toBeNull();
+    });
+  });
+
+  describe('formatCost', () => {
+    it('should show fractions of a cent with four decimals', () => {
+      expect(formatCost(0.00021)).toBe('$0.0002');
+      expect(formatCost(0)).toBe('$0.00');
+      expect(formatCost(1.5)).toBe('$1.50');
+    });
+  });
+
+  describe('parsePriceTable', () => {
+    it('should parse model prices', () => {
+      expect(parsePriceTable('{"llama3.2": {"input": 0, "output": 0}, "gpt-5": {"input": 1.25, "cachedInput": 0.125, "output": 10}}')).toEqual({
+        'llama3.2': { input: 0, output: 0 },
+        'gpt-5': { input: 1.25, cachedInput: 0.125, output: 10 },
+      });
+      expect(parsePriceTable('')).toEqual({});
+    });
+
+    it('should reject malformed tables', () => {
+      expect(parsePriceTable('not json')).toBeNull();
+      expect(parsePriceTable('[]')).toBeNull();
+      expect(parsePriceTable('{"gpt-5": {"input": 1}}')).toBeNull();
+      expect(parsePriceTable('{"gpt-5": {"input": -1, "output": 1}}')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Usage cost - Turns the tokens a completion used into what it cost
+ *
+ * Prices are in US dollars per million tokens. The defaults are the list
+ * prices of the models this app is usually run with; others can be added
+ * or overridden through VITE_MODEL_PRICES. Local models have no price and
+ * are reported as unpriced rather than free.
+ */
+
+import type { ModelPrice, PriceTable } from '../types/config';
+import type { TokenUsage } from '../types/services';
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o-mini': { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  'gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  'gpt-4.1': { input: 2, cachedInput: 0.5, output: 8 },
+  'claude-3-haiku': { input: 0.25, cachedInput: 0.03, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, cachedInput: 0.08, output: 4 },
+  'claude-3-5-sonnet': { input: 3, cachedInput: 0.3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, cachedInput: 0.3, output: 15 },
+  'claude-sonnet-4': { input: 3, cachedInput: 0.3, output: 15 },
+};
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Find the price of a model, by exact id or else by the longest id it
+ * starts with (so gpt-4o-mini-2024-07-18 is priced as gpt-4o-mini)
+ *
+ * @returns The price, or undefined if the model is not in the table
+ */
+export function findModelPrice(model: string, priceTable: PriceTable): ModelPrice | undefined {
+  if (priceTable[model]) {
+    return priceTable[model];
+  }
+  const prefix = Object.keys(priceTable)
+    .filter(id => model.startsWith(id))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? priceTable[prefix] : undefined;
+}
+
+/**
+ * Cost of a completion in US dollars
+ *
+ * @returns The cost, or null if the model has no price
+ *
+ * @example
+ * ```typescript
+ * calculateCost({ model: 'gpt-4o-mini', promptTokens: 1000, completionTokens: 100, cachedTokens: 0 }, DEFAULT_PRICE_TABLE);
+ * // 0.00021
+ * ```
+ */
+export function calculateCost(usage: TokenUsage, priceTable: PriceTable): number | null {
+  const price = findModelPrice(usage.model, priceTable);
+  if (!price) {
+    return null;
+  }
+  const uncachedTokens = usage.promptTokens - usage.cachedTokens;
+  const cost =
+    uncachedTokens * price.input +
+    usage.cachedTokens * (price.cachedInput ?? price.input) +
+    usage.completionTokens * price.output;
+  return cost / TOKENS_PER_PRICE_UNIT;
+}
+
+/**
+ * Format a cost in US dollars, with more decimals for fractions of a cent
+ *
+ * @example
+ * ```typescript
+ * formatCost(0.00021); // '$0.0002'
+ * formatCost(1.5); // '$1.50'
+ * ```
+ */
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd > 0 && costUsd < 0.01 ? 4 : 2)}`;
+}
+
+/**
+ * Parse a price table from JSON, e.g. the VITE_MODEL_PRICES setting
+ *
+ * @param json - Object of model ids to prices, or '' for none
+ * @returns The table, or null if the JSON is not a valid price table
+ *
+ * @example
+ * ```typescript
+ * parsePriceTable('{"llama3.2": {"input": 0, "output": 0}}');
+ * ```
+ */
+export function parsePriceTable(json: string): PriceTable | null {
+  if (!json.trim()) {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed) || !Object.values(parsed).every(isModelPrice)) {
+    return null;
+  }
+  return parsed as PriceTable;
+}
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  return (
+    isRecord(value) &&
+    isPrice(value.input) &&
+    isPrice(value.output) &&
+    (value.cachedInput === undefined || isPrice(value.cachedInput))
+  );
+}
+
+function isPrice(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
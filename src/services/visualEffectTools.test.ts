@@ -27,7 +27,7 @@ describe('Visual Effect Tools', () => {
       expect(highlightImageArea.name).toBe('highlight_image_area');
       expect(highlightImageArea.description).toBeDefined();
       expect(highlightImageArea.parameters.type).toBe('object');
-      expect(highlightImageArea.parameters.required).toEqual(['area']);
+      expect(highlightImageArea.parameters.required).toEqual([]);
       expect(highlightImageArea.handler).toBeInstanceOf(Function);
     });
 
@@ -43,7 +43,10 @@ describe('Visual Effect Tools', () => {
     it('should execute with required parameters only', async () => {
       await expect(
         highlightImageArea.handler({ area: 'center' })
-      ).resolves.toBeUndefined();
+      ).resolves.toEqual({
+        status: 'success',
+        data: { area: 'center', color: 'yellow', duration: 3000 },
+      });
       
       expect(consoleLogSpy).toHaveBeenCalledWith(
         expect.stringContaining('Highlighting center')
@@ -83,6 +86,28 @@ describe('Visual Effect Tools', () => {
         );
       }
     });
+
+    it('should highlight a named region', async () => {
+      await expect(
+        highlightImageArea.handler({ object: 'trunk' })
+      ).resolves.toEqual({
+        status: 'success',
+        data: { object: 'trunk', color: 'yellow', duration: 3000 },
+      });
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Highlighting trunk')
+      );
+    });
+
+    it('should refuse to highlight without an area or object', async () => {
+      await expect(highlightImageArea.handler({ color: 'red' })).resolves.toEqual({
+        status: 'error',
+        error: 'Pass either "area" or "object" to say what to highlight',
+      });
+
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+    });
   });
 
   describe('showEmoji', () => {
@@ -106,7 +131,10 @@ describe('Visual Effect Tools', () => {
     it('should execute with required parameters only', async () => {
       await expect(
         showEmoji.handler({ emoji: '😊' })
-      ).resolves.toBeUndefined();
+      ).resolves.toEqual({
+        status: 'success',
+        data: { emoji: '😊', position: 'center', size: 'medium', duration: 2000 },
+      });
       
       expect(consoleLogSpy).toHaveBeenCalledWith(
         expect.stringContaining('Showing emoji 😊')
@@ -184,7 +212,10 @@ describe('Visual Effect Tools', () => {
     it('should execute with required parameters only', async () => {
       await expect(
         showAnimation.handler({ type: 'sparkle' })
-      ).resolves.toBeUndefined();
+      ).resolves.toEqual({
+        status: 'success',
+        data: { type: 'sparkle', target: 'screen', intensity: 'medium', duration: 1500 },
+      });
       
       expect(consoleLogSpy).toHaveBeenCalledWith(
         expect.stringContaining('Showing sparkle animation')
@@ -259,7 +290,10 @@ describe('Visual Effect Tools', () => {
     it('should execute with required parameters only', async () => {
       await expect(
         showOverlay.handler({ content: 'Great job!' })
-      ).resolves.toBeUndefined();
+      ).resolves.toEqual({
+        status: 'success',
+        data: { content: 'Great job!', style: 'info', position: 'center', duration: 3000 },
+      });
       
       expect(consoleLogSpy).toHaveBeenCalledWith(
         expect.stringContaining('Great job!')
@@ -331,7 +365,10 @@ describe('Visual Effect Tools', () => {
     it('should execute with required parameters only', async () => {
       await expect(
         zoomImage.handler({ level: 'in' })
-      ).resolves.toBeUndefined();
+      ).resolves.toEqual({
+        status: 'success',
+        data: { level: 'in', area: undefined, duration: 500 },
+      });
       
       expect(consoleLogSpy).toHaveBeenCalledWith(
         expect.stringContaining('Zooming in')
@@ -381,6 +418,19 @@ describe('Visual Effect Tools', () => {
         );
       }
     });
+
+    it('should zoom into a named region', async () => {
+      await expect(
+        zoomImage.handler({ level: 'in', object: 'trunk' })
+      ).resolves.toMatchObject({
+        status: 'success',
+        data: { level: 'in', object: 'trunk' },
+      });
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Zooming in on trunk')
+      );
+    });
   });
 
   describe('getAllVisualEffectTools', () => {
@@ -437,26 +487,30 @@ describe('Visual Effect Tools', () => {
       const tools = getAllVisualEffectTools();
       
       for (const tool of tools) {
-        const result = tool.handler({});
+        // Highlighting needs something to point at
+        const result = tool.handler(tool === highlightImageArea ? { area: 'center' } : {});
         expect(result).toBeInstanceOf(Promise);
-        await expect(result).resolves.toBeUndefined();
+        await expect(result).resolves.toMatchObject({ status: 'success' });
       }
     });
   });
 
   describe('Error handling', () => {
     it('should handle missing optional parameters gracefully', async () => {
-      await expect(highlightImageArea.handler({ area: 'center' })).resolves.toBeUndefined();
-      await expect(showEmoji.handler({ emoji: '😊' })).resolves.toBeUndefined();
-      await expect(showAnimation.handler({ type: 'sparkle' })).resolves.toBeUndefined();
-      await expect(showOverlay.handler({ content: 'Test' })).resolves.toBeUndefined();
-      await expect(zoomImage.handler({ level: 'in' })).resolves.toBeUndefined();
+      await expect(highlightImageArea.handler({ area: 'center' })).resolves.toMatchObject({ status: 'success' });
+      await expect(showEmoji.handler({ emoji: '😊' })).resolves.toMatchObject({ status: 'success' });
+      await expect(showAnimation.handler({ type: 'sparkle' })).resolves.toMatchObject({ status: 'success' });
+      await expect(showOverlay.handler({ content: 'Test' })).resolves.toMatchObject({ status: 'success' });
+      await expect(zoomImage.handler({ level: 'in' })).resolves.toMatchObject({ status: 'success' });
     });
 
     it('should handle undefined values in optional parameters', async () => {
       await expect(
         highlightImageArea.handler({ area: 'center', color: undefined, duration: undefined })
-      ).resolves.toBeUndefined();
+      ).resolves.toEqual({
+        status: 'success',
+        data: { area: 'center', color: 'yellow', duration: 3000 },
+      });
     });
   });
 });
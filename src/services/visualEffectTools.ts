@@ -3,6 +3,8 @@
  * 
  * This module provides tool definitions for visual effects that the AI can
  * invoke during conversations to create dynamic, engaging interactions.
+ * Each handler resolves with a ToolResult describing the effect it applied
+ * (with defaults filled in), which is sent back to the model.
  * 
  * Requirements: 6.3
  */
@@ -23,9 +25,13 @@ export const highlightImageArea: ToolDefinition = {
     properties: {
       area: {
         type: 'string',
-        description: 'Area to highlight',
+        description: 'Coarse area to highlight, when no named region fits',
         enum: ['top', 'bottom', 'left', 'right', 'center', 'top-left', 'top-right', 'bottom-left', 'bottom-right'],
       },
+      object: {
+        type: 'string',
+        description: 'Named region of the image to outline exactly, e.g. "trunk". Use instead of area when the image lists named regions',
+      },
       color: {
         type: 'string',
         description: 'Highlight color (CSS color value)',
@@ -37,17 +43,21 @@ export const highlightImageArea: ToolDefinition = {
         default: 3000,
       },
     },
-    required: ['area'],
+    required: [],
   },
   handler: async (args: any) => {
-    const { area, color = 'yellow', duration = 3000 } = args;
+    const { area, object, color = 'yellow', duration = 3000 } = args;
+
+    // Either one may be given, so the schema cannot require them
+    if (area === undefined && object === undefined) {
+      return { status: 'error', error: 'Pass either "area" or "object" to say what to highlight' };
+    }
     
     // TODO: Implement UI integration when UI components are ready
     // This will dispatch an event or update state to trigger the highlight effect
-    console.log(`[VisualEffect] Highlighting ${area} with color ${color} for ${duration}ms`);
+    console.log(`[VisualEffect] Highlighting ${object ?? area} with color ${color} for ${duration}ms`);
     
-    // Simulate async operation
-    return Promise.resolve();
+    return { status: 'success', data: { area, object, color, duration } };
   },
 };
 
@@ -93,7 +103,7 @@ export const showEmoji: ToolDefinition = {
     // TODO: Implement UI integration when UI components are ready
     console.log(`[VisualEffect] Showing emoji ${emoji} at ${position} (${size}) for ${duration}ms`);
     
-    return Promise.resolve();
+    return { status: 'success', data: { emoji, position, size, duration } };
   },
 };
 
@@ -140,7 +150,7 @@ export const showAnimation: ToolDefinition = {
     // TODO: Implement UI integration when UI components are ready
     console.log(`[VisualEffect] Showing ${type} animation on ${target} (${intensity}) for ${duration}ms`);
     
-    return Promise.resolve();
+    return { status: 'success', data: { type, target, intensity, duration } };
   },
 };
 
@@ -186,7 +196,7 @@ export const showOverlay: ToolDefinition = {
     // TODO: Implement UI integration when UI components are ready
     console.log(`[VisualEffect] Showing ${style} overlay at ${position}: "${content}" for ${duration}ms`);
     
-    return Promise.resolve();
+    return { status: 'success', data: { content, style, position, duration } };
   },
 };
 
@@ -212,6 +222,10 @@ export const zoomImage: ToolDefinition = {
         description: 'Area to zoom into (only for zoom in)',
         enum: ['top', 'bottom', 'left', 'right', 'center', 'top-left', 'top-right', 'bottom-left', 'bottom-right'],
       },
+      object: {
+        type: 'string',
+        description: 'Named region of the image to zoom into, e.g. "trunk" (only for zoom in). Use instead of area when the image lists named regions',
+      },
       duration: {
         type: 'number',
         description: 'Animation duration in milliseconds',
@@ -221,13 +235,14 @@ export const zoomImage: ToolDefinition = {
     required: ['level'],
   },
   handler: async (args: any) => {
-    const { level, area, duration = 500 } = args;
+    const { level, area, object, duration = 500 } = args;
     
     // TODO: Implement UI integration when UI components are ready
-    const areaInfo = area ? ` on ${area}` : '';
+    const target = object ?? area;
+    const areaInfo = target ? ` on ${target}` : '';
     console.log(`[VisualEffect] Zooming ${level}${areaInfo} over ${duration}ms`);
     
-    return Promise.resolve();
+    return { status: 'success', data: { level, area, object, duration } };
   },
 };
 
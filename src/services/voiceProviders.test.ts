@@ -0,0 +1,103 @@
+/**
+ * Unit tests for hosted voice providers
+ */
+
+import {
+  ElevenLabsSpeechProvider,
+  OpenAISpeechProvider,
+  createSpeechAudioProvider,
+} from './voiceProviders';
+import type { TTSConfig } from '../types/config';
+
+describe('voice providers', () => {
+  const config: TTSConfig = { voice: 'en-US', rate: 0.9, pitch: 1.1, volume: 1 };
+  const audio = new Blob(['mp3'], { type: 'audio/mpeg' });
+  let fetchImpl: jest.Mock;
+
+  beforeEach(() => {
+    fetchImpl = jest.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK', blob: async () => audio });
+  });
+
+  it('should request ElevenLabs speech with word timings for the configured voice', async () => {
+    fetchImpl.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => ({
+        audio_base64: btoa('mp3'),
+        alignment: {
+          characters: ['H', 'i', ' ', 'y', 'o', 'u'],
+          character_start_times_seconds: [0, 0.1, 0.2, 0.3, 0.4, 0.5],
+        },
+      }),
+    });
+    const provider = new ElevenLabsSpeechProvider({ apiKey: 'xi-key', voice: 'voice-1', fetchImpl });
+
+    const speech = await provider.synthesize('Hi you', config);
+
+    expect(speech.audio.type).toBe('audio/mpeg');
+    expect(speech.audio.size).toBe(3);
+    expect(speech.wordTimings).toEqual([
+      { charIndex: 0, charLength: 2, startTime: 0 },
+      { charIndex: 3, charLength: 3, startTime: 0.3 },
+    ]);
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://api.elevenlabs.io/v1/text-to-speech/voice-1/with-timestamps');
+    expect(init.headers['xi-api-key']).toBe('xi-key');
+    expect(JSON.parse(init.body)).toEqual({
+      text: 'Hi you',
+      model_id: 'eleven_turbo_v2_5',
+      voice_settings: { speed: 0.9 },
+    });
+  });
+
+  it('should request OpenAI speech with the speaking rate', async () => {
+    const provider = new OpenAISpeechProvider({ apiKey: 'sk-test', baseUrl: 'https://proxy.example/v1/', fetchImpl });
+    const controller = new AbortController();
+
+    const speech = await provider.synthesize('Hello!', config, controller.signal);
+
+    expect(speech).toEqual({ audio });
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://proxy.example/v1/audio/speech');
+    expect(init.headers.authorization).toBe('Bearer sk-test');
+    expect(init.signal).toBe(controller.signal);
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'tts-1',
+      input: 'Hello!',
+      voice: 'nova',
+      speed: 0.9,
+      response_format: 'mp3',
+    });
+  });
+
+  it('should report the API error message', async () => {
+    fetchImpl.mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      json: async () => ({ detail: { message: 'Invalid API key' } }),
+    });
+    const provider = new ElevenLabsSpeechProvider({ fetchImpl });
+
+    await expect(provider.synthesize('Hello!', config)).rejects.toThrow('HTTP 401 Invalid API key');
+  });
+
+  it('should use browser speech synthesis for the browser provider', () => {
+    expect(createSpeechAudioProvider('browser')).toBeNull();
+    expect(createSpeechAudioProvider('elevenlabs')).toBeInstanceOf(ElevenLabsSpeechProvider);
+    expect(createSpeechAudioProvider('openai')).toBeInstanceOf(OpenAISpeechProvider);
+  });
+
+  it('should use the browser voice instead of the OpenAI voice with the proxy', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(createSpeechAudioProvider('openai', 'proxy')).toBeNull();
+    expect(createSpeechAudioProvider('elevenlabs', 'proxy')).toBeInstanceOf(ElevenLabsSpeechProvider);
+    expect(createSpeechAudioProvider('openai', 'openai')).toBeInstanceOf(OpenAISpeechProvider);
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+
+    warnSpy.mockRestore();
+  });
+});
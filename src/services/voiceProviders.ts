@@ -0,0 +1,214 @@
+/**
+ * Voice providers - Hosted text-to-speech services that return audio
+ *
+ * - `elevenlabs`: ElevenLabs `/v1/text-to-speech/{voice_id}/with-timestamps`
+ * - `openai`: OpenAI-compatible `/audio/speech`
+ *
+ * TextToSpeechHandler plays the returned audio and falls back to browser
+ * speech synthesis when a provider fails. The `browser` provider has no
+ * audio provider; it is speech synthesis alone.
+ *
+ * Requirements: 4.1 (text-to-speech conversion)
+ */
+
+import type { LLMProvider, TTSConfig, VoiceProvider } from '../types/config';
+import { getEnv } from '../utils/env';
+import { wordTimingsFromCharacters } from '../utils/wordTimings';
+import type { WordTiming } from '../utils/wordTimings';
+
+export const ELEVENLABS_DEFAULT_BASE_URL = 'https://api.elevenlabs.io';
+/** "Rachel", one of ElevenLabs' premade voices */
+export const ELEVENLABS_DEFAULT_VOICE_ID = '21m00Tcm4TlvDq8gRCAM';
+export const ELEVENLABS_DEFAULT_MODEL = 'eleven_turbo_v2_5';
+
+export const OPENAI_SPEECH_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_SPEECH_DEFAULT_VOICE = 'nova';
+export const OPENAI_SPEECH_DEFAULT_MODEL = 'tts-1';
+
+export type VoiceFetch = (input: string, init: RequestInit) => Promise<Response>;
+
+export interface SynthesizedSpeech {
+  /** Encoded audio (MP3) */
+  audio: Blob;
+  /** When each word starts, if the provider reports it */
+  wordTimings?: WordTiming[];
+}
+
+/**
+ * ElevenLabs `/with-timestamps` response
+ */
+interface ElevenLabsTimestampedAudio {
+  audio_base64: string;
+  alignment?: {
+    characters: string[];
+    character_start_times_seconds: number[];
+  } | null;
+}
+
+/**
+ * Service that turns text into playable audio
+ */
+export interface SpeechAudioProvider {
+  readonly id: VoiceProvider;
+  /**
+   * Synthesize text
+   *
+   * @param text - Text to speak
+   * @param config - Rate and volume; voice names are browser voices and don't apply
+   * @param signal - Aborts the request when speech is stopped
+   * @returns Audio, with word timings when available
+   */
+  synthesize(text: string, config: TTSConfig, signal?: AbortSignal): Promise<SynthesizedSpeech>;
+}
+
+export interface SpeechAudioProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  voice?: string;
+  model?: string;
+  fetchImpl?: VoiceFetch;
+}
+
+export class ElevenLabsSpeechProvider implements SpeechAudioProvider {
+  readonly id = 'elevenlabs' as const;
+  private options: SpeechAudioProviderOptions;
+  private fetchImpl: VoiceFetch;
+
+  constructor(options: SpeechAudioProviderOptions = {}) {
+    this.options = options;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  async synthesize(text: string, config: TTSConfig, signal?: AbortSignal): Promise<SynthesizedSpeech> {
+    const baseUrl = (this.options.baseUrl || ELEVENLABS_DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const voiceId = encodeURIComponent(this.options.voice || ELEVENLABS_DEFAULT_VOICE_ID);
+    // The timestamped endpoint also returns when each character is spoken
+    const response = await this.fetchImpl(`${baseUrl}/v1/text-to-speech/${voiceId}/with-timestamps`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'xi-api-key': this.options.apiKey ?? '',
+      },
+      body: JSON.stringify({
+        text,
+        model_id: this.options.model || ELEVENLABS_DEFAULT_MODEL,
+        // ElevenLabs only supports speeds between 0.7 and 1.2
+        voice_settings: { speed: clamp(config.rate, 0.7, 1.2) },
+      }),
+      signal,
+    });
+
+    await throwIfFailed(response);
+    const data = (await response.json()) as ElevenLabsTimestampedAudio;
+    const alignment = data.alignment;
+
+    return {
+      audio: decodeBase64Audio(data.audio_base64, 'audio/mpeg'),
+      wordTimings: alignment
+        ? wordTimingsFromCharacters(alignment.characters.join(''), alignment.character_start_times_seconds)
+        : undefined,
+    };
+  }
+}
+
+export class OpenAISpeechProvider implements SpeechAudioProvider {
+  readonly id = 'openai' as const;
+  private options: SpeechAudioProviderOptions;
+  private fetchImpl: VoiceFetch;
+
+  constructor(options: SpeechAudioProviderOptions = {}) {
+    this.options = options;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  async synthesize(text: string, config: TTSConfig, signal?: AbortSignal): Promise<SynthesizedSpeech> {
+    const baseUrl = (this.options.baseUrl || OPENAI_SPEECH_DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const response = await this.fetchImpl(`${baseUrl}/audio/speech`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        authorization: `Bearer ${this.options.apiKey ?? ''}`,
+      },
+      body: JSON.stringify({
+        model: this.options.model || OPENAI_SPEECH_DEFAULT_MODEL,
+        input: text,
+        voice: this.options.voice || OPENAI_SPEECH_DEFAULT_VOICE,
+        speed: clamp(config.rate, 0.25, 4),
+        response_format: 'mp3',
+      }),
+      signal,
+    });
+
+    await throwIfFailed(response);
+    // OpenAI reports no timings; captions estimate them from the audio length
+    return { audio: await response.blob() };
+  }
+}
+
+/**
+ * Create the audio provider for a configured voice provider
+ *
+ * ElevenLabs reads VITE_ELEVENLABS_API_KEY, VITE_ELEVENLABS_VOICE_ID and
+ * VITE_ELEVENLABS_MODEL. OpenAI reads VITE_OPENAI_TTS_VOICE and
+ * VITE_OPENAI_TTS_MODEL, and shares VITE_OPENAI_API_KEY and
+ * VITE_OPENAI_BASE_URL with the LLM. With the proxy LLM provider the OpenAI
+ * key stays on the server, which only covers chat completions, so the
+ * OpenAI voice is disabled and browser speech synthesis is used instead.
+ *
+ * @param provider - Configured voice provider
+ * @param llmProvider - Configured LLM provider
+ * @returns Audio provider, or null for browser speech synthesis
+ */
+export function createSpeechAudioProvider(
+  provider: VoiceProvider = 'browser',
+  llmProvider?: LLMProvider
+): SpeechAudioProvider | null {
+  if (provider === 'openai' && llmProvider === 'proxy') {
+    console.warn('[voiceProviders] The OpenAI voice needs the OpenAI key in the browser and is disabled with the proxy, using the browser voice');
+    return null;
+  }
+
+  switch (provider) {
+    case 'elevenlabs':
+      return new ElevenLabsSpeechProvider({
+        apiKey: getEnv('VITE_ELEVENLABS_API_KEY') || undefined,
+        voice: getEnv('VITE_ELEVENLABS_VOICE_ID') || undefined,
+        model: getEnv('VITE_ELEVENLABS_MODEL') || undefined,
+      });
+    case 'openai':
+      return new OpenAISpeechProvider({
+        apiKey: getEnv('VITE_OPENAI_API_KEY') || undefined,
+        baseUrl: getEnv('VITE_OPENAI_BASE_URL') || undefined,
+        voice: getEnv('VITE_OPENAI_TTS_VOICE') || undefined,
+        model: getEnv('VITE_OPENAI_TTS_MODEL') || undefined,
+      });
+    default:
+      return null;
+  }
+}
+
+async function throwIfFailed(response: Response): Promise<void> {
+  if (!response.ok) {
+    let detail = response.statusText;
+    try {
+      const errorBody = await response.json();
+      detail = errorBody?.error?.message || errorBody?.detail?.message || detail;
+    } catch {
+      // Body is not JSON, keep the status text
+    }
+    throw new Error(`HTTP ${response.status} ${detail}`.trim());
+  }
+}
+
+function decodeBase64Audio(base64: string, type: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -2,16 +2,50 @@
  * Configuration type definitions for services and application
  */
 
-export type LLMProvider = 'openai' | 'anthropic' | 'local';
+export type LLMProvider = 'openai' | 'anthropic' | 'local' | 'proxy';
 export type VoiceProvider = 'browser' | 'elevenlabs' | 'openai';
+export type STTProvider = 'browser' | 'whisper';
+export type ConversationStyle = 'educational' | 'playful' | 'exploratory';
 
 export interface ConversationConfig {
   durationSeconds: number;
   childAge?: number;
+  /** How the AI talks about the picture (default 'educational') */
+  conversationStyle?: ConversationStyle;
+  /** Child profile that saved sessions belong to */
+  childProfileId?: string;
   llmProvider: LLMProvider;
   voiceProvider: VoiceProvider;
+  /** Speech recognition backend (default 'browser') */
+  sttProvider?: STTProvider;
+  /** Let the child interrupt the AI while it is speaking */
+  bargeIn?: boolean;
+  /** Extra terms the AI must never say, on top of the built-in blocklist */
+  moderationBlocklist?: string[];
+  /** Names removed from what the child says before it reaches the LLM, e.g. the family's */
+  redactNames?: string[];
+  /** Prices used to turn token usage into cost, by model */
+  modelPrices?: PriceTable;
+  /** Show the developer panel with the session's token usage and cost */
+  devPanel?: boolean;
 }
 
+/**
+ * What a model charges, in US dollars per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  /** Input tokens read from the prompt cache; charged as input when unset */
+  cachedInput?: number;
+  output: number;
+}
+
+/**
+ * Model prices by model id; a dated snapshot such as gpt-4o-2024-08-06 uses
+ * the price of the longest id it starts with
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
 export interface LLMConfig {
   provider: LLMProvider;
   model: string;
@@ -19,12 +53,28 @@ export interface LLMConfig {
   baseUrl?: string;
   temperature: number;
   maxTokens: number;
+  /**
+   * Most tokens a request may use for the system prompt, tools and history;
+   * older turns are summarized to stay under it. Unset means no limit.
+   */
+  contextTokenBudget?: number;
 }
 
 export interface STTConfig {
   language: string;
   continuous: boolean;
   interimResults: boolean;
+  /** Merge final fragments into one turn that ends after a pause */
+  endpointing?: EndpointingConfig;
+}
+
+export interface EndpointingConfig {
+  /** Quiet time that ends the child's turn; defaults by age group */
+  silenceTimeoutMs?: number;
+  /** Child's age, used to pick the default silence timeout */
+  childAge?: number;
+  /** Use microphone voice activity to time pauses (default true) */
+  voiceActivity?: boolean;
 }
 
 export interface TTSConfig {
@@ -2,11 +2,42 @@
  * Image context type definitions
  */
 
+/**
+ * Rectangle in image pixels, measured from the top-left corner
+ */
+export interface RegionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Named part of an image, e.g. the elephant's trunk
+ *
+ * SVG images can point at the element that draws the part so the highlight
+ * follows its exact shape; the box is used otherwise.
+ */
+export interface ImageRegion {
+  box?: RegionBox;
+  svgElementId?: string;
+}
+
 export interface ImageContext {
   url: string;
+  /**
+   * Stable id saved conversations are filed under, for pictures whose url
+   * should not be stored, such as an uploaded picture's data URL; the url
+   * is used when not set
+   */
+  id?: string;
   description: string;
   detectedObjects?: string[];
   colors?: string[];
   mood?: string;
   suggestedTopics?: string[];
+  /** Intrinsic size of the image in pixels, the space region boxes are measured in */
+  size?: { width: number; height: number };
+  /** Named regions the AI can point at, keyed by object name */
+  regions?: Record<string, ImageRegion>;
 }
@@ -2,7 +2,14 @@ import type { ImageMetadataCollection } from './imageMetadata';
 import {
   getRandomImage,
   getImageById,
+  getImageByPath,
   getImagesByCategory,
+  getImagesForAge,
+  isAgeAppropriate,
+  parseAgeRange,
+  findImageRegion,
+  getRegionCenter,
+  toImageContext,
 } from './imageMetadata';
 
 describe('Image Metadata Utilities', () => {
@@ -143,6 +150,110 @@ describe('Image Metadata Utilities', () => {
     });
   });
 
+  describe('getImageByPath', () => {
+    it('should find the image shown at a path', () => {
+      expect(getImageByPath(mockMetadata, '/images/toy-train.svg')?.id).toBe('toy-train');
+      expect(getImageByPath(mockMetadata, '/uploads/drawing.png')).toBeUndefined();
+    });
+  });
+
+  describe('toImageContext', () => {
+    it('should describe the image with its conversation topics as suggested topics', () => {
+      expect(toImageContext(mockMetadata.images[0])).toEqual({
+        url: '/images/friendly-elephant.svg',
+        description: 'A cute gray elephant',
+        detectedObjects: ['elephant', 'trunk'],
+        colors: ['gray'],
+        mood: 'friendly',
+        suggestedTopics: ['What do elephants eat?'],
+      });
+    });
+
+    it('should carry the named regions and image size', () => {
+      const regions = { trunk: { box: { x: 84, y: 126, width: 20, height: 48 }, svgElementId: 'trunk' } };
+      const context = toImageContext({ ...mockMetadata.images[0], size: { width: 200, height: 200 }, regions });
+
+      expect(context.size).toEqual({ width: 200, height: 200 });
+      expect(context.regions).toBe(regions);
+    });
+  });
+
+  describe('findImageRegion', () => {
+    const context = {
+      url: '/images/toy-train.svg',
+      description: 'A toy train',
+      regions: { 'cargo car': { box: { x: 100, y: 85, width: 50, height: 35 } } },
+    };
+
+    it('should find regions ignoring case and surrounding spaces', () => {
+      expect(findImageRegion(context, ' Cargo Car ')).toEqual({
+        name: 'cargo car',
+        region: { box: { x: 100, y: 85, width: 50, height: 35 } },
+      });
+    });
+
+    it('should return undefined for unknown regions or images without regions', () => {
+      expect(findImageRegion(context, 'wheels')).toBeUndefined();
+      expect(findImageRegion({ url: '/a.png', description: 'A' }, 'wheels')).toBeUndefined();
+      expect(findImageRegion(null, 'wheels')).toBeUndefined();
+    });
+  });
+
+  describe('getRegionCenter', () => {
+    it('should give the centre of the box as percentages of the image', () => {
+      expect(getRegionCenter({ box: { x: 100, y: 85, width: 50, height: 35 } }, { width: 200, height: 200 })).toEqual({
+        x: 62.5,
+        y: 51.25,
+      });
+      expect(getRegionCenter({ box: { x: 10, y: 20, width: 20, height: 40 } })).toEqual({ x: 20, y: 40 });
+    });
+
+    it('should return undefined for regions drawn only by an SVG element', () => {
+      expect(getRegionCenter({ svgElementId: 'trunk' })).toBeUndefined();
+    });
+  });
+
+  describe('parseAgeRange', () => {
+    it('should read age ranges', () => {
+      expect(parseAgeRange('3-8 years')).toEqual({ min: 3, max: 8 });
+      expect(parseAgeRange('5+ years')).toEqual({ min: 5, max: Infinity });
+      expect(parseAgeRange('4 years')).toEqual({ min: 4, max: 4 });
+    });
+
+    it('should return null for text without ages', () => {
+      expect(parseAgeRange('all ages')).toBeNull();
+    });
+  });
+
+  describe('isAgeAppropriate', () => {
+    it('should include both ends of the range', () => {
+      const image = mockMetadata.images[0];
+      expect(isAgeAppropriate(image, 3)).toBe(true);
+      expect(isAgeAppropriate(image, 8)).toBe(true);
+      expect(isAgeAppropriate(image, 2)).toBe(false);
+      expect(isAgeAppropriate(image, 9)).toBe(false);
+    });
+
+    it('should treat unreadable ranges as suitable', () => {
+      expect(isAgeAppropriate({ ...mockMetadata.images[0], ageAppropriate: 'everyone' }, 12)).toBe(true);
+    });
+  });
+
+  describe('getImagesForAge', () => {
+    it('should return only images that suit the age', () => {
+      const metadata: ImageMetadataCollection = {
+        images: [...mockMetadata.images, { ...mockMetadata.images[0], id: 'big-kids', ageAppropriate: '7-10 years' }],
+      };
+
+      expect(getImagesForAge(metadata, 4).map((img) => img.id)).toEqual([
+        'friendly-elephant',
+        'sunny-garden',
+        'toy-train',
+      ]);
+      expect(getImagesForAge(metadata, 9).map((img) => img.id)).toEqual(['big-kids']);
+    });
+  });
+
   describe('Image metadata structure', () => {
     it('should have valid conversation topics for each image', () => {
       mockMetadata.images.forEach((image) => {
@@ -2,6 +2,8 @@
  * Image metadata types for child-appropriate conversation images
  */
 
+import type { ImageContext, ImageRegion } from './image';
+
 export interface ImageMetadata {
   id: string;
   filename: string;
@@ -14,12 +16,31 @@ export interface ImageMetadata {
   detectedObjects: string[];
   colors: string[];
   mood: string;
+  /** Intrinsic size in pixels, the space region boxes are measured in */
+  size?: { width: number; height: number };
+  /** Named regions per object, as bounding boxes or SVG element ids */
+  regions?: Record<string, ImageRegion>;
 }
 
 export interface ImageMetadataCollection {
   images: ImageMetadata[];
 }
 
+export type ImageCategory = ImageMetadata['category'];
+
+/**
+ * Image categories in display order
+ */
+export const IMAGE_CATEGORIES: ImageCategory[] = ['animals', 'nature', 'toys', 'scenes'];
+
+/**
+ * Ages an image suits, inclusive
+ */
+export interface AgeRange {
+  min: number;
+  max: number;
+}
+
 /**
  * Helper function to load image metadata
  */
@@ -50,6 +71,69 @@ export function getImageById(
   return metadata.images.find((img) => img.id === id);
 }
 
+/**
+ * Helper function to get an image by its path, e.g. "/images/friendly-elephant.svg"
+ */
+export function getImageByPath(
+  metadata: ImageMetadataCollection,
+  path: string
+): ImageMetadata | undefined {
+  return metadata.images.find((img) => img.path === path);
+}
+
+/**
+ * Helper function to describe an image to the LLM
+ *
+ * Conversation topics become the suggested topics.
+ */
+export function toImageContext(image: ImageMetadata): ImageContext {
+  return {
+    url: image.path,
+    description: image.description,
+    detectedObjects: image.detectedObjects,
+    colors: image.colors,
+    mood: image.mood,
+    suggestedTopics: image.conversationTopics,
+    size: image.size,
+    regions: image.regions,
+  };
+}
+
+/**
+ * Helper function to find a named region of an image, ignoring case
+ *
+ * @returns The region name as written in the metadata with the region, or undefined
+ */
+export function findImageRegion(
+  imageContext: ImageContext | null | undefined,
+  name: string
+): { name: string; region: ImageRegion } | undefined {
+  const wanted = name.trim().toLowerCase();
+  const entry = Object.entries(imageContext?.regions ?? {})
+    .find(([regionName]) => regionName.toLowerCase() === wanted);
+  return entry && { name: entry[0], region: entry[1] };
+}
+
+/**
+ * Helper function to find the centre of a region, as percentages of the image size
+ *
+ * @param size - Size the region box is measured in, defaults to 100 x 100
+ * @returns The centre, or undefined for regions without a box
+ */
+export function getRegionCenter(
+  region: ImageRegion,
+  size: { width: number; height: number } = { width: 100, height: 100 }
+): { x: number; y: number } | undefined {
+  if (!region.box) {
+    return undefined;
+  }
+  const { x, y, width, height } = region.box;
+  return {
+    x: ((x + width / 2) * 100) / size.width,
+    y: ((y + height / 2) * 100) / size.height,
+  };
+}
+
 /**
  * Helper function to get images by category
  */
@@ -59,3 +143,40 @@ export function getImagesByCategory(
 ): ImageMetadata[] {
   return metadata.images.filter((img) => img.category === category);
 }
+
+/**
+ * Helper function to read an image's age range
+ *
+ * Understands "3-8 years", "5+ years" and "4 years".
+ *
+ * @returns The age range, or null if the text isn't understood
+ */
+export function parseAgeRange(ageAppropriate: string): AgeRange | null {
+  const range = /^\s*(\d+)\s*(?:[-–]\s*(\d+)|(\+))?/.exec(ageAppropriate);
+  if (!range) {
+    return null;
+  }
+  const min = Number(range[1]);
+  const max = range[2] !== undefined ? Number(range[2]) : range[3] ? Infinity : min;
+  return { min, max };
+}
+
+/**
+ * Helper function to check whether an image suits a child's age
+ *
+ * Images with an age range that can't be read are treated as suitable.
+ */
+export function isAgeAppropriate(image: ImageMetadata, age: number): boolean {
+  const range = parseAgeRange(image.ageAppropriate);
+  return range === null || (age >= range.min && age <= range.max);
+}
+
+/**
+ * Helper function to get the images that suit a child's age
+ */
+export function getImagesForAge(
+  metadata: ImageMetadataCollection,
+  age: number
+): ImageMetadata[] {
+  return metadata.images.filter((img) => isAgeAppropriate(img, age));
+}
@@ -9,27 +9,36 @@ export type { MessageRole, ToolCall, Message, ConversationMessage, ConversationS
 export type { ConversationStatus, EffectType, VisualEffect, UIState } from './ui';
 
 // Configuration types
-export type { LLMProvider, VoiceProvider, ConversationConfig, LLMConfig, STTConfig, TTSConfig } from './config';
+export type { LLMProvider, VoiceProvider, STTProvider, ConversationStyle, ConversationConfig, LLMConfig, STTConfig, EndpointingConfig, TTSConfig, ModelPrice, PriceTable } from './config';
 
 // Service types
 export type {
   Tool,
   AIResponse,
+  TokenUsage,
   LLMClient,
+  LLMProviderAdapter,
+  LLMProviderDefinition,
   TranscriptResult,
   SpeechToTextHandler,
   SpeechSegment,
   TextToSpeechHandler,
+  WordBoundary,
+  SessionQuery,
+  SessionStore,
 } from './services';
 
 // Tool types
-export type { ToolDefinition } from './tool';
+export type { ToolArgumentError, ToolDefinition, ToolResult } from './tool';
 
 // Session types
-export type { SessionStatus, SessionState } from './session';
+export type { SessionStatus, SessionState, SessionUsage } from './session';
+
+// Transcript types
+export type { Transcript, TranscriptSpeaker, TranscriptToolUse, TranscriptTurn } from './transcript';
 
 // Image types
-export type { ImageContext } from './image';
+export type { ImageContext, ImageRegion, RegionBox } from './image';
 
 // Error types
 export type { ErrorRecoveryStrategy } from './error';
@@ -2,7 +2,9 @@
  * Message and conversation-related type definitions
  */
 
-export type MessageRole = 'system' | 'user' | 'assistant';
+import type { SessionStatus, SessionUsage } from './session';
+
+export type MessageRole = 'system' | 'user' | 'assistant' | 'tool';
 
 export interface ToolCall {
   id: string;
@@ -15,6 +17,14 @@ export interface Message {
   content: string;
   timestamp: number;
   toolCalls?: ToolCall[];
+  /** For tool messages: id of the tool call this message answers */
+  toolCallId?: string;
+  /** For assistant messages: the child interrupted, so content is only the part that was spoken */
+  truncated?: boolean;
+  /** For assistant messages: moderation replaced a flagged part with a safe redirect */
+  moderated?: boolean;
+  /** For user messages: pictures for vision-capable models, as data URLs */
+  images?: string[];
 }
 
 export interface ConversationMessage {
@@ -33,7 +43,19 @@ export interface ConversationSession {
   sessionId: string;
   startTime: number;
   messages: Message[];
+  /** Picture URL, or the picture's id when it has one (an upload's data URL is never saved) */
   imageContext: string;
   durationMs: number;
   toolCallCount: number;
+  /** Picture the conversation is about */
+  imageId: string;
+  /** Child the conversation was with, when profiles are in use */
+  childProfileId?: string;
+  status: SessionStatus;
+  targetDurationMs: number;
+  messageCount: number;
+  /** Tokens and cost of the session's LLM requests */
+  usage?: SessionUsage;
+  /** When the session was last saved */
+  updatedAt: number;
 }
@@ -2,8 +2,8 @@
  * Service interface definitions for LLM, STT, and TTS
  */
 
-import type { Message, ToolCall } from './message';
-import type { LLMConfig, STTConfig, TTSConfig } from './config';
+import type { ConversationSession, Message, ToolCall } from './message';
+import type { LLMConfig, LLMProvider, STTConfig, TTSConfig } from './config';
 
 // LLM Client interfaces
 export interface Tool {
@@ -12,16 +12,50 @@ export interface Tool {
   parameters: object;
 }
 
+/**
+ * Tokens a completion used, as reported by the provider
+ */
+export interface TokenUsage {
+  /** Model that answered, as reported by the provider */
+  model: string;
+  /** Input tokens, including cached ones */
+  promptTokens: number;
+  completionTokens: number;
+  /** Input tokens served from the provider's prompt cache, billed at a lower rate */
+  cachedTokens: number;
+}
+
 export interface AIResponse {
   content: string;
   toolCalls: ToolCall[];
   finishReason: 'stop' | 'length' | 'tool_calls';
+  /** Token usage; when streaming, only set once the provider reports it at the end */
+  usage?: TokenUsage;
 }
 
 export interface LLMClient {
   initialize(config: LLMConfig): void;
   sendMessage(messages: Message[], tools: Tool[]): Promise<AIResponse>;
-  streamMessage(messages: Message[], tools: Tool[]): AsyncGenerator<AIResponse>;
+  streamMessage(messages: Message[], tools: Tool[], signal?: AbortSignal): AsyncGenerator<AIResponse>;
+}
+
+// LLM provider adapter interfaces
+export interface LLMProviderAdapter {
+  sendMessage(systemPrompt: string, messages: Message[], tools: Tool[]): Promise<AIResponse>;
+  streamMessage(systemPrompt: string, messages: Message[], tools: Tool[], signal?: AbortSignal): AsyncGenerator<AIResponse>;
+}
+
+export interface LLMProviderDefinition {
+  id: LLMProvider;
+  label: string;
+  requiresApiKey: boolean;
+  defaultModel: string;
+  env: {
+    apiKey?: string;
+    model: string;
+    baseUrl: string;
+  };
+  createAdapter(config: LLMConfig): LLMProviderAdapter;
 }
 
 // Speech-to-Text interfaces
@@ -37,6 +71,28 @@ export interface SpeechToTextHandler {
   stopListening(): void;
   onTranscript(callback: (result: TranscriptResult) => void): void;
   onError(callback: (error: Error) => void): void;
+  isCurrentlyListening(): boolean;
+}
+
+// Session persistence interfaces
+export interface SessionQuery {
+  /** Sessions started at or after this time (ms since epoch) */
+  from?: number;
+  /** Sessions started at or before this time (ms since epoch) */
+  to?: number;
+  imageId?: string;
+  childProfileId?: string;
+  /** Maximum number of sessions to return */
+  limit?: number;
+}
+
+export interface SessionStore {
+  /** Insert or replace a session */
+  save(session: ConversationSession): Promise<void>;
+  get(sessionId: string): Promise<ConversationSession | null>;
+  /** Sessions matching every given criterion, newest first */
+  query(query?: SessionQuery): Promise<ConversationSession[]>;
+  delete(sessionId: string): Promise<void>;
 }
 
 // Text-to-Speech interfaces
@@ -45,12 +101,23 @@ export interface SpeechSegment {
   audioUrl?: string;
 }
 
+/**
+ * The word about to be spoken, for live captions
+ */
+export interface WordBoundary {
+  /** Full text of the current speak() call */
+  text: string;
+  charIndex: number;
+  charLength: number;
+}
+
 export interface TextToSpeechHandler {
   initialize(config: TTSConfig): Promise<void>;
   speak(text: string): Promise<void>;
   stop(): void;
   onSpeechStart(callback: () => void): void;
   onSpeechEnd(callback: () => void): void;
+  onWordBoundary(callback: (boundary: WordBoundary) => void): void;
   onError(callback: (error: Error) => void): void;
   onFallback(callback: (text: string) => void): void;
 }
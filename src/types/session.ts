@@ -2,7 +2,23 @@
  * Session state management type definitions
  */
 
-export type SessionStatus = 'idle' | 'initializing' | 'active' | 'wrapping_up' | 'completed';
+export type SessionStatus = 'idle' | 'initializing' | 'active' | 'paused' | 'wrapping_up' | 'completed';
+
+/**
+ * Token usage and cost of a session's LLM requests so far
+ */
+export interface SessionUsage {
+  /** Completions that reported usage */
+  requests: number;
+  /** Input tokens, including cached ones */
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  /** Cost in US dollars of the requests whose model has a price */
+  costUsd: number;
+  /** Models that answered but have no price, so their cost is missing from costUsd */
+  unpricedModels: string[];
+}
 
 export interface SessionState {
   sessionId: string;
@@ -12,5 +28,7 @@ export interface SessionState {
   targetDurationMs: number;
   messageCount: number;
   toolCallCount: number;
+  /** Tokens and cost so far; missing for sessions saved before usage was tracked */
+  usage?: SessionUsage;
   imageContext: string;
 }
@@ -2,6 +2,26 @@
  * Tool registry and definition type definitions
  */
 
+/**
+ * A single problem found while validating tool call arguments
+ */
+export interface ToolArgumentError {
+  /** Argument name, or "(arguments)" when the arguments as a whole are invalid */
+  argument: string;
+  message: string;
+}
+
+/**
+ * Structured outcome of a tool call, sent back to the model as a tool message
+ */
+export interface ToolResult {
+  status: 'success' | 'error' | 'timeout';
+  data?: Record<string, unknown>;
+  error?: string;
+  /** Present when the call was rejected before running because its arguments were invalid */
+  invalidArguments?: ToolArgumentError[];
+}
+
 export interface ToolDefinition {
   name: string;
   description: string;
@@ -10,5 +30,5 @@ export interface ToolDefinition {
     properties: Record<string, any>;
     required: string[];
   };
-  handler: (args: any) => Promise<void>;
+  handler: (args: any) => Promise<ToolResult | void>;
 }
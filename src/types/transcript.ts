@@ -0,0 +1,52 @@
+/**
+ * Conversation transcript type definitions
+ */
+
+import type { SessionStatus, SessionUsage } from './session';
+import type { ToolResult } from './tool';
+
+/**
+ * Version of the exported transcript JSON. Bump when a field changes
+ * meaning or is removed; adding optional fields keeps the version.
+ */
+export const TRANSCRIPT_SCHEMA_VERSION = 1;
+
+export type TranscriptSpeaker = 'child' | 'ai';
+
+/**
+ * A visual-effect tool the AI used during a turn
+ */
+export interface TranscriptToolUse {
+  name: string;
+  arguments: object;
+  /** Outcome of the call, when it was recorded */
+  status?: ToolResult['status'];
+}
+
+export interface TranscriptTurn {
+  speaker: TranscriptSpeaker;
+  text: string;
+  timestamp: number;
+  /** Time since the conversation started */
+  offsetMs: number;
+  /** The child interrupted, so the text is only the part that was spoken */
+  truncated?: boolean;
+  /** Tools fired during the turn, in call order; always empty for the child */
+  tools: TranscriptToolUse[];
+}
+
+export interface Transcript {
+  schemaVersion: typeof TRANSCRIPT_SCHEMA_VERSION;
+  sessionId: string;
+  /** Picture the conversation was about */
+  imageUrl: string;
+  childProfileId?: string;
+  status: SessionStatus;
+  startTime: number;
+  durationMs: number;
+  targetDurationMs: number;
+  exportedAt: number;
+  /** Tokens and cost of the session's LLM requests, when they were tracked */
+  usage?: SessionUsage;
+  turns: TranscriptTurn[];
+}
@@ -2,7 +2,7 @@
  * UI state and visual effect type definitions
  */
 
-export type ConversationStatus = 'idle' | 'initializing' | 'active' | 'completed' | 'error';
+export type ConversationStatus = 'idle' | 'initializing' | 'active' | 'paused' | 'wrapping_up' | 'completed' | 'error';
 
 export type ConnectionStatus = 'online' | 'offline' | 'reconnecting';
 
@@ -22,12 +22,23 @@ export interface VisualEffect {
   endTime?: number;
 }
 
+/**
+ * What the AI is saying, with the word being spoken
+ */
+export interface SpokenCaption {
+  text: string;
+  charIndex: number;
+  charLength: number;
+}
+
 export interface UIState {
   conversationStatus: ConversationStatus;
   elapsedTime: number;
   isAISpeaking: boolean;
   isUserSpeaking: boolean;
   currentTranscript: string;
+  /** Live caption while the AI speaks; null when the voice reports no word boundaries */
+  spokenCaption: SpokenCaption | null;
   visualEffects: VisualEffect[];
   errorMessage?: string;
   connectionStatus: ConnectionStatus;
@@ -293,6 +293,7 @@ describe('Error types', () => {
       'network_offline',
       'tool_execution_error',
       'conversation_error',
+      'storage_error',
       'unknown_error',
     ] as const;
 
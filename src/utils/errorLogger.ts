@@ -22,6 +22,8 @@ export type ErrorType =
   | 'network_offline'
   | 'tool_execution_error'
   | 'conversation_error'
+  | 'storage_error'
+  | 'content_flagged'
   | 'unknown_error';
 
 export interface ErrorContext {
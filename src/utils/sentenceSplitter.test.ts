@@ -0,0 +1,37 @@
+/**
+ * Tests for streamed text sentence splitting
+ * Requirements: 9.2
+ */
+
+import { splitCompleteSentences } from './sentenceSplitter';
+
+describe('splitCompleteSentences', () => {
+  it('should return complete sentences and keep the unfinished tail', () => {
+    const result = splitCompleteSentences('Look at the elephant! It is so bi');
+
+    expect(result.sentences).toEqual(['Look at the elephant!']);
+    expect(result.remainder).toBe(' It is so bi');
+  });
+
+  it('should hold back a sentence until whitespace follows its punctuation', () => {
+    expect(splitCompleteSentences('What do you see?').sentences).toEqual([]);
+    expect(splitCompleteSentences('What do you see? ').sentences).toEqual(['What do you see?']);
+  });
+
+  it('should split several sentences and keep closing quotes', () => {
+    const result = splitCompleteSentences('Wow!! The duck says "quack." Can you say it? ');
+
+    expect(result.sentences).toEqual(['Wow!!', 'The duck says "quack."', 'Can you say it?']);
+    expect(result.remainder).toBe(' ');
+  });
+
+  it('should not split on decimals or common abbreviations', () => {
+    const result = splitCompleteSentences('Dr. Giraffe is 5.5 meters tall. ');
+
+    expect(result.sentences).toEqual(['Dr. Giraffe is 5.5 meters tall.']);
+  });
+
+  it('should return no sentences for empty text', () => {
+    expect(splitCompleteSentences('')).toEqual({ sentences: [], remainder: '' });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Sentence splitting for streamed text
+ *
+ * Splits partially streamed LLM output into sentences that are complete and
+ * safe to hand to text-to-speech, keeping the unfinished tail for later.
+ * A sentence counts as complete only once whitespace follows its closing
+ * punctuation, so "Wow!" is held back until we know "Wow!!" or "3.5" isn't
+ * still arriving.
+ *
+ * Requirements: 9.2 (response latency)
+ */
+
+export interface SentenceSplit {
+  sentences: string[];
+  remainder: string;
+}
+
+// Closing punctuation, optional closing quotes/brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s)/g;
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'st', 'vs', 'etc', 'e.g', 'i.e']);
+
+/**
+ * Split text into complete sentences and an unfinished remainder
+ *
+ * @param text - Text received so far
+ * @returns Complete, trimmed sentences in order and the text after the last one
+ *
+ * @example
+ * ```typescript
+ * splitCompleteSentences('Look at the elephant! It is so bi');
+ * // { sentences: ['Look at the elephant!'], remainder: ' It is so bi' }
+ * ```
+ */
+export function splitCompleteSentences(text: string): SentenceSplit {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+
+    if (match[0] === '.' && isAbbreviation(text.slice(start, match.index))) {
+      continue;
+    }
+
+    const sentence = text.slice(start, end).trim();
+    if (sentence.length > 0) {
+      sentences.push(sentence);
+    }
+    start = end;
+  }
+
+  return { sentences, remainder: text.slice(start) };
+}
+
+function isAbbreviation(textBeforePeriod: string): boolean {
+  const lastWord = textBeforePeriod.split(/\s+/).pop() ?? '';
+  return ABBREVIATIONS.has(lastWord.toLowerCase());
+}
@@ -0,0 +1,31 @@
+/**
+ * Tests for token estimation
+ */
+
+import { estimateMessageTokens, estimateTokens, estimateToolTokens } from './tokenEstimator';
+
+describe('tokenEstimator', () => {
+  it('should estimate about four characters per token, rounding up', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Look at the elephant!')).toBe(6);
+  });
+
+  it('should count tool calls, pictures and message framing', () => {
+    const plain = estimateMessageTokens({ role: 'user', content: 'Hi!!', timestamp: 0 });
+    const withToolCall = estimateMessageTokens({
+      role: 'assistant',
+      content: 'Hi!!',
+      timestamp: 0,
+      toolCalls: [{ id: 'call_1', name: 'zoom', arguments: { level: 'in' } }],
+    });
+    const withImage = estimateMessageTokens({ role: 'user', content: 'Hi!!', timestamp: 0, images: ['data:image/png;base64,'] });
+
+    expect(plain).toBe(5);
+    expect(withToolCall).toBe(5 + 1 + 4);
+    expect(withImage).toBe(1005);
+  });
+
+  it('should count tool names, descriptions and parameter schemas', () => {
+    expect(estimateToolTokens([{ name: 'zoom', description: 'Zoom in', parameters: {} }])).toBe(1 + 2 + 1);
+  });
+});
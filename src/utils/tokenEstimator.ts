@@ -0,0 +1,60 @@
+/**
+ * Token estimation for LLM requests
+ *
+ * A rough, tokenizer-free count, good enough to keep requests inside a
+ * budget: English text averages about four characters per token across the
+ * OpenAI and Anthropic tokenizers. Estimates round up so the budget errs on
+ * the safe side.
+ */
+
+import type { Message } from '../types/message';
+import type { Tool } from '../types/services';
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Framing the APIs add around every message (role, separators)
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Cost of one attached picture; providers charge per image tile, and this
+ * covers a typical photo at the detail level vision models use by default
+ */
+const IMAGE_TOKENS = 1000;
+
+/**
+ * Estimate the tokens in a piece of text
+ *
+ * @example
+ * ```typescript
+ * estimateTokens('Look at the elephant!'); // 6
+ * ```
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the tokens a message takes up in a request, including its tool
+ * calls and pictures
+ */
+export function estimateMessageTokens(message: Message): number {
+  const toolCallTokens = (message.toolCalls ?? []).reduce(
+    (total, toolCall) => total + estimateTokens(toolCall.name) + estimateTokens(JSON.stringify(toolCall.arguments)),
+    0
+  );
+  const imageTokens = (message.images?.length ?? 0) * IMAGE_TOKENS;
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content) + toolCallTokens + imageTokens;
+}
+
+/**
+ * Estimate the tokens the tool definitions sent with every request take up
+ */
+export function estimateToolTokens(tools: Tool[]): number {
+  return tools.reduce(
+    (total, tool) =>
+      total + estimateTokens(tool.name) + estimateTokens(tool.description) + estimateTokens(JSON.stringify(tool.parameters)),
+    0
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for word positions and timings
+ */
+
+import { estimateWordTimings, splitWords, wordLengthAt, wordTimingsFromCharacters } from './wordTimings';
+
+describe('wordTimings', () => {
+  it('should find words and their positions', () => {
+    expect(splitWords('  Look, an elephant! ')).toEqual([
+      { charIndex: 2, charLength: 5 },
+      { charIndex: 8, charLength: 2 },
+      { charIndex: 11, charLength: 9 },
+    ]);
+    expect(splitWords('')).toEqual([]);
+  });
+
+  it('should measure the word at a position', () => {
+    expect(wordLengthAt('Look, an elephant!', 9)).toBe(9);
+    expect(wordLengthAt('Look', 4)).toBe(0);
+  });
+
+  it('should take word start times from their first character', () => {
+    expect(wordTimingsFromCharacters('Hi you', [0, 0.1, 0.2, 0.3, 0.4, 0.5])).toEqual([
+      { charIndex: 0, charLength: 2, startTime: 0 },
+      { charIndex: 3, charLength: 3, startTime: 0.3 },
+    ]);
+  });
+
+  it('should spread estimated timings over the audio by word length', () => {
+    const timings = estimateWordTimings('a bbb', 3);
+
+    expect(timings.map(timing => timing.startTime)).toEqual([0, 1]);
+  });
+});
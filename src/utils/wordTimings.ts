@@ -0,0 +1,82 @@
+/**
+ * Word positions and timings for live captions
+ *
+ * Captions highlight the word being spoken. Browser speech synthesis reports
+ * word boundaries itself; for audio voices the timings come from the provider
+ * (character alignments) or are estimated from the audio length.
+ *
+ * Requirements: 4.1 (text-to-speech conversion)
+ */
+
+export interface WordSpan {
+  /** Offset of the word in the spoken text */
+  charIndex: number;
+  charLength: number;
+}
+
+export interface WordTiming extends WordSpan {
+  /** Seconds into the audio where the word starts */
+  startTime: number;
+}
+
+const WORD = /\S+/g;
+
+/**
+ * Find the words in a text
+ *
+ * @param text - Spoken text
+ * @returns Whitespace-separated words in order
+ *
+ * @example
+ * ```typescript
+ * splitWords('Look, an elephant!');
+ * // [{ charIndex: 0, charLength: 5 }, { charIndex: 6, charLength: 2 }, { charIndex: 9, charLength: 9 }]
+ * ```
+ */
+export function splitWords(text: string): WordSpan[] {
+  return Array.from(text.matchAll(WORD), match => ({ charIndex: match.index, charLength: match[0].length }));
+}
+
+/**
+ * Length of the word starting at a character offset
+ *
+ * Some browsers leave `charLength` out of boundary events.
+ */
+export function wordLengthAt(text: string, charIndex: number): number {
+  const match = /^\S+/.exec(text.slice(charIndex));
+  return match ? match[0].length : 0;
+}
+
+/**
+ * Word start times from per-character start times
+ *
+ * @param text - Spoken text, one entry per character in `characterStartTimes`
+ * @param characterStartTimes - Seconds at which each character starts
+ */
+export function wordTimingsFromCharacters(text: string, characterStartTimes: number[]): WordTiming[] {
+  return splitWords(text).map(word => ({
+    ...word,
+    startTime: characterStartTimes[word.charIndex] ?? characterStartTimes[characterStartTimes.length - 1] ?? 0,
+  }));
+}
+
+/**
+ * Estimate word start times when the voice reports none
+ *
+ * Spreads the audio over the words in proportion to their length,
+ * counting the space after each word.
+ *
+ * @param text - Spoken text
+ * @param durationSeconds - Length of the audio
+ */
+export function estimateWordTimings(text: string, durationSeconds: number): WordTiming[] {
+  const words = splitWords(text);
+  const totalWeight = words.reduce((sum, word) => sum + word.charLength + 1, 0);
+  let elapsedWeight = 0;
+
+  return words.map(word => {
+    const startTime = totalWeight > 0 ? (elapsedWeight / totalWeight) * durationSeconds : 0;
+    elapsedWeight += word.charLength + 1;
+    return { ...word, startTime };
+  });
+}